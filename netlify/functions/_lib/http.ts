@@ -0,0 +1,268 @@
+import crypto from "crypto";
+import type {
+  FunctionEnvelope,
+  FunctionError,
+  FunctionErrorCode,
+} from "../../../src/lib/functionEnvelope";
+import type { Schema } from "./schema";
+
+/**
+ * The small framework every function in netlify/functions is built on:
+ *
+ *   export const handler = defineFunction({
+ *     name: "song-audio",
+ *     routes: {
+ *       POST: route({ body: Body, handle: async ({ body, event }) => ({ url }) }),
+ *     },
+ *   });
+ *
+ * It routes by HTTP method (405 otherwise), parses and validates the JSON body
+ * (see ./schema), answers CORS preflights, logs one JSON line per request, and
+ * wraps whatever the handler returns as { ok: true, data }. Anything thrown
+ * becomes { ok: false, error: { code, message } } (src/lib/functionEnvelope.ts):
+ * an HttpError keeps its status and message, anything else is a logged 500.
+ */
+
+export type FunctionEvent = {
+  httpMethod: string;
+  body: string | null;
+  isBase64Encoded?: boolean;
+  headers: Record<string, string | undefined>;
+};
+
+export type FunctionResponse = {
+  statusCode: number;
+  headers: Record<string, string>;
+  body: string;
+  isBase64Encoded?: boolean;
+};
+
+type Method = "GET" | "POST";
+
+const METHODS: Method[] = ["GET", "POST"];
+
+/** Thrown by handlers for anything the caller did wrong; the message is shown to them. */
+export class HttpError extends Error {
+  status: number;
+  code: FunctionErrorCode;
+  details?: unknown;
+
+  constructor(status: number, code: FunctionErrorCode, message: string, details?: unknown) {
+    super(message);
+    this.name = "HttpError";
+    this.status = status;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+/** A non-JSON answer (a PDF, say) passed through untouched. */
+export class RawResponse {
+  statusCode: number;
+  headers: Record<string, string>;
+  body: string;
+  isBase64Encoded: boolean;
+
+  constructor(statusCode: number, headers: Record<string, string>, body: string | Uint8Array) {
+    this.statusCode = statusCode;
+    this.headers = headers;
+    this.isBase64Encoded = typeof body !== "string";
+    this.body = typeof body === "string" ? body : Buffer.from(body).toString("base64");
+  }
+}
+
+type LogFields = Record<string, unknown>;
+
+export type Logger = {
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+};
+
+function createLogger(base: LogFields): Logger {
+  const write = (level: "info" | "warn" | "error", message: string, fields?: LogFields) => {
+    const line = JSON.stringify({ time: new Date().toISOString(), level, ...base, message, ...fields });
+    if (level === "error") console.error(line);
+    else if (level === "warn") console.warn(line);
+    else console.log(line);
+  };
+  return {
+    info: (message, fields) => write("info", message, fields),
+    warn: (message, fields) => write("warn", message, fields),
+    error: (message, fields) => write("error", message, fields),
+  };
+}
+
+export type RequestContext<B> = {
+  event: FunctionEvent;
+  /** The validated body; undefined when the route has no schema */
+  body: B;
+  /** The JSON as sent, for fields a lib checks itself */
+  json: unknown;
+  /** The body text, decoded if it came base64-encoded (webhook signatures need it) */
+  rawBody: string;
+  requestId: string;
+  log: Logger;
+};
+
+export type Route<B, T> = {
+  body?: Schema<B>;
+  handle(ctx: RequestContext<B>): Promise<T | RawResponse>;
+};
+
+type AnyRoute = {
+  body?: Schema<unknown>;
+  handle(ctx: RequestContext<unknown>): Promise<unknown>;
+};
+
+/** Ties a route's body schema to its handler, so `ctx.body` is typed. */
+export function route<B = undefined, T = unknown>(r: Route<B, T>): AnyRoute {
+  return r as unknown as AnyRoute;
+}
+
+export type FunctionSpec = {
+  /** Used in logs and in the message of unexpected 500s */
+  name: string;
+  routes: Partial<Record<Method, AnyRoute>>;
+  /**
+   * Who may call this from another origin: "site" (default) is this site's own
+   * deploy URLs plus CORS_ALLOWED_ORIGINS; "public" is anyone; false sends no
+   * CORS headers at all (server-to-server webhooks).
+   */
+  cors?: "site" | "public" | false;
+  /** Turns errors from shared code (a payment provider, say) into HttpErrors */
+  mapError?: (err: unknown) => HttpError | null;
+};
+
+/** Header lookup that doesn't care how the client capitalised it. */
+export function header(event: FunctionEvent, name: string): string | undefined {
+  const wanted = name.toLowerCase();
+  for (const [key, value] of Object.entries(event.headers ?? {})) {
+    if (key.toLowerCase() === wanted) return value;
+  }
+  return undefined;
+}
+
+/** The token from an `Authorization: Bearer …` header, or "". */
+export function bearerToken(event: FunctionEvent): string {
+  return (header(event, "authorization") ?? "").replace(/^Bearer\s+/i, "").trim();
+}
+
+function siteOrigins(): string[] {
+  const origins = [
+    process.env.URL,
+    process.env.DEPLOY_PRIME_URL,
+    process.env.DEPLOY_URL,
+    ...(process.env.CORS_ALLOWED_ORIGINS ?? "").split(","),
+  ];
+  if (process.env.NETLIFY_DEV === "true") origins.push("http://localhost:8888", "http://localhost:5173");
+  return origins.map((o) => (o ?? "").trim().replace(/\/$/, "")).filter(Boolean);
+}
+
+function corsHeaders(spec: FunctionSpec, event: FunctionEvent): Record<string, string> {
+  const mode = spec.cors ?? "site";
+  if (mode === false) return {};
+  if (mode === "public") return { "Access-Control-Allow-Origin": "*" };
+
+  const origin = header(event, "origin");
+  if (!origin || !siteOrigins().includes(origin)) return { Vary: "Origin" };
+  return { "Access-Control-Allow-Origin": origin, Vary: "Origin" };
+}
+
+function readRawBody(event: FunctionEvent): string {
+  return event.isBase64Encoded ? Buffer.from(event.body || "", "base64").toString("utf8") : event.body || "";
+}
+
+function readJson(rawBody: string): unknown {
+  if (!rawBody.trim()) return {};
+  try {
+    return JSON.parse(rawBody);
+  } catch {
+    throw new HttpError(400, "invalid_body", "Invalid JSON body");
+  }
+}
+
+export function defineFunction(spec: FunctionSpec) {
+  const allowed = METHODS.filter((m) => spec.routes[m]);
+
+  return async (event: FunctionEvent): Promise<FunctionResponse> => {
+    const started = Date.now();
+    const requestId = header(event, "x-nf-request-id") || crypto.randomUUID();
+    const log = createLogger({ fn: spec.name, request_id: requestId });
+    const cors = corsHeaders(spec, event);
+
+    const send = (statusCode: number, envelope: FunctionEnvelope<unknown>): FunctionResponse => ({
+      statusCode,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-store",
+        "X-Request-Id": requestId,
+        ...cors,
+      },
+      body: JSON.stringify(envelope),
+    });
+
+    const finish = (response: FunctionResponse, code?: FunctionErrorCode) => {
+      const fields = { method: event.httpMethod, status: response.statusCode, ms: Date.now() - started, code };
+      if (response.statusCode >= 500) log.error("request failed", fields);
+      else if (response.statusCode >= 400) log.warn("request rejected", fields);
+      else log.info("request handled", fields);
+      return response;
+    };
+
+    if (event.httpMethod === "OPTIONS" && spec.cors !== false) {
+      return finish({
+        statusCode: 204,
+        headers: {
+          ...cors,
+          "Access-Control-Allow-Methods": [...allowed, "OPTIONS"].join(", "),
+          "Access-Control-Allow-Headers": "Content-Type, Authorization",
+          "Access-Control-Max-Age": "86400",
+        },
+        body: "",
+      });
+    }
+
+    try {
+      const r = spec.routes[event.httpMethod as Method];
+      if (!r) {
+        throw new HttpError(405, "method_not_allowed", `Use ${allowed.join(" or ")}`);
+      }
+
+      const rawBody = event.httpMethod === "GET" ? "" : readRawBody(event);
+      const json = r.body ? readJson(rawBody) : undefined;
+      const body = r.body ? r.body.parse(json) : undefined;
+
+      const result = await r.handle({ event, body, json, rawBody, requestId, log });
+      if (result instanceof RawResponse) {
+        return finish({
+          statusCode: result.statusCode,
+          headers: { "X-Request-Id": requestId, ...cors, ...result.headers },
+          body: result.body,
+          isBase64Encoded: result.isBase64Encoded,
+        });
+      }
+      return finish(send(200, { ok: true, data: result }));
+    } catch (err) {
+      const known = err instanceof HttpError ? err : spec.mapError?.(err) ?? null;
+      if (known) {
+        const error: FunctionError = { code: known.code, message: known.message, request_id: requestId };
+        if (known.details !== undefined) error.details = known.details;
+        return finish(send(known.status, { ok: false, error }), known.code);
+      }
+
+      // Supabase errors are plain objects with a message, not Errors
+      log.error("unhandled error", {
+        error: (err as { message?: string })?.message || String(err),
+        stack: err instanceof Error ? err.stack : undefined,
+      });
+      return finish(
+        send(500, {
+          ok: false,
+          error: { code: "internal", message: `Internal Server Error in ${spec.name}`, request_id: requestId },
+        }),
+        "internal"
+      );
+    }
+  };
+}
@@ -0,0 +1,155 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from "pdf-lib";
+import { formatInvoiceAmount, SELLER, VAT_RATE, type Invoice } from "../../../src/lib/invoices";
+
+/**
+ * A4 PDF of an invoice, laid out like the printable page (src/pages/Invoice.tsx).
+ * Uses the standard Helvetica fonts, so anything outside WinAnsi is replaced.
+ */
+
+const A4: [number, number] = [595.28, 841.89];
+const MARGIN = 50;
+const INK = rgb(0.1, 0.1, 0.1);
+const MUTED = rgb(0.45, 0.45, 0.45);
+const RULE = rgb(0.85, 0.85, 0.85);
+
+// Columns: description | qty | unit | discount | amount (right edges for numbers)
+const COL = { qty: 330, unit: 410, discount: 475, amount: A4[0] - MARGIN };
+
+const WIN_ANSI_EXTRAS = "•–—‘’“”…€";
+
+function pdfSafe(text: string): string {
+  return Array.from(text.replace(/[\u2009\u202f]/g, " "))
+    .map((ch) => {
+      const code = ch.charCodeAt(0);
+      return (code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff) || WIN_ANSI_EXTRAS.includes(ch)
+        ? ch
+        : "?";
+    })
+    .join("");
+}
+
+/** Cuts `text` with an ellipsis so it fits in `width` points. */
+function fit(text: string, font: PDFFont, size: number, width: number): string {
+  let out = pdfSafe(text);
+  if (font.widthOfTextAtSize(out, size) <= width) return out;
+  while (out.length > 1 && font.widthOfTextAtSize(`${out}…`, size) > width) out = out.slice(0, -1);
+  return `${out}…`;
+}
+
+export async function renderInvoicePdf(invoice: Invoice): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  doc.setTitle(`${invoice.number} – ${SELLER.name}`);
+  doc.setAuthor(SELLER.name);
+  doc.setCreationDate(new Date(invoice.issued_at));
+
+  const regular = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+
+  let page: PDFPage = doc.addPage(A4);
+  let y = A4[1] - MARGIN;
+
+  const text = (value: string, x: number, opts: { size?: number; font?: PDFFont; color?: typeof INK } = {}) => {
+    const size = opts.size ?? 10;
+    page.drawText(pdfSafe(value), { x, y, size, font: opts.font ?? regular, color: opts.color ?? INK });
+  };
+  const right = (value: string, edge: number, opts: { size?: number; font?: PDFFont; color?: typeof INK } = {}) => {
+    const size = opts.size ?? 10;
+    const width = (opts.font ?? regular).widthOfTextAtSize(pdfSafe(value), size);
+    text(value, edge - width, opts);
+  };
+  const rule = () => {
+    page.drawLine({ start: { x: MARGIN, y }, end: { x: A4[0] - MARGIN, y }, thickness: 0.75, color: RULE });
+  };
+
+  // Header: seller on the left, invoice details on the right
+  text(SELLER.name, MARGIN, { size: 20, font: bold });
+  right("TAX INVOICE", COL.amount, { size: 16, font: bold });
+  y -= 18;
+  const sellerLines = [...SELLER.address, SELLER.email, SELLER.website];
+  if (SELLER.vat_number) sellerLines.push(`VAT no. ${SELLER.vat_number}`);
+  const detailLines = [
+    invoice.number,
+    `Date: ${new Date(invoice.issued_at).toLocaleDateString("en-ZA")}`,
+    `Order: ${invoice.order_id}`,
+  ];
+  for (let i = 0; i < Math.max(sellerLines.length, detailLines.length); i++) {
+    if (sellerLines[i]) text(sellerLines[i], MARGIN, { color: MUTED });
+    if (detailLines[i]) {
+      right(detailLines[i], COL.amount, i === 0 ? { size: 11, font: bold } : { size: 9, color: MUTED });
+    }
+    y -= 14;
+  }
+
+  // Bill to / ship to
+  y -= 16;
+  text("Bill to", MARGIN, { size: 9, font: bold, color: MUTED });
+  if (invoice.ship_to.length) text("Deliver to", 300, { size: 9, font: bold, color: MUTED });
+  y -= 14;
+  const billTo = [invoice.buyer_email ?? "Customer"];
+  for (let i = 0; i < Math.max(billTo.length, invoice.ship_to.length); i++) {
+    if (billTo[i]) text(billTo[i], MARGIN);
+    if (invoice.ship_to[i]) text(fit(invoice.ship_to[i], regular, 10, A4[0] - MARGIN - 300), 300);
+    y -= 14;
+  }
+
+  // Line items
+  y -= 16;
+  const head = { size: 9, font: bold, color: MUTED };
+  text("Description", MARGIN, head);
+  right("Qty", COL.qty, head);
+  right("Unit", COL.unit, head);
+  right("Discount", COL.discount, head);
+  right("Amount", COL.amount, head);
+  y -= 8;
+  rule();
+  y -= 16;
+
+  for (const line of invoice.lines) {
+    const rowHeight = line.detail ? 28 : 18;
+    if (y - rowHeight < MARGIN + 90) {
+      page = doc.addPage(A4);
+      y = A4[1] - MARGIN;
+    }
+
+    text(fit(line.description, bold, 10, COL.qty - MARGIN - 40), MARGIN, { font: bold });
+    right(String(line.quantity), COL.qty);
+    right(formatInvoiceAmount(line.unit_cents), COL.unit);
+    right(line.discount_cents ? `-${formatInvoiceAmount(line.discount_cents)}` : "", COL.discount);
+    right(formatInvoiceAmount(line.amount_cents), COL.amount);
+    if (line.detail) {
+      y -= 12;
+      text(fit(line.detail, regular, 8, COL.qty - MARGIN - 40), MARGIN, { size: 8, color: MUTED });
+    }
+    y -= 18;
+  }
+
+  // Totals
+  rule();
+  y -= 18;
+  const vatPercent = Math.round(VAT_RATE * 100);
+  const totals: [string, number][] = [
+    ["Total excl. VAT", invoice.excl_vat_cents],
+    [`VAT (${vatPercent}%)`, invoice.vat_cents],
+  ];
+  for (const [label, cents] of totals) {
+    right(label, COL.discount, { color: MUTED });
+    right(formatInvoiceAmount(cents), COL.amount);
+    y -= 16;
+  }
+  right("Total (incl. VAT)", COL.discount, { font: bold, size: 11 });
+  right(formatInvoiceAmount(invoice.total_cents), COL.amount, { font: bold, size: 11 });
+
+  // Footer on every page
+  for (const p of doc.getPages()) {
+    const note = `${invoice.number} • All amounts in ${invoice.currency || "ZAR"} and include VAT at ${vatPercent}%.`;
+    p.drawText(pdfSafe(note), {
+      x: MARGIN,
+      y: MARGIN / 2,
+      size: 8,
+      font: regular,
+      color: MUTED,
+    });
+  }
+
+  return doc.save();
+}
@@ -0,0 +1,277 @@
+import crypto from "crypto";
+
+/**
+ * Payment provider abstraction used by the checkout functions.
+ *
+ * PAYMENT_PROVIDER=yoco (default) talks to the Yoco Checkout API.
+ * PAYMENT_PROVIDER=fake never leaves the machine: it hands back the success URL
+ * directly, so the whole checkout flow can be exercised under `netlify dev`.
+ *
+ * Both providers sign webhooks the Standard Webhooks way (webhook-id,
+ * webhook-timestamp, webhook-signature headers), so fixtures can be replayed
+ * against the fake provider with scripts/replay-webhook.mjs.
+ */
+
+export type CheckoutSessionInput = {
+  orderId: string;
+  userId: string;
+  amountCents: number;
+  currency: "ZAR";
+  successUrl: string;
+  cancelUrl: string;
+  failureUrl: string;
+};
+
+export type CheckoutSession = {
+  id: string;
+  redirectUrl: string;
+};
+
+export type PaymentWebhookEvent = {
+  /** Provider event id — the idempotency key for the webhook. */
+  eventId: string;
+  type: "payment.succeeded" | "payment.failed" | "other";
+  rawType: string;
+  checkoutId: string | null;
+  orderId: string | null;
+  paymentId: string | null;
+  amountCents: number | null;
+  payload: unknown;
+};
+
+export type RefundInput = {
+  orderId: string;
+  /** The provider's id for the paid checkout (orders.provider_checkout_id) */
+  checkoutId: string;
+  amountCents: number;
+  /** Retrying with the same key never refunds twice */
+  idempotencyKey: string;
+};
+
+export type RefundResult = {
+  id: string | null;
+  status: string;
+};
+
+export interface PaymentProvider {
+  name: string;
+  createCheckout(input: CheckoutSessionInput): Promise<CheckoutSession>;
+  refund(input: RefundInput): Promise<RefundResult>;
+  /** Throws WebhookSignatureError unless the request was signed by the provider. */
+  parseWebhook(headers: Record<string, string | undefined>, rawBody: string): PaymentWebhookEvent;
+}
+
+export class PaymentProviderError extends Error {
+  status: number;
+  data: unknown;
+
+  constructor(message: string, status: number, data: unknown) {
+    super(message);
+    this.name = "PaymentProviderError";
+    this.status = status;
+    this.data = data;
+  }
+}
+
+export class WebhookSignatureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WebhookSignatureError";
+  }
+}
+
+const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+/** Standard Webhooks signature: base64(HMAC-SHA256(secret, `${id}.${timestamp}.${body}`)). */
+export function signWebhook(secret: string, id: string, timestamp: number, rawBody: string) {
+  const key = Buffer.from(secret.replace(/^whsec_/, ""), "base64");
+  return crypto.createHmac("sha256", key).update(`${id}.${timestamp}.${rawBody}`).digest("base64");
+}
+
+function verifyWebhookSignature(
+  secret: string,
+  headers: Record<string, string | undefined>,
+  rawBody: string
+) {
+  const id = headers["webhook-id"];
+  const timestamp = Number(headers["webhook-timestamp"]);
+  const signatures = headers["webhook-signature"];
+
+  if (!id || !Number.isFinite(timestamp) || !signatures) {
+    throw new WebhookSignatureError("Missing webhook signature headers");
+  }
+
+  const age = Math.abs(Date.now() / 1000 - timestamp);
+  if (age > WEBHOOK_TOLERANCE_SECONDS) {
+    throw new WebhookSignatureError("Webhook timestamp outside tolerance");
+  }
+
+  const expected = Buffer.from(signWebhook(secret, id, timestamp, rawBody));
+
+  // Header holds space-separated "v1,<sig>" entries (several during secret rotation)
+  const ok = signatures.split(" ").some((entry) => {
+    const [version, sig] = entry.split(",");
+    if (version !== "v1" || !sig) return false;
+    const given = Buffer.from(sig);
+    return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+  });
+
+  if (!ok) throw new WebhookSignatureError("Invalid webhook signature");
+}
+
+/**
+ * Yoco shape: { id, type: "payment.succeeded", payload: { id, amount, status, metadata: { checkoutId, order_id } } }
+ * The fake provider's fixtures use the same shape.
+ */
+function toWebhookEvent(rawBody: string): PaymentWebhookEvent {
+  let body;
+  try {
+    body = JSON.parse(rawBody);
+  } catch {
+    throw new WebhookSignatureError("Webhook body is not JSON");
+  }
+
+  const payload = body?.payload ?? {};
+  const metadata = payload?.metadata ?? {};
+  const rawType = String(body?.type ?? "");
+  const amount = Number(payload?.amount);
+
+  return {
+    eventId: String(body?.id ?? ""),
+    type:
+      rawType === "payment.succeeded" || rawType === "payment.failed" ? rawType : "other",
+    rawType,
+    checkoutId: metadata?.checkoutId ? String(metadata.checkoutId) : null,
+    orderId: metadata?.order_id ? String(metadata.order_id) : null,
+    paymentId: payload?.id ? String(payload.id) : null,
+    amountCents: Number.isFinite(amount) ? Math.round(amount) : null,
+    payload: body,
+  };
+}
+
+function parseSignedWebhook(
+  secret: string | undefined,
+  headers: Record<string, string | undefined>,
+  rawBody: string
+) {
+  if (!secret) throw new Error("Missing webhook secret env var");
+  verifyWebhookSignature(secret, headers, rawBody);
+
+  const event = toWebhookEvent(rawBody);
+  if (!event.eventId) throw new WebhookSignatureError("Webhook event has no id");
+  return event;
+}
+
+async function readJson(res: Response): Promise<unknown> {
+  const text = await res.text();
+  try {
+    return text ? JSON.parse(text) : null;
+  } catch {
+    return { rawText: text };
+  }
+}
+
+export function createYocoProvider(secretKey: string): PaymentProvider {
+  return {
+    name: "yoco",
+
+    async createCheckout(input) {
+      const res = await fetch("https://payments.yoco.com/api/checkouts", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${secretKey}`,
+          "Content-Type": "application/json",
+          // Yoco de-duplicates retries of the same order
+          "Idempotency-Key": input.orderId,
+        },
+        body: JSON.stringify({
+          amount: input.amountCents,
+          currency: input.currency,
+          successUrl: input.successUrl,
+          cancelUrl: input.cancelUrl,
+          failureUrl: input.failureUrl,
+          metadata: {
+            order_id: input.orderId,
+            user_id: input.userId,
+          },
+        }),
+      });
+
+      const data = (await readJson(res)) as { id?: string; redirectUrl?: string } | null;
+
+      if (!res.ok) {
+        throw new PaymentProviderError("Yoco create-checkout failed", res.status, data);
+      }
+      if (!data?.id || !data?.redirectUrl) {
+        throw new PaymentProviderError("Yoco response missing id or redirectUrl", 502, data);
+      }
+
+      return { id: data.id, redirectUrl: data.redirectUrl };
+    },
+
+    async refund(input) {
+      const res = await fetch(
+        `https://payments.yoco.com/api/checkouts/${encodeURIComponent(input.checkoutId)}/refund`,
+        {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${secretKey}`,
+            "Content-Type": "application/json",
+            "Idempotency-Key": input.idempotencyKey,
+          },
+          body: JSON.stringify({
+            amount: input.amountCents,
+            metadata: { order_id: input.orderId },
+          }),
+        }
+      );
+
+      const data = (await readJson(res)) as { refundId?: string; id?: string; status?: string } | null;
+
+      if (!res.ok) {
+        throw new PaymentProviderError("Yoco refund failed", res.status, data);
+      }
+
+      return { id: data?.refundId ?? data?.id ?? null, status: data?.status ?? "succeeded" };
+    },
+
+    parseWebhook(headers, rawBody) {
+      return parseSignedWebhook(process.env.YOCO_WEBHOOK_SECRET, headers, rawBody);
+    },
+  };
+}
+
+export function createFakeProvider(): PaymentProvider {
+  return {
+    name: "fake",
+
+    async createCheckout(input) {
+      return {
+        id: `fake_${crypto.randomUUID()}`,
+        redirectUrl: input.successUrl,
+      };
+    },
+
+    async refund() {
+      return { id: `fake_refund_${crypto.randomUUID()}`, status: "succeeded" };
+    },
+
+    parseWebhook(headers, rawBody) {
+      return parseSignedWebhook(process.env.FAKE_WEBHOOK_SECRET, headers, rawBody);
+    },
+  };
+}
+
+export function getPaymentProvider(): PaymentProvider {
+  const name = (process.env.PAYMENT_PROVIDER || "yoco").toLowerCase();
+
+  if (name === "fake") return createFakeProvider();
+
+  if (name === "yoco") {
+    const secretKey = process.env.YOCO_SECRET_KEY;
+    if (!secretKey) throw new Error("Missing YOCO_SECRET_KEY env var");
+    return createYocoProvider(secretKey);
+  }
+
+  throw new Error(`Unknown PAYMENT_PROVIDER "${name}"`);
+}
@@ -0,0 +1,140 @@
+import { HttpError } from "./http";
+
+/**
+ * Just enough schema validation for request bodies. A schema turns unknown
+ * JSON into a typed value or throws a ValidationError naming the field, which
+ * defineFunction answers as a 400 `invalid_body`.
+ *
+ *   const Body = s.object({ order_id: s.uuid(), reason: s.optional(s.string({ max: 500 })) });
+ *   type Body = Infer<typeof Body>;
+ */
+export type Schema<T> = {
+  parse(value: unknown, path?: string): T;
+  /** Set by s.optional: the key may be missing */
+  optional?: boolean;
+};
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+export class ValidationError extends HttpError {
+  constructor(path: string, problem: string) {
+    super(400, "invalid_body", path ? `${path}: ${problem}` : problem);
+    this.name = "ValidationError";
+  }
+}
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const describe = (value: unknown) => (value === null ? "null" : Array.isArray(value) ? "array" : typeof value);
+
+function string(opts: { max?: number; min?: number; trim?: boolean } = {}): Schema<string> {
+  return {
+    parse(value, path = "") {
+      if (typeof value !== "string") throw new ValidationError(path, `expected text, got ${describe(value)}`);
+      const text = opts.trim === false ? value : value.trim();
+      if (opts.min !== undefined && text.length < opts.min) {
+        throw new ValidationError(path, `must be at least ${opts.min} characters`);
+      }
+      if (opts.max !== undefined && text.length > opts.max) {
+        throw new ValidationError(path, `must be at most ${opts.max} characters`);
+      }
+      return text;
+    },
+  };
+}
+
+function uuid(): Schema<string> {
+  return {
+    parse(value, path = "") {
+      const text = string().parse(value, path);
+      if (!UUID_RE.test(text)) throw new ValidationError(path, "must be an id");
+      return text.toLowerCase();
+    },
+  };
+}
+
+function number(opts: { int?: boolean; min?: number; max?: number } = {}): Schema<number> {
+  return {
+    parse(value, path = "") {
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        throw new ValidationError(path, `expected a number, got ${describe(value)}`);
+      }
+      if (opts.int && !Number.isInteger(value)) throw new ValidationError(path, "must be a whole number");
+      if (opts.min !== undefined && value < opts.min) throw new ValidationError(path, `must be at least ${opts.min}`);
+      if (opts.max !== undefined && value > opts.max) throw new ValidationError(path, `must be at most ${opts.max}`);
+      return value;
+    },
+  };
+}
+
+function boolean(): Schema<boolean> {
+  return {
+    parse(value, path = "") {
+      if (typeof value !== "boolean") throw new ValidationError(path, `expected true or false, got ${describe(value)}`);
+      return value;
+    },
+  };
+}
+
+function oneOf<const T extends string>(values: readonly T[]): Schema<T> {
+  return {
+    parse(value, path = "") {
+      if (!values.includes(value as T)) throw new ValidationError(path, `must be one of ${values.join(", ")}`);
+      return value as T;
+    },
+  };
+}
+
+function array<T>(item: Schema<T>, opts: { max?: number } = {}): Schema<T[]> {
+  return {
+    parse(value, path = "") {
+      if (!Array.isArray(value)) throw new ValidationError(path, `expected a list, got ${describe(value)}`);
+      if (opts.max !== undefined && value.length > opts.max) {
+        throw new ValidationError(path, `send at most ${opts.max} at a time`);
+      }
+      return value.map((v, i) => item.parse(v, `${path}[${i}]`));
+    },
+  };
+}
+
+type Shape = Record<string, Schema<unknown>>;
+
+type ObjectOf<S extends Shape> = { [K in keyof S]: Infer<S[K]> };
+
+/** Unknown keys are dropped. */
+function object<S extends Shape>(shape: S): Schema<ObjectOf<S>> {
+  return {
+    parse(value, path = "") {
+      if (!value || typeof value !== "object" || Array.isArray(value)) {
+        throw new ValidationError(path, `expected an object, got ${describe(value)}`);
+      }
+      const input = value as Record<string, unknown>;
+      const out: Record<string, unknown> = {};
+      for (const [key, schema] of Object.entries(shape)) {
+        const field = path ? `${path}.${key}` : key;
+        if (input[key] === undefined) {
+          if (!schema.optional) throw new ValidationError(field, "is required");
+          continue;
+        }
+        out[key] = schema.parse(input[key], field);
+      }
+      return out as ObjectOf<S>;
+    },
+  };
+}
+
+/** Missing is fine; null still has to pass `inner` (wrap in s.nullable too for that). */
+function optional<T>(inner: Schema<T>): Schema<T | undefined> {
+  return { optional: true, parse: (value, path) => (value === undefined ? undefined : inner.parse(value, path)) };
+}
+
+function nullable<T>(inner: Schema<T>): Schema<T | null> {
+  return { optional: inner.optional, parse: (value, path) => (value === null ? null : inner.parse(value, path)) };
+}
+
+/** Passed through as is, for fields the function checks itself. */
+function unknown(): Schema<unknown> {
+  return { optional: true, parse: (value) => value };
+}
+
+export const s = { string, uuid, number, boolean, oneOf, array, object, optional, nullable, unknown };
@@ -0,0 +1,241 @@
+import { createClient } from "@supabase/supabase-js";
+import { getPaymentProvider, PaymentProviderError } from "./_lib/payments";
+import {
+  CANCELLABLE_STATUSES,
+  lineRefundCents,
+  REFUNDABLE_STATUSES,
+  type OrderStatus,
+  type RefundItem,
+} from "../../src/lib/refunds";
+import { bearerToken, defineFunction, HttpError, route, type FunctionEvent } from "./_lib/http";
+import { s, type Infer } from "./_lib/schema";
+
+const supabase = createClient(
+  process.env.SUPABASE_URL as string,
+  process.env.SUPABASE_SERVICE_ROLE_KEY as string
+);
+
+type OrderRow = {
+  id: string;
+  status: OrderStatus;
+  total_cents: number;
+  refunded_cents: number;
+  shipping_cents: number | null;
+  provider: string | null;
+  provider_checkout_id: string | null;
+};
+
+type OrderItemRow = {
+  id: string;
+  quantity: number;
+  price_cents: number;
+  discount_cents: number | null;
+  refunded_quantity: number;
+};
+
+/** Bad requests become a 400 with this message */
+class OrderActionError extends HttpError {
+  constructor(message: string) {
+    super(400, "bad_request", message);
+    this.name = "OrderActionError";
+  }
+}
+
+const REASON_MAX = 500;
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const Body = s.object({
+  action: s.oneOf(["cancel", "refund"]),
+  order_id: s.string(),
+  reason: s.optional(s.nullable(s.string())),
+  items: s.optional(s.array(s.object({ order_item_id: s.string(), quantity: s.number({ int: true, min: 0 }) }))),
+  include_shipping: s.optional(s.boolean()),
+  amount_cents: s.optional(s.nullable(s.number({ int: true }))),
+  restock: s.optional(s.boolean()),
+});
+
+type Body = Infer<typeof Body>;
+
+/** The caller's user id, if the Authorization token belongs to an admin. */
+async function adminId(event: FunctionEvent): Promise<string | null> {
+  const token = bearerToken(event);
+  if (!token) return null;
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) return null;
+
+  const { data: role } = await supabase
+    .from("user_roles")
+    .select("role")
+    .eq("user_id", data.user.id)
+    .eq("role", "admin")
+    .maybeSingle();
+  return role ? data.user.id : null;
+}
+
+async function loadOrder(order_id: string): Promise<OrderRow> {
+  if (!UUID_RE.test(order_id)) throw new OrderActionError("Order not found");
+
+  const { data, error } = await supabase
+    .from("orders")
+    .select("id, status, total_cents, refunded_cents, shipping_cents, provider, provider_checkout_id")
+    .eq("id", order_id)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) throw new OrderActionError("Order not found");
+  return data as OrderRow;
+}
+
+/** Only orders nobody paid for: pending checkouts and failed payments. */
+async function cancelOrder(order: OrderRow, reason: string | null, created_by: string) {
+  if (!CANCELLABLE_STATUSES.includes(order.status)) {
+    throw new OrderActionError("Paid orders are refunded, not cancelled");
+  }
+
+  const { data, error } = await supabase
+    .from("orders")
+    .update({ status: "cancelled" })
+    .eq("id", order.id)
+    .in("status", CANCELLABLE_STATUSES)
+    .select("id");
+  if (error) throw error;
+  if (!data?.length) throw new OrderActionError("The order changed in the meantime — reload and try again");
+
+  const { error: historyErr } = await supabase
+    .from("order_status_history")
+    .insert({ order_id: order.id, status: "cancelled", note: reason, created_by });
+  if (historyErr) throw historyErr;
+
+  return { status: "cancelled" as OrderStatus };
+}
+
+/** One entry per line, so a line named twice is checked against what's left once. */
+function readItems(raw: Body["items"]): RefundItem[] {
+  const quantities = new Map<string, number>();
+  for (const it of raw ?? []) {
+    if (!it.order_item_id || it.quantity <= 0) continue;
+    quantities.set(it.order_item_id, (quantities.get(it.order_item_id) ?? 0) + it.quantity);
+  }
+  return [...quantities].map(([order_item_id, quantity]) => ({ order_item_id, quantity }));
+}
+
+async function refundOrder(
+  order: OrderRow,
+  body: Body,
+  reason: string | null,
+  created_by: string
+) {
+  if (!REFUNDABLE_STATUSES.includes(order.status)) {
+    throw new OrderActionError("Only paid orders can be refunded");
+  }
+  if (!order.provider_checkout_id) throw new OrderActionError("This order has no payment to refund");
+
+  const provider = getPaymentProvider();
+  if (order.provider && order.provider !== provider.name) {
+    throw new OrderActionError(`This order was paid through ${order.provider}; refund it there`);
+  }
+
+  const [{ data: itemData, error: itemsErr }, { data: pastData, error: pastErr }] = await Promise.all([
+    supabase
+      .from("order_items")
+      .select("id, quantity, price_cents, discount_cents, refunded_quantity")
+      .eq("order_id", order.id),
+    supabase.from("order_refunds").select("shipping_cents").eq("order_id", order.id).eq("status", "succeeded"),
+  ]);
+  if (itemsErr) throw itemsErr;
+  if (pastErr) throw pastErr;
+
+  const lines = new Map(((itemData ?? []) as OrderItemRow[]).map((l) => [l.id, l]));
+  const items = readItems(body.items);
+
+  let itemsCents = 0;
+  for (const it of items) {
+    const line = lines.get(it.order_item_id);
+    if (!line) throw new OrderActionError("That item isn't on this order");
+    if (it.quantity > line.quantity - line.refunded_quantity) {
+      throw new OrderActionError("Can't refund more than is left on a line");
+    }
+    itemsCents += lineRefundCents(line, it.quantity);
+  }
+
+  const shippingRefunded = ((pastData ?? []) as { shipping_cents: number }[]).reduce(
+    (sum, r) => sum + r.shipping_cents,
+    0
+  );
+  const shipping_cents = body.include_shipping ? Math.max(0, (order.shipping_cents ?? 0) - shippingRefunded) : 0;
+
+  const owed = Math.min(itemsCents + shipping_cents, order.total_cents - order.refunded_cents);
+  // Admins may give back less than the items are worth (a restocking fee, say), never more
+  const requested = body.amount_cents ?? owed;
+  if (requested <= 0) throw new OrderActionError("Nothing to refund");
+  if (requested > owed) throw new OrderActionError("That's more than the selected items cost");
+
+  const { data: refund, error: refundErr } = await supabase
+    .from("order_refunds")
+    .insert({
+      order_id: order.id,
+      amount_cents: requested,
+      shipping_cents,
+      items,
+      restock: body.restock !== false,
+      reason,
+      provider: provider.name,
+      created_by,
+    })
+    .select("id")
+    .single();
+  if (refundErr) throw refundErr;
+
+  let result;
+  try {
+    result = await provider.refund({
+      orderId: order.id,
+      checkoutId: order.provider_checkout_id,
+      amountCents: requested,
+      idempotencyKey: refund.id as string,
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    await supabase.from("order_refunds").update({ status: "failed", error: message }).eq("id", refund.id);
+    throw err;
+  }
+
+  const { error: providerIdErr } = await supabase
+    .from("order_refunds")
+    .update({ provider_refund_id: result.id })
+    .eq("id", refund.id);
+  if (providerIdErr) throw providerIdErr;
+
+  // Checks the quantities and amount again with the order locked, in case another refund got there first
+  const { data: status, error: applyErr } = await supabase.rpc("apply_order_refund", { p_refund_id: refund.id });
+  if (applyErr) throw applyErr;
+
+  return { status: status as OrderStatus, refund_id: refund.id as string, amount_cents: requested };
+}
+
+/**
+ * POST { action: "cancel", order_id, reason? }
+ * POST { action: "refund", order_id, items: [{ order_item_id, quantity }], include_shipping?, amount_cents?, restock?, reason? }
+ * Admin only. Refunds go through the payment provider before anything changes here.
+ */
+export const handler = defineFunction({
+  name: "admin-orders",
+  mapError: (err) =>
+    err instanceof PaymentProviderError ? new HttpError(502, "payment_provider", err.message, err.data) : null,
+  routes: {
+    POST: route({
+      body: Body,
+      handle: async ({ event, body }) => {
+        const created_by = await adminId(event);
+        if (!created_by) throw new HttpError(403, "forbidden", "Admins only");
+
+        const order = await loadOrder(body.order_id);
+        const reason = (body.reason ?? "").slice(0, REASON_MAX) || null;
+
+        if (body.action === "cancel") return cancelOrder(order, reason, created_by);
+        return refundOrder(order, body, reason, created_by);
+      },
+    }),
+  },
+});
@@ -1,47 +1,176 @@
+import crypto from "crypto";
 import { createClient } from "@supabase/supabase-js";
+import { parseSignalSubmission, signalSpamReasons } from "../../src/lib/bookingSignals";
+import { verifyPow, type PowChallenge } from "../../src/lib/proofOfWork";
+import { defineFunction, header, HttpError, route, type FunctionEvent } from "./_lib/http";
+import { s, type Infer } from "./_lib/schema";
 
 const SUPABASE_URL = process.env.SUPABASE_URL as string;
 const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY as string;
 
 const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
 
-export const handler = async (event: any) => {
-  try {
-    if (event.httpMethod !== "POST") {
-      return { statusCode: 405, body: "Method not allowed" };
-    }
+/** The form fields themselves are checked by parseSignalSubmission */
+const Body = s.object({
+  pow: s.object({ challenge_id: s.uuid(), nonce: s.number({ int: true, min: 0 }) }),
+  fingerprint: s.optional(s.nullable(s.string({ max: 200 }))),
+  // the honeypot: any value at all means a bot filled it in
+  website: s.optional(s.nullable(s.string({ trim: false }))),
+});
 
-    const body = JSON.parse(event.body || "{}");
+type SolvedPow = Infer<typeof Body>["pow"];
 
-    const town = String(body?.town ?? "").trim();
-    const province = String(body?.province ?? "").trim();
+/** A second or two of hashing in a phone browser, done while the form is filled in */
+const POW_DIFFICULTY = 15;
 
-    if (!town || !province) {
-      return { statusCode: 400, body: "Missing town or province" };
-    }
+const CHALLENGE_TTL_MS = 15 * 60 * 1000;
 
-    const payload = {
-      name: body?.name ?? null,
-      town,
-      province,
-      wants_show: Boolean(body?.wants_show),
-      is_venue: Boolean(body?.is_venue),
-      message: body?.message ?? null,
-      source: body?.source ?? "pin_button",
-    };
+/** Faster than this from opening the form to sending it is a script */
+const MIN_FILL_MS = 3000;
 
-    const { error } = await supabase.from("booking_signals").insert(payload);
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
 
-    if (error) {
-      return { statusCode: 500, body: error.message };
-    }
+/** Signals allowed per window; over any of these the request gets a 429 */
+const LIMITS = [
+  { column: "ip_hash", windowMs: HOUR_MS, max: 5 },
+  { column: "ip_hash", windowMs: DAY_MS, max: 20 },
+  { column: "fingerprint_hash", windowMs: HOUR_MS, max: 3 },
+  { column: "fingerprint_hash", windowMs: DAY_MS, max: 10 },
+] as const;
+
+/** Challenges handed out per IP per hour (one per form opened) */
+const CHALLENGE_LIMIT = 30;
+
+/**
+ * IPs and fingerprints are only kept as an HMAC under a server-only secret:
+ * enough to count repeats, but without the secret there is no trying every
+ * IPv4 address to get them back. Changing the secret resets the rate limits.
+ */
+function hash(value: string): string {
+  const secret = process.env.BOOKING_SIGNAL_HASH_SECRET;
+  if (!secret) throw new Error("Missing BOOKING_SIGNAL_HASH_SECRET env var");
+  return crypto.createHmac("sha256", secret).update(value).digest("hex");
+}
+
+function clientIp(event: FunctionEvent): string {
+  return (
+    header(event, "x-nf-client-connection-ip") ||
+    header(event, "x-forwarded-for")?.split(",")[0]?.trim() ||
+    header(event, "client-ip") ||
+    "unknown"
+  );
+}
+
+const since = (ms: number) => new Date(Date.now() - ms).toISOString();
 
-    return {
-      statusCode: 200,
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ ok: true }),
-    };
-  } catch (err: any) {
-    return { statusCode: 500, body: err?.message || "Server error" };
+async function issueChallenge(ip_hash: string): Promise<PowChallenge> {
+  const { count, error: countError } = await supabase
+    .from("booking_signal_challenges")
+    .select("id", { count: "exact", head: true })
+    .eq("ip_hash", ip_hash)
+    .gte("created_at", since(HOUR_MS));
+  if (countError) throw countError;
+  if ((count ?? 0) >= CHALLENGE_LIMIT) throw new HttpError(429, "rate_limited", "Too many requests, please try again later");
+
+  // old challenges are no use to anyone
+  await supabase.from("booking_signal_challenges").delete().lt("created_at", since(DAY_MS));
+
+  const { data, error } = await supabase
+    .from("booking_signal_challenges")
+    .insert({ salt: crypto.randomBytes(16).toString("hex"), difficulty: POW_DIFFICULTY, ip_hash })
+    .select("id, salt, difficulty")
+    .single();
+  if (error) throw error;
+  return data as PowChallenge;
+}
+
+/** Checks the solved challenge and uses it up; returns how long ago it was handed out. */
+async function redeemChallenge({ challenge_id, nonce }: SolvedPow): Promise<number> {
+  const { data, error } = await supabase
+    .from("booking_signal_challenges")
+    .select("id, salt, difficulty, created_at, used_at")
+    .eq("id", challenge_id)
+    .maybeSingle();
+  if (error) throw error;
+
+  const age = data ? Date.now() - new Date(data.created_at).getTime() : Infinity;
+  if (!data || data.used_at || age > CHALLENGE_TTL_MS) {
+    throw new HttpError(409, "conflict", "This form has expired, please try again");
+  }
+  if (!(await verifyPow(data.salt, nonce, data.difficulty))) {
+    throw new HttpError(400, "bad_request", "Invalid proof of work");
   }
-};
\ No newline at end of file
+
+  // the used_at check stops two requests redeeming the same solution
+  const { data: claimed, error: claimError } = await supabase
+    .from("booking_signal_challenges")
+    .update({ used_at: new Date().toISOString() })
+    .eq("id", challenge_id)
+    .is("used_at", null)
+    .select("id");
+  if (claimError) throw claimError;
+  if (!claimed?.length) throw new HttpError(409, "conflict", "This form has expired, please try again");
+
+  return age;
+}
+
+async function checkLimits(hashes: { ip_hash: string; fingerprint_hash: string | null }) {
+  for (const limit of LIMITS) {
+    const value = hashes[limit.column];
+    if (!value) continue;
+
+    const { count, error } = await supabase
+      .from("booking_signals")
+      .select("id", { count: "exact", head: true })
+      .eq(limit.column, value)
+      .gte("created_at", since(limit.windowMs));
+    if (error) throw error;
+    if ((count ?? 0) >= limit.max) {
+      throw new HttpError(429, "rate_limited", "You've already sent a few of these, please try again later");
+    }
+  }
+}
+
+/**
+ * GET hands out a proof-of-work challenge (src/lib/proofOfWork.ts); POST takes
+ * the pin form with the solved challenge. Bots that fill the hidden `website`
+ * field get the same answer as everyone else, but their signal is quarantined.
+ */
+export const handler = defineFunction({
+  name: "booking-signal",
+  routes: {
+    GET: route({
+      handle: async ({ event }) => ({ challenge: await issueChallenge(hash(clientIp(event))) }),
+    }),
+
+    POST: route({
+      body: Body,
+      handle: async ({ event, body, json, log }) => {
+        const parsed = parseSignalSubmission(json as Record<string, unknown>);
+        if ("problem" in parsed) throw new HttpError(400, "bad_request", parsed.problem);
+
+        const fingerprint = body.fingerprint ?? "";
+        const hashes = { ip_hash: hash(clientIp(event)), fingerprint_hash: fingerprint ? hash(fingerprint) : null };
+
+        await checkLimits(hashes);
+        const age = await redeemChallenge(body.pow);
+
+        const reasons = signalSpamReasons(parsed.signal);
+        if (body.website?.trim()) reasons.push("honeypot filled");
+        if (age < MIN_FILL_MS) reasons.push("sent too fast");
+
+        const { error } = await supabase.from("booking_signals").insert({
+          ...parsed.signal,
+          ...hashes,
+          quarantined: reasons.length > 0,
+          quarantine_reasons: reasons,
+        });
+        if (error) throw error;
+
+        if (reasons.length) log.warn("signal quarantined", { reasons });
+        return { saved: true };
+      },
+    }),
+  },
+});
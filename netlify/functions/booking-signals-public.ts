@@ -1,30 +1,52 @@
 import { createClient } from "@supabase/supabase-js";
+import { geocodeTown } from "../../src/lib/geocode";
+import { defineFunction, route } from "./_lib/http";
 
 const supabase = createClient(
   process.env.SUPABASE_URL as string,
   process.env.SUPABASE_SERVICE_ROLE_KEY as string
 );
 
-export const handler = async () => {
-  try {
-    const { data, error } = await supabase
-      .from("booking_signals")
-      .select("province, town, created_at")
-      .eq("wants_show", true)
-      .order("created_at", { ascending: false })
-      .limit(2000);
+type SignalRow = {
+  province: string | null;
+  town: string | null;
+  created_at: string;
+};
 
-    if (error) return { statusCode: 500, body: error.message };
+/**
+ * GET: demand pins for the home page map. Each town is matched against the
+ * offline gazetteer; `place` is null (and the map falls back to the province)
+ * when it isn't recognised. Repeat submissions marked in Admin and
+ * quarantined spam are left out.
+ */
+export const handler = defineFunction({
+  name: "booking-signals-public",
+  cors: "public",
+  routes: {
+    GET: route({
+      handle: async () => {
+        const { data, error } = await supabase
+          .from("booking_signals")
+          .select("province, town, created_at")
+          .eq("wants_show", true)
+          .is("duplicate_of", null)
+          .eq("quarantined", false)
+          .order("created_at", { ascending: false })
+          .limit(2000);
+        if (error) throw error;
 
-    return {
-      statusCode: 200,
-      headers: {
-        "Content-Type": "application/json",
-        "Cache-Control": "no-store",
+        const rows = ((data ?? []) as SignalRow[]).map((r) => {
+          const match = r.town ? geocodeTown(r.town, r.province) : null;
+          return {
+            province: r.province,
+            town: r.town,
+            created_at: r.created_at,
+            place: match ? { name: match.place.name, lat: match.place.lat, lng: match.place.lng } : null,
+          };
+        });
+
+        return { rows };
       },
-      body: JSON.stringify({ rows: data ?? [] }),
-    };
-  } catch (e: any) {
-    return { statusCode: 500, body: e?.message || "Server error" };
-  }
-};
\ No newline at end of file
+    }),
+  },
+});
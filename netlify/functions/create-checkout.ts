@@ -0,0 +1,671 @@
+import crypto from "crypto";
+import { createClient } from "@supabase/supabase-js";
+import { getPaymentProvider, PaymentProviderError } from "./_lib/payments";
+import {
+  isDeliveryMethod,
+  normaliseAddress,
+  shippingFeeCents,
+  validateAddress,
+  type DeliveryMethod,
+  type ShippingAddress,
+  type ShippingRule,
+} from "../../src/lib/shipping";
+import { applyBundles, spreadDiscount, toBundle, type Bundle } from "../../src/lib/bundles";
+import {
+  normalisePromoCode,
+  promoDiscounts,
+  promoProblem,
+  type PromoCode,
+} from "../../src/lib/promos";
+import { normaliseGift, type SongGift } from "../../src/lib/gifts";
+import { ticketLineTitle, tierProblem } from "../../src/lib/tickets";
+import { isPastShow } from "../../src/lib/showTime";
+import { bearerToken, defineFunction, header, HttpError, route, type FunctionEvent } from "./_lib/http";
+import { s } from "./_lib/schema";
+
+const supabase = createClient(
+  process.env.SUPABASE_URL as string,
+  process.env.SUPABASE_SERVICE_ROLE_KEY as string
+);
+
+type CheckoutLine = {
+  song_id: string | null;
+  product_id: string | null;
+  sku: string | null;
+  variant_size: string | null;
+  variant_colour: string | null;
+  ticket_tier_id: string | null;
+  title: string;
+  quantity: number;
+  price_cents: number;
+  discount_cents: number;
+  bundle_album_id: string | null;
+  gift_email: string | null;
+  gift_message: string | null;
+};
+
+type RequestedItems = {
+  songs: Map<string, number>;
+  /** merch quantities keyed by variant SKU */
+  merch: Map<string, number>;
+  /** ticket quantities keyed by tier id */
+  tickets: Map<string, number>;
+  /** song lines sent to someone else, by song id */
+  gifts: Map<string, SongGift>;
+};
+
+type VariantRow = {
+  sku: string;
+  size: string | null;
+  colour: string | null;
+  product_id: string;
+  stock_qty: number | null;
+  products: { name: string | null; price_cents: number; is_preorder: boolean | null } | null;
+};
+
+type TierRow = {
+  id: string;
+  name: string;
+  price_cents: number;
+  is_active: boolean;
+  sales_start: string | null;
+  sales_end: string | null;
+  shows: { title: string | null; show_date: string | null; timezone: string | null } | null;
+};
+
+type BundleAlbumRow = {
+  id: string;
+  slug: string | null;
+  title: string;
+  bundle_price_cents: number | null;
+  songs:
+    | {
+        id: string;
+        title: string | null;
+        artist: string | null;
+        cover_url: string | null;
+        price_cents: number | null;
+        is_active: boolean | null;
+      }[]
+    | null;
+};
+
+type Delivery = {
+  method: DeliveryMethod;
+  fee_cents: number;
+  address: ShippingAddress | null;
+  collect_show_id: string | null;
+};
+
+/** Bad cart contents: reported to the shopper as a 400. */
+class CheckoutInputError extends HttpError {
+  constructor(message: string) {
+    super(400, "bad_request", message);
+    this.name = "CheckoutInputError";
+  }
+}
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+/** Keep in sync with MERCH_MAX_QTY in src/lib/guestCart.ts */
+const MAX_MERCH_QTY = 10;
+/** Keep in sync with TICKET_MAX_QTY in src/lib/tickets.ts */
+const MAX_TICKET_QTY = 10;
+
+/** Cart lines come in two shapes; readRequestedItems sorts them out. The buyer comes from the token. */
+const Body = s.object({
+  items: s.optional(s.array(s.unknown(), { max: 200 })),
+  promo_code: s.optional(s.nullable(s.string({ max: 64 }))),
+  delivery: s.unknown(),
+  quote: s.optional(s.boolean()),
+});
+
+/** Who is buying, from the Supabase access token in the Authorization header. */
+async function callerId(event: FunctionEvent): Promise<string | null> {
+  const token = bearerToken(event);
+  if (!token) return null;
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) return null;
+  return data.user.id;
+}
+
+function getOrigin(event: FunctionEvent) {
+  // Netlify Dev sets this, and you WANT it in local dev.
+  if (process.env.NETLIFY_DEV === "true") return "http://localhost:8888";
+
+  // In production on Netlify, URL is normally set (preferred).
+  const envUrl = process.env.URL || process.env.SITE_URL || process.env.DEPLOY_PRIME_URL;
+  if (envUrl) return envUrl;
+
+  // Fallback to forwarded headers if available
+  const proto = header(event, "x-forwarded-proto");
+  const host = header(event, "x-forwarded-host") || header(event, "host");
+  if (proto && host) return `${proto}://${host}`;
+
+  return "http://localhost:8888";
+}
+
+/**
+ * Accepts both cart shapes we send today:
+ * - CartContext items: { id, qty, kind, sku, ... }
+ * - cartApi rows:      { song_id, sku, ticket_tier_id, quantity, songs: {...} }
+ * A line with a SKU is merch, a ticket line carries its tier id; anything else
+ * is a song. Prices on the item are ignored.
+ */
+function readRequestedItems(raw: unknown): RequestedItems {
+  const requested: RequestedItems = { songs: new Map(), merch: new Map(), tickets: new Map(), gifts: new Map() };
+  if (!Array.isArray(raw)) return requested;
+
+  for (const it of raw) {
+    const sku = String(it?.sku ?? "").trim();
+    const tierId = String(it?.ticket_tier_id ?? (it?.kind === "ticket" ? (it?.id ?? "") : "")).trim();
+    const id = String(it?.song_id ?? it?.id ?? "").trim();
+    const bucket = sku ? requested.merch : tierId ? requested.tickets : requested.songs;
+    const key = sku || tierId || id;
+    if (!key) continue;
+
+    const q = Math.round(Number(it?.qty ?? it?.quantity ?? 1));
+    const qty = Number.isFinite(q) && q > 0 ? q : 1;
+
+    bucket.set(key, (bucket.get(key) ?? 0) + qty);
+
+    // CartContext sends { gift: { email, message } }, cart rows send gift_email / gift_message
+    const rawGift = it?.gift ?? (it?.gift_email ? { email: it.gift_email, message: it.gift_message } : null);
+    if (!sku && !tierId && rawGift) {
+      const gift = normaliseGift(rawGift);
+      if (!gift) throw new CheckoutInputError("Add a valid email address for your gift");
+      requested.gifts.set(key, gift);
+    }
+  }
+
+  return requested;
+}
+
+/** Songs are digital, so always qty 1. */
+async function priceSongs(ids: string[], gifts: Map<string, SongGift>): Promise<CheckoutLine[]> {
+  if (!ids.length) return [];
+
+  const bad = ids.find((id) => !UUID_RE.test(id));
+  if (bad) throw new CheckoutInputError(`Unknown song: ${bad}`);
+
+  const { data, error } = await supabase
+    .from("songs")
+    .select("id, title, price_cents, is_active")
+    .in("id", ids);
+  if (error) throw error;
+
+  const songs = new Map((data ?? []).map((s) => [String(s.id), s]));
+
+  return ids.map((id) => {
+    const song = songs.get(id);
+    if (!song) throw new CheckoutInputError(`Unknown song: ${id}`);
+    if (song.is_active === false) throw new CheckoutInputError(`"${song.title}" is no longer for sale`);
+
+    return {
+      song_id: id,
+      product_id: null,
+      sku: null,
+      variant_size: null,
+      variant_colour: null,
+      ticket_tier_id: null,
+      title: String(song.title ?? "Song"),
+      quantity: 1,
+      price_cents: Math.round(Number(song.price_cents) || 0),
+      discount_cents: 0,
+      bundle_album_id: null,
+      gift_email: gifts.get(id)?.email ?? null,
+      gift_message: gifts.get(id)?.message || null,
+    };
+  });
+}
+
+/** Merch is priced per product; the variant row says which product a SKU belongs to. */
+async function priceMerch(requested: Map<string, number>): Promise<CheckoutLine[]> {
+  const skus = [...requested.keys()];
+  if (!skus.length) return [];
+
+  const { data, error } = await supabase
+    .from("product_variants")
+    .select("sku, size, colour, product_id, stock_qty, products (name, price_cents, is_preorder)")
+    .in("sku", skus);
+  if (error) throw error;
+
+  const variants = new Map(
+    ((data ?? []) as unknown as VariantRow[]).map((v) => [v.sku, v])
+  );
+
+  return skus.map((sku) => {
+    const v = variants.get(sku);
+    if (!v?.products) throw new CheckoutInputError(`Unknown merch item: ${sku}`);
+
+    const name = String(v.products.name ?? "Merch");
+    const label = `${name} (${[v.colour, v.size].filter(Boolean).join(" / ")})`;
+    const quantity = requested.get(sku) ?? 1;
+    if (quantity > MAX_MERCH_QTY) {
+      throw new CheckoutInputError(`You can order at most ${MAX_MERCH_QTY} of ${label}`);
+    }
+
+    // Pre-order products take backorders; everything else stops at the stock count
+    if (v.stock_qty !== null && v.stock_qty < quantity && !v.products.is_preorder) {
+      throw new CheckoutInputError(
+        v.stock_qty === 0
+          ? `${label} is sold out`
+          : `Only ${v.stock_qty} left of ${label}`
+      );
+    }
+
+    return {
+      song_id: null,
+      product_id: v.product_id,
+      sku,
+      variant_size: v.size,
+      variant_colour: v.colour,
+      ticket_tier_id: null,
+      title: name,
+      quantity,
+      price_cents: Math.round(Number(v.products.price_cents) || 0),
+      discount_cents: 0,
+      bundle_album_id: null,
+      gift_email: null,
+      gift_message: null,
+    };
+  });
+}
+
+/** Tickets are priced per tier and only sold while the tier is on sale and has seats left. */
+async function priceTickets(requested: Map<string, number>): Promise<CheckoutLine[]> {
+  const ids = [...requested.keys()];
+  if (!ids.length) return [];
+
+  const bad = ids.find((id) => !UUID_RE.test(id));
+  if (bad) throw new CheckoutInputError(`Unknown ticket: ${bad}`);
+
+  const [{ data, error }, { data: seats, error: seatsErr }] = await Promise.all([
+    supabase
+      .from("ticket_tiers")
+      .select("id, name, price_cents, is_active, sales_start, sales_end, shows (title, show_date, timezone)")
+      .in("id", ids),
+    supabase.from("ticket_tier_availability").select("tier_id, remaining").in("tier_id", ids),
+  ]);
+  if (error) throw error;
+  if (seatsErr) throw seatsErr;
+
+  const tiers = new Map(((data ?? []) as unknown as TierRow[]).map((t) => [String(t.id), t]));
+  const remaining = new Map((seats ?? []).map((s) => [String(s.tier_id), Number(s.remaining)]));
+
+  return ids.map((id) => {
+    const tier = tiers.get(id);
+    if (!tier?.shows) throw new CheckoutInputError(`Unknown ticket: ${id}`);
+
+    const show = String(tier.shows.title ?? "Show");
+    const quantity = requested.get(id) ?? 1;
+    if (quantity > MAX_TICKET_QTY) {
+      throw new CheckoutInputError(`${show}: you can buy at most ${MAX_TICKET_QTY} tickets at a time`);
+    }
+
+    const problem = tierProblem(
+      tier,
+      { date: tier.shows.show_date, timezone: tier.shows.timezone },
+      remaining.get(id) ?? null,
+      quantity
+    );
+    if (problem) throw new CheckoutInputError(`${show}: ${problem}`);
+
+    return {
+      song_id: null,
+      product_id: null,
+      sku: null,
+      variant_size: null,
+      variant_colour: null,
+      ticket_tier_id: id,
+      title: ticketLineTitle(show, tier.name),
+      quantity,
+      price_cents: Math.round(Number(tier.price_cents) || 0),
+      discount_cents: 0,
+      bundle_album_id: null,
+      gift_email: null,
+      gift_message: null,
+    };
+  });
+}
+
+async function priceLines(requested: RequestedItems): Promise<CheckoutLine[]> {
+  const [songs, merch, tickets] = await Promise.all([
+    priceSongs([...requested.songs.keys()], requested.gifts),
+    priceMerch(requested.merch),
+    priceTickets(requested.tickets),
+  ]);
+  return [...songs, ...merch, ...tickets];
+}
+
+/** Bundles for the releases these songs belong to, priced from the songs table like the lines. */
+async function loadBundles(songIds: string[]): Promise<Bundle[]> {
+  const { data: refs, error: refsErr } = await supabase
+    .from("songs")
+    .select("album_id")
+    .in("id", songIds)
+    .not("album_id", "is", null);
+  if (refsErr) throw refsErr;
+
+  const albumIds = [...new Set((refs ?? []).map((r) => String(r.album_id)))];
+  if (!albumIds.length) return [];
+
+  const { data, error } = await supabase
+    .from("albums")
+    .select("id, slug, title, bundle_price_cents, songs (id, title, artist, cover_url, price_cents, is_active)")
+    .in("id", albumIds)
+    .not("bundle_price_cents", "is", null);
+  if (error) throw error;
+
+  return ((data ?? []) as unknown as BundleAlbumRow[]).flatMap((album) => {
+    const tracks = (album.songs ?? [])
+      .filter((s) => s.is_active !== false)
+      .map((s) => ({
+        song_id: String(s.id),
+        title: String(s.title ?? "Song"),
+        artist: s.artist,
+        cover_url: s.cover_url,
+        price_cents: Math.round(Number(s.price_cents) || 0),
+      }));
+    const bundle = toBundle(album, tracks);
+    return bundle ? [bundle] : [];
+  });
+}
+
+/**
+ * Releases the cart completes cost their bundle price (less credit for tracks
+ * already owned). Each covered line carries its share of the saving.
+ */
+async function applyBundleDiscounts(lines: CheckoutLine[], user_id: string): Promise<void> {
+  const songIds = lines.flatMap((l) => (l.song_id ? [l.song_id] : []));
+  if (!songIds.length) return;
+
+  const bundles = await loadBundles(songIds);
+  if (!bundles.length) return;
+
+  const { data: purchases, error } = await supabase
+    .from("user_purchases")
+    .select("song_id")
+    .eq("user_id", user_id);
+  if (error) throw error;
+
+  const owned = new Set((purchases ?? []).map((p) => String(p.song_id)));
+
+  for (const applied of applyBundles(bundles, new Set(songIds), owned)) {
+    const covered = lines.filter((l) => l.song_id && applied.song_ids.includes(l.song_id));
+    const shares = spreadDiscount(
+      covered.map((l) => l.price_cents * l.quantity),
+      applied.discount_cents
+    );
+    covered.forEach((l, i) => {
+      l.discount_cents = shares[i];
+      l.bundle_album_id = applied.album_id;
+    });
+  }
+}
+
+const formatRand = (cents: number) => `R${(cents / 100).toFixed(2)}`;
+
+/**
+ * How long a pending order holds on to its promo use. Longer than a payment
+ * page stays open; after that the checkout was abandoned.
+ */
+const PROMO_HOLD_MINUTES = 60;
+
+/** Why claim_promo_redemption turned a code down, in the shopper's words */
+const PROMO_LIMIT_MESSAGES: Record<string, string> = {
+  used_up: "That code has been used up",
+  user_limit: "You've already used that code",
+};
+
+/**
+ * The code if this user may use it now; otherwise a CheckoutInputError saying
+ * why not. This is the early answer for quotes; claimPromo has the final say.
+ */
+async function loadPromo(code: string, user_id: string): Promise<PromoCode> {
+  const { data, error } = await supabase
+    .from("promo_codes")
+    .select("*")
+    .eq("code", code)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) throw new CheckoutInputError(`"${code}" isn't a valid code`);
+
+  const promo = data as PromoCode;
+  const problem = promoProblem(promo);
+  if (problem) throw new CheckoutInputError(problem);
+
+  if (promo.max_redemptions || promo.per_user_limit) {
+    // paid orders use a code up, and so do checkouts still being paid for;
+    // abandoned ones don't
+    const { data: uses, error: usesErr } = await supabase
+      .from("promo_redemptions")
+      .select("user_id, created_at, orders!inner (status)")
+      .eq("promo_code_id", promo.id)
+      .in("orders.status", ["paid", "pending"]);
+    if (usesErr) throw usesErr;
+
+    const holdFrom = Date.now() - PROMO_HOLD_MINUTES * 60 * 1000;
+    const used = ((uses ?? []) as unknown as { user_id: string; created_at: string; orders: { status: string } }[])
+      .filter((u) => u.orders.status === "paid" || new Date(u.created_at).getTime() > holdFrom);
+
+    if (promo.max_redemptions && used.length >= promo.max_redemptions) {
+      throw new CheckoutInputError(PROMO_LIMIT_MESSAGES.used_up);
+    }
+    if (promo.per_user_limit && used.filter((u) => u.user_id === user_id).length >= promo.per_user_limit) {
+      throw new CheckoutInputError(PROMO_LIMIT_MESSAGES.user_limit);
+    }
+  }
+
+  return promo;
+}
+
+/** Records the order's use of the code, unless another checkout got the last one first. */
+async function claimPromo(promo: PromoCode, order_id: string, user_id: string, discount_cents: number) {
+  const { data: refused, error } = await supabase.rpc("claim_promo_redemption", {
+    p_promo_code_id: promo.id,
+    p_order_id: order_id,
+    p_user_id: user_id,
+    p_discount_cents: discount_cents,
+    p_hold_minutes: PROMO_HOLD_MINUTES,
+  });
+  if (error) throw error;
+  if (refused) throw new CheckoutInputError(PROMO_LIMIT_MESSAGES[refused as string] ?? "That code can't be used right now");
+}
+
+/** Marks an order that never made it to the payment page as failed. */
+async function failOrder(order_id: string) {
+  await supabase.from("orders").update({ status: "failed" }).eq("id", order_id);
+  await supabase.from("order_status_history").insert({ order_id, status: "failed" });
+}
+
+/** Takes the promo off the lines it covers, after bundle discounts. Returns the saving. */
+function applyPromo(promo: PromoCode, lines: CheckoutLine[]): number {
+  const amounts = lines.map((l) => l.price_cents * l.quantity - l.discount_cents);
+  const subtotal = amounts.reduce((sum, a) => sum + a, 0);
+  if (promo.min_subtotal_cents && subtotal < promo.min_subtotal_cents) {
+    throw new CheckoutInputError(`Spend at least ${formatRand(promo.min_subtotal_cents)} to use that code`);
+  }
+
+  const shares = promoDiscounts(
+    promo,
+    lines.map((l, i) => ({ song_id: l.song_id, product_id: l.product_id, amount_cents: amounts[i] }))
+  );
+  const saved = shares.reduce((sum, s) => sum + s, 0);
+  if (saved <= 0) throw new CheckoutInputError("That code doesn't apply to anything in your cart");
+
+  lines.forEach((l, i) => {
+    l.discount_cents += shares[i];
+  });
+  return saved;
+}
+
+/** Physical orders must say how they get to the customer; the fee comes from shipping_rules. */
+async function resolveDelivery(raw: unknown, merchSubtotalCents: number): Promise<Delivery> {
+  const input = (raw ?? {}) as { method?: unknown; address?: unknown; show_id?: unknown };
+  if (!isDeliveryMethod(input.method)) {
+    throw new CheckoutInputError("Choose how you'd like to receive your merch");
+  }
+
+  const { data: rule, error } = await supabase
+    .from("shipping_rules")
+    .select("method, label, fee_cents, free_over_cents")
+    .eq("method", input.method)
+    .eq("is_active", true)
+    .maybeSingle();
+  if (error) throw error;
+  if (!rule) throw new CheckoutInputError("That delivery option is not available right now");
+
+  const fee_cents = shippingFeeCents(rule as ShippingRule, merchSubtotalCents);
+
+  if (input.method === "courier") {
+    const address = normaliseAddress((input.address ?? {}) as Record<string, unknown>);
+    const problem = validateAddress(address);
+    if (problem) throw new CheckoutInputError(problem);
+
+    return { method: "courier", fee_cents, address, collect_show_id: null };
+  }
+
+  const showId = String(input.show_id ?? "").trim();
+  if (!UUID_RE.test(showId)) throw new CheckoutInputError("Pick the show you'll collect at");
+
+  const { data: show, error: showErr } = await supabase
+    .from("shows")
+    .select("id, show_date, timezone")
+    .eq("id", showId)
+    .maybeSingle();
+  if (showErr) throw showErr;
+
+  if (!show || isPastShow({ date: show.show_date, timezone: show.timezone })) {
+    throw new CheckoutInputError("That show has already happened — pick another one");
+  }
+
+  return { method: "collect", fee_cents, address: null, collect_show_id: showId };
+}
+
+export const handler = defineFunction({
+  name: "create-checkout",
+  mapError: (err) =>
+    err instanceof PaymentProviderError ? new HttpError(502, "payment_provider", err.message, err.data) : null,
+  routes: {
+    POST: route({
+      body: Body,
+      handle: async ({ event, body }) => {
+        const user_id = await callerId(event);
+        if (!user_id) throw new HttpError(401, "unauthorized", "Please sign in to check out");
+
+        const requested = readRequestedItems(body.items);
+        if (!requested.songs.size && !requested.merch.size && !requested.tickets.size) {
+          throw new CheckoutInputError("Cart is empty");
+        }
+
+        const lines = await priceLines(requested);
+
+        const free = lines.find((l) => l.price_cents <= 0);
+        if (free) throw new CheckoutInputError(`"${free.title}" has no price set`);
+
+        await applyBundleDiscounts(lines, user_id);
+
+        const code = normalisePromoCode(body.promo_code);
+        const promo = code ? await loadPromo(code, user_id) : null;
+        const promo_discount_cents = promo ? applyPromo(promo, lines) : 0;
+
+        const lineTotal = (l: CheckoutLine) => l.price_cents * l.quantity - l.discount_cents;
+        const discount_cents = lines.reduce((sum, l) => sum + l.discount_cents, 0);
+        const subtotal_cents = lines.reduce((sum, l) => sum + lineTotal(l), 0);
+        if (subtotal_cents <= 0) throw new CheckoutInputError("Discounts can't cover the whole order");
+
+        // Free shipping thresholds count merch after discounts
+        const requires_shipping = lines.some((l) => l.product_id);
+        const merch_subtotal_cents = lines.filter((l) => l.product_id).reduce((sum, l) => sum + lineTotal(l), 0);
+
+        // CartModal asks for a quote when a code is entered: prices only, no order
+        if (body.quote) {
+          return {
+            subtotal_cents,
+            discount_cents,
+            promo_discount_cents,
+            merch_subtotal_cents,
+            promo: promo ? { code: promo.code, description: promo.description } : null,
+          };
+        }
+
+        const delivery = requires_shipping ? await resolveDelivery(body.delivery, merch_subtotal_cents) : null;
+        const shipping_cents = delivery?.fee_cents ?? 0;
+        const total_cents = subtotal_cents + shipping_cents;
+
+        const provider = getPaymentProvider();
+        const order_id = crypto.randomUUID();
+        const origin = getOrigin(event);
+
+        const { error: orderErr } = await supabase.from("orders").insert({
+          id: order_id,
+          user_id,
+          status: "pending",
+          total_cents,
+          discount_cents,
+          promo_code_id: promo?.id ?? null,
+          promo_discount_cents,
+          currency: "ZAR",
+          provider: provider.name,
+          requires_shipping,
+          shipping_method: delivery?.method ?? null,
+          shipping_cents,
+          shipping_address: delivery?.address ?? null,
+          collect_show_id: delivery?.collect_show_id ?? null,
+        });
+        if (orderErr) throw orderErr;
+
+        const { error: historyErr } = await supabase
+          .from("order_status_history")
+          .insert({ order_id, status: "pending" });
+        if (historyErr) throw historyErr;
+
+        const { error: itemsErr } = await supabase
+          .from("order_items")
+          .insert(lines.map((l) => ({ order_id, ...l })));
+        if (itemsErr) throw itemsErr;
+
+        if (promo) {
+          try {
+            await claimPromo(promo, order_id, user_id, promo_discount_cents);
+          } catch (err) {
+            await failOrder(order_id);
+            throw err;
+          }
+        }
+
+        let session;
+        try {
+          session = await provider.createCheckout({
+            orderId: order_id,
+            userId: user_id,
+            amountCents: total_cents,
+            currency: "ZAR",
+            successUrl: `${origin}/music?payment=success&order_id=${encodeURIComponent(order_id)}`,
+            cancelUrl: `${origin}/music?payment=cancel&order_id=${encodeURIComponent(order_id)}`,
+            failureUrl: `${origin}/music?payment=failed&order_id=${encodeURIComponent(order_id)}`,
+          });
+        } catch (err) {
+          await failOrder(order_id);
+          throw err;
+        }
+
+        const { error: sessionErr } = await supabase
+          .from("orders")
+          .update({ provider_checkout_id: session.id })
+          .eq("id", order_id);
+        if (sessionErr) throw sessionErr;
+
+        return {
+          checkoutUrl: session.redirectUrl,
+          order_id,
+          total_cents,
+          discount_cents,
+          shipping_cents,
+          requires_shipping,
+        };
+      },
+    }),
+  },
+});
@@ -0,0 +1,64 @@
+import { createClient } from "@supabase/supabase-js";
+import { buildInvoice, INVOICE_SELECT, type InvoiceRow } from "../../src/lib/invoices";
+import { renderInvoicePdf } from "./_lib/invoicePdf";
+import { bearerToken, defineFunction, HttpError, RawResponse, route, type FunctionEvent } from "./_lib/http";
+import { s } from "./_lib/schema";
+
+const supabase = createClient(
+  process.env.SUPABASE_URL as string,
+  process.env.SUPABASE_SERVICE_ROLE_KEY as string
+);
+
+const Body = s.object({ order_id: s.uuid() });
+
+/** Who is asking, from the Supabase access token in the Authorization header. */
+async function callerId(event: FunctionEvent): Promise<string | null> {
+  const token = bearerToken(event);
+  if (!token) return null;
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) return null;
+  return data.user.id;
+}
+
+/**
+ * POST { order_id }
+ * Streams the tax invoice for one of the caller's paid orders as a PDF.
+ */
+export const handler = defineFunction({
+  name: "invoice-pdf",
+  routes: {
+    POST: route({
+      body: Body,
+      handle: async ({ event, body }) => {
+        const user_id = await callerId(event);
+        if (!user_id) throw new HttpError(401, "unauthorized", "Please sign in again");
+
+        const { data, error } = await supabase
+          .from("invoices")
+          .select(INVOICE_SELECT)
+          .eq("order_id", body.order_id)
+          .maybeSingle();
+        if (error) throw error;
+
+        const invoice = data ? buildInvoice((data as unknown) as InvoiceRow) : null;
+        // Someone else's order looks the same as a missing one
+        if (!invoice || invoice.user_id !== user_id) {
+          throw new HttpError(404, "not_found", "There's no invoice for this order yet");
+        }
+
+        const pdf = await renderInvoicePdf(invoice);
+
+        return new RawResponse(
+          200,
+          {
+            "Content-Type": "application/pdf",
+            "Content-Disposition": `attachment; filename="${invoice.number}.pdf"`,
+            "Cache-Control": "private, no-store",
+          },
+          pdf
+        );
+      },
+    }),
+  },
+});
@@ -0,0 +1,273 @@
+import { createClient } from "@supabase/supabase-js";
+import {
+  getPaymentProvider,
+  WebhookSignatureError,
+  type PaymentWebhookEvent,
+} from "./_lib/payments";
+import { defineFunction, HttpError, route } from "./_lib/http";
+
+const supabase = createClient(
+  process.env.SUPABASE_URL as string,
+  process.env.SUPABASE_SERVICE_ROLE_KEY as string
+);
+
+type OrderRow = {
+  id: string;
+  user_id: string;
+  status: string;
+  total_cents: number;
+};
+
+type Outcome =
+  | "paid"
+  | "failed"
+  | "ignored"
+  | "order_not_found"
+  | "amount_mismatch"
+  | "already_final";
+
+async function findOrder(evt: PaymentWebhookEvent): Promise<OrderRow | null> {
+  const query = supabase.from("orders").select("id, user_id, status, total_cents");
+
+  const { data, error } = evt.orderId
+    ? await query.eq("id", evt.orderId).maybeSingle()
+    : evt.checkoutId
+      ? await query.eq("provider_checkout_id", evt.checkoutId).maybeSingle()
+      : { data: null, error: null };
+
+  if (error) throw error;
+  return (data as OrderRow | null) ?? null;
+}
+
+/** Shown to the customer in PurchaseHistory. */
+async function logStatus(order_id: string, status: string) {
+  const { error } = await supabase.from("order_status_history").insert({ order_id, status });
+  if (error) throw error;
+}
+
+/**
+ * Grant ownership of every song on the order; gift lines become claimable
+ * song_gifts for the recipient instead. Safe to repeat.
+ */
+async function fulfilSongs(order: OrderRow) {
+  const { data: items, error } = await supabase
+    .from("order_items")
+    .select("id, song_id, gift_email, gift_message")
+    .eq("order_id", order.id)
+    .not("song_id", "is", null);
+
+  if (error) throw error;
+
+  const lines = (items ?? []) as { id: string; song_id: string; gift_email: string | null; gift_message: string | null }[];
+  if (!lines.length) return 0;
+
+  const rows = lines
+    .filter((it) => !it.gift_email)
+    .map((it) => ({
+      user_id: order.user_id,
+      song_id: String(it.song_id),
+      order_id: order.id,
+    }));
+
+  if (rows.length) {
+    const { error: insertErr } = await supabase
+      .from("user_purchases")
+      .upsert(rows, { onConflict: "user_id,song_id", ignoreDuplicates: true });
+
+    if (insertErr) throw insertErr;
+  }
+
+  const gifts = lines.filter((it) => it.gift_email);
+  if (gifts.length) {
+    const { data: sender } = await supabase.auth.admin.getUserById(order.user_id);
+
+    const { error: giftErr } = await supabase.from("song_gifts").upsert(
+      gifts.map((it) => ({
+        order_id: order.id,
+        order_item_id: it.id,
+        song_id: String(it.song_id),
+        sender_id: order.user_id,
+        sender_email: sender?.user?.email ?? null,
+        recipient_email: String(it.gift_email).toLowerCase(),
+        message: it.gift_message,
+      })),
+      { onConflict: "order_item_id", ignoreDuplicates: true }
+    );
+
+    if (giftErr) throw giftErr;
+  }
+
+  // Carts persist across sessions now, so drop what was just bought
+  const { data: cart } = await supabase
+    .from("carts")
+    .select("id")
+    .eq("user_id", order.user_id)
+    .maybeSingle();
+
+  if (cart?.id) {
+    await supabase
+      .from("cart_items")
+      .delete()
+      .eq("cart_id", cart.id)
+      .in("song_id", lines.map((it) => String(it.song_id)));
+  }
+
+  return lines.length;
+}
+
+/** One ticket per seat bought; the rpc only tops up what's missing. */
+async function issueTickets(order: OrderRow) {
+  const { error } = await supabase.rpc("issue_order_tickets", { p_order_id: order.id });
+  if (error) throw error;
+
+  const { data: items, error: itemsErr } = await supabase
+    .from("order_items")
+    .select("ticket_tier_id")
+    .eq("order_id", order.id)
+    .not("ticket_tier_id", "is", null);
+  if (itemsErr) throw itemsErr;
+  if (!items?.length) return;
+
+  const { data: cart } = await supabase
+    .from("carts")
+    .select("id")
+    .eq("user_id", order.user_id)
+    .maybeSingle();
+
+  if (cart?.id) {
+    await supabase
+      .from("cart_items")
+      .delete()
+      .eq("cart_id", cart.id)
+      .in("ticket_tier_id", items.map((it) => String(it.ticket_tier_id)));
+  }
+}
+
+async function applyEvent(evt: PaymentWebhookEvent): Promise<{ outcome: Outcome; orderId: string | null }> {
+  if (evt.type === "other") return { outcome: "ignored", orderId: evt.orderId };
+
+  const order = await findOrder(evt);
+  if (!order) return { outcome: "order_not_found", orderId: evt.orderId };
+
+  if (evt.type === "payment.failed") {
+    const { data: changed, error } = await supabase
+      .from("orders")
+      .update({ status: "failed" })
+      .eq("id", order.id)
+      .eq("status", "pending")
+      .select("id");
+    if (error) throw error;
+    if (changed?.length) await logStatus(order.id, "failed");
+
+    return { outcome: order.status === "pending" ? "failed" : "already_final", orderId: order.id };
+  }
+
+  if (evt.amountCents !== null && evt.amountCents !== order.total_cents) {
+    return { outcome: "amount_mismatch", orderId: order.id };
+  }
+
+  // Refunds are final: never hand a refunded order's songs back out
+  if (order.status === "refunded" || order.status === "partially_refunded") {
+    return { outcome: "already_final", orderId: order.id };
+  }
+
+  // A late success after a failed attempt (or a cancel) still means the customer paid
+  if (order.status !== "paid") {
+    const { data: changed, error } = await supabase
+      .from("orders")
+      .update({ status: "paid", paid_at: new Date().toISOString() })
+      .eq("id", order.id)
+      .in("status", ["pending", "failed", "cancelled"])
+      .select("id");
+    if (error) throw error;
+    if (changed?.length) await logStatus(order.id, "paid");
+  }
+
+  // Merch stock goes down once per order (the function itself is idempotent)
+  const { error: stockErr } = await supabase.rpc("apply_order_stock", { p_order_id: order.id });
+  if (stockErr) throw stockErr;
+
+  await fulfilSongs(order);
+  await issueTickets(order);
+
+  // Numbered once; a repeat returns the invoice the order already has
+  const { error: invoiceErr } = await supabase.rpc("issue_invoice", { p_order_id: order.id });
+  if (invoiceErr) throw invoiceErr;
+
+  return { outcome: "paid", orderId: order.id };
+}
+
+/**
+ * POST from the payment provider. Signature failures are a 401; anything that
+ * goes wrong after that is a 500 so the provider retries, and the event row
+ * below keeps retries idempotent.
+ */
+export const handler = defineFunction({
+  name: "payment-webhook",
+  cors: false,
+  routes: {
+    POST: route({
+      handle: async ({ event, rawBody, log }) => {
+        const provider = getPaymentProvider();
+
+        let evt: PaymentWebhookEvent;
+        try {
+          evt = provider.parseWebhook(event.headers, rawBody);
+        } catch (err) {
+          if (err instanceof WebhookSignatureError) {
+            log.warn("webhook rejected", { reason: err.message });
+            throw new HttpError(401, "unauthorized", err.message);
+          }
+          throw err;
+        }
+
+        // Idempotency: one row per provider event id (unique). Rows only get
+        // processed_at once everything below succeeded, so failed attempts are retried.
+        const { data: existing, error: lookupErr } = await supabase
+          .from("payment_events")
+          .select("id, processed_at, outcome")
+          .eq("provider", provider.name)
+          .eq("provider_event_id", evt.eventId)
+          .maybeSingle();
+        if (lookupErr) throw lookupErr;
+
+        if (existing?.processed_at) {
+          return { duplicate: true, outcome: existing.outcome as Outcome };
+        }
+
+        let auditId = existing?.id as string | undefined;
+        if (!auditId) {
+          const { data: created, error: createErr } = await supabase
+            .from("payment_events")
+            .insert({
+              provider: provider.name,
+              provider_event_id: evt.eventId,
+              event_type: evt.rawType,
+              provider_payment_id: evt.paymentId,
+              provider_checkout_id: evt.checkoutId,
+              amount_cents: evt.amountCents,
+              payload: evt.payload,
+            })
+            .select("id")
+            .single();
+
+          // 23505: a concurrent delivery of the same event got there first
+          if (createErr?.code === "23505") return { duplicate: true };
+          if (createErr) throw createErr;
+          auditId = created.id as string;
+        }
+
+        const { outcome, orderId } = await applyEvent(evt);
+
+        const { error: auditErr } = await supabase
+          .from("payment_events")
+          .update({ outcome, order_id: orderId, processed_at: new Date().toISOString() })
+          .eq("id", auditId);
+        if (auditErr) throw auditErr;
+
+        log.info("webhook applied", { event_type: evt.rawType, event_id: evt.eventId, outcome, order_id: orderId });
+        return { outcome, order_id: orderId };
+      },
+    }),
+  },
+});
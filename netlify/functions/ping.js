@@ -1,7 +0,0 @@
-export const handler = async () => {
-  return {
-    statusCode: 200,
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ ok: true, time: new Date().toISOString() }),
-  };
-};
@@ -0,0 +1,12 @@
+import { defineFunction, route } from "./_lib/http";
+
+/** GET: a health check for uptime monitors. */
+export const handler = defineFunction({
+  name: "ping",
+  cors: "public",
+  routes: {
+    GET: route({
+      handle: async () => ({ time: new Date().toISOString() }),
+    }),
+  },
+});
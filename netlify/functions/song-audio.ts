@@ -0,0 +1,91 @@
+import { createClient } from "@supabase/supabase-js";
+import { AUDIO_FORMATS, type AudioFormat } from "../../src/lib/audioFormats";
+import { bearerToken, defineFunction, HttpError, route, type FunctionEvent } from "./_lib/http";
+import { s } from "./_lib/schema";
+
+const supabase = createClient(
+  process.env.SUPABASE_URL as string,
+  process.env.SUPABASE_SERVICE_ROLE_KEY as string
+);
+
+type Kind = "stream" | "download";
+
+type AudioFileRow = { format: AudioFormat; storage_path: string };
+
+const Body = s.object({
+  song_id: s.uuid(),
+  kind: s.optional(s.oneOf<Kind>(["stream", "download"])),
+  format: s.optional(s.nullable(s.oneOf(AUDIO_FORMATS))),
+});
+
+/** Long enough to finish a track with pauses; downloads only need to start. */
+const TTL_S: Record<Kind, number> = { stream: 60 * 60, download: 5 * 60 };
+
+/** Who is asking, from the Supabase access token in the Authorization header. */
+async function callerId(event: FunctionEvent): Promise<string | null> {
+  const token = bearerToken(event);
+  if (!token) return null;
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) return null;
+  return data.user.id;
+}
+
+const safeFileName = (s: string) => s.replace(/[\\/:*?"<>|]+/g, "").trim() || "track";
+
+/**
+ * POST { song_id, kind: "stream" | "download", format? }
+ * Returns a short-lived signed URL for a song the caller has bought.
+ */
+export const handler = defineFunction({
+  name: "song-audio",
+  routes: {
+    POST: route({
+      body: Body,
+      handle: async ({ event, body }) => {
+        const user_id = await callerId(event);
+        if (!user_id) throw new HttpError(401, "unauthorized", "Please sign in again");
+
+        const { song_id } = body;
+        const kind: Kind = body.kind ?? "stream";
+
+        const { data: purchase, error: purchaseErr } = await supabase
+          .from("user_purchases")
+          .select("song_id")
+          .eq("user_id", user_id)
+          .eq("song_id", song_id)
+          .maybeSingle();
+        if (purchaseErr) throw purchaseErr;
+        if (!purchase) throw new HttpError(403, "forbidden", "You haven't bought this song");
+
+        const [{ data: files, error: filesErr }, { data: song, error: songErr }] = await Promise.all([
+          supabase.from("song_audio_files").select("format, storage_path").eq("song_id", song_id),
+          supabase.from("songs").select("title, artist").eq("id", song_id).maybeSingle(),
+        ]);
+        if (filesErr) throw filesErr;
+        if (songErr) throw songErr;
+
+        const byFormat = new Map(((files ?? []) as AudioFileRow[]).map((f) => [f.format, f]));
+        const formats = AUDIO_FORMATS.filter((f) => byFormat.has(f));
+        if (!formats.length) throw new HttpError(404, "not_found", "No audio has been uploaded for this song yet");
+
+        const format = body.format ?? formats[0];
+        const file = byFormat.get(format);
+        if (!file) throw new HttpError(404, "not_found", `Not available as ${format.toUpperCase()}`, { formats });
+
+        const fileName = `${safeFileName(`${song?.artist ?? "BliximStraat"} - ${song?.title ?? "Track"}`)}.${format}`;
+        const { data: signed, error: signErr } = await supabase.storage
+          .from("audio")
+          .createSignedUrl(file.storage_path, TTL_S[kind], kind === "download" ? { download: fileName } : undefined);
+        if (signErr || !signed) throw signErr ?? new Error("Could not sign the audio URL");
+
+        const { error: logErr } = await supabase
+          .from("song_downloads")
+          .insert({ user_id, song_id, format, kind });
+        if (logErr) throw logErr;
+
+        return { url: signed.signedUrl, format, formats, expires_in: TTL_S[kind] };
+      },
+    }),
+  },
+});
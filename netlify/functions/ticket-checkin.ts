@@ -0,0 +1,192 @@
+import { createClient } from "@supabase/supabase-js";
+import {
+  parseTicketCode,
+  type CheckInResult,
+  type DoorScan,
+  type DoorTicket,
+} from "../../src/lib/tickets";
+import { bearerToken, defineFunction, HttpError, route, type FunctionEvent } from "./_lib/http";
+import { s, type Infer } from "./_lib/schema";
+
+const supabase = createClient(
+  process.env.SUPABASE_URL as string,
+  process.env.SUPABASE_SERVICE_ROLE_KEY as string
+);
+
+type TicketRow = {
+  id: string;
+  show_id: string;
+  code: string;
+  status: DoorTicket["status"];
+  checked_in_at: string | null;
+  ticket_tiers: { name: string } | null;
+};
+
+/** Bad requests become a 400 with this message */
+class CheckInError extends HttpError {
+  constructor(message: string) {
+    super(400, "bad_request", message);
+    this.name = "CheckInError";
+  }
+}
+
+const TICKET_SELECT = "id, show_id, code, status, checked_in_at, ticket_tiers:tier_id (name)";
+
+/** A phone that was offline all night still syncs in one go */
+const MAX_SCANS = 1000;
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const Body = s.object({
+  action: s.oneOf(["list", "check_in"]),
+  show_id: s.string(),
+  scans: s.optional(
+    s.array(s.object({ code: s.string(), scanned_at: s.optional(s.nullable(s.string())) }), { max: MAX_SCANS })
+  ),
+});
+
+/** The caller's user id, if the Authorization token belongs to an admin. */
+async function adminId(event: FunctionEvent): Promise<string | null> {
+  const token = bearerToken(event);
+  if (!token) return null;
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) return null;
+
+  const { data: role } = await supabase
+    .from("user_roles")
+    .select("role")
+    .eq("user_id", data.user.id)
+    .eq("role", "admin")
+    .maybeSingle();
+  return role ? data.user.id : null;
+}
+
+const toDoorTicket = (t: TicketRow): DoorTicket => ({
+  code: t.code,
+  tier_name: t.ticket_tiers?.name ?? null,
+  status: t.status,
+  checked_in_at: t.checked_in_at,
+});
+
+async function loadShow(show_id: string) {
+  if (!UUID_RE.test(show_id)) throw new CheckInError("Show not found");
+
+  const { data, error } = await supabase
+    .from("shows")
+    .select("id, title, venue, city, show_date, show_time")
+    .eq("id", show_id)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) throw new CheckInError("Show not found");
+  return data;
+}
+
+/** Every ticket for the show, for the scanner to keep offline. */
+async function listTickets(show_id: string) {
+  const show = await loadShow(show_id);
+
+  const { data, error } = await supabase
+    .from("tickets")
+    .select(TICKET_SELECT)
+    .eq("show_id", show_id)
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+
+  return {
+    show,
+    tickets: ((data ?? []) as unknown as TicketRow[]).map(toDoorTicket),
+    fetched_at: new Date().toISOString(),
+  };
+}
+
+/** Offline scans keep their own time, but never one in the future. */
+function scanTime(raw: unknown): string {
+  const now = Date.now();
+  const t = Date.parse(String(raw ?? ""));
+  return new Date(Number.isFinite(t) && t <= now ? t : now).toISOString();
+}
+
+async function findTicket(code: string, show_id: string): Promise<TicketRow[]> {
+  // short codes are only unique enough within one show
+  const query =
+    code.length === 32
+      ? supabase.from("tickets").select(TICKET_SELECT).eq("code", code)
+      : supabase.from("tickets").select(TICKET_SELECT).eq("show_id", show_id).like("code", `${code}%`);
+
+  const { data, error } = await query.limit(2);
+  if (error) throw error;
+  return (data ?? []) as unknown as TicketRow[];
+}
+
+/**
+ * First scan wins: the update only applies while checked_in_at is still empty,
+ * so two doors scanning the same ticket can't both let it in.
+ */
+async function checkIn(show_id: string, scan: DoorScan, checked_in_by: string): Promise<CheckInResult> {
+  const code = parseTicketCode(scan.code);
+  if (!code) return { code: scan.code, outcome: "not_found", ticket: null };
+
+  const found = await findTicket(code, show_id);
+  if (found.length > 1) return { code: scan.code, outcome: "ambiguous", ticket: null };
+
+  const ticket = found[0];
+  if (!ticket) return { code: scan.code, outcome: "not_found", ticket: null };
+  if (ticket.show_id !== show_id) return { code: scan.code, outcome: "wrong_show", ticket: toDoorTicket(ticket) };
+  if (ticket.status === "void") return { code: scan.code, outcome: "void", ticket: toDoorTicket(ticket) };
+  if (ticket.checked_in_at) return { code: scan.code, outcome: "already_used", ticket: toDoorTicket(ticket) };
+
+  const { data, error } = await supabase
+    .from("tickets")
+    .update({ checked_in_at: scanTime(scan.scanned_at), checked_in_by })
+    .eq("id", ticket.id)
+    .eq("status", "valid")
+    .is("checked_in_at", null)
+    .select(TICKET_SELECT);
+  if (error) throw error;
+
+  const updated = (data as unknown as TicketRow[] | null)?.[0];
+  if (updated) return { code: scan.code, outcome: "ok", ticket: toDoorTicket(updated) };
+
+  // someone else got there between the read and the update
+  const [now] = await findTicket(ticket.code, show_id);
+  return {
+    code: scan.code,
+    outcome: now?.status === "void" ? "void" : "already_used",
+    ticket: now ? toDoorTicket(now) : null,
+  };
+}
+
+function readScans(raw: Infer<typeof Body>["scans"]): DoorScan[] {
+  return (raw ?? [])
+    .map((scan) => ({ code: scan.code, scanned_at: scan.scanned_at ?? "" }))
+    .filter((scan) => scan.code);
+}
+
+/**
+ * POST { action: "list", show_id }
+ * POST { action: "check_in", show_id, scans: [{ code, scanned_at }] }
+ * Admin only. Scans are applied in the order sent; results come back in the same order.
+ */
+export const handler = defineFunction({
+  name: "ticket-checkin",
+  routes: {
+    POST: route({
+      body: Body,
+      handle: async ({ event, body }) => {
+        const checked_in_by = await adminId(event);
+        if (!checked_in_by) throw new HttpError(403, "forbidden", "Admins only");
+
+        if (body.action === "list") return listTickets(body.show_id);
+
+        await loadShow(body.show_id);
+
+        const results: CheckInResult[] = [];
+        for (const scan of readScans(body.scans)) {
+          results.push(await checkIn(body.show_id, scan, checked_in_by));
+        }
+        return { results };
+      },
+    }),
+  },
+});
@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { fake } from "./fakeSupabase";
+import { envelope, jsonEvent, quietFunctionLogs } from "./helpers";
+
+vi.mock("@supabase/supabase-js", async () => {
+  const { fake } = await import("./fakeSupabase");
+  return { createClient: () => fake };
+});
+
+const { handler } = await import("../functions/admin-orders");
+
+const ADMIN = { id: "0a1b2c3d-4e5f-4a6b-8c7d-8e9f0a1b2c3d", email: "admin@example.com" };
+const ORDER_ID = "6f1c2d3e-4a5b-4c6d-8e7f-8091a2b3c4d5";
+const LINE_ID = "e5f6a7b8-c9d0-4e1f-8a2b-3c4d5e6f7a8b";
+
+const refund = (items: { order_item_id: string; quantity: number }[]) =>
+  handler(
+    jsonEvent("POST", { action: "refund", order_id: ORDER_ID, items, reason: "Size sold out" }, {
+      authorization: "Bearer admin-token",
+    })
+  );
+
+function seedOrder(quantity: number) {
+  fake.seed("orders", [
+    {
+      id: ORDER_ID,
+      status: "paid",
+      total_cents: 30000 * quantity,
+      refunded_cents: 0,
+      shipping_cents: 0,
+      provider: "fake",
+      provider_checkout_id: "ch_1",
+    },
+  ]);
+  fake.seed("order_items", [
+    { id: LINE_ID, order_id: ORDER_ID, quantity, price_cents: 30000, discount_cents: 0, refunded_quantity: 0 },
+  ]);
+}
+
+beforeEach(() => {
+  fake.reset();
+  quietFunctionLogs();
+  vi.stubEnv("PAYMENT_PROVIDER", "fake");
+
+  fake.signIn("admin-token", ADMIN);
+  fake.seed("user_roles", [{ user_id: ADMIN.id, role: "admin" }]);
+  fake.onRpc("apply_order_refund", () => "refunded");
+});
+
+describe("admin-orders refunds", () => {
+  it("adds up a line named twice before checking what's left of it", async () => {
+    seedOrder(1);
+
+    const res = await refund([
+      { order_item_id: LINE_ID, quantity: 1 },
+      { order_item_id: LINE_ID, quantity: 1 },
+    ]);
+
+    expect(res.statusCode).toBe(400);
+    expect(envelope(res)).toMatchObject({ error: { message: "Can't refund more than is left on a line" } });
+    expect(fake.rows("order_refunds")).toEqual([]);
+    expect(fake.rpcCalls).toEqual([]);
+  });
+
+  it("refunds a line named twice as one", async () => {
+    seedOrder(2);
+
+    const res = await refund([
+      { order_item_id: LINE_ID, quantity: 1 },
+      { order_item_id: LINE_ID, quantity: 1 },
+    ]);
+
+    expect(envelope(res)).toMatchObject({ ok: true, data: { status: "refunded", amount_cents: 60000 } });
+    expect(fake.rows("order_refunds")).toMatchObject([
+      { amount_cents: 60000, items: [{ order_item_id: LINE_ID, quantity: 2 }], reason: "Size sold out" },
+    ]);
+    expect(fake.rpcCalls.map((c) => c.fn)).toEqual(["apply_order_refund"]);
+  });
+});
@@ -0,0 +1,208 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { CheckoutSessionInput } from "../functions/_lib/payments";
+import { fake } from "./fakeSupabase";
+import { envelope, jsonEvent, quietFunctionLogs } from "./helpers";
+
+vi.mock("@supabase/supabase-js", async () => {
+  const { fake } = await import("./fakeSupabase");
+  return { createClient: () => fake };
+});
+
+// The fake provider, with every checkout it was asked to open kept for checking
+const sessions = vi.hoisted(() => [] as CheckoutSessionInput[]);
+vi.mock("../functions/_lib/payments", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../functions/_lib/payments")>();
+  return {
+    ...actual,
+    getPaymentProvider: () => {
+      const provider = actual.createFakeProvider();
+      return {
+        ...provider,
+        createCheckout: (input: CheckoutSessionInput) => {
+          sessions.push(input);
+          return provider.createCheckout(input);
+        },
+      };
+    },
+  };
+});
+
+const { handler } = await import("../functions/create-checkout");
+
+const BUYER = { id: "0a1b2c3d-4e5f-4a6b-8c7d-8e9f0a1b2c3d", email: "buyer@example.com" };
+const SOMEONE_ELSE = "9f8e7d6c-5b4a-4392-8a1b-0c9d8e7f6a5b";
+const SONG_ID = "a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d";
+const PRODUCT_ID = "b2c3d4e5-f6a7-4b8c-9d0e-1f2a3b4c5d6e";
+const PROMO_ID = "c3d4e5f6-a7b8-4c9d-8e1f-2a3b4c5d6e7f";
+const TIER_ID = "d4e5f6a7-b8c9-4d0e-9f1a-2b3c4d5e6f7a";
+
+const ADDRESS = {
+  recipient: "Anna Buyer",
+  phone: "082 123 4567",
+  line1: "12 Long Street",
+  city: "Cape Town",
+  province: "Western Cape",
+  postal_code: "8001",
+};
+
+const checkout = (body: Record<string, unknown>, token: string | null = "buyer-token") =>
+  handler(jsonEvent("POST", body, token ? { authorization: `Bearer ${token}` } : {}));
+
+function seedPromo(fields: Record<string, unknown>) {
+  fake.seed("promo_codes", [
+    {
+      id: PROMO_ID,
+      code: "LAUNCH",
+      description: null,
+      discount_type: "percent",
+      discount_value: 10,
+      scope: "all",
+      song_ids: [],
+      product_ids: [],
+      min_subtotal_cents: null,
+      starts_at: null,
+      expires_at: null,
+      max_redemptions: null,
+      per_user_limit: null,
+      is_active: true,
+      ...fields,
+    },
+  ]);
+}
+
+const song = { id: SONG_ID, kind: "song", title: "Song", price_cents: 1, qty: 1 };
+const tee = (qty: number) => ({ id: "men-tee/m/blue", sku: "men-tee/m/blue", kind: "merch", price_cents: 1, qty });
+
+beforeEach(() => {
+  fake.reset();
+  sessions.length = 0;
+  quietFunctionLogs();
+  vi.stubEnv("PAYMENT_PROVIDER", "fake");
+
+  fake.signIn("buyer-token", BUYER);
+  fake.seed("songs", [{ id: SONG_ID, title: "Mooiste Song", price_cents: 1500, is_active: true, album_id: null }]);
+  fake.seed("product_variants", [
+    {
+      sku: "men-tee/m/blue",
+      size: "M",
+      colour: "Blue",
+      product_id: PRODUCT_ID,
+      stock_qty: null,
+      products: { name: "Men's Tee", price_cents: 45000, is_preorder: false },
+    },
+  ]);
+  fake.seed("shipping_rules", [
+    { method: "courier", label: "Courier", fee_cents: 9900, free_over_cents: null, is_active: true },
+  ]);
+});
+
+describe("create-checkout", () => {
+  it("charges the database prices, not the ones the cart sent", async () => {
+    const res = await checkout({ items: [song, tee(2)], delivery: { method: "courier", address: ADDRESS } });
+
+    expect(res.statusCode).toBe(200);
+    const total = 1500 + 2 * 45000 + 9900;
+    expect(envelope(res)).toMatchObject({ ok: true, data: { total_cents: total, shipping_cents: 9900 } });
+
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0]).toMatchObject({ amountCents: total, userId: BUYER.id });
+    expect(fake.rows("orders")).toMatchObject([{ user_id: BUYER.id, status: "pending", total_cents: total }]);
+    expect(fake.rows("order_items").map((l) => [l.title, l.quantity, l.price_cents])).toEqual([
+      ["Mooiste Song", 1, 1500],
+      ["Men's Tee", 2, 45000],
+    ]);
+  });
+
+  it("quotes without opening an order", async () => {
+    const res = await checkout({ quote: true, items: [song] });
+
+    expect(envelope(res)).toMatchObject({ ok: true, data: { subtotal_cents: 1500, promo: null } });
+    expect(fake.rows("orders")).toEqual([]);
+    expect(sessions).toEqual([]);
+  });
+
+  describe("the buyer", () => {
+    it("is whoever the token belongs to, whatever user_id the body names", async () => {
+      await checkout({ items: [song], user_id: SOMEONE_ELSE });
+
+      expect(fake.rows("orders")).toMatchObject([{ user_id: BUYER.id }]);
+    });
+
+    it("must be signed in", async () => {
+      const res = await checkout({ items: [song], user_id: SOMEONE_ELSE }, null);
+
+      expect(res.statusCode).toBe(401);
+      expect(fake.rows("orders")).toEqual([]);
+    });
+
+    it("must have a valid token", async () => {
+      const res = await checkout({ items: [song] }, "made-up-token");
+
+      expect(res.statusCode).toBe(401);
+      expect(fake.rows("orders")).toEqual([]);
+    });
+  });
+
+  it("refuses more merch than one order may hold", async () => {
+    const res = await checkout({ items: [tee(11)], delivery: { method: "courier", address: ADDRESS } });
+
+    expect(res.statusCode).toBe(400);
+    expect(envelope(res)).toMatchObject({ ok: false, error: { code: "bad_request" } });
+    expect(sessions).toEqual([]);
+  });
+
+  it("refuses more tickets than one order may hold", async () => {
+    fake.seed("ticket_tiers", [
+      {
+        id: TIER_ID,
+        name: "General",
+        price_cents: 20000,
+        is_active: true,
+        sales_start: null,
+        sales_end: null,
+        shows: { title: "Bliksem Live", show_date: "2099-01-01", timezone: "Africa/Johannesburg" },
+      },
+    ]);
+    fake.seed("ticket_tier_availability", [{ tier_id: TIER_ID, remaining: 100 }]);
+
+    const res = await checkout({ items: [{ id: TIER_ID, kind: "ticket", price_cents: 1, qty: 11 }] });
+
+    expect(res.statusCode).toBe(400);
+    expect(envelope(res)).toMatchObject({
+      ok: false,
+      error: { code: "bad_request", message: "Bliksem Live: you can buy at most 10 tickets at a time" },
+    });
+    expect(fake.rows("orders")).toEqual([]);
+  });
+
+  it("refuses songs that aren't in the catalogue", async () => {
+    const res = await checkout({ items: [{ ...song, id: SOMEONE_ELSE }] });
+
+    expect(res.statusCode).toBe(400);
+    expect(envelope(res)).toMatchObject({ error: { message: `Unknown song: ${SOMEONE_ELSE}` } });
+  });
+
+  it("quotes the merch subtotal after the code, which the delivery fee is worked out from", async () => {
+    seedPromo({ discount_value: 20 });
+
+    const res = await checkout({ quote: true, items: [song, tee(2)], promo_code: "launch" });
+
+    expect(envelope(res)).toMatchObject({
+      ok: true,
+      data: { subtotal_cents: 0.8 * (1500 + 90000), merch_subtotal_cents: 0.8 * 90000 },
+    });
+  });
+
+  it("fails the order when another checkout claimed the code's last use first", async () => {
+    seedPromo({ max_redemptions: 1 });
+    fake.onRpc("claim_promo_redemption", () => "used_up");
+
+    const res = await checkout({ items: [song], promo_code: "launch" });
+
+    expect(res.statusCode).toBe(400);
+    expect(envelope(res)).toMatchObject({ error: { message: "That code has been used up" } });
+    expect(fake.rpcCalls).toMatchObject([{ fn: "claim_promo_redemption", args: { p_user_id: BUYER.id } }]);
+    expect(fake.rows("orders")).toMatchObject([{ status: "failed" }]);
+    expect(sessions).toEqual([]);
+  });
+});
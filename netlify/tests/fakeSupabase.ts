@@ -0,0 +1,283 @@
+import crypto from "crypto";
+
+/**
+ * An in-memory stand-in for the service-role Supabase client, covering the
+ * query builder calls the functions make. Tests swap it in with
+ *
+ *   vi.mock("@supabase/supabase-js", async () => {
+ *     const { fake } = await import("./fakeSupabase");
+ *     return { createClient: () => fake };
+ *   });
+ *
+ * Embedded relations aren't resolved: seed rows with the nested objects a
+ * select would join in. Every query yields to the event loop before running,
+ * so concurrent requests interleave the way they would against a database.
+ */
+
+export type Row = Record<string, unknown>;
+
+type Result = { data: unknown; error: { code?: string; message: string } | null; count?: number | null };
+
+type Filter = (row: Row) => boolean;
+
+type Operation =
+  | { kind: "select" }
+  | { kind: "insert"; rows: Row[] }
+  | { kind: "update"; patch: Row }
+  | { kind: "upsert"; rows: Row[]; onConflict: string[]; ignoreDuplicates: boolean }
+  | { kind: "delete" };
+
+/** Unique keys the tests rely on, as in the migrations */
+const UNIQUE: Record<string, string[][]> = {
+  payment_events: [["provider", "provider_event_id"]],
+  user_purchases: [["user_id", "song_id"]],
+  song_gifts: [["order_item_id"]],
+  promo_redemptions: [["order_id"]],
+};
+
+/** "orders.status" reads row.orders.status */
+function pick(row: Row, path: string): unknown {
+  return path.split(".").reduce<unknown>((v, key) => (v && typeof v === "object" ? (v as Row)[key] : undefined), row);
+}
+
+const sameKey = (a: Row, b: Row, cols: string[]) => cols.every((c) => a[c] === b[c]);
+
+class Query implements PromiseLike<Result> {
+  private op: Operation = { kind: "select" };
+  private filters: Filter[] = [];
+  private returning = false;
+  private countRows = false;
+  private headOnly = false;
+  private expect: "many" | "single" | "maybe" = "many";
+  private readonly db: FakeSupabase;
+  private readonly table: string;
+
+  constructor(db: FakeSupabase, table: string) {
+    this.db = db;
+    this.table = table;
+  }
+
+  select(_columns?: string, opts: { count?: string; head?: boolean } = {}) {
+    if (this.op.kind === "select") {
+      this.countRows = !!opts.count;
+      this.headOnly = !!opts.head;
+    } else {
+      this.returning = true;
+    }
+    return this;
+  }
+
+  insert(rows: Row | Row[]) {
+    this.op = { kind: "insert", rows: Array.isArray(rows) ? rows : [rows] };
+    return this;
+  }
+
+  update(patch: Row) {
+    this.op = { kind: "update", patch };
+    return this;
+  }
+
+  upsert(rows: Row | Row[], opts: { onConflict?: string; ignoreDuplicates?: boolean } = {}) {
+    this.op = {
+      kind: "upsert",
+      rows: Array.isArray(rows) ? rows : [rows],
+      onConflict: (opts.onConflict ?? "id").split(","),
+      ignoreDuplicates: !!opts.ignoreDuplicates,
+    };
+    return this;
+  }
+
+  delete() {
+    this.op = { kind: "delete" };
+    return this;
+  }
+
+  eq(col: string, value: unknown) {
+    this.filters.push((r) => pick(r, col) === value);
+    return this;
+  }
+
+  in(col: string, values: unknown[]) {
+    this.filters.push((r) => values.includes(pick(r, col)));
+    return this;
+  }
+
+  is(col: string, value: null) {
+    this.filters.push((r) => (pick(r, col) ?? null) === value);
+    return this;
+  }
+
+  not(col: string, op: "is", value: null) {
+    if (op !== "is") throw new Error(`fakeSupabase: not(${op}) is not supported`);
+    this.filters.push((r) => (pick(r, col) ?? null) !== value);
+    return this;
+  }
+
+  gte(col: string, value: string | number) {
+    this.filters.push((r) => (pick(r, col) as string | number) >= value);
+    return this;
+  }
+
+  lt(col: string, value: string | number) {
+    this.filters.push((r) => (pick(r, col) as string | number) < value);
+    return this;
+  }
+
+  order() {
+    return this;
+  }
+
+  single() {
+    this.expect = "single";
+    return this;
+  }
+
+  maybeSingle() {
+    this.expect = "maybe";
+    return this;
+  }
+
+  then<A = Result, B = never>(
+    onfulfilled?: ((value: Result) => A | PromiseLike<A>) | null,
+    onrejected?: ((reason: unknown) => B | PromiseLike<B>) | null
+  ): PromiseLike<A | B> {
+    return new Promise<Result>((resolve) => setImmediate(() => resolve(this.run()))).then(onfulfilled, onrejected);
+  }
+
+  private run(): Result {
+    const rows = this.db.rows(this.table);
+    const matches = () => rows.filter((r) => this.filters.every((f) => f(r)));
+    let out: Row[];
+
+    const op = this.op;
+    switch (op.kind) {
+      case "select":
+        out = matches();
+        if (this.headOnly) return { data: null, error: null, count: out.length };
+        break;
+
+      case "insert": {
+        const conflict = op.rows.find((row) => this.db.conflicting(this.table, row));
+        if (conflict) return { data: null, error: { code: "23505", message: "duplicate key value" } };
+        out = op.rows.map((row) => this.db.add(this.table, row));
+        break;
+      }
+
+      case "update":
+        out = matches();
+        for (const row of out) Object.assign(row, op.patch);
+        break;
+
+      case "upsert": {
+        out = [];
+        for (const row of op.rows) {
+          const existing = rows.find((r) => sameKey(r, row, op.onConflict));
+          if (existing && op.ignoreDuplicates) continue;
+          if (existing) out.push(Object.assign(existing, row));
+          else out.push(this.db.add(this.table, row));
+        }
+        break;
+      }
+
+      case "delete":
+        out = matches();
+        this.db.remove(this.table, out);
+        break;
+    }
+
+    const data = op.kind === "select" || this.returning ? out.map((r) => structuredClone(r)) : null;
+    const count = this.countRows ? out.length : null;
+
+    if (this.expect === "many") return { data, error: null, count };
+    if (out.length > 1 || (this.expect === "single" && out.length === 0)) {
+      return { data: null, error: { code: "PGRST116", message: `expected one row, got ${out.length}` } };
+    }
+    return { data: data?.[0] ?? null, error: null, count };
+  }
+}
+
+export type RpcHandler = (args: Row, db: FakeSupabase) => unknown;
+
+export class FakeSupabase {
+  private tables = new Map<string, Row[]>();
+  private tokens = new Map<string, { id: string; email: string | null }>();
+  private rpcHandlers = new Map<string, RpcHandler>();
+  rpcCalls: { fn: string; args: Row }[] = [];
+
+  readonly auth = {
+    getUser: async (token: string) => {
+      const user = this.tokens.get(token);
+      return user
+        ? { data: { user }, error: null }
+        : { data: { user: null }, error: { message: "invalid JWT" } };
+    },
+    admin: {
+      getUserById: async (id: string) => {
+        const user = [...this.tokens.values()].find((u) => u.id === id) ?? null;
+        return { data: { user }, error: null };
+      },
+    },
+  };
+
+  /** Empties every table and forgets users, rpcs and calls. */
+  reset() {
+    this.tables.clear();
+    this.tokens.clear();
+    this.rpcHandlers.clear();
+    this.rpcCalls = [];
+  }
+
+  from(table: string) {
+    return new Query(this, table);
+  }
+
+  rpc(fn: string, args: Row): PromiseLike<Result> {
+    this.rpcCalls.push({ fn, args });
+    const handler = this.rpcHandlers.get(fn);
+    // a handler that throws stands in for the function raising an exception
+    return new Promise((resolve) =>
+      setImmediate(() => {
+        try {
+          resolve({ data: handler ? (handler(args, this) ?? null) : null, error: null });
+        } catch (err) {
+          resolve({ data: null, error: { message: err instanceof Error ? err.message : String(err) } });
+        }
+      })
+    );
+  }
+
+  onRpc(fn: string, handler: RpcHandler) {
+    this.rpcHandlers.set(fn, handler);
+  }
+
+  /** An access token the auth client accepts as this user */
+  signIn(token: string, user: { id: string; email?: string }) {
+    this.tokens.set(token, { id: user.id, email: user.email ?? null });
+  }
+
+  seed(table: string, rows: Row[]) {
+    for (const row of rows) this.add(table, row);
+  }
+
+  rows(table: string): Row[] {
+    if (!this.tables.has(table)) this.tables.set(table, []);
+    return this.tables.get(table)!;
+  }
+
+  add(table: string, row: Row): Row {
+    const stored = { id: crypto.randomUUID(), created_at: new Date().toISOString(), ...row };
+    this.rows(table).push(stored);
+    return stored;
+  }
+
+  remove(table: string, gone: Row[]) {
+    this.tables.set(table, this.rows(table).filter((r) => !gone.includes(r)));
+  }
+
+  conflicting(table: string, row: Row): boolean {
+    const keys = [["id"], ...(UNIQUE[table] ?? [])];
+    return keys.some((cols) => row[cols[0]] !== undefined && this.rows(table).some((r) => sameKey(r, row, cols)));
+  }
+}
+
+export const fake = new FakeSupabase();
@@ -0,0 +1,66 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { vi } from "vitest";
+import type { FunctionEvent, FunctionResponse } from "../functions/_lib/http";
+import { signWebhook } from "../functions/_lib/payments";
+
+export const WEBHOOK_SECRET = `whsec_${Buffer.from("test-webhook-secret").toString("base64")}`;
+
+export function jsonEvent(method: string, body?: unknown, headers: Record<string, string> = {}): FunctionEvent {
+  return {
+    httpMethod: method,
+    headers: { "content-type": "application/json", ...headers },
+    body: body === undefined ? null : JSON.stringify(body),
+  };
+}
+
+/** The body of a netlify/fixtures/webhooks fixture, filled in like scripts/replay-webhook.mjs does. */
+export function webhookFixture(
+  name: "payment-succeeded" | "payment-failed",
+  fill: { order: string; amount: number; checkout?: string; eventId?: string }
+): string {
+  const file = path.join(import.meta.dirname, "../fixtures/webhooks", `${name}.json`);
+  const fixture = JSON.parse(fs.readFileSync(file, "utf8"));
+  if (fill.eventId) fixture.id = fill.eventId;
+
+  return JSON.stringify(fixture)
+    .replaceAll('"{{amount_cents}}"', String(fill.amount))
+    .replaceAll("{{order_id}}", fill.order)
+    .replaceAll("{{checkout_id}}", fill.checkout ?? "");
+}
+
+/** A webhook delivery signed the way the provider signs them. */
+export function signedWebhook(
+  body: string,
+  opts: { secret?: string; timestamp?: number } = {}
+): FunctionEvent {
+  const id = `msg_${crypto.randomUUID()}`;
+  const timestamp = opts.timestamp ?? Math.floor(Date.now() / 1000);
+  const signature = signWebhook(opts.secret ?? WEBHOOK_SECRET, id, timestamp, body);
+
+  return {
+    httpMethod: "POST",
+    headers: {
+      "content-type": "application/json",
+      "webhook-id": id,
+      "webhook-timestamp": String(timestamp),
+      "webhook-signature": `v1,${signature}`,
+    },
+    body,
+  };
+}
+
+/** The envelope a function answered with */
+export function envelope(res: FunctionResponse) {
+  return JSON.parse(res.body) as
+    | { ok: true; data: Record<string, unknown> }
+    | { ok: false; error: { code: string; message: string } };
+}
+
+/** Functions log a JSON line per request; keep them out of the test output. */
+export function quietFunctionLogs() {
+  for (const level of ["log", "warn", "error"] as const) {
+    vi.spyOn(console, level).mockImplementation(() => {});
+  }
+}
@@ -0,0 +1,170 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { fake } from "./fakeSupabase";
+import { envelope, quietFunctionLogs, signedWebhook, webhookFixture, WEBHOOK_SECRET } from "./helpers";
+
+vi.mock("@supabase/supabase-js", async () => {
+  const { fake } = await import("./fakeSupabase");
+  return { createClient: () => fake };
+});
+
+const { handler } = await import("../functions/payment-webhook");
+
+const ORDER_ID = "6f1c2d3e-4a5b-4c6d-8e7f-8091a2b3c4d5";
+const USER_ID = "0a1b2c3d-4e5f-4a6b-8c7d-8e9f0a1b2c3d";
+const SONG_ID = "a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d";
+
+function seedOrder(total_cents = 4500) {
+  fake.seed("orders", [{ id: ORDER_ID, user_id: USER_ID, status: "pending", total_cents }]);
+  fake.seed("order_items", [
+    { order_id: ORDER_ID, song_id: SONG_ID, gift_email: null, gift_message: null, ticket_tier_id: null },
+  ]);
+}
+
+const paid = (opts: { amount?: number; eventId?: string } = {}) =>
+  signedWebhook(
+    webhookFixture("payment-succeeded", { order: ORDER_ID, amount: opts.amount ?? 4500, eventId: opts.eventId })
+  );
+
+const order = () => fake.rows("orders").find((o) => o.id === ORDER_ID);
+const statusLog = () => fake.rows("order_status_history").map((h) => h.status);
+
+beforeEach(() => {
+  fake.reset();
+  quietFunctionLogs();
+  vi.stubEnv("PAYMENT_PROVIDER", "fake");
+  vi.stubEnv("FAKE_WEBHOOK_SECRET", WEBHOOK_SECRET);
+});
+
+describe("payment-webhook", () => {
+  it("marks the order paid and grants its songs", async () => {
+    seedOrder();
+
+    const res = await handler(paid());
+
+    expect(res.statusCode).toBe(200);
+    expect(envelope(res)).toEqual({ ok: true, data: { outcome: "paid", order_id: ORDER_ID } });
+    expect(order()?.status).toBe("paid");
+    expect(statusLog()).toEqual(["paid"]);
+    expect(fake.rows("user_purchases")).toMatchObject([{ user_id: USER_ID, song_id: SONG_ID, order_id: ORDER_ID }]);
+    expect(fake.rpcCalls.map((c) => c.fn)).toEqual(["apply_order_stock", "issue_order_tickets", "issue_invoice"]);
+    expect(fake.rows("payment_events")).toMatchObject([{ outcome: "paid", order_id: ORDER_ID }]);
+  });
+
+  describe("signatures", () => {
+    it("rejects a body signed with another secret", async () => {
+      seedOrder();
+      const body = webhookFixture("payment-succeeded", { order: ORDER_ID, amount: 4500 });
+      const wrongKey = `whsec_${Buffer.from("someone-else").toString("base64")}`;
+
+      const res = await handler(signedWebhook(body, { secret: wrongKey }));
+
+      expect(res.statusCode).toBe(401);
+      expect(envelope(res)).toMatchObject({ ok: false, error: { code: "unauthorized" } });
+      expect(order()?.status).toBe("pending");
+      expect(fake.rows("payment_events")).toEqual([]);
+    });
+
+    it("rejects a body changed after signing", async () => {
+      seedOrder();
+      const event = paid();
+      event.body = String(event.body).replace("4500", "1");
+
+      const res = await handler(event);
+
+      expect(res.statusCode).toBe(401);
+      expect(order()?.status).toBe("pending");
+    });
+
+    it("rejects an old delivery being replayed", async () => {
+      seedOrder();
+      const body = webhookFixture("payment-succeeded", { order: ORDER_ID, amount: 4500 });
+
+      const res = await handler(signedWebhook(body, { timestamp: Math.floor(Date.now() / 1000) - 60 * 60 }));
+
+      expect(res.statusCode).toBe(401);
+      expect(envelope(res)).toMatchObject({ error: { message: "Webhook timestamp outside tolerance" } });
+    });
+
+    it("rejects an unsigned delivery", async () => {
+      seedOrder();
+      const event = paid();
+      delete event.headers["webhook-signature"];
+
+      const res = await handler(event);
+
+      expect(res.statusCode).toBe(401);
+      expect(fake.rows("payment_events")).toEqual([]);
+    });
+  });
+
+  it("applies a repeated event once", async () => {
+    seedOrder();
+
+    const first = await handler(paid({ eventId: "evt_repeat" }));
+    const second = await handler(paid({ eventId: "evt_repeat" }));
+
+    expect(envelope(first)).toMatchObject({ ok: true, data: { outcome: "paid" } });
+    expect(envelope(second)).toEqual({ ok: true, data: { duplicate: true, outcome: "paid" } });
+    expect(statusLog()).toEqual(["paid"]);
+    expect(fake.rows("payment_events")).toHaveLength(1);
+    expect(fake.rpcCalls.filter((c) => c.fn === "issue_invoice")).toHaveLength(1);
+  });
+
+  it("applies an event delivered twice at the same time once", async () => {
+    seedOrder();
+
+    const results = await Promise.all([
+      handler(paid({ eventId: "evt_race" })),
+      handler(paid({ eventId: "evt_race" })),
+    ]);
+
+    const bodies = results.map(envelope);
+    expect(results.map((r) => r.statusCode)).toEqual([200, 200]);
+    expect(bodies).toContainEqual({ ok: true, data: { outcome: "paid", order_id: ORDER_ID } });
+    expect(bodies).toContainEqual({ ok: true, data: { duplicate: true } });
+    expect(statusLog()).toEqual(["paid"]);
+    expect(fake.rows("payment_events")).toHaveLength(1);
+    expect(fake.rows("user_purchases")).toHaveLength(1);
+  });
+
+  it("retries an event whose first attempt failed part-way", async () => {
+    seedOrder();
+    fake.onRpc("issue_invoice", () => {
+      throw new Error("database went away");
+    });
+
+    const failed = await handler(paid({ eventId: "evt_retry" }));
+    expect(failed.statusCode).toBe(500);
+    expect(fake.rows("payment_events")[0]?.processed_at).toBeUndefined();
+
+    fake.onRpc("issue_invoice", () => null);
+    const retry = await handler(paid({ eventId: "evt_retry" }));
+
+    expect(envelope(retry)).toMatchObject({ ok: true, data: { outcome: "paid" } });
+    expect(fake.rows("payment_events")).toHaveLength(1);
+    expect(statusLog()).toEqual(["paid"]);
+  });
+
+  it("leaves the order unpaid when the amount doesn't match", async () => {
+    seedOrder(4500);
+
+    const res = await handler(paid({ amount: 100 }));
+
+    expect(envelope(res)).toEqual({ ok: true, data: { outcome: "amount_mismatch", order_id: ORDER_ID } });
+    expect(order()?.status).toBe("pending");
+    expect(statusLog()).toEqual([]);
+    expect(fake.rows("user_purchases")).toEqual([]);
+    expect(fake.rpcCalls).toEqual([]);
+  });
+
+  it("marks a pending order failed", async () => {
+    seedOrder();
+    const body = webhookFixture("payment-failed", { order: ORDER_ID, amount: 4500 });
+
+    const res = await handler(signedWebhook(body));
+
+    expect(envelope(res)).toEqual({ ok: true, data: { outcome: "failed", order_id: ORDER_ID } });
+    expect(order()?.status).toBe("failed");
+    expect(statusLog()).toEqual(["failed"]);
+  });
+});
@@ -0,0 +1,97 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  createFakeProvider,
+  getPaymentProvider,
+  signWebhook,
+  WebhookSignatureError,
+} from "../functions/_lib/payments";
+import { signedWebhook, webhookFixture, WEBHOOK_SECRET } from "./helpers";
+
+const ORDER_ID = "6f1c2d3e-4a5b-4c6d-8e7f-8091a2b3c4d5";
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("getPaymentProvider", () => {
+  it("picks the provider named by PAYMENT_PROVIDER", () => {
+    vi.stubEnv("PAYMENT_PROVIDER", "FAKE");
+    expect(getPaymentProvider().name).toBe("fake");
+
+    vi.stubEnv("PAYMENT_PROVIDER", "yoco");
+    vi.stubEnv("YOCO_SECRET_KEY", "sk_test_123");
+    expect(getPaymentProvider().name).toBe("yoco");
+  });
+
+  it("needs a Yoco key", () => {
+    vi.stubEnv("PAYMENT_PROVIDER", "yoco");
+    vi.stubEnv("YOCO_SECRET_KEY", "");
+    expect(() => getPaymentProvider()).toThrow("Missing YOCO_SECRET_KEY env var");
+  });
+
+  it("refuses a provider it doesn't know", () => {
+    vi.stubEnv("PAYMENT_PROVIDER", "paypal");
+    expect(() => getPaymentProvider()).toThrow('Unknown PAYMENT_PROVIDER "paypal"');
+  });
+});
+
+describe("fake provider", () => {
+  const provider = createFakeProvider();
+
+  it("sends the shopper straight to the success page", async () => {
+    const session = await provider.createCheckout({
+      orderId: ORDER_ID,
+      userId: "user",
+      amountCents: 4500,
+      currency: "ZAR",
+      successUrl: "http://localhost:8888/music?payment=success",
+      cancelUrl: "http://localhost:8888/music?payment=cancel",
+      failureUrl: "http://localhost:8888/music?payment=failed",
+    });
+
+    expect(session.id).toMatch(/^fake_/);
+    expect(session.redirectUrl).toBe("http://localhost:8888/music?payment=success");
+  });
+
+  it("reads a signed fixture into a webhook event", () => {
+    vi.stubEnv("FAKE_WEBHOOK_SECRET", WEBHOOK_SECRET);
+    const body = webhookFixture("payment-succeeded", { order: ORDER_ID, amount: 4500, checkout: "ch_1" });
+    const { headers } = signedWebhook(body);
+
+    expect(provider.parseWebhook(headers, body)).toMatchObject({
+      eventId: "evt_fixture_succeeded_0001",
+      type: "payment.succeeded",
+      orderId: ORDER_ID,
+      checkoutId: "ch_1",
+      paymentId: "p_fixture_0001",
+      amountCents: 4500,
+    });
+  });
+
+  it("accepts any of several signatures, as during a secret rotation", () => {
+    vi.stubEnv("FAKE_WEBHOOK_SECRET", WEBHOOK_SECRET);
+    const body = webhookFixture("payment-failed", { order: ORDER_ID, amount: 4500 });
+    const { headers } = signedWebhook(body);
+    const oldKey = `whsec_${Buffer.from("old-secret").toString("base64")}`;
+    const stale = signWebhook(oldKey, String(headers["webhook-id"]), Number(headers["webhook-timestamp"]), body);
+    headers["webhook-signature"] = `v1,${stale} ${headers["webhook-signature"]}`;
+
+    expect(provider.parseWebhook(headers, body).type).toBe("payment.failed");
+  });
+
+  it("rejects a bad signature", () => {
+    vi.stubEnv("FAKE_WEBHOOK_SECRET", WEBHOOK_SECRET);
+    const body = webhookFixture("payment-succeeded", { order: ORDER_ID, amount: 4500 });
+    const { headers } = signedWebhook(body);
+    headers["webhook-signature"] = "v1,bm90IGEgc2lnbmF0dXJl";
+
+    expect(() => provider.parseWebhook(headers, body)).toThrow(WebhookSignatureError);
+  });
+
+  it("won't check signatures without a secret", () => {
+    vi.stubEnv("FAKE_WEBHOOK_SECRET", "");
+    const body = webhookFixture("payment-succeeded", { order: ORDER_ID, amount: 4500 });
+
+    expect(() => provider.parseWebhook(signedWebhook(body).headers, body)).toThrow("Missing webhook secret env var");
+  });
+});
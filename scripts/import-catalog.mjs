@@ -0,0 +1,172 @@
+// One-off: seeds the songs, albums (releases), shows and lyrics tables from src/data.
+// Safe to re-run — rows are matched on slug (or, for rows Admin created before
+// slugs existed, on title) and updated in place. Prices and audio are left alone.
+//
+//   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... node scripts/import-catalog.mjs [--dry-run]
+//
+// Needs supabase/migrations up to 20261019000700_release_types.sql applied first.
+import { createClient } from "@supabase/supabase-js";
+import { createServer } from "vite";
+
+const dryRun = process.argv.includes("--dry-run");
+
+const url = process.env.SUPABASE_URL;
+const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+if (!url || !key) {
+  console.error("Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY env var");
+  process.exit(1);
+}
+const supabase = createClient(url, key);
+
+const yearToDate = (year) => (/^\d{4}$/.test(year ?? "") ? `${year}-01-01` : null);
+
+/** src/data is TypeScript, so let Vite load it. */
+async function loadStaticData() {
+  const vite = await createServer({
+    server: { middlewareMode: true },
+    appType: "custom",
+    logLevel: "error",
+  });
+  try {
+    const { SONGS } = await vite.ssrLoadModule("/src/data/songs.ts");
+    const { SHOWS } = await vite.ssrLoadModule("/src/data/shows.ts");
+    const { LYRICS } = await vite.ssrLoadModule("/src/data/lyrics.ts");
+    const { RELEASES } = await vite.ssrLoadModule("/src/data/releases.ts");
+    return { SONGS, SHOWS, LYRICS, RELEASES };
+  } finally {
+    await vite.close();
+  }
+}
+
+/**
+ * Insert or update rows of `table`, matching on slug first and title second.
+ * Returns slug -> id for everything written.
+ */
+async function sync(table, rows) {
+  const { data: existing, error } = await supabase.from(table).select("id, slug, title");
+  if (error) throw new Error(`${table}: ${error.message}`);
+
+  const bySlug = new Map(existing.filter((r) => r.slug).map((r) => [r.slug, r.id]));
+  const byTitle = new Map(
+    existing.filter((r) => !r.slug && r.title).map((r) => [r.title.trim().toLowerCase(), r.id])
+  );
+
+  const ids = new Map();
+  let inserted = 0;
+  let updated = 0;
+
+  for (const row of rows) {
+    const id = bySlug.get(row.slug) ?? byTitle.get(String(row.title ?? "").trim().toLowerCase());
+
+    if (dryRun) {
+      ids.set(row.slug, id ?? `(new ${row.slug})`);
+      id ? updated++ : inserted++;
+      continue;
+    }
+
+    const { data, error: writeErr } = id
+      ? await supabase.from(table).update(row).eq("id", id).select("id").single()
+      : await supabase.from(table).insert(row).select("id").single();
+    if (writeErr) throw new Error(`${table} ${row.slug}: ${writeErr.message}`);
+
+    ids.set(row.slug, data.id);
+    id ? updated++ : inserted++;
+  }
+
+  console.log(`${table}: ${inserted} new, ${updated} updated`);
+  return ids;
+}
+
+const { SONGS, SHOWS, LYRICS, RELEASES } = await loadStaticData();
+
+const albumIds = await sync(
+  "albums",
+  RELEASES.map((release) => ({
+    slug: release.id,
+    title: release.title,
+    artist: "BliximStraat",
+    release_type: release.type,
+    release_date: release.releaseDate || null,
+    cover_url: release.coverUrl ?? null,
+    youtube_url: release.youtubeUrl ?? null,
+  }))
+);
+
+// song id -> where it sits on its release
+const placement = new Map();
+for (const release of RELEASES) {
+  release.trackIds.forEach((songId, i) => {
+    placement.set(songId, { albumId: albumIds.get(release.id), track: i + 1 });
+  });
+}
+
+// Songs keep their static order (newest first) through sort_order
+const songIds = await sync(
+  "songs",
+  SONGS.map((song, i) => {
+    const place = placement.get(song.id);
+    return {
+      slug: song.id,
+      title: song.title,
+      artist: song.artist,
+      release_date: yearToDate(song.year),
+      genre: song.genre ?? null,
+      youtube_url: song.youtubeUrl,
+      cover_url: song.coverUrl ?? null,
+      album_id: dryRun ? null : place?.albumId ?? null,
+      track_number: place?.track ?? null,
+      sort_order: i + 1,
+    };
+  })
+);
+
+await sync(
+  "shows",
+  SHOWS.map((show) => ({
+    slug: show.id,
+    title: show.title,
+    venue: show.venue,
+    city: show.city,
+    show_date: show.date,
+    show_time: show.time ?? null,
+    ticket_url: show.ticketUrl ?? null,
+    lineup: show.lineup ?? [],
+    venue_address: show.address ?? null,
+    latitude: show.lat ?? null,
+    longitude: show.lng ?? null,
+    doors_time: show.doorsTime ?? null,
+    min_age: show.minAge ?? null,
+    timezone: show.timezone ?? "Africa/Johannesburg",
+    attendance_note: show.attendanceNote ?? null,
+  }))
+);
+
+// Lyrics hang off a song; entries whose id isn't a song slug are reported, not guessed
+let lyricsWritten = 0;
+for (const entry of LYRICS) {
+  const songId = songIds.get(entry.id);
+  if (!songId) {
+    console.warn(`lyrics: no song with slug "${entry.id}" — skipped "${entry.title}"`);
+    continue;
+  }
+  if (dryRun) {
+    lyricsWritten++;
+    continue;
+  }
+
+  const { error } = await supabase.from("lyrics").upsert(
+    {
+      song_id: songId,
+      title: entry.title,
+      album: entry.album ?? null,
+      year: entry.year ?? null,
+      lyrics: entry.lyrics,
+    },
+    { onConflict: "song_id" }
+  );
+  if (error) throw new Error(`lyrics ${entry.id}: ${error.message}`);
+  lyricsWritten++;
+}
+console.log(`lyrics: ${lyricsWritten} written`);
+
+if (dryRun) console.log("(dry run — nothing was written)");
@@ -1,14 +1,29 @@
 import { BrowserRouter, Routes, Route } from "react-router-dom";
-import { useEffect, useState } from "react";
+import { lazy, Suspense, useEffect, useState } from "react";
 
 import Home from "./pages/Home";
-import Music from "./pages/Music";
-import Shows from "./pages/Shows";
-import Merch from "./pages/Merch";
-import About from "./pages/About";
-import Bookings from "./pages/Bookings";
 
 import CookieConsent from "./components/CookieConsent";
+import CartModal from "./components/cart/CartModal";
+import PlayerBar from "./components/player/PlayerBar";
+import { RequireAuth, RequireRole } from "./components/auth/RequireAuth";
+
+// Everything but the landing page loads on demand
+const Music = lazy(() => import("./pages/Music"));
+const Shows = lazy(() => import("./pages/Shows"));
+const ShowDetail = lazy(() => import("./pages/ShowDetail"));
+const Merch = lazy(() => import("./pages/Merch"));
+const About = lazy(() => import("./pages/About"));
+const Bookings = lazy(() => import("./pages/Bookings"));
+const Lyrics = lazy(() => import("./pages/Lyrics"));
+const Profile = lazy(() => import("./pages/Profile"));
+const PurchasedSongs = lazy(() => import("./pages/PurchasedSongs"));
+const MyTickets = lazy(() => import("./pages/MyTickets"));
+const PurchaseHistory = lazy(() => import("./pages/PurchaseHistory"));
+const Invoice = lazy(() => import("./pages/Invoice"));
+const Admin = lazy(() => import("./pages/Admin"));
+const CheckIn = lazy(() => import("./pages/CheckIn"));
+const Privacy = lazy(() => import("./pages/Privacy"));
 
 function Placeholder({ title }: { title: string }) {
   return (
@@ -21,6 +36,10 @@ function Placeholder({ title }: { title: string }) {
   );
 }
 
+function RouteFallback() {
+  return <div className="min-h-screen bg-black" />;
+}
+
 function BootLoader({ show }: { show: boolean }) {
   const [mounted, setMounted] = useState(show);
 
@@ -118,15 +137,73 @@ export default function App() {
     <BrowserRouter>
       <BootLoader show={booting} />
       <CookieConsent privacyPath="/privacy" brandName="BliximStraat" />
-      <Routes>
-        <Route path="/" element={<Home />} />
-        <Route path="/music" element={<Music />} />
-        <Route path="/shows" element={<Shows />} />
-        <Route path="/merch" element={<Merch />} />
-        <Route path="/about" element={<About />} />
-        <Route path="/bookings" element={<Bookings />} />
-        <Route path="*" element={<Placeholder title="404" />} />
-      </Routes>
+      <CartModal />
+      <PlayerBar />
+      <Suspense fallback={<RouteFallback />}>
+        <Routes>
+          <Route path="/" element={<Home />} />
+          <Route path="/music" element={<Music />} />
+          <Route path="/shows" element={<Shows />} />
+          <Route path="/shows/:id" element={<ShowDetail />} />
+          <Route path="/merch" element={<Merch />} />
+          <Route path="/about" element={<About />} />
+          <Route path="/bookings" element={<Bookings />} />
+          <Route path="/lyrics" element={<Lyrics />} />
+          <Route path="/privacy" element={<Privacy />} />
+          <Route path="/profile" element={<Profile />} />
+
+          <Route
+            path="/purchased"
+            element={
+              <RequireAuth>
+                <PurchasedSongs />
+              </RequireAuth>
+            }
+          />
+          <Route
+            path="/tickets"
+            element={
+              <RequireAuth>
+                <MyTickets />
+              </RequireAuth>
+            }
+          />
+          <Route
+            path="/orders"
+            element={
+              <RequireAuth>
+                <PurchaseHistory />
+              </RequireAuth>
+            }
+          />
+          <Route
+            path="/orders/:orderId/invoice"
+            element={
+              <RequireAuth>
+                <Invoice />
+              </RequireAuth>
+            }
+          />
+          <Route
+            path="/admin"
+            element={
+              <RequireRole role="admin">
+                <Admin />
+              </RequireRole>
+            }
+          />
+          <Route
+            path="/admin/checkin/:showId"
+            element={
+              <RequireRole role="admin">
+                <CheckIn />
+              </RequireRole>
+            }
+          />
+
+          <Route path="*" element={<Placeholder title="404" />} />
+        </Routes>
+      </Suspense>
     </BrowserRouter>
   );
 }
@@ -1,27 +1,8 @@
-import { useEffect, useMemo, useState } from "react";
-
-type Province =
-  | "Gauteng"
-  | "Western Cape"
-  | "KwaZulu-Natal"
-  | "Eastern Cape"
-  | "Free State"
-  | "Limpopo"
-  | "Mpumalanga"
-  | "North West"
-  | "Northern Cape";
-
-const PROVINCES: Province[] = [
-  "Gauteng",
-  "Western Cape",
-  "KwaZulu-Natal",
-  "Eastern Cape",
-  "Free State",
-  "Limpopo",
-  "Mpumalanga",
-  "North West",
-  "Northern Cape",
-];
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { PROVINCES, type Province } from "../lib/provinces";
+import { SIGNAL_MAX_LENGTH } from "../lib/bookingSignals";
+import { solvePow, type PowChallenge } from "../lib/proofOfWork";
+import { callFunction, FunctionCallError } from "../lib/functionsClient";
 
 type FormState = {
   name: string;
@@ -30,20 +11,51 @@ type FormState = {
   wantsShow: boolean;
   isVenue: boolean;
   message: string;
+  // honeypot: hidden from people, so anything in it came from a bot
+  website: string;
 };
 
+type SolvedPow = { challenge_id: string; nonce: number };
+
 function encodeWhatsAppText(text: string) {
   return encodeURIComponent(text);
 }
 
+const DEVICE_KEY = "blx.pin.device";
+
+/** A random id kept in this browser, so the server can rate-limit per device as well as per IP. */
+function deviceFingerprint(): string {
+  try {
+    let id = localStorage.getItem(DEVICE_KEY);
+    if (!id) {
+      id = crypto.randomUUID();
+      localStorage.setItem(DEVICE_KEY, id);
+    }
+    return id;
+  } catch {
+    return "";
+  }
+}
+
+/** Fetches a challenge from the booking-signal function and solves it. */
+async function proveWork(fn: string, signal: AbortSignal): Promise<SolvedPow> {
+  const { challenge } = await callFunction<{ challenge: PowChallenge }>(fn, {
+    signal,
+    fallbackMessage: "Could not load the form, please try again.",
+  });
+  const nonce = await solvePow(challenge, signal);
+  return { challenge_id: challenge.id, nonce };
+}
+
 export default function PinWhatsApp({
   artistName = "Storm Sintese",
   whatsappNumberE164 = "27720000000", // e.g. 27821234567 (NO +)
-  submitEndpoint = "/.netlify/functions/booking-signal",
+  submitFunction = "booking-signal",
 }: {
   artistName?: string;
   whatsappNumberE164: string;
-  submitEndpoint?: string;
+  /** Netlify function name */
+  submitFunction?: string;
 }) {
   const [open, setOpen] = useState(false);
 
@@ -54,12 +66,36 @@ export default function PinWhatsApp({
     wantsShow: true,
     isVenue: false,
     message: "",
+    website: "",
   });
 
   const [submitting, setSubmitting] = useState(false);
   const [submitted, setSubmitted] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // proof of work starts when the form opens, so it's usually done by Submit
+  const powRef = useRef<Promise<SolvedPow> | null>(null);
+  const powAbortRef = useRef<AbortController | null>(null);
+
+  const startProofOfWork = useCallback(() => {
+    powAbortRef.current?.abort();
+    const controller = new AbortController();
+    powAbortRef.current = controller;
+    const pow = proveWork(submitFunction, controller.signal);
+    pow.catch(() => {}); // surfaced on Submit
+    powRef.current = pow;
+    return pow;
+  }, [submitFunction]);
+
+  useEffect(() => {
+    if (!open) return;
+    startProofOfWork();
+    return () => {
+      powAbortRef.current?.abort();
+      powRef.current = null;
+    };
+  }, [open, startProofOfWork]);
+
   // speech bubble visibility (dismissible)
   const [showNudge, setShowNudge] = useState(true);
 
@@ -110,28 +146,37 @@ export default function PinWhatsApp({
 
     setSubmitting(true);
     try {
-      const res = await fetch(submitEndpoint, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          name: form.name.trim() || null,
-          town: form.town.trim(),
-          province: form.province,
-          wants_show: form.wantsShow,
-          is_venue: form.isVenue,
-          message: form.message.trim() || null,
-          source: "pin_button",
-        }),
-      });
-
-      if (!res.ok) {
-        const txt = await res.text().catch(() => "");
-        throw new Error(txt || "Submit failed");
+      const send = async (pow: SolvedPow) =>
+        callFunction(submitFunction, {
+          body: {
+            name: form.name.trim() || null,
+            town: form.town.trim(),
+            province: form.province,
+            wants_show: form.wantsShow,
+            is_venue: form.isVenue,
+            message: form.message.trim() || null,
+            source: "pin_button",
+            website: form.website,
+            fingerprint: deviceFingerprint(),
+            pow,
+          },
+          fallbackMessage: "Submit failed",
+        });
+
+      try {
+        await send(await (powRef.current ?? startProofOfWork()));
+      } catch (e) {
+        // the challenge expired while the form sat open: solve a fresh one
+        if (!(e instanceof FunctionCallError && e.code === "conflict")) throw e;
+        await send(await startProofOfWork());
       }
 
+      powRef.current = null;
       setSubmitted(true);
-    } catch (e: any) {
-      setError(e?.message || "Something went wrong submitting.");
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Something went wrong submitting.");
+      // a failed attempt may have used the challenge up
+      startProofOfWork();
     } finally {
       setSubmitting(false);
     }
@@ -218,6 +263,7 @@ export default function PinWhatsApp({
                         setForm((s) => ({ ...s, name: e.target.value }))
                       }
                       placeholder="e.g. Pieter"
+                      maxLength={SIGNAL_MAX_LENGTH.name}
                     />
                   </label>
 
@@ -230,6 +276,7 @@ export default function PinWhatsApp({
                         setForm((s) => ({ ...s, town: e.target.value }))
                       }
                       placeholder="e.g. Pretoria"
+                      maxLength={SIGNAL_MAX_LENGTH.town}
                       required
                     />
                   </label>
@@ -289,9 +336,22 @@ export default function PinWhatsApp({
                         setForm((s) => ({ ...s, message: e.target.value }))
                       }
                       placeholder="Venue name, contact, or any info..."
+                      maxLength={SIGNAL_MAX_LENGTH.message}
                       rows={4}
                     />
                   </label>
+
+                  <label className="pin-honeypot" aria-hidden="true">
+                    Website
+                    <input
+                      value={form.website}
+                      onChange={(e) =>
+                        setForm((s) => ({ ...s, website: e.target.value }))
+                      }
+                      tabIndex={-1}
+                      autoComplete="off"
+                    />
+                  </label>
                 </div>
 
                 {error && <div className="pin-error">{error}</div>}
@@ -547,6 +607,14 @@ export default function PinWhatsApp({
           gap: 12px;
         }
         .pin-span{ grid-column: 1 / -1; }
+        /* off-screen rather than display:none, which some bots skip */
+        .pin-honeypot{
+          position: absolute;
+          left: -10000px;
+          width: 1px;
+          height: 1px;
+          overflow: hidden;
+        }
 
         .pin-label{
           display:flex;
@@ -0,0 +1,40 @@
+import type { ReactNode } from "react";
+import { Navigate, useLocation } from "react-router-dom";
+import { useAuth } from "../../contexts/AuthContext";
+import { useHasRole, type Role } from "../../hooks/useHasRole";
+
+function GuardMessage({ children }: { children: ReactNode }) {
+  return (
+    <div className="min-h-screen bg-black text-white/70 flex items-center justify-center px-6 text-center">
+      {children}
+    </div>
+  );
+}
+
+/** Sends signed-out visitors to /profile, which brings them back here after sign-in. */
+export function RequireAuth({ children }: { children: ReactNode }) {
+  const { user, loading } = useAuth();
+  const location = useLocation();
+
+  if (loading) return <GuardMessage>Loading session…</GuardMessage>;
+  if (!user) return <Navigate to="/profile" replace state={{ from: location }} />;
+
+  return <>{children}</>;
+}
+
+function RoleCheck({ role, children }: { role: Role; children: ReactNode }) {
+  const { hasRole, checking } = useHasRole(role);
+
+  if (checking) return <GuardMessage>Checking permissions…</GuardMessage>;
+  if (!hasRole) return <GuardMessage>You are not allowed here.</GuardMessage>;
+
+  return <>{children}</>;
+}
+
+export function RequireRole({ role, children }: { role: Role; children: ReactNode }) {
+  return (
+    <RequireAuth>
+      <RoleCheck role={role}>{children}</RoleCheck>
+    </RequireAuth>
+  );
+}
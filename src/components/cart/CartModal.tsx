@@ -1,7 +1,28 @@
 import { useState } from "react";
-import { X, Trash2, Minus, Plus } from "lucide-react";
+import { X, Trash2, Minus, Plus, ArrowLeft, Gift } from "lucide-react";
 import { supabase } from "../../lib/supabase";
-import { useCart } from "../../contexts/CartContext";
+import { useCart, type CartItem } from "../../contexts/CartContext";
+import { GIFT_MESSAGE_MAX, normaliseGift, type SongGift } from "../../lib/gifts";
+import { maxQtyFor } from "../../lib/guestCart";
+import {
+  fetchCollectShows,
+  fetchShippingRules,
+  type CheckoutDelivery,
+  type CheckoutQuote,
+  type CheckoutStarted,
+  type CollectShow,
+} from "../../lib/cartApi";
+import { callFunction } from "../../lib/functionsClient";
+import { PROVINCES, type Province } from "../../lib/provinces";
+import {
+  EMPTY_ADDRESS,
+  normaliseAddress,
+  shippingFeeCents,
+  validateAddress,
+  type DeliveryMethod,
+  type ShippingAddress,
+  type ShippingRule,
+} from "../../lib/shipping";
 
 function moneyZARFromCents(cents: number) {
   const rands = (Number.isFinite(cents) ? cents : 0) / 100;
@@ -11,6 +32,85 @@ function moneyZARFromCents(cents: number) {
   }).format(rands);
 }
 
+const inputCls =
+  "w-full rounded-xl border border-white/10 bg-black/40 px-3 py-2 text-sm text-white/90 placeholder:text-white/35 outline-none focus:border-white/30";
+
+/** A code create-checkout accepted for the cart as it was then (`itemsKey`). */
+type AppliedPromo = {
+  code: string;
+  description: string | null;
+  discountCents: number;
+  merchSubtotalCents: number;
+  itemsKey: string;
+};
+
+/** "Send as gift" on a song line: who gets it and an optional note. */
+function GiftFields({
+  draft,
+  disabled,
+  onChange,
+  onSave,
+}: {
+  draft: SongGift | undefined;
+  disabled: boolean;
+  onChange: (draft: SongGift | undefined) => void;
+  onSave: () => void;
+}) {
+  if (!draft) {
+    return (
+      <button
+        type="button"
+        className="mt-2 inline-flex items-center gap-1.5 text-xs text-white/60 hover:text-white transition disabled:opacity-50"
+        onClick={() => onChange({ email: "", message: "" })}
+        disabled={disabled}
+      >
+        <Gift className="h-3.5 w-3.5" />
+        Send as gift
+      </button>
+    );
+  }
+
+  return (
+    <div className="mt-2 space-y-2">
+      <input
+        className={inputCls}
+        type="email"
+        placeholder="Their email *"
+        value={draft.email}
+        onChange={(e) => onChange({ ...draft, email: e.target.value })}
+        onBlur={onSave}
+        disabled={disabled}
+      />
+      <textarea
+        className={`${inputCls} resize-none`}
+        rows={2}
+        maxLength={GIFT_MESSAGE_MAX}
+        placeholder="Message (optional)"
+        value={draft.message}
+        onChange={(e) => onChange({ ...draft, message: e.target.value })}
+        onBlur={onSave}
+        disabled={disabled}
+      />
+      <div className="flex items-center justify-between text-[11px] text-white/45">
+        <span>They claim it by signing in with this email.</span>
+        <button
+          type="button"
+          className="text-white/60 hover:text-white transition"
+          onClick={() => onChange(undefined)}
+          disabled={disabled}
+        >
+          Not a gift
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function showLabel(show: CollectShow) {
+  const where = [show.venue, show.city].filter(Boolean).join(", ");
+  return [show.show_date, show.title, where].filter(Boolean).join(" · ");
+}
+
 /**
  * Back-compat:
  * - If you pass open/onClose props, it will use those.
@@ -32,10 +132,173 @@ export default function CartModal(props?: {
   const subtotalCents = cart.subtotalCents;
 
   const canCheckout = (items?.length ?? 0) > 0 && subtotalCents > 0 && !busy;
+  const hasPhysical = items.some((it) => it.kind === "merch");
+
+  // Delivery step: only for carts with merch in them
+  const [step, setStep] = useState<"cart" | "delivery">("cart");
+  const [rules, setRules] = useState<ShippingRule[]>([]);
+  const [shows, setShows] = useState<CollectShow[]>([]);
+  const [method, setMethod] = useState<DeliveryMethod | null>(null);
+  const [address, setAddress] = useState<ShippingAddress>(EMPTY_ADDRESS);
+  const [showId, setShowId] = useState("");
+
+  const [promoInput, setPromoInput] = useState("");
+  const [promo, setPromo] = useState<AppliedPromo | null>(null);
+  const [promoError, setPromoError] = useState<string | null>(null);
+  const [checkingPromo, setCheckingPromo] = useState(false);
+
+  // A quote is only good for the cart it was made for; checkout re-checks the code anyway
+  const itemsKey = items.map((it) => `${it.id}:${it.qty}`).join(",");
+  const quotedPromo = promo && promo.itemsKey === itemsKey ? promo : null;
+  const promoCents = quotedPromo?.discountCents ?? 0;
+
+  // Gift details as typed; saved to the cart line once they're a valid gift
+  const [giftDrafts, setGiftDrafts] = useState<Record<string, SongGift | undefined>>({});
+  const giftDraftFor = (it: CartItem) => giftDrafts[it.id] ?? it.gift ?? undefined;
+
+  const editGift = (it: CartItem, draft: SongGift | undefined) => {
+    setGiftDrafts((d) => ({ ...d, [it.id]: draft }));
+    if (!draft) cart.setGift(it.id, null);
+  };
+
+  const saveGift = (it: CartItem) => {
+    const gift = normaliseGift(giftDraftFor(it));
+    if (gift) cart.setGift(it.id, gift);
+  };
+
+  const onDeliveryStep = step === "delivery" && hasPhysical;
+  // Bundles only cover songs, so a code is the one discount that can lower this
+  // below a free-shipping threshold; create-checkout works the fee out the same way
+  const merchSubtotalCents =
+    quotedPromo?.merchSubtotalCents ??
+    items.filter((it) => it.kind === "merch").reduce((sum, it) => sum + it.price_cents * it.qty, 0);
+  const rule = rules.find((r) => r.method === method) ?? null;
+  const shippingCents = onDeliveryStep && rule ? shippingFeeCents(rule, merchSubtotalCents) : 0;
+
+  const setField = (field: keyof ShippingAddress) => (value: string) =>
+    setAddress((a) => ({ ...a, [field]: value }));
+
+  const checkoutItems = () =>
+    items.map((it) => ({
+      id: it.id,
+      title: it.title,
+      artist: it.artist ?? null,
+      cover_url: it.cover_url ?? null,
+      price_cents: it.price_cents,
+      qty: it.qty,
+      kind: it.kind ?? "song",
+      sku: it.sku ?? null,
+      gift: (it.kind ?? "song") === "song" ? normaliseGift(giftDraftFor(it)) : null,
+    }));
+
+  /** Asks create-checkout to price the cart with the code, without starting a payment. */
+  async function applyPromo() {
+    const code = promoInput.trim();
+    if (!code) return;
+
+    setPromoError(null);
+    setCheckingPromo(true);
+    try {
+      const { data: auth } = await supabase.auth.getSession();
+      const token = auth.session?.access_token;
+      if (!token) {
+        setPromoError("Sign in to use a code.");
+        return;
+      }
+
+      const quote = await callFunction<CheckoutQuote>("create-checkout", {
+        body: { quote: true, items: checkoutItems(), promo_code: code },
+        token,
+        fallbackMessage: "Couldn't check that code. Please try again.",
+      });
+      if (!quote.promo) throw new Error("Couldn't check that code. Please try again.");
+
+      setPromo({
+        code: quote.promo.code,
+        description: quote.promo.description,
+        discountCents: quote.promo_discount_cents,
+        merchSubtotalCents: quote.merch_subtotal_cents,
+        itemsKey,
+      });
+      setPromoInput("");
+    } catch (err) {
+      console.error("Promo check error:", err);
+      setPromo(null);
+      setPromoError(err instanceof Error ? err.message : "Couldn't check that code. Please try again.");
+    } finally {
+      setCheckingPromo(false);
+    }
+  }
+
+  async function goToDelivery() {
+    setErrorMsg(null);
+    setBusy(true);
+    try {
+      const [nextRules, nextShows] = await Promise.all([fetchShippingRules(), fetchCollectShows()]);
+      // Collecting only makes sense when there is a show coming up
+      const usable = nextRules.filter((r) => r.method !== "collect" || nextShows.length > 0);
+      if (!usable.length) {
+        setErrorMsg("Merch delivery isn't available right now. Please try again later.");
+        return;
+      }
+
+      setRules(usable);
+      setShows(nextShows);
+      setMethod((m) => (m && usable.some((r) => r.method === m) ? m : usable[0].method));
+      setShowId((id) => id || nextShows[0]?.id || "");
+      setStep("delivery");
+    } catch (err) {
+      console.error("Delivery options error:", err);
+      setErrorMsg("Couldn't load delivery options. Please try again.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  /** Null (with an error shown) when the delivery form isn't complete. */
+  function readDelivery(): CheckoutDelivery | null {
+    if (!method) {
+      setErrorMsg("Choose how you'd like to receive your merch.");
+      return null;
+    }
+
+    if (method === "collect") {
+      if (!showId) {
+        setErrorMsg("Pick the show you'll collect at.");
+        return null;
+      }
+      return { method, show_id: showId };
+    }
+
+    const normalised = normaliseAddress(address);
+    const problem = validateAddress(normalised);
+    if (problem) {
+      setErrorMsg(problem);
+      return null;
+    }
+    return { method, address: normalised };
+  }
 
   async function doCheckout() {
     setErrorMsg(null);
 
+    const badGift = items.find((it) => {
+      const draft = (it.kind ?? "song") === "song" ? giftDraftFor(it) : undefined;
+      return draft && !normaliseGift(draft);
+    });
+    if (badGift) {
+      setErrorMsg(`Add a valid email address for your gift of "${badGift.title}".`);
+      return;
+    }
+
+    if (hasPhysical && !onDeliveryStep) {
+      await goToDelivery();
+      return;
+    }
+
+    const delivery = hasPhysical ? readDelivery() : null;
+    if (hasPhysical && !delivery) return;
+
     if (!items || items.length === 0) {
       setErrorMsg("Your cart is empty.");
       return;
@@ -49,76 +312,35 @@ export default function CartModal(props?: {
 
     setBusy(true);
     try {
-      // user_id optional; server can treat as guest
-      const { data: authRes, error: authErr } = await supabase.auth.getUser();
-      if (authErr) {
-        // not fatal
-        console.warn("Auth getUser error (continuing):", authErr);
+      // create-checkout takes the buyer from the session token, never from the body
+      const { data: auth } = await supabase.auth.getSession();
+      const token = auth.session?.access_token;
+      if (!token) {
+        setErrorMsg("Please sign in to check out.");
+        return;
       }
-      const user_id = authRes?.user?.id ?? null;
 
       const payload = {
-        items: items.map((it) => ({
-          id: it.id,
-          title: it.title,
-          artist: it.artist ?? null,
-          cover_url: it.cover_url ?? null,
-          price_cents: it.price_cents,
-          qty: it.qty,
-          sku: it.sku ?? null,
-        })),
-        user_id,
+        items: checkoutItems(),
+        delivery,
+        promo_code: promo?.code ?? null,
       };
 
-      const res = await fetch("/.netlify/functions/create-checkout", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(payload),
+      const { checkoutUrl } = await callFunction<CheckoutStarted>("create-checkout", {
+        body: payload,
+        token,
+        fallbackMessage: "Something went wrong starting checkout.",
       });
-
-      // ✅ Robust parsing: handles JSON, HTML error pages, plain text, etc.
-      const contentType = res.headers.get("content-type") || "";
-      const rawText = await res.text();
-
-      let data: any = null;
-      if (contentType.includes("application/json")) {
-        try {
-          data = rawText ? JSON.parse(rawText) : null;
-        } catch {
-          data = { error: "Server returned invalid JSON", rawText };
-        }
-      } else {
-        data = { error: "Server error (non-JSON response)", rawText };
-      }
-
-      if (!res.ok) {
-        console.error("Checkout start failed:", {
-          status: res.status,
-          contentType,
-          data,
-        });
-        console.log("RAW SERVER RESPONSE:", rawText);
-
-        setErrorMsg(
-          data?.error ||
-            data?.message ||
-            `Checkout failed (HTTP ${res.status}). Check console for raw response.`
-        );
-        return;
-      }
-
-      const checkoutUrl = data?.checkoutUrl;
-      if (!checkoutUrl || typeof checkoutUrl !== "string") {
-        console.error("Bad checkout response:", data);
+      if (!checkoutUrl) {
         setErrorMsg("Checkout URL missing from server response.");
         return;
       }
 
       onClose();
       window.location.href = checkoutUrl;
-    } catch (err: any) {
+    } catch (err) {
       console.error("Checkout error:", err);
-      setErrorMsg(err?.message || "Something went wrong starting checkout.");
+      setErrorMsg(err instanceof Error ? err.message : "Something went wrong starting checkout.");
     } finally {
       setBusy(false);
     }
@@ -158,112 +380,332 @@ export default function CartModal(props?: {
           </div>
         ) : null}
 
-        {/* Items */}
-        <div className="max-h-[52vh] overflow-y-auto px-5 py-4">
-          {items?.length ? (
-            <div className="space-y-3">
-              {items.map((it) => (
-                <div
-                  key={it.id}
-                  className="flex items-center gap-3 rounded-2xl border border-white/10 bg-white/5 p-3"
+        {/* Delivery */}
+        {onDeliveryStep ? (
+          <div className="max-h-[52vh] overflow-y-auto px-5 py-4 space-y-4">
+            <div className="space-y-2">
+              {rules.map((r) => {
+                const fee = shippingFeeCents(r, merchSubtotalCents);
+                return (
+                  <label
+                    key={r.method}
+                    className="flex items-center gap-3 rounded-2xl border border-white/10 bg-white/5 px-4 py-3 cursor-pointer"
+                  >
+                    <input
+                      type="radio"
+                      name="delivery-method"
+                      checked={method === r.method}
+                      onChange={() => setMethod(r.method)}
+                      className="accent-white"
+                    />
+                    <span className="flex-1 text-sm text-white">{r.label}</span>
+                    <span className="text-sm text-white/70 tabular-nums">
+                      {fee === 0 ? "Free" : moneyZARFromCents(fee)}
+                    </span>
+                  </label>
+                );
+              })}
+              {rule?.free_over_cents != null && shippingCents > 0 ? (
+                <div className="text-xs text-white/50">
+                  Free on merch orders over {moneyZARFromCents(rule.free_over_cents)}.
+                </div>
+              ) : null}
+            </div>
+
+            {method === "courier" ? (
+              <div className="grid grid-cols-2 gap-2">
+                <input
+                  className={`${inputCls} col-span-2`}
+                  placeholder="Full name *"
+                  autoComplete="name"
+                  value={address.recipient}
+                  onChange={(e) => setField("recipient")(e.target.value)}
+                />
+                <input
+                  className={`${inputCls} col-span-2`}
+                  placeholder="Cellphone * (for the courier)"
+                  autoComplete="tel"
+                  inputMode="tel"
+                  value={address.phone}
+                  onChange={(e) => setField("phone")(e.target.value)}
+                />
+                <input
+                  className={`${inputCls} col-span-2`}
+                  placeholder="Street address *"
+                  autoComplete="address-line1"
+                  value={address.line1}
+                  onChange={(e) => setField("line1")(e.target.value)}
+                />
+                <input
+                  className={`${inputCls} col-span-2`}
+                  placeholder="Complex / unit (optional)"
+                  autoComplete="address-line2"
+                  value={address.line2}
+                  onChange={(e) => setField("line2")(e.target.value)}
+                />
+                <input
+                  className={inputCls}
+                  placeholder="Suburb"
+                  value={address.suburb}
+                  onChange={(e) => setField("suburb")(e.target.value)}
+                />
+                <input
+                  className={inputCls}
+                  placeholder="Town / city *"
+                  autoComplete="address-level2"
+                  value={address.city}
+                  onChange={(e) => setField("city")(e.target.value)}
+                />
+                <select
+                  className={inputCls}
+                  value={address.province}
+                  onChange={(e) => setAddress((a) => ({ ...a, province: e.target.value as Province }))}
                 >
-                  {/* Cover */}
-                  <div className="h-14 w-14 overflow-hidden rounded-xl bg-white/10 flex-shrink-0">
-                    {it.cover_url ? (
-                      <img
-                        src={it.cover_url}
-                        alt={it.title}
-                        className="h-full w-full object-cover"
-                        loading="lazy"
-                      />
-                    ) : (
-                      <div className="h-full w-full grid place-items-center text-xs text-white/40">
-                        No cover
+                  <option value="">Province *</option>
+                  {PROVINCES.map((p) => (
+                    <option key={p} value={p}>
+                      {p}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  className={inputCls}
+                  placeholder="Postal code *"
+                  autoComplete="postal-code"
+                  inputMode="numeric"
+                  maxLength={4}
+                  value={address.postal_code}
+                  onChange={(e) => setField("postal_code")(e.target.value)}
+                />
+              </div>
+            ) : method === "collect" ? (
+              <div>
+                <label className="block text-xs text-white/60 mb-2">Collect at</label>
+                <select className={inputCls} value={showId} onChange={(e) => setShowId(e.target.value)}>
+                  {shows.map((show) => (
+                    <option key={show.id} value={show.id}>
+                      {showLabel(show)}
+                    </option>
+                  ))}
+                </select>
+                <div className="mt-2 text-xs text-white/50">
+                  Bring your order confirmation to the merch table.
+                </div>
+              </div>
+            ) : null}
+          </div>
+        ) : (
+          /* Items */
+          <div className="max-h-[52vh] overflow-y-auto px-5 py-4">
+            {items?.length ? (
+              <div className="space-y-3">
+                {items.map((it) => (
+                  <div
+                    key={it.id}
+                    className="flex items-center gap-3 rounded-2xl border border-white/10 bg-white/5 p-3"
+                  >
+                    {/* Cover */}
+                    <div className="h-14 w-14 overflow-hidden rounded-xl bg-white/10 flex-shrink-0">
+                      {it.cover_url ? (
+                        <img
+                          src={it.cover_url}
+                          alt={it.title}
+                          className="h-full w-full object-cover"
+                          loading="lazy"
+                        />
+                      ) : (
+                        <div className="h-full w-full grid place-items-center text-xs text-white/40">
+                          No cover
+                        </div>
+                      )}
+                    </div>
+
+                    {/* Info */}
+                    <div className="min-w-0 flex-1">
+                      <div className="text-white font-medium truncate">
+                        {it.title}
+                      </div>
+                      <div className="text-white/60 text-sm truncate">
+                        {it.artist ?? ""}
+                      </div>
+                      <div className="mt-1 text-[11px] uppercase tracking-wide text-white/40">
+                        {it.kind === "merch"
+                          ? "Merch · ships to you"
+                          : it.kind === "ticket"
+                            ? "Ticket · QR code in My Tickets"
+                            : giftDraftFor(it)
+                              ? "Gift · sent by email"
+                              : "Digital download"}
                       </div>
-                    )}
-                  </div>
 
-                  {/* Info */}
-                  <div className="min-w-0 flex-1">
-                    <div className="text-white font-medium truncate">
-                      {it.title}
-                    </div>
-                    <div className="text-white/60 text-sm truncate">
-                      {it.artist ?? ""}
-                    </div>
+                      {/* Qty */}
+                      <div className="mt-2 flex items-center gap-2">
+                        <button
+                          type="button"
+                          className="rounded-lg border border-white/10 bg-black/30 p-1.5 text-white/80 hover:text-white hover:bg-white/10 transition disabled:opacity-50"
+                          onClick={() => cart.decrement(it.id)}
+                          disabled={busy || it.qty <= 1}
+                          aria-label="Decrease quantity"
+                        >
+                          <Minus className="h-4 w-4" />
+                        </button>
+
+                        <div className="w-10 text-center text-white/90 text-sm tabular-nums">
+                          {it.qty}
+                        </div>
+
+                        <button
+                          type="button"
+                          className="rounded-lg border border-white/10 bg-black/30 p-1.5 text-white/80 hover:text-white hover:bg-white/10 transition disabled:opacity-50"
+                          onClick={() => cart.increment(it.id)}
+                          disabled={busy || it.qty >= maxQtyFor(it)}
+                          aria-label="Increase quantity"
+                        >
+                          <Plus className="h-4 w-4" />
+                        </button>
+                      </div>
 
-                    {/* Qty */}
-                    <div className="mt-2 flex items-center gap-2">
-                      <button
-                        type="button"
-                        className="rounded-lg border border-white/10 bg-black/30 p-1.5 text-white/80 hover:text-white hover:bg-white/10 transition disabled:opacity-50"
-                        onClick={() => cart.decrement(it.id)}
-                        disabled={busy || it.qty <= 1}
-                        aria-label="Decrease quantity"
-                      >
-                        <Minus className="h-4 w-4" />
-                      </button>
+                      {(it.kind ?? "song") === "song" ? (
+                        <GiftFields
+                          draft={giftDraftFor(it)}
+                          disabled={busy}
+                          onChange={(draft) => editGift(it, draft)}
+                          onSave={() => saveGift(it)}
+                        />
+                      ) : null}
+                    </div>
 
-                      <div className="w-10 text-center text-white/90 text-sm tabular-nums">
-                        {it.qty}
+                    {/* Price + remove */}
+                    <div className="flex flex-col items-end gap-2">
+                      <div className="text-white font-semibold tabular-nums">
+                        {moneyZARFromCents(it.price_cents)}
                       </div>
 
                       <button
                         type="button"
-                        className="rounded-lg border border-white/10 bg-black/30 p-1.5 text-white/80 hover:text-white hover:bg-white/10 transition disabled:opacity-50"
-                        onClick={() => cart.increment(it.id)}
+                        className="rounded-lg p-2 text-white/60 hover:text-white hover:bg-white/10 transition disabled:opacity-50"
+                        onClick={() => !busy && cart.removeItem(it.id)}
                         disabled={busy}
-                        aria-label="Increase quantity"
+                        aria-label="Remove item"
                       >
-                        <Plus className="h-4 w-4" />
+                        <Trash2 className="h-4 w-4" />
                       </button>
                     </div>
                   </div>
+                ))}
+              </div>
+            ) : (
+              <div className="py-10 text-center text-white/60">
+                Your cart is empty.
+              </div>
+            )}
+          </div>
+        )}
 
-                  {/* Price + remove */}
-                  <div className="flex flex-col items-end gap-2">
-                    <div className="text-white font-semibold tabular-nums">
-                      {moneyZARFromCents(it.price_cents)}
-                    </div>
+        {/* Footer */}
+        <div className="border-t border-white/10 px-5 py-4">
+          {items.length > 0 && !onDeliveryStep && !promo ? (
+            <div className="mb-4">
+              <div className="flex gap-2">
+                <input
+                  className={`${inputCls} flex-1 uppercase placeholder:normal-case`}
+                  placeholder="Promo code"
+                  value={promoInput}
+                  onChange={(e) => setPromoInput(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && applyPromo()}
+                />
+                <button
+                  type="button"
+                  className="rounded-xl border border-white/10 bg-white/10 px-4 py-2 text-sm text-white hover:bg-white/15 transition disabled:opacity-50"
+                  onClick={applyPromo}
+                  disabled={checkingPromo || !promoInput.trim()}
+                >
+                  {checkingPromo ? "Checking..." : "Apply"}
+                </button>
+              </div>
+              {promoError ? <div className="mt-2 text-xs text-red-300">{promoError}</div> : null}
+            </div>
+          ) : null}
 
-                    <button
-                      type="button"
-                      className="rounded-lg p-2 text-white/60 hover:text-white hover:bg-white/10 transition disabled:opacity-50"
-                      onClick={() => !busy && cart.removeItem(it.id)}
-                      disabled={busy}
-                      aria-label="Remove item"
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </button>
-                  </div>
-                </div>
-              ))}
+          {cart.appliedBundles.map((b) => (
+            <div key={b.album_id} className="flex items-center justify-between mb-2 text-sm">
+              <div className="text-emerald-300/90 truncate pr-3">Bundle: {b.title}</div>
+              <div className="text-emerald-300/90 tabular-nums">−{moneyZARFromCents(b.discount_cents)}</div>
             </div>
-          ) : (
-            <div className="py-10 text-center text-white/60">
-              Your cart is empty.
+          ))}
+
+          {promo ? (
+            <div className="flex items-center justify-between mb-2 text-sm">
+              <div className="min-w-0 pr-3 text-emerald-300/90 truncate">
+                Code {promo.code}
+                {promo.description ? <span className="text-white/50"> · {promo.description}</span> : null}
+                <button
+                  type="button"
+                  className="ml-2 text-xs text-white/50 hover:text-white/80"
+                  onClick={() => setPromo(null)}
+                  disabled={busy}
+                >
+                  Remove
+                </button>
+              </div>
+              <div className="text-emerald-300/90 tabular-nums">
+                {promoCents ? `−${moneyZARFromCents(promoCents)}` : "at checkout"}
+              </div>
             </div>
-          )}
-        </div>
+          ) : null}
 
-        {/* Footer */}
-        <div className="border-t border-white/10 px-5 py-4">
           <div className="flex items-center justify-between mb-4">
             <div className="text-white/70">Subtotal</div>
             <div className="text-white font-semibold tabular-nums">
-              {moneyZARFromCents(subtotalCents)}
+              {moneyZARFromCents(subtotalCents - promoCents)}
             </div>
           </div>
 
+          {onDeliveryStep ? (
+            <>
+              <div className="flex items-center justify-between -mt-2 mb-2">
+                <div className="text-white/70">Delivery</div>
+                <div className="text-white font-semibold tabular-nums">
+                  {shippingCents === 0 ? "Free" : moneyZARFromCents(shippingCents)}
+                </div>
+              </div>
+              <div className="flex items-center justify-between mb-4">
+                <div className="text-white">Total</div>
+                <div className="text-white text-lg font-semibold tabular-nums">
+                  {moneyZARFromCents(subtotalCents - promoCents + shippingCents)}
+                </div>
+              </div>
+            </>
+          ) : hasPhysical ? (
+            <div className="-mt-2 mb-4 text-xs text-white/50">
+              Merch ships within South Africa. Songs land in your library as soon as payment clears.
+            </div>
+          ) : null}
+
           <div className="flex gap-3">
-            <button
-              type="button"
-              className="flex-1 rounded-xl border border-white/10 bg-white/10 px-4 py-3 text-white hover:bg-white/15 transition disabled:opacity-50"
-              onClick={() => !busy && onClose()}
-              disabled={busy}
-            >
-              Continue
-            </button>
+            {onDeliveryStep ? (
+              <button
+                type="button"
+                className="flex-1 inline-flex items-center justify-center gap-2 rounded-xl border border-white/10 bg-white/10 px-4 py-3 text-white hover:bg-white/15 transition disabled:opacity-50"
+                onClick={() => {
+                  setErrorMsg(null);
+                  setStep("cart");
+                }}
+                disabled={busy}
+              >
+                <ArrowLeft className="h-4 w-4" />
+                Back
+              </button>
+            ) : (
+              <button
+                type="button"
+                className="flex-1 rounded-xl border border-white/10 bg-white/10 px-4 py-3 text-white hover:bg-white/15 transition disabled:opacity-50"
+                onClick={() => !busy && onClose()}
+                disabled={busy}
+              >
+                Continue
+              </button>
+            )}
 
             <button
               type="button"
@@ -271,11 +713,11 @@ export default function CartModal(props?: {
               onClick={doCheckout}
               disabled={!canCheckout}
             >
-              {busy ? "Starting..." : "Checkout"}
+              {busy ? "Starting..." : hasPhysical && !onDeliveryStep ? "Delivery details" : "Checkout"}
             </button>
           </div>
 
-          {items?.length ? (
+          {items?.length && !onDeliveryStep ? (
             <div className="mt-3 flex items-center justify-between">
               <button
                 type="button"
@@ -1,4 +1,5 @@
-import { SONGS, hasVideo } from "../../data/songs";
+import { hasVideo } from "../../lib/catalog";
+import { useCatalog } from "../../hooks/useCatalog";
 import PageContainer from "../layout/PageContainer";
 
 const PLATFORMS = [
@@ -10,7 +11,7 @@ const PLATFORMS = [
 ];
 
 export default function HomeHighlights() {
-  const featured = SONGS.filter(hasVideo).slice(0, 4);
+  const featured = useCatalog("songs").filter(hasVideo).slice(0, 4);
 
   return (
     <section style={{ background: "#000000" }}>
@@ -1,6 +1,6 @@
 import { useEffect, useRef, useState } from "react";
 import { useInView } from "framer-motion";
-import { SONGS } from "../../data/songs";
+import { useCatalog } from "../../hooks/useCatalog";
 
 // ── UPDATE STREAMING NUMBERS HERE ────────────────────────────────────────────
 const STREAMING_DATA = [
@@ -10,12 +10,6 @@ const STREAMING_DATA = [
   { platform: "TikTok",      raw: 5,    suffix: "M+", label: "Views",         color: "#69C9D0" },
 ];
 
-function deriveAlbumCount() {
-  const seen = new Set<string>();
-  SONGS.forEach(s => { if (s.album) seen.add(s.album); });
-  return seen.size;
-}
-
 // ── Platform logos ────────────────────────────────────────────────────────────
 
 function YouTubeLogo({ size = 36 }: { size?: number }) {
@@ -139,8 +133,9 @@ export default function HomeStats() {
   const sectionRef = useRef<HTMLElement>(null);
   const inView = useInView(sectionRef, { once: true, margin: "-80px" });
 
-  const songCount  = SONGS.length;
-  const albumCount = deriveAlbumCount();
+  const songCount  = useCatalog("songs").length;
+  // full-length albums only; EPs and singles aren't counted here
+  const albumCount = useCatalog("releases").filter((r) => r.type === "album").length;
 
   const ALL: StatDef[] = [
     { ...STREAMING_DATA[0], logo: <YouTubeLogo size={44} /> },
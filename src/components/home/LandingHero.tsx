@@ -1,11 +1,12 @@
 import Navbar from "../layout/Navbar";
 import PageContainer from "../layout/PageContainer";
-import { SONGS } from "../../data/songs";
-
-// The first song in the array is always the latest release
-const LATEST = SONGS[0];
+import { useCatalog } from "../../hooks/useCatalog";
 
 function LatestReleaseCard() {
+  // The catalogue is ordered newest first, so the first song is the latest release
+  const LATEST = useCatalog("songs")[0];
+  if (!LATEST) return null;
+
   return (
     <a
       href={LATEST.youtubeUrl}
@@ -1,6 +1,9 @@
 import { useEffect, useMemo, useState, type ComponentType } from "react";
-import { MapContainer, TileLayer, CircleMarker, Tooltip } from "react-leaflet";
+import { MapContainer, TileLayer, CircleMarker, Tooltip, useMap, useMapEvents } from "react-leaflet";
+import L from "leaflet";
+import "leaflet.heat";
 import "leaflet/dist/leaflet.css";
+import { callFunction } from "../../lib/functionsClient";
 
 /**
  * Netlify is Linux + strict TS.
@@ -15,8 +18,7 @@ const RLCircleMarker = CircleMarker as unknown as ComponentType<any>;
 const RLTooltip = Tooltip as unknown as ComponentType<any>;
 
 /**
- * Local minimal LatLngExpression type so we don't depend on leaflet's .d.ts
- * (avoids TS7016 "Could not find a declaration file for module 'leaflet'").
+ * Local minimal LatLngExpression type, matching the loosely typed wrappers above.
  */
 type LatLngTuple = [number, number];
 type LatLngLiteral = { lat: number; lng: number };
@@ -24,8 +26,30 @@ type LatLngExpression = LatLngTuple | LatLngLiteral;
 
 type Row = {
   province: string;
+  town: string | null;
+  created_at: string;
+  /** Gazetteer match from booking-signals-public; null when the town wasn't recognised */
+  place: { name: string; lat: number; lng: number } | null;
 };
 
+type Mode = "province" | "town";
+
+const RANGES = [
+  { id: "30d", label: "30 days", days: 30 },
+  { id: "90d", label: "90 days", days: 90 },
+  { id: "1y", label: "12 months", days: 365 },
+  { id: "all", label: "All time", days: null },
+] as const;
+
+type RangeId = (typeof RANGES)[number]["id"];
+
+type TownCount = { name: string; lat: number; lng: number; count: number };
+
+type Cluster = { towns: TownCount[]; count: number; lat: number; lng: number };
+
+/** Towns closer than this on screen share one marker */
+const CLUSTER_PX = 48;
+
 const PROVINCE_COORDS: Record<string, LatLngExpression> = {
   "Western Cape": [-33.9249, 18.4241],
   "Northern Cape": [-29.0467, 21.8569],
@@ -44,9 +68,116 @@ function peopleLabel(n: number) {
   return `${n} requests`;
 }
 
+/**
+ * Greedy screen-space clustering: the busiest towns anchor a cluster and
+ * anything within CLUSTER_PX of an anchor joins it. Re-run on every zoom.
+ */
+function clusterTowns(towns: TownCount[], toPixel: (t: TownCount) => { x: number; y: number }): Cluster[] {
+  const clusters: (Cluster & { x: number; y: number })[] = [];
+
+  for (const town of [...towns].sort((a, b) => b.count - a.count)) {
+    const p = toPixel(town);
+    const near = clusters.find((c) => Math.hypot(c.x - p.x, c.y - p.y) <= CLUSTER_PX);
+    if (!near) {
+      clusters.push({ towns: [town], count: town.count, lat: town.lat, lng: town.lng, x: p.x, y: p.y });
+      continue;
+    }
+    // weighted centre, so a cluster sits where most of its requests are
+    const total = near.count + town.count;
+    near.lat = (near.lat * near.count + town.lat * town.count) / total;
+    near.lng = (near.lng * near.count + town.lng * town.count) / total;
+    near.count = total;
+    near.towns.push(town);
+  }
+  return clusters;
+}
+
+function TownClusters({ towns }: { towns: TownCount[] }) {
+  const map = useMap();
+  const [zoom, setZoom] = useState(() => map.getZoom());
+  useMapEvents({ zoomend: () => setZoom(map.getZoom()) });
+
+  const clusters = useMemo(
+    () => clusterTowns(towns, (t) => map.project([t.lat, t.lng], zoom)),
+    [towns, map, zoom]
+  );
+
+  return (
+    <>
+      {clusters.map((c) => {
+        const radius = Math.min(28, 6 + Math.sqrt(c.count) * 3);
+        const single = c.towns.length === 1;
+
+        return (
+          <RLCircleMarker
+            key={c.towns[0].name}
+            center={[c.lat, c.lng]}
+            radius={radius}
+            pathOptions={{
+              color: "#ff2d2d",
+              fillColor: "#ff2d2d",
+              fillOpacity: single ? 0.55 : 0.7,
+              weight: single ? 2 : 3,
+            }}
+            eventHandlers={{
+              // open a cluster up by zooming in on it
+              click: () => {
+                if (!single) map.setView([c.lat, c.lng], Math.min(zoom + 2, map.getMaxZoom()));
+              },
+            }}
+          >
+            <RLTooltip direction="top" offset={[0, -6]} opacity={1}>
+              <div style={{ fontWeight: 800 }}>
+                {single ? c.towns[0].name : `${c.towns.length} towns`}
+              </div>
+              <div style={{ opacity: 0.9 }}>{peopleLabel(c.count)}</div>
+              {!single && (
+                <div style={{ opacity: 0.75, marginTop: 2 }}>
+                  {c.towns
+                    .slice(0, 4)
+                    .map((t) => `${t.name} (${t.count})`)
+                    .join(", ")}
+                  {c.towns.length > 4 ? "…" : ""}
+                </div>
+              )}
+            </RLTooltip>
+          </RLCircleMarker>
+        );
+      })}
+    </>
+  );
+}
+
+/** leaflet.heat canvas under the town markers */
+function HeatLayer({ towns }: { towns: TownCount[] }) {
+  const map = useMap();
+
+  useEffect(() => {
+    const max = Math.max(1, ...towns.map((t) => t.count));
+    const layer = L.heatLayer(
+      towns.map((t) => [t.lat, t.lng, t.count] as L.HeatLatLngTuple),
+      {
+        radius: 30,
+        blur: 24,
+        max,
+        minOpacity: 0.25,
+        gradient: { 0.3: "#4c1d95", 0.6: "#db2777", 0.85: "#ff2d2d", 1: "#fde047" },
+      }
+    ).addTo(map);
+
+    return () => {
+      map.removeLayer(layer);
+    };
+  }, [map, towns]);
+
+  return null;
+}
+
 export default function TourDemandMap() {
   const [rows, setRows] = useState<Row[]>([]);
   const [loading, setLoading] = useState(true);
+  const [mode, setMode] = useState<Mode>("town");
+  const [range, setRange] = useState<RangeId>("all");
 
   useEffect(() => {
     let alive = true;
@@ -54,10 +185,9 @@ export default function TourDemandMap() {
     (async () => {
       try {
         setLoading(true);
-        const res = await fetch("/.netlify/functions/booking-signals-public");
-        const json = await res.json();
+        const { rows } = await callFunction<{ rows: Row[] }>("booking-signals-public");
         if (!alive) return;
-        setRows(Array.isArray(json?.rows) ? json.rows : []);
+        setRows(Array.isArray(rows) ? rows : []);
       } catch {
         if (!alive) return;
         setRows([]);
@@ -72,17 +202,38 @@ export default function TourDemandMap() {
     };
   }, []);
 
-  const total = rows.length;
+  const inRange = useMemo(() => {
+    const days = RANGES.find((r) => r.id === range)?.days ?? null;
+    if (days === null) return rows;
+    const since = Date.now() - days * 86_400_000;
+    return rows.filter((r) => Date.parse(r.created_at) >= since);
+  }, [rows, range]);
+
+  const total = inRange.length;
 
   const counts = useMemo(() => {
     const m = new Map<string, number>();
-    for (const r of rows) {
+    for (const r of inRange) {
       const p = (r.province || "").trim();
       if (!p) continue;
       m.set(p, (m.get(p) || 0) + 1);
     }
     return m;
-  }, [rows]);
+  }, [inRange]);
+
+  const towns = useMemo(() => {
+    const m = new Map<string, TownCount>();
+    for (const r of inRange) {
+      if (!r.place) continue;
+      const t = m.get(r.place.name) ?? { ...r.place, count: 0 };
+      t.count += 1;
+      m.set(r.place.name, t);
+    }
+    return Array.from(m.values());
+  }, [inRange]);
+
+  // requests whose town isn't in the gazetteer only show in the province view
+  const unplaced = useMemo(() => inRange.filter((r) => !r.place).length, [inRange]);
 
   const markers = useMemo(() => {
     return Array.from(counts.entries())
@@ -104,6 +255,15 @@ export default function TourDemandMap() {
       .slice(0, 5);
   }, [counts]);
 
+  const topTowns = useMemo(() => {
+    return towns
+      .map((t) => [t.name, t.count] as [string, number])
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 5);
+  }, [towns]);
+
+  const top = mode === "town" ? topTowns : topProvinces;
+
   // Center a bit more “SA focused” so you don’t get tons of ocean
   const center: LatLngExpression = [-29.5, 25.0];
 
@@ -121,7 +281,9 @@ export default function TourDemandMap() {
                 ? "Loading demand signals..."
                 : total === 0
                   ? "No requests yet. Be the first to pin your city."
-                  : "Live requests by province."}
+                  : mode === "town"
+                    ? "Live requests by town."
+                    : "Live requests by province."}
             </p>
           </div>
 
@@ -134,12 +296,46 @@ export default function TourDemandMap() {
               </span>
             </div>
             <div className="rounded-full border border-white/10 bg-white/5 px-4 py-2 text-sm text-white">
-              <span className="text-white/60 mr-2">Provinces</span>
-              <span className="font-semibold">{loading ? "…" : counts.size}</span>
+              <span className="text-white/60 mr-2">{mode === "town" ? "Towns" : "Provinces"}</span>
+              <span className="font-semibold">
+                {loading ? "…" : mode === "town" ? towns.length : counts.size}
+              </span>
             </div>
           </div>
         </div>
 
+        {/* Controls */}
+        <div className="mt-4 flex flex-wrap items-center gap-3">
+          <div className="inline-flex rounded-full border border-white/10 bg-white/5 p-1 text-xs">
+            {(["town", "province"] as const).map((m) => (
+              <button
+                key={m}
+                type="button"
+                onClick={() => setMode(m)}
+                className={`rounded-full px-3 py-1 transition ${
+                  mode === m ? "bg-white text-black font-semibold" : "text-white/70 hover:text-white"
+                }`}
+              >
+                {m === "town" ? "Towns" : "Provinces"}
+              </button>
+            ))}
+          </div>
+          <div className="inline-flex rounded-full border border-white/10 bg-white/5 p-1 text-xs">
+            {RANGES.map((r) => (
+              <button
+                key={r.id}
+                type="button"
+                onClick={() => setRange(r.id)}
+                className={`rounded-full px-3 py-1 transition ${
+                  range === r.id ? "bg-white text-black font-semibold" : "text-white/70 hover:text-white"
+                }`}
+              >
+                {r.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
         {/* Card */}
         <div className="mt-6 rounded-2xl overflow-hidden border border-white/10 bg-black/30 backdrop-blur-md shadow-[0_20px_60px_rgba(0,0,0,0.35)]">
           {/* Top strip */}
@@ -150,7 +346,7 @@ export default function TourDemandMap() {
 
             {/* Top provinces (mini list) */}
             <div className="flex flex-wrap gap-2">
-              {(loading ? [] : topProvinces).map(([prov, n]) => (
+              {(loading ? [] : top).map(([prov, n]) => (
                 <div
                   key={prov}
                   className="rounded-full border border-white/10 bg-white/5 px-3 py-1 text-xs text-white"
@@ -161,7 +357,7 @@ export default function TourDemandMap() {
                   <span className="font-semibold">{n}</span>
                 </div>
               ))}
-              {!loading && topProvinces.length === 0 && (
+              {!loading && top.length === 0 && (
                 <div className="text-xs text-white/50">No data yet</div>
               )}
             </div>
@@ -178,7 +374,7 @@ export default function TourDemandMap() {
                 center={center}
                 zoom={5}
                 minZoom={4}
-                maxZoom={9}
+                maxZoom={12}
                 scrollWheelZoom={false}
                 style={{ height: "100%", width: "100%" }}
               >
@@ -188,7 +384,14 @@ export default function TourDemandMap() {
                   url="https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png"
                 />
 
-                {markers.map((m) => {
+                {mode === "town" && (
+                  <>
+                    <HeatLayer towns={towns} />
+                    <TownClusters towns={towns} />
+                  </>
+                )}
+
+                {mode === "province" && markers.map((m) => {
                   // size scales with demand
                   const radius = Math.min(26, 7 + Math.sqrt(m.count) * 3);
 
@@ -232,8 +435,11 @@ export default function TourDemandMap() {
 
           {/* Footer note */}
           <div className="px-5 py-3 border-t border-white/10 text-xs text-white/50">
-            Pins are shown by province area (not exact address). Keeps it
-            simple, safe, and useful for bookings.
+            {mode === "town"
+              ? `Pins sit on the town centre (never an exact address).${
+                  unplaced ? ` ${peopleLabel(unplaced)} from towns we couldn't place only show in the province view.` : ""
+                }`
+              : "Pins are shown by province area (not exact address). Keeps it simple, safe, and useful for bookings."}
           </div>
         </div>
       </div>
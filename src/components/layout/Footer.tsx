@@ -6,6 +6,8 @@ const navLinks = [
   { label: "Merch",    to: "/merch" },
   { label: "About",    to: "/about" },
   { label: "Bookings", to: "/bookings" },
+  { label: "Lyrics",   to: "/lyrics" },
+  { label: "Account",  to: "/profile" },
 ];
 
 const socialLinks = [
@@ -104,7 +106,10 @@ export default function Footer() {
           style={{ borderTop: "1px solid rgba(255,255,255,0.06)" }}
         >
           <p className="text-xs text-white/25">
-            &copy; {new Date().getFullYear()} Bliximstraat. All rights reserved.
+            &copy; {new Date().getFullYear()} Bliximstraat. All rights reserved.{" "}
+            <NavLink to="/privacy" className="hover:text-white/50 transition-colors duration-200">
+              Privacy
+            </NavLink>
           </p>
           <a
             href="https://www.digitalsolutionssa.co.za"
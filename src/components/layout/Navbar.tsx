@@ -1,6 +1,8 @@
 import { useEffect, useState } from "react";
 import { NavLink as RouterNavLink, useLocation } from "react-router-dom";
-import { X, Menu } from "lucide-react";
+import { X, Menu, User } from "lucide-react";
+import CartButton from "../cart/CartButton";
+import { usePlayer } from "../../lib/player";
 
 type NavbarProps = {
   overlayOnHome?: boolean;
@@ -76,6 +78,8 @@ export default function Navbar({ overlayOnHome = true }: NavbarProps) {
   const { pathname } = useLocation();
   const [scrolled, setScrolled] = useState(false);
   const [mobileOpen, setMobileOpen] = useState(false);
+  // the intro loop starts on the first navigation click (browsers block autoplay)
+  const { playIntro } = usePlayer();
 
   const isHome = overlayOnHome && pathname === "/";
 
@@ -102,8 +106,6 @@ export default function Navbar({ overlayOnHome = true }: NavbarProps) {
 
   return (
     <>
-      <audio id="main-audio" src="/audio/intro.mp3" preload="auto" loop />
-
       <header
         className="fixed top-0 inset-x-0 z-50 transition-all duration-300"
         style={{ height: BAR_H, background: bg, backdropFilter: blur, WebkitBackdropFilter: blur, borderBottom: `1px solid ${border}` }}
@@ -114,7 +116,7 @@ export default function Navbar({ overlayOnHome = true }: NavbarProps) {
           <RouterNavLink
             to="/"
             aria-label="Home"
-            onClick={playClickAudio}
+            onClick={playIntro}
             className="shrink-0 flex items-center"
           >
             <img
@@ -147,9 +149,12 @@ export default function Navbar({ overlayOnHome = true }: NavbarProps) {
 
             <div className="w-px h-4 mx-1" style={{ background: "rgba(255,255,255,0.10)" }} />
 
+            <AccountLink />
+            <CartButton />
+
             <RouterNavLink
               to="/bookings"
-              onClick={playClickAudio}
+              onClick={playIntro}
               className="px-5 py-2 text-[10px] font-bold uppercase tracking-[0.22em] text-white rounded-sm transition-opacity duration-200 hover:opacity-85"
               style={{ background: "#FF0090" }}
             >
@@ -157,16 +162,20 @@ export default function Navbar({ overlayOnHome = true }: NavbarProps) {
             </RouterNavLink>
           </div>
 
-          {/* ── Mobile hamburger ── */}
-          <button
-            type="button"
-            className="md:hidden ml-auto p-2 text-white/55 hover:text-white transition-colors"
-            onClick={() => setMobileOpen(v => !v)}
-            aria-label={mobileOpen ? "Close menu" : "Open menu"}
-            aria-expanded={mobileOpen}
-          >
-            {mobileOpen ? <X className="h-5 w-5" /> : <Menu className="h-5 w-5" />}
-          </button>
+          {/* ── Mobile cart + hamburger ── */}
+          <div className="md:hidden ml-auto flex items-center gap-1">
+            <AccountLink />
+            <CartButton />
+            <button
+              type="button"
+              className="p-2 text-white/55 hover:text-white transition-colors"
+              onClick={() => setMobileOpen(v => !v)}
+              aria-label={mobileOpen ? "Close menu" : "Open menu"}
+              aria-expanded={mobileOpen}
+            >
+              {mobileOpen ? <X className="h-5 w-5" /> : <Menu className="h-5 w-5" />}
+            </button>
+          </div>
         </div>
       </header>
 
@@ -191,7 +200,7 @@ export default function Navbar({ overlayOnHome = true }: NavbarProps) {
                 <RouterNavLink
                   key={l.to}
                   to={l.to}
-                  onClick={() => { playClickAudio(); setMobileOpen(false); }}
+                  onClick={() => { playIntro(); setMobileOpen(false); }}
                   className="flex items-center px-3 py-3.5 rounded-lg transition-colors"
                   style={({ isActive }) => ({
                     background: isActive ? "rgba(255,255,255,0.04)" : "transparent",
@@ -223,7 +232,7 @@ export default function Navbar({ overlayOnHome = true }: NavbarProps) {
                 </div>
                 <RouterNavLink
                   to="/bookings"
-                  onClick={() => { playClickAudio(); setMobileOpen(false); }}
+                  onClick={() => { playIntro(); setMobileOpen(false); }}
                   className="px-4 py-2 text-[10px] font-bold uppercase tracking-[0.2em] text-white rounded-sm"
                   style={{ background: "#FF0090" }}
                 >
@@ -240,16 +249,24 @@ export default function Navbar({ overlayOnHome = true }: NavbarProps) {
 
 // ── Helpers ───────────────────────────────────────────────────────────────────
 
-function playClickAudio() {
-  const audio = document.getElementById("main-audio") as HTMLAudioElement | null;
-  audio?.play().catch(() => {});
+function AccountLink() {
+  return (
+    <RouterNavLink
+      to="/profile"
+      aria-label="Account"
+      className="inline-flex items-center justify-center rounded-full p-2 text-white/90 hover:text-white transition"
+    >
+      <User className="h-5 w-5" />
+    </RouterNavLink>
+  );
 }
 
 function NavItem({ to, label }: { to: string; label: string }) {
+  const { playIntro } = usePlayer();
   return (
     <RouterNavLink
       to={to}
-      onClick={playClickAudio}
+      onClick={playIntro}
       className="relative text-[11px] font-medium uppercase tracking-[0.2em] whitespace-nowrap transition-colors duration-200"
     >
       {({ isActive }) => (
@@ -0,0 +1,245 @@
+import { useEffect, useState, type ReactNode } from "react";
+import {
+  ListMusic,
+  Pause,
+  Play,
+  Repeat,
+  Repeat1,
+  Shuffle,
+  SkipBack,
+  SkipForward,
+  Volume2,
+  VolumeX,
+  X,
+} from "lucide-react";
+import { usePlayer } from "../../lib/player";
+
+const BAR_H = 72;
+const ACCENT = "#FF0090";
+
+function formatTime(seconds: number) {
+  if (!Number.isFinite(seconds) || seconds < 0) return "0:00";
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${String(s).padStart(2, "0")}`;
+}
+
+function IconButton({
+  label,
+  onClick,
+  active,
+  children,
+}: {
+  label: string;
+  onClick: () => void;
+  active?: boolean;
+  children: ReactNode;
+}) {
+  return (
+    <button
+      type="button"
+      aria-label={label}
+      title={label}
+      onClick={onClick}
+      className="inline-flex h-8 w-8 items-center justify-center rounded-full transition"
+      style={{ color: active ? ACCENT : "rgba(255,255,255,0.7)" }}
+    >
+      {children}
+    </button>
+  );
+}
+
+export default function PlayerBar() {
+  const player = usePlayer();
+  const { current, isPlaying, currentTime, duration, volume, shuffle, repeat, error } = player;
+  const [queueOpen, setQueueOpen] = useState(false);
+  const [lastVolume, setLastVolume] = useState(volume || 0.8);
+
+  // Keep page footers clear of the bar while it's showing
+  useEffect(() => {
+    if (!current) return;
+    const prev = document.body.style.paddingBottom;
+    document.body.style.paddingBottom = `${BAR_H}px`;
+    return () => {
+      document.body.style.paddingBottom = prev;
+    };
+  }, [current]);
+
+  if (!current) return null;
+
+  const ambient = !!current.ambient;
+  const progress = duration ? Math.min(currentTime / duration, 1) * 100 : 0;
+
+  const toggleMute = () => {
+    if (volume > 0) {
+      setLastVolume(volume);
+      player.setVolume(0);
+    } else {
+      player.setVolume(lastVolume || 0.8);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-x-0 bottom-0 z-[60] text-white"
+      style={{
+        background: "rgba(8,5,12,0.96)",
+        borderTop: "1px solid rgba(255,255,255,0.08)",
+        backdropFilter: "blur(20px)",
+        WebkitBackdropFilter: "blur(20px)",
+      }}
+    >
+      {/* Queue */}
+      {queueOpen && !ambient && (
+        <div
+          className="absolute bottom-full right-4 mb-2 w-80 max-h-80 overflow-y-auto rounded-2xl p-2"
+          style={{ background: "rgba(20,12,30,0.98)", border: "1px solid rgba(255,255,255,0.08)" }}
+        >
+          <p className="px-2 py-1 text-[10px] font-medium uppercase tracking-[0.2em] text-white/35">
+            Up next
+          </p>
+          {player.queue.map((t, i) => (
+            <button
+              key={`${t.id}-${i}`}
+              type="button"
+              onClick={() => player.jumpTo(i)}
+              className="flex w-full items-center gap-2 rounded-lg px-2 py-1.5 text-left hover:bg-white/5"
+            >
+              <span className="w-5 shrink-0 text-right text-[10px] tabular-nums text-white/30">{i + 1}</span>
+              <span
+                className="flex-1 truncate text-xs"
+                style={{ color: i === player.currentIndex ? ACCENT : "rgba(255,255,255,0.7)" }}
+              >
+                {t.title}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Seek bar */}
+      {!ambient && (
+        <input
+          type="range"
+          min={0}
+          max={duration || 0}
+          step={0.1}
+          value={Math.min(currentTime, duration || 0)}
+          onChange={(e) => player.seek(Number(e.target.value))}
+          aria-label="Seek"
+          className="absolute inset-x-0 -top-1.5 h-3 w-full cursor-pointer appearance-none bg-transparent"
+          style={{
+            background: `linear-gradient(to right, ${ACCENT} ${progress}%, rgba(255,255,255,0.12) ${progress}%) center / 100% 2px no-repeat`,
+            accentColor: ACCENT,
+          }}
+        />
+      )}
+
+      <div className="mx-auto flex max-w-7xl items-center gap-4 px-4 sm:px-6" style={{ height: BAR_H }}>
+        {/* Now playing */}
+        <div className="flex min-w-0 flex-1 items-center gap-3">
+          {current.coverUrl ? (
+            <img src={current.coverUrl} alt="" className="h-11 w-11 shrink-0 rounded-md object-cover" />
+          ) : (
+            <div className="flex h-11 w-11 shrink-0 items-center justify-center rounded-md bg-white/5 text-white/20">
+              ♪
+            </div>
+          )}
+          <div className="min-w-0">
+            <p className="truncate text-sm font-semibold">
+              {current.title}
+              {current.preview && (
+                <span
+                  className="ml-2 rounded-full px-1.5 py-0.5 align-middle text-[9px] font-bold uppercase tracking-[0.15em]"
+                  style={{ background: "rgba(255,0,144,0.2)", color: ACCENT }}
+                >
+                  Preview
+                </span>
+              )}
+            </p>
+            {error ? (
+              <p className="truncate text-xs text-red-300">{error}</p>
+            ) : (
+              <p className="truncate text-xs text-white/45">
+                {current.artist ?? "BliximStraat"}
+                {!ambient && duration > 0 && (
+                  <span className="tabular-nums"> · {formatTime(currentTime)} / {formatTime(duration)}</span>
+                )}
+              </p>
+            )}
+          </div>
+        </div>
+
+        {/* Transport */}
+        <div className="flex items-center gap-1">
+          {!ambient && (
+            <IconButton label={shuffle ? "Shuffle on" : "Shuffle off"} active={shuffle} onClick={player.toggleShuffle}>
+              <Shuffle className="h-4 w-4" />
+            </IconButton>
+          )}
+          {!ambient && (
+            <IconButton label="Previous" onClick={player.previous}>
+              <SkipBack className="h-4 w-4" />
+            </IconButton>
+          )}
+          <button
+            type="button"
+            aria-label={isPlaying ? "Pause" : "Play"}
+            onClick={player.togglePlay}
+            className="inline-flex h-10 w-10 items-center justify-center rounded-full bg-white text-black transition hover:scale-105"
+          >
+            {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4 translate-x-px" />}
+          </button>
+          {!ambient && (
+            <IconButton label="Next" onClick={player.next}>
+              <SkipForward className="h-4 w-4" />
+            </IconButton>
+          )}
+          {!ambient && (
+            <IconButton
+              label={repeat === "one" ? "Repeat one" : repeat === "all" ? "Repeat all" : "Repeat off"}
+              active={repeat !== "off"}
+              onClick={player.cycleRepeat}
+            >
+              {repeat === "one" ? <Repeat1 className="h-4 w-4" /> : <Repeat className="h-4 w-4" />}
+            </IconButton>
+          )}
+        </div>
+
+        {/* Volume, queue, close */}
+        <div className="flex flex-1 items-center justify-end gap-1">
+          <div className="hidden items-center gap-1 sm:flex">
+            <IconButton label={volume > 0 ? "Mute" : "Unmute"} onClick={toggleMute}>
+              {volume > 0 ? <Volume2 className="h-4 w-4" /> : <VolumeX className="h-4 w-4" />}
+            </IconButton>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.01}
+              value={volume}
+              onChange={(e) => player.setVolume(Number(e.target.value))}
+              aria-label="Volume"
+              className="w-24 cursor-pointer"
+              style={{ accentColor: ACCENT }}
+            />
+          </div>
+          {!ambient && (
+            <IconButton label="Queue" active={queueOpen} onClick={() => setQueueOpen((o) => !o)}>
+              <ListMusic className="h-4 w-4" />
+            </IconButton>
+          )}
+          <IconButton
+            label="Close player"
+            onClick={() => {
+              setQueueOpen(false);
+              player.stop();
+            }}
+          >
+            <X className="h-4 w-4" />
+          </IconButton>
+        </div>
+      </div>
+    </div>
+  );
+}
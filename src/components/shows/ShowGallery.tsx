@@ -0,0 +1,127 @@
+import { useEffect, useState } from "react";
+import type { ShowPhoto } from "../../data/shows";
+
+// ── Lightbox ──────────────────────────────────────────────────────────────────
+
+function Lightbox({ photos, index, onClose, onPrev, onNext }: {
+  photos: ShowPhoto[];
+  index: number;
+  onClose: () => void;
+  onPrev: () => void;
+  onNext: () => void;
+}) {
+  useEffect(() => {
+    const handler = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+      if (e.key === "ArrowLeft")  onPrev();
+      if (e.key === "ArrowRight") onNext();
+    };
+    window.addEventListener("keydown", handler);
+    document.body.style.overflow = "hidden";
+    return () => {
+      window.removeEventListener("keydown", handler);
+      document.body.style.overflow = "";
+    };
+  }, [onClose, onPrev, onNext]);
+
+  const photo = photos[index];
+
+  return (
+    <div
+      className="fixed inset-0 z-[200] flex items-center justify-center"
+      style={{ background: "rgba(0,0,0,0.92)", backdropFilter: "blur(12px)" }}
+      onClick={onClose}
+    >
+      {/* Image */}
+      <img
+        src={photo.url}
+        alt={photo.caption ?? `Show photo ${index + 1}`}
+        className="max-h-[82vh] max-w-[90vw] object-contain rounded-lg select-none"
+        onClick={e => e.stopPropagation()}
+        draggable={false}
+      />
+
+      {/* Close */}
+      <button
+        onClick={onClose}
+        className="absolute top-5 right-6 text-white/50 hover:text-white transition-colors text-3xl leading-none"
+        aria-label="Close"
+      >
+        ×
+      </button>
+
+      {/* Prev */}
+      <button
+        onClick={e => { e.stopPropagation(); onPrev(); }}
+        className="absolute left-4 top-1/2 -translate-y-1/2 w-10 h-10 flex items-center justify-center rounded-full text-white/50 hover:text-white hover:bg-white/10 transition-all"
+        aria-label="Previous"
+      >
+        ‹
+      </button>
+
+      {/* Next */}
+      <button
+        onClick={e => { e.stopPropagation(); onNext(); }}
+        className="absolute right-4 top-1/2 -translate-y-1/2 w-10 h-10 flex items-center justify-center rounded-full text-white/50 hover:text-white hover:bg-white/10 transition-all"
+        aria-label="Next"
+      >
+        ›
+      </button>
+
+      {/* Caption + counter */}
+      <div className="absolute bottom-5 left-1/2 -translate-x-1/2 text-center space-y-1">
+        {photo.caption && <p className="text-sm text-white/70">{photo.caption}</p>}
+        <p className="text-[11px] text-white/35 uppercase tracking-[0.25em]">
+          {index + 1} / {photos.length}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+// ── Gallery grid ──────────────────────────────────────────────────────────────
+
+/** One show's photos as a grid; click through in a lightbox. */
+export default function ShowGallery({ photos }: { photos: ShowPhoto[] }) {
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+
+  const open  = (i: number) => setLightboxIndex(i);
+  const close = () => setLightboxIndex(null);
+  const prev  = () => setLightboxIndex(i => (i! - 1 + photos.length) % photos.length);
+  const next  = () => setLightboxIndex(i => (i! + 1) % photos.length);
+
+  return (
+    <>
+      <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-1.5">
+        {photos.map((photo, i) => (
+          <button
+            key={photo.url}
+            onClick={() => open(i)}
+            className="group relative aspect-square overflow-hidden rounded-lg focus:outline-none"
+            style={{ background: "rgba(255,255,255,0.04)" }}
+          >
+            <img
+              src={photo.url}
+              alt={photo.caption ?? `Show photo ${i + 1}`}
+              className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-105"
+              loading="lazy"
+            />
+            <div className="absolute inset-0 bg-black/30 opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex items-center justify-center">
+              <span className="text-white/80 text-2xl">⤢</span>
+            </div>
+          </button>
+        ))}
+      </div>
+
+      {lightboxIndex !== null && (
+        <Lightbox
+          photos={photos}
+          index={lightboxIndex}
+          onClose={close}
+          onPrev={prev}
+          onNext={next}
+        />
+      )}
+    </>
+  );
+}
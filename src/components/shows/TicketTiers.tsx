@@ -0,0 +1,59 @@
+import { useCart } from "../../contexts/CartContext";
+import type { TicketTierOffer } from "../../lib/cartApi";
+import { ticketLineTitle, tierProblem } from "../../lib/tickets";
+import type { Show } from "../../data/shows";
+
+const formatZar = (cents: number) =>
+  new Intl.NumberFormat("en-ZA", { style: "currency", currency: "ZAR" }).format(cents / 100);
+
+/** A show's ticket tiers, each with an Add-to-cart button. */
+export default function TicketTiers({ show, tiers }: { show: Show; tiers: TicketTierOffer[] }) {
+  const cart = useCart();
+  const showTitle = show.title || show.venue;
+
+  return (
+    <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+      {tiers.map(tier => {
+        const problem = tierProblem(tier, { date: show.date, timezone: show.timezone }, tier.remaining);
+        const inCart = cart.items.find(it => it.id === tier.id)?.qty ?? 0;
+        const lastFew = tier.remaining !== null && tier.remaining > 0 && tier.remaining <= 20;
+
+        return (
+          <div
+            key={tier.id}
+            className="flex items-center justify-between gap-3 px-4 py-3 rounded-lg"
+            style={{ border: "1px solid rgba(255,255,255,0.07)", background: "rgba(255,255,255,0.02)" }}
+          >
+            <div className="min-w-0">
+              <p className="text-sm text-white">
+                {tier.name} <span className="text-white/50">· {formatZar(tier.price_cents)}</span>
+              </p>
+              {tier.description && <p className="text-xs text-white/40 truncate">{tier.description}</p>}
+              {problem ? (
+                <p className="text-xs text-white/30">{problem}</p>
+              ) : lastFew ? (
+                <p className="text-xs text-amber-300/70">Only {tier.remaining} left</p>
+              ) : null}
+            </div>
+            <button
+              type="button"
+              disabled={!!problem}
+              onClick={() =>
+                cart.addItem({
+                  id: tier.id,
+                  title: ticketLineTitle(showTitle, tier.name),
+                  artist: [show.venue, show.city, show.date].filter(Boolean).join(" · "),
+                  price_cents: tier.price_cents,
+                  kind: "ticket",
+                })
+              }
+              className="shrink-0 px-3 py-1.5 text-xs font-medium text-black bg-white rounded-sm hover:bg-white/90 transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+            >
+              {inCart ? `In cart (${inCart})` : "Add"}
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
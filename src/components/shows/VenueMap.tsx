@@ -0,0 +1,23 @@
+import { MapContainer, TileLayer, CircleMarker, Tooltip } from "react-leaflet";
+import "leaflet/dist/leaflet.css";
+
+/** One pin on the dark map; a circle marker avoids leaflet's bundler-unfriendly icon images. */
+export default function VenueMap({ lat, lng, label }: { lat: number; lng: number; label: string }) {
+  return (
+    <MapContainer center={[lat, lng]} zoom={15} scrollWheelZoom={false} style={{ height: "100%", width: "100%" }}>
+      <TileLayer
+        attribution="&copy; OpenStreetMap contributors &copy; CARTO"
+        url="https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png"
+      />
+      <CircleMarker
+        center={[lat, lng]}
+        radius={10}
+        pathOptions={{ color: "#ffffff", weight: 2, fillColor: "#ffffff", fillOpacity: 0.35 }}
+      >
+        <Tooltip direction="top" offset={[0, -10]} opacity={1} permanent>
+          {label}
+        </Tooltip>
+      </CircleMarker>
+    </MapContainer>
+  );
+}
@@ -1,4 +1,24 @@
-import React, { createContext, useContext, useMemo, useState } from "react";
+import React, { createContext, useContext, useEffect, useMemo, useRef, useState } from "react";
+import { useAuth } from "./AuthContext";
+import {
+  clearCart as clearServerCart,
+  fetchBundles,
+  fetchCartLines,
+  fetchOwnedSongIds,
+  setCartLineQty,
+} from "../lib/cartApi";
+import { applyBundles, bundlePriceFor, type AppliedBundle, type Bundle } from "../lib/bundles";
+import type { SongGift } from "../lib/gifts";
+import {
+  clampQty,
+  clearGuestCart,
+  linesAddedSince,
+  linesRemovedSince,
+  loadGuestCart,
+  mergeCartItems,
+  replayCartEdits,
+  saveGuestCart,
+} from "../lib/guestCart";
 
 export type CartItem = {
   id: string;
@@ -11,9 +31,17 @@ export type CartItem = {
 
   qty: number;
 
+  // "song" lines are digital downloads; "merch" lines ship and carry a variant SKU;
+  // "ticket" lines are seats in a show's ticket tier (id = the tier id)
+  kind?: CartItemKind;
   sku?: string | null;
+
+  // song lines only: send the song to someone else instead of your own library
+  gift?: SongGift | null;
 };
 
+export type CartItemKind = "song" | "merch" | "ticket";
+
 type AddInput =
   | CartItem
   | (Omit<CartItem, "qty"> & { qty?: number })
@@ -26,6 +54,7 @@ type AddInput =
       price?: number | string | null;
       price_cents?: number | string | null;
       qty?: number;
+      kind?: CartItemKind;
       sku?: string | null;
     };
 
@@ -45,13 +74,27 @@ type CartContextValue = {
   removeItem: (id: string) => void;
   increment: (id: string) => void;
   decrement: (id: string) => void;
+  /** null turns a gift line back into a normal purchase */
+  setGift: (id: string, gift: SongGift | null) => void;
   clearCart: () => void;
 
+  // bundles: whole releases for less than their tracks
+  bundles: Bundle[];
+  /** What completing the release costs this shopper now; null if there's nothing left to buy */
+  bundlePriceCents: (bundle: Bundle) => number | null;
+  /** Adds every track of the release the shopper doesn't own yet */
+  addBundle: (bundle: Bundle) => void;
+
   // core actions (legacy aliases)
   addToCart: (item: AddInput) => void;
   removeFromCart: (id: string) => void;
 
   // computed
+  /** Bundles the cart completes, with what each one saves */
+  appliedBundles: AppliedBundle[];
+  /** Sum of the lines before bundle discounts */
+  itemsTotalCents: number;
+  /** What checkout will charge before delivery (bundle discounts applied) */
   subtotalCents: number;
 
   // ✅ legacy computed + controls used by older UI components
@@ -62,6 +105,8 @@ type CartContextValue = {
 
 const CartContext = createContext<CartContextValue | null>(null);
 
+const NO_SONGS: ReadonlySet<string> = new Set();
+
 function normalizePriceCents(input: any): number {
   // Prefer explicit cents
   const pc = input?.price_cents;
@@ -93,41 +138,127 @@ function normalizeItem(input: AddInput): CartItem {
     cover_url: (input as any).cover_url ?? null,
     price_cents,
     qty,
+    kind: input.kind === "merch" || input.kind === "ticket" ? input.kind : "song",
     sku: (input as any).sku ?? null,
   };
 }
 
 export function CartProvider({ children }: { children: React.ReactNode }) {
-  const [items, setItems] = useState<CartItem[]>([]);
+  const { user, loading: authLoading } = useAuth();
+  const userId = user?.id ?? null;
+
+  const [items, setItems] = useState<CartItem[]>(() => loadGuestCart());
   const [isCartOpen, setIsCartOpen] = useState(false);
   const [lastAddedId, setLastAddedId] = useState<string | null>(null);
 
+  // The latest items, for the sign-in sync to see what was added while it ran
+  const itemsRef = useRef(items);
+  useEffect(() => {
+    itemsRef.current = items;
+  }, [items]);
+
+  // Whose cart `items` mirrors: a user id once the server cart is loaded,
+  // null while we're on the guest (localStorage) cart.
+  const [syncedUserId, setSyncedUserId] = useState<string | null>(null);
+
+  const [bundles, setBundles] = useState<Bundle[]>([]);
+  // Songs the signed-in user already has, so bundles only charge for the rest
+  const [owned, setOwned] = useState<{ userId: string | null; songIds: ReadonlySet<string> }>({
+    userId: null,
+    songIds: NO_SONGS,
+  });
+  const ownedSongIds = owned.userId === userId ? owned.songIds : NO_SONGS;
+
+  useEffect(() => {
+    fetchBundles()
+      .then(setBundles)
+      .catch((err) => console.warn("Bundles unavailable:", err));
+  }, []);
+
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+
+    fetchOwnedSongIds()
+      .then((songIds) => {
+        if (!cancelled) setOwned({ userId, songIds });
+      })
+      .catch((err) => console.warn("Owned songs unavailable:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  // Signed out: drop the server cart and go back to whatever guest cart is
+  // stored (normally empty, since it was merged on sign-in).
+  if (!authLoading && !userId && syncedUserId) {
+    setSyncedUserId(null);
+    setItems(loadGuestCart());
+  }
+
+  useEffect(() => {
+    if (authLoading || !userId) return;
+    let cancelled = false;
+
+    const sync = async () => {
+      try {
+        const guest = loadGuestCart();
+        const server = await fetchCartLines();
+        const merged = mergeCartItems(server, guest);
+
+        // only write lines the guest cart actually changed
+        for (const it of merged) {
+          const before = server.find((s) => s.id === it.id);
+          if (!before || before.qty !== it.qty) await setCartLineQty(it, it.qty);
+        }
+        clearGuestCart();
+
+        if (cancelled) return;
+
+        // Edits made while this ran only went to memory: make them again on the
+        // merged cart, and save them to the server cart like any other edit
+        setItems((prev) => replayCartEdits(merged, guest, prev));
+        setSyncedUserId(userId);
+
+        const edited = itemsRef.current;
+        const final = replayCartEdits(merged, guest, edited);
+        for (const it of [...linesAddedSince(guest, edited), ...linesRemovedSince(guest, edited)]) {
+          const line = final.find((f) => f.id === it.id);
+          await setCartLineQty(line ?? it, line?.qty ?? 0);
+        }
+      } catch (err) {
+        // keep the local cart; it stays in localStorage until a sync succeeds
+        console.warn("Cart sync failed:", err);
+      }
+    };
+
+    void sync();
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, authLoading]);
+
+  // Guest carts survive refreshes via localStorage
+  useEffect(() => {
+    if (!userId && !syncedUserId) saveGuestCart(items);
+  }, [items, userId, syncedUserId]);
+
+  const pushQty = (item: CartItem, qty: number) => {
+    if (!syncedUserId) return;
+    setCartLineQty(item, qty).catch((err) => console.warn("Cart save failed:", err));
+  };
+
   const openCart = () => setIsCartOpen(true);
   const closeCart = () => setIsCartOpen(false);
   const toggleCart = () => setIsCartOpen((v) => !v);
 
   const addItem = (input: AddInput) => {
     const incoming = normalizeItem(input);
+    const next = mergeCartItems(items, [incoming]);
 
-    setItems((prev) => {
-      const idx = prev.findIndex((p) => p.id === incoming.id);
-      if (idx >= 0) {
-        const copy = [...prev];
-        copy[idx] = {
-          ...copy[idx],
-          // keep existing price unless incoming is non-zero and existing is zero
-          price_cents:
-            copy[idx].price_cents > 0
-              ? copy[idx].price_cents
-              : incoming.price_cents,
-          qty: Math.min(99, copy[idx].qty + incoming.qty),
-          cover_url: copy[idx].cover_url ?? incoming.cover_url,
-          artist: copy[idx].artist ?? incoming.artist,
-        };
-        return copy;
-      }
-      return [...prev, incoming];
-    });
+    setItems(next);
+    pushQty(incoming, next.find((p) => p.id === incoming.id)?.qty ?? incoming.qty);
 
     setLastAddedId(incoming.id);
 
@@ -136,28 +267,71 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
   };
 
   const removeItem = (id: string) => {
+    const current = items.find((p) => p.id === id);
     setItems((prev) => prev.filter((p) => p.id !== id));
+    if (current) pushQty(current, 0);
+  };
+
+  const setQty = (id: string, qty: number) => {
+    const current = items.find((p) => p.id === id);
+    if (!current) return;
+
+    const nextQty = clampQty(current, qty);
+    if (nextQty === current.qty) return;
+
+    setItems((prev) => prev.map((p) => (p.id === id ? { ...p, qty: nextQty } : p)));
+    pushQty(current, nextQty);
   };
 
   const increment = (id: string) => {
-    setItems((prev) =>
-      prev.map((p) =>
-        p.id === id ? { ...p, qty: Math.min(99, p.qty + 1) } : p
-      )
-    );
+    setQty(id, (items.find((p) => p.id === id)?.qty ?? 0) + 1);
   };
 
   const decrement = (id: string) => {
-    setItems((prev) =>
-      prev.map((p) =>
-        p.id === id ? { ...p, qty: Math.max(1, p.qty - 1) } : p
-      )
-    );
+    setQty(id, (items.find((p) => p.id === id)?.qty ?? 0) - 1);
+  };
+
+  const setGift = (id: string, gift: SongGift | null) => {
+    const current = items.find((p) => p.id === id);
+    if (!current || current.kind !== "song") return;
+
+    const next = { ...current, gift };
+    setItems((prev) => prev.map((p) => (p.id === id ? next : p)));
+    pushQty(next, next.qty);
+  };
+
+  const clearCart = () => {
+    setItems([]);
+    if (syncedUserId) {
+      clearServerCart().catch((err) => console.warn("Cart clear failed:", err));
+    }
   };
 
-  const clearCart = () => setItems([]);
+  const bundlePriceCents = (bundle: Bundle) => bundlePriceFor(bundle, ownedSongIds);
+
+  const addBundle = (bundle: Bundle) => {
+    const incoming = bundle.tracks
+      .filter((t) => !ownedSongIds.has(t.song_id) && !items.some((p) => p.id === t.song_id))
+      .map((t) =>
+        normalizeItem({
+          id: t.song_id,
+          title: t.title,
+          artist: t.artist,
+          cover_url: t.cover_url,
+          price_cents: t.price_cents,
+          kind: "song",
+        })
+      );
+
+    if (incoming.length) {
+      setItems(mergeCartItems(items, incoming));
+      incoming.forEach((it) => pushQty(it, it.qty));
+      setLastAddedId(incoming[incoming.length - 1].id);
+    }
+    setIsCartOpen(true);
+  };
 
-  const subtotalCents = useMemo(() => {
+  const itemsTotalCents = useMemo(() => {
     return items.reduce(
       (sum, it) =>
         sum + (Number(it.price_cents) || 0) * (Number(it.qty) || 0),
@@ -165,6 +339,14 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
     );
   }, [items]);
 
+  const appliedBundles = useMemo(() => {
+    const songIds = new Set(items.filter((it) => it.kind === "song").map((it) => it.id));
+    return applyBundles(bundles, songIds, ownedSongIds);
+  }, [items, bundles, ownedSongIds]);
+
+  const subtotalCents =
+    itemsTotalCents - appliedBundles.reduce((sum, b) => sum + b.discount_cents, 0);
+
   // ✅ legacy-friendly count (total quantity, not distinct items)
   const count = useMemo(() => {
     return items.reduce((sum, it) => sum + (Number(it.qty) || 0), 0);
@@ -181,10 +363,16 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
     removeItem,
     increment,
     decrement,
+    setGift,
     clearCart,
+    bundles,
+    bundlePriceCents,
+    addBundle,
     // legacy aliases
     addToCart: addItem,
     removeFromCart: removeItem,
+    appliedBundles,
+    itemsTotalCents,
     subtotalCents,
 
     // ✅ legacy aliases used by older components
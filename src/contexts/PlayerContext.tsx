@@ -0,0 +1,357 @@
+import React, { useCallback, useEffect, useMemo, useReducer, useRef, useState } from "react";
+import { PlayerContext, type PlayerContextValue, type PlayerTrack, type RepeatMode } from "../lib/player";
+
+// One <audio> for the whole site. The provider sits above the router, so
+// playback and the queue survive page changes.
+
+type QueueState = {
+  queue: PlayerTrack[];
+  /** Play order as indexes into `queue`; shuffled when shuffle is on. */
+  order: number[];
+  /** Position in `order` of the current track */
+  pos: number;
+  shuffle: boolean;
+  repeat: RepeatMode;
+  /** Bumped whenever the current track must (re)start from the top. */
+  loadKey: number;
+};
+
+type QueueAction =
+  | { type: "play"; tracks: PlayerTrack[]; start: number }
+  | { type: "enqueue"; tracks: PlayerTrack[] }
+  | { type: "jump"; index: number }
+  | { type: "next"; auto: boolean }
+  | { type: "previous" }
+  | { type: "toggleShuffle" }
+  | { type: "cycleRepeat" }
+  | { type: "clear" };
+
+const VOLUME_KEY = "blix_player_volume";
+const INTRO: PlayerTrack = {
+  id: "intro",
+  title: "Intro",
+  artist: "BliximStraat",
+  src: "/audio/intro.mp3",
+  ambient: true,
+};
+/** "Previous" restarts the track instead when we're further in than this. */
+const RESTART_AFTER_S = 3;
+
+const INITIAL_QUEUE: QueueState = {
+  queue: [],
+  order: [],
+  pos: 0,
+  shuffle: false,
+  repeat: "off",
+  loadKey: 0,
+};
+
+const range = (n: number) => Array.from({ length: n }, (_, i) => i);
+
+function shuffled<T>(items: T[]): T[] {
+  const out = [...items];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+/** Play order that starts at `first` (a queue index), the rest shuffled. */
+const shuffledFrom = (length: number, first: number) => [
+  first,
+  ...shuffled(range(length).filter((i) => i !== first)),
+];
+
+function queueReducer(state: QueueState, action: QueueAction): QueueState {
+  const last = state.order.length - 1;
+
+  switch (action.type) {
+    case "play": {
+      if (!action.tracks.length) return state;
+      const start = Math.min(Math.max(action.start, 0), action.tracks.length - 1);
+      return {
+        ...state,
+        queue: action.tracks,
+        order: state.shuffle ? shuffledFrom(action.tracks.length, start) : range(action.tracks.length),
+        pos: state.shuffle ? 0 : start,
+        loadKey: state.loadKey + 1,
+      };
+    }
+
+    case "enqueue": {
+      // Queuing behind the intro replaces it
+      if (!state.queue.length || state.queue[state.order[state.pos]]?.ambient) {
+        return queueReducer(state, { type: "play", tracks: action.tracks, start: 0 });
+      }
+      const added = action.tracks.map((_, i) => state.queue.length + i);
+      return {
+        ...state,
+        queue: [...state.queue, ...action.tracks],
+        order: [...state.order, ...(state.shuffle ? shuffled(added) : added)],
+      };
+    }
+
+    case "jump": {
+      const pos = state.order.indexOf(action.index);
+      if (pos < 0) return state;
+      return { ...state, pos, loadKey: state.loadKey + 1 };
+    }
+
+    case "next": {
+      if (!state.order.length) return state;
+      if (action.auto && state.repeat === "one") return { ...state, loadKey: state.loadKey + 1 };
+      if (state.pos < last) return { ...state, pos: state.pos + 1, loadKey: state.loadKey + 1 };
+      if (state.repeat === "all") return { ...state, pos: 0, loadKey: state.loadKey + 1 };
+      return state;
+    }
+
+    case "previous": {
+      if (!state.order.length) return state;
+      if (state.pos > 0) return { ...state, pos: state.pos - 1, loadKey: state.loadKey + 1 };
+      if (state.repeat === "all") return { ...state, pos: last, loadKey: state.loadKey + 1 };
+      return { ...state, loadKey: state.loadKey + 1 };
+    }
+
+    case "toggleShuffle": {
+      const index = state.order[state.pos] ?? 0;
+      if (state.shuffle) {
+        return { ...state, shuffle: false, order: range(state.queue.length), pos: index };
+      }
+      return {
+        ...state,
+        shuffle: true,
+        order: state.queue.length ? shuffledFrom(state.queue.length, index) : [],
+        pos: 0,
+      };
+    }
+
+    case "cycleRepeat":
+      return {
+        ...state,
+        repeat: state.repeat === "off" ? "all" : state.repeat === "all" ? "one" : "off",
+      };
+
+    case "clear":
+      return { ...state, queue: [], order: [], pos: 0 };
+  }
+}
+
+function loadVolume(): number {
+  try {
+    const v = Number.parseFloat(localStorage.getItem(VOLUME_KEY) ?? "");
+    return Number.isFinite(v) ? Math.min(Math.max(v, 0), 1) : 0.8;
+  } catch {
+    return 0.8;
+  }
+}
+
+let audioEl: HTMLAudioElement | null = null;
+
+/** Created on first use so nothing touches Audio during module load. */
+function getAudio() {
+  if (!audioEl) {
+    audioEl = new Audio();
+    audioEl.preload = "auto";
+    audioEl.crossOrigin = "anonymous";
+  }
+  return audioEl;
+}
+
+export function PlayerProvider({ children }: { children: React.ReactNode }) {
+  const [state, dispatch] = useReducer(queueReducer, INITIAL_QUEUE);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [volume, setVolumeState] = useState(loadVolume);
+  const [failed, setFailed] = useState<{ track: PlayerTrack; message: string } | null>(null);
+  /** The track whose audio is in the element right now */
+  const loadedRef = useRef<PlayerTrack | null>(null);
+
+  const currentIndex = state.order[state.pos] ?? -1;
+  const current = state.queue[currentIndex] ?? null;
+  const error = failed && failed.track === current ? failed.message : null;
+
+  // Wire the element's events up once
+  useEffect(() => {
+    const a = getAudio();
+    const onTime = () => setCurrentTime(a.currentTime);
+    const onDuration = () => setDuration(Number.isFinite(a.duration) ? a.duration : 0);
+    const onPlay = () => setIsPlaying(true);
+    const onPause = () => setIsPlaying(false);
+    const onEnded = () => dispatch({ type: "next", auto: true });
+    const onError = () => {
+      const track = loadedRef.current;
+      if (track) setFailed({ track, message: "This track could not be played." });
+    };
+
+    a.addEventListener("timeupdate", onTime);
+    a.addEventListener("durationchange", onDuration);
+    a.addEventListener("play", onPlay);
+    a.addEventListener("pause", onPause);
+    a.addEventListener("ended", onEnded);
+    a.addEventListener("error", onError);
+
+    return () => {
+      a.removeEventListener("timeupdate", onTime);
+      a.removeEventListener("durationchange", onDuration);
+      a.removeEventListener("play", onPlay);
+      a.removeEventListener("pause", onPause);
+      a.removeEventListener("ended", onEnded);
+      a.removeEventListener("error", onError);
+      a.pause();
+    };
+  }, []);
+
+  useEffect(() => {
+    getAudio().volume = volume;
+    try {
+      localStorage.setItem(VOLUME_KEY, String(volume));
+    } catch {
+      // private mode etc. — volume just won't stick
+    }
+  }, [volume]);
+
+  // (Re)load whenever the current track changes or has to start over
+  useEffect(() => {
+    const a = getAudio();
+    if (!current) {
+      loadedRef.current = null;
+      a.pause();
+      a.removeAttribute("src");
+      a.load();
+      return;
+    }
+
+    a.loop = !!current.ambient;
+    const start = () => {
+      a.currentTime = 0;
+      // Autoplay can be refused until the visitor has interacted with the page
+      a.play().catch(() => {});
+    };
+
+    // Same track again (repeat / previous): no need to fetch a new URL
+    if (loadedRef.current === current && a.src) return start();
+
+    const load = (url: string) => {
+      loadedRef.current = current;
+      a.src = url;
+      start();
+    };
+    if (typeof current.src === "string") return load(current.src);
+
+    let cancelled = false;
+    a.pause();
+    current
+      .src()
+      .then((url) => {
+        if (!cancelled) load(url);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setFailed({ track: current, message: err instanceof Error ? err.message : "Could not load this track." });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [current, state.loadKey]);
+
+  const togglePlay = useCallback(() => {
+    const a = getAudio();
+    if (!a.src) return;
+    if (a.paused) a.play().catch(() => {});
+    else a.pause();
+  }, []);
+
+  const seek = useCallback((seconds: number) => {
+    const a = getAudio();
+    if (!Number.isFinite(seconds)) return;
+    a.currentTime = Math.min(Math.max(seconds, 0), a.duration || 0);
+  }, []);
+
+  const previous = useCallback(() => {
+    if (getAudio().currentTime > RESTART_AFTER_S) seek(0);
+    else dispatch({ type: "previous" });
+  }, [seek]);
+
+  const next = useCallback(() => dispatch({ type: "next", auto: false }), []);
+
+  // Lock-screen / headset controls
+  useEffect(() => {
+    if (!("mediaSession" in navigator)) return;
+    const ms = navigator.mediaSession;
+
+    ms.metadata = current
+      ? new MediaMetadata({
+          title: current.title,
+          artist: current.artist ?? "BliximStraat",
+          artwork: current.coverUrl ? [{ src: new URL(current.coverUrl, window.location.href).href }] : [],
+        })
+      : null;
+
+    const handlers: [MediaSessionAction, MediaSessionActionHandler | null][] = [
+      ["play", () => getAudio().play().catch(() => {})],
+      ["pause", () => getAudio().pause()],
+      ["previoustrack", current ? previous : null],
+      ["nexttrack", current ? next : null],
+      ["seekto", (d) => seek(d.seekTime ?? 0)],
+    ];
+    for (const [action, handler] of handlers) {
+      try {
+        ms.setActionHandler(action, handler);
+      } catch {
+        // action not supported by this browser
+      }
+    }
+  }, [current, previous, next, seek]);
+
+  useEffect(() => {
+    if (!("mediaSession" in navigator)) return;
+    navigator.mediaSession.playbackState = current ? (isPlaying ? "playing" : "paused") : "none";
+    if (!duration || !navigator.mediaSession.setPositionState) return;
+    try {
+      navigator.mediaSession.setPositionState({
+        duration,
+        position: Math.min(currentTime, duration),
+        playbackRate: 1,
+      });
+    } catch {
+      // ignore bad state during track changes
+    }
+  }, [current, isPlaying, currentTime, duration]);
+
+  const value = useMemo<PlayerContextValue>(
+    () => ({
+      queue: state.queue,
+      current,
+      currentIndex,
+      shuffle: state.shuffle,
+      repeat: state.repeat,
+
+      isPlaying,
+      currentTime,
+      duration,
+      volume,
+      error,
+
+      playQueue: (tracks, startIndex = 0) => dispatch({ type: "play", tracks, start: startIndex }),
+      playTrack: (track) => dispatch({ type: "play", tracks: [track], start: 0 }),
+      addToQueue: (tracks) => dispatch({ type: "enqueue", tracks }),
+      jumpTo: (index) => dispatch({ type: "jump", index }),
+      togglePlay,
+      next,
+      previous,
+      seek,
+      setVolume: (v) => setVolumeState(Math.min(Math.max(v, 0), 1)),
+      toggleShuffle: () => dispatch({ type: "toggleShuffle" }),
+      cycleRepeat: () => dispatch({ type: "cycleRepeat" }),
+      stop: () => dispatch({ type: "clear" }),
+      playIntro: () => {
+        if (!current) dispatch({ type: "play", tracks: [INTRO], start: 0 });
+      },
+    }),
+    [state, current, currentIndex, isPlaying, currentTime, duration, volume, error, togglePlay, next, previous, seek]
+  );
+
+  return <PlayerContext.Provider value={value}>{children}</PlayerContext.Provider>;
+}
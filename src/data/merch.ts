@@ -0,0 +1,212 @@
+// ─────────────────────────────────────────────────────────────────
+// BLIXIMSTRAAT MERCH
+// What the Merch page and the cart show for each product: photos and blurbs.
+// Names, categories, prices, pre-order flags and the size/colour variants come
+// from products / product_variants in Supabase (fetchMerchCatalog in
+// src/lib/cartApi.ts), the same rows checkout charges from.
+// Every size/colour combination is a variant with its own SKU:
+//   <slug>/<size>[/<colour>]   e.g. "men-tee/m/blue", "keyring/one-size"
+// ─────────────────────────────────────────────────────────────────
+import imgBlueCap from "../../Graphics/merch/blue-cap.png";
+import imgBlueCheaperCap from "../../Graphics/merch/blue-cheaper-cap.png";
+import imgMenBlue from "../../Graphics/merch/men-blue.png";
+import imgMenGrey from "../../Graphics/merch/men-grey.png";
+import imgMooisteCap from "../../Graphics/merch/mooiste-cap.png";
+import imgOrangeCap from "../../Graphics/merch/orange-cap.png";
+import imgOrangeJeanCap from "../../Graphics/merch/orange-jean-cap.png";
+import imgStupidCap from "../../Graphics/merch/stupid-cap.png";
+import imgWomenBlue from "../../Graphics/merch/women-blue.png";
+import imgWomenGrey from "../../Graphics/merch/women-grey.png";
+import imgKeyring from "../../Graphics/merch/keyring.png";
+import imgBand from "../../Graphics/merch/band.png";
+
+export type MerchColour = {
+  name: string;
+  image: string;
+};
+
+/** Photos and blurb for one product, keyed by products.slug below */
+type MerchArt = {
+  description: string;
+  image: string;
+  /** Photo per colour name, for products sold in more than one colour */
+  colours?: Record<string, string>;
+};
+
+/** In the order the Merch page shows them; products without art come last. */
+const MERCH_ART: Record<string, MerchArt> = {
+  "men-tee": {
+    description: "100% cotton, screen-printed BliximStraat logo. Regular fit.",
+    image: imgMenBlue,
+    colours: { Blue: imgMenBlue, Grey: imgMenGrey },
+  },
+  "women-tee": {
+    description: "100% cotton, screen-printed BliximStraat logo. Slim fit.",
+    image: imgWomenBlue,
+    colours: { Blue: imgWomenBlue, Grey: imgWomenGrey },
+  },
+  "cap-blue": {
+    description: "Embroidered logo, adjustable snapback closure.",
+    image: imgBlueCap,
+  },
+  "cap-mooiste": {
+    description: "Embroidered logo, adjustable snapback closure.",
+    image: imgMooisteCap,
+  },
+  "cap-orange-jean": {
+    description: "Denim-style brim, embroidered logo, adjustable strap.",
+    image: imgOrangeJeanCap,
+  },
+  "cap-stupid": {
+    description: "Embroidered logo, adjustable snapback closure.",
+    image: imgStupidCap,
+  },
+  "cap-blue-cheaper": {
+    description: "BliximStraat logo cap, adjustable closure.",
+    image: imgBlueCheaperCap,
+  },
+  "cap-orange": {
+    description: "BliximStraat logo cap, adjustable closure.",
+    image: imgOrangeCap,
+  },
+  keyring: {
+    description: "Official BliximStraat branded keyring.",
+    image: imgKeyring,
+  },
+  band: {
+    description: "Official BliximStraat wristband.",
+    image: imgBand,
+  },
+};
+
+const ART_ORDER = Object.keys(MERCH_ART);
+
+/** A products row with its variants, as fetchMerchCatalog selects it */
+export type MerchProductRow = {
+  id: string;
+  slug: string | null;
+  name: string | null;
+  category: string | null;
+  price_cents: number;
+  image_url: string | null;
+  is_preorder: boolean | null;
+  product_variants: {
+    sku: string;
+    size: string | null;
+    colour: string | null;
+    stock_qty: number | null;
+  }[] | null;
+};
+
+export type MerchSku = {
+  sku: string;
+  size: string;
+  colour: string | null;
+  /** null = not tracked, always available */
+  stock: number | null;
+};
+
+export type MerchItem = {
+  /** products.slug */
+  id: string;
+  name: string;
+  category: string;
+  priceCents: number;
+  description: string;
+  isPreorder: boolean;
+  image: string;
+  sizes: string[];
+  /** Only for items sold in more than one colour; `image` is the first colour. */
+  colours?: MerchColour[];
+  variants: MerchSku[];
+};
+
+const SIZE_ORDER = ["XS", "S", "M", "L", "XL", "XXL", "3XL", "One Size"];
+
+const bySize = (a: string, b: string) => {
+  const ia = SIZE_ORDER.indexOf(a);
+  const ib = SIZE_ORDER.indexOf(b);
+  if (ia === -1 || ib === -1) return ia === ib ? a.localeCompare(b) : ia === -1 ? 1 : -1;
+  return ia - ib;
+};
+
+/** Products with at least one variant, shaped for the Merch page and the cart. */
+export function toMerchItems(rows: MerchProductRow[]): MerchItem[] {
+  const items = rows.flatMap((row): MerchItem[] => {
+    const slug = row.slug?.trim();
+    const variants = (row.product_variants ?? []).map((v) => ({
+      sku: v.sku,
+      size: v.size?.trim() || "One Size",
+      colour: v.colour?.trim() || null,
+      stock: v.stock_qty,
+    }));
+    if (!slug || !variants.length) return [];
+
+    const art = MERCH_ART[slug];
+    const image = row.image_url || art?.image || "";
+    const colourNames = [...new Set(variants.flatMap((v) => (v.colour ? [v.colour] : [])))].sort();
+    const colours = colourNames.map((name) => ({ name, image: art?.colours?.[name] ?? image }));
+
+    return [
+      {
+        id: slug,
+        name: String(row.name ?? "Merch"),
+        category: String(row.category ?? "Accessories"),
+        priceCents: Math.round(Number(row.price_cents) || 0),
+        description: art?.description ?? "",
+        isPreorder: !!row.is_preorder,
+        image: colours[0]?.image ?? image,
+        sizes: [...new Set(variants.map((v) => v.size))].sort(bySize),
+        colours: colours.length ? colours : undefined,
+        variants,
+      },
+    ];
+  });
+
+  const rank = (item: MerchItem) => {
+    const i = ART_ORDER.indexOf(item.id);
+    return i === -1 ? ART_ORDER.length : i;
+  };
+  return items.sort((a, b) => rank(a) - rank(b));
+}
+
+const code = (s: string) =>
+  s
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+
+/** SKU from a product slug; Admin uses this when adding variants by hand. */
+export function variantSku(slug: string, size: string, colour?: string | null): string {
+  const parts = [code(slug), code(size || "One Size")];
+  if (colour?.trim()) parts.push(code(colour));
+  return parts.join("/");
+}
+
+/** The variant's SKU, or null if that size/colour isn't sold. */
+export function merchSku(item: MerchItem, size: string, colour?: string | null): string | null {
+  const wanted = item.colours?.length ? (colour ?? null) : null;
+  return item.variants.find((v) => v.size === size && v.colour === wanted)?.sku ?? null;
+}
+
+export type MerchVariant = {
+  item: MerchItem;
+  size: string;
+  colour: MerchColour | null;
+};
+
+/** null for SKUs that are not (or no longer) in the catalogue. */
+export function findMerchVariant(items: MerchItem[], sku: string): MerchVariant | null {
+  for (const item of items) {
+    const v = item.variants.find((x) => x.sku === sku);
+    if (!v) continue;
+    return { item, size: v.size, colour: item.colours?.find((c) => c.name === v.colour) ?? null };
+  }
+  return null;
+}
+
+export function merchVariantLabel(v: MerchVariant): string {
+  const bits = [v.colour?.name, v.size === "One Size" ? null : v.size].filter(Boolean);
+  return bits.length ? `${v.item.name} — ${bits.join(" / ")}` : v.item.name;
+}
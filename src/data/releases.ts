@@ -0,0 +1,191 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// BLIXIMSTRAAT — Albums and EPs, with their tracklists in play order
+// trackIds are Song ids from ./songs. Songs on no release here are singles.
+// releaseDate: the 1st of the month (or of the year) when the day isn't known
+// ─────────────────────────────────────────────────────────────────────────────
+export type ReleaseType = "album" | "ep" | "single";
+
+export type ReleaseDef = {
+  id: string;
+  title: string;
+  type: ReleaseType;
+  releaseDate: string;
+  coverUrl?: string;
+  youtubeUrl?: string;
+  trackIds: string[];
+};
+
+const YT    = (id: string) => `https://www.youtube.com/watch?v=${id}`;
+const COVER = (file: string) => `/covers/${file}`;
+
+export const RELEASES: ReleaseDef[] = [
+  {
+    id: "vir-jou-is-ek-baby",
+    title: "Vir Jou Is Ek Baby",
+    type: "ep",
+    releaseDate: "2026-05-01",
+    coverUrl: COVER("baby.png"),
+    youtubeUrl: YT("P5lH2ckXCBY"),
+    trackIds: [
+      "waar-woorde-kort-kom",
+      "met-al-die-dorings",
+      "einde-van-die-dag",
+      "vir-jou-is-ek-baby",
+      "dieper-as-woorde",
+      "wys-my",
+    ],
+  },
+  {
+    id: "sy-byt-my-in-my-nek",
+    title: "Sy Byt My In My Nek",
+    type: "album",
+    releaseDate: "2026-02-01",
+    coverUrl: COVER("sy-byt-my-in-my-nek.jpg"),
+    youtubeUrl: YT("KQWEVtntc3E"),
+    trackIds: [
+      "sy-byt-my-in-my-nek",
+      "dis-hoe-ek-weet",
+      "ek-wil-met-jou-dans",
+      "hoe-het-jy-geweet",
+      "hou-my-hand-vas",
+      "jy-is-my-lewe",
+      "jy-was-nie-een-van-hulle-nie",
+      "net-vir-jou",
+    ],
+  },
+  {
+    id: "stupid-verlief",
+    title: "Stupid Verlief",
+    type: "album",
+    releaseDate: "2026-01-01",
+    coverUrl: COVER("stupid-verlief.jpg"),
+    youtubeUrl: YT("mL8vBA_I57A"),
+    trackIds: [
+      "steel-my-hart",
+      "stupid-verlief-track",
+      "anniska-juice",
+      "bedoel-om-te-voel",
+      "dit-is-wat-dit-is-sv",
+      "jy-vat-my-asem-weg",
+      "spoed",
+      "se-dit",
+      "sy-weet-mos",
+      "vat-my-hou-my-soen-my",
+    ],
+  },
+  {
+    id: "tyd-staan-stil",
+    title: "Tyd Staan Stil",
+    type: "album",
+    releaseDate: "2025-11-01",
+    coverUrl: COVER("tyd-staan-stil.jpg"),
+    youtubeUrl: YT("_b6wKtHDjwY"),
+    trackIds: [
+      "tyd-staan-stil",
+      "fluister",
+      "cherry-bubble-gum-milkshake",
+      "laaste-brief",
+      "ek-breek-weer",
+      "ek-hoor-jou",
+      "as-jy-kwaad-is-vir-my",
+      "waneer-ek-vir-haar",
+      "shampoo",
+      "ek-is-verlief-op-die-maan",
+    ],
+  },
+  {
+    id: "se-jy-voel-dieselfde",
+    title: "Sê Jy Voel Dieselfde",
+    type: "album",
+    releaseDate: "2025-10-01",
+    coverUrl: COVER("se-jy-voel-dieselfde.jpg"),
+    youtubeUrl: YT("3rTqIz980AU"),
+    trackIds: [
+      "se-jy-voel-dieselfde",
+      "nina",
+      "bonfire",
+      "brand-die-huis-af",
+      "die-beat",
+      "die-pyn-gaan-nie-weg-nie",
+      "ek-kan-nie-sonder-jou",
+      "ek-sal-nie-breek-nie",
+      "gee-my-terug-my-hart",
+      "hard-en-duidelik",
+      "skatkis-in-die-maanlig",
+      "soos-die-reen",
+      "tot-die-speakers-bars",
+      "vergewe-my",
+    ],
+  },
+  {
+    id: "sy-is-op-haar-mooiste",
+    title: "Sy Is Op Haar Mooiste In My Geskeurde T-Shirt",
+    type: "album",
+    releaseDate: "2025-10-01",
+    coverUrl: COVER("sy-is-op-haar-mooiste.jpg"),
+    youtubeUrl: YT("sSXX8zfL4-8"),
+    trackIds: [
+      "sy-is-op-haar-mooiste",
+      "die-musiek-dra-my",
+      "dit-is-hoe-jy-my-soen",
+      "in-die-deur",
+      "die-liefde",
+      "dit-is-wat-dit-is",
+      "ek-val-maar-ek-vlieg",
+      "ek-verloof-myself-in-jou-ritme",
+      "ek-voel-die-vuur",
+      "goeie-tye",
+      "jou-liefde-is-heilig",
+      "jy-dans-veels-te-seksie",
+      "jyt-n-lekker-been",
+      "kan-ek-jou-vashou",
+      "niks-soos-hierdie-oomblik",
+      "suikerbos-sokkie",
+      "vibrasie",
+      "wakker-word-langs-jou",
+    ],
+  },
+  {
+    id: "jou-liefde-is-soos-donderweer",
+    title: "Jou Liefde Is Soos Donderweer",
+    type: "album",
+    releaseDate: "2025-07-01",
+    coverUrl: COVER("jou-liefde-is-soos-donderweer.jpg"),
+    youtubeUrl: YT("Uh8j8U0ZPhg"),
+    trackIds: [
+      "bliksem-maar-jys-mooi",
+      "jou-liefde-is-soos-donderweer",
+      "ek-is-afrikaans",
+      "dans-tot-die-son-op-kom",
+      "dans-in-die-donker",
+      "die-lewe-is-n-grondpad",
+      "ek-kon-nie-vir-beter-vra",
+      "gee-my-n-glimlag",
+      "hoekom-se-jy-nie",
+      "hoekom-stop-jy",
+      "jonk-dronk-benodig-vonk",
+      "niemand-anders",
+      "ons-liefde-is-aan-die-brand",
+      "ons-voel-nie-n-fok-nie",
+      "op-n-strand-in-hermanus",
+      "terug-na-die-hart-van-my",
+    ],
+  },
+  {
+    id: "lippe-af-lek",
+    title: "Lippe Af Lêk",
+    type: "album",
+    releaseDate: "2025-01-01",
+    coverUrl: COVER("lippe-af-lek.png"),
+    youtubeUrl: YT("EudxmCX_HWw"),
+    trackIds: [
+      "lippe-af-lek",
+      "jys-moeilikheid",
+      "gee-my-n-drukkie",
+      "gee-my-n-glimlag-lal",
+      "hart-en-hande",
+      "jou-drukkies-is-intense",
+      "om-liefgehe-te-word",
+    ],
+  },
+];
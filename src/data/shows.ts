@@ -3,6 +3,18 @@
 // Add upcoming shows here. The Shows page reads from this file.
 // date format: "YYYY-MM-DD"
 // ─────────────────────────────────────────────────────────────────
+/** A song played at a show; songId is the catalogue id when it's one of ours */
+export type SetlistEntry = {
+  title: string;
+  songId?: string;
+  note?: string;
+};
+
+export type ShowPhoto = {
+  url: string;
+  caption?: string;
+};
+
 export type Show = {
   id: string;
   title: string;
@@ -11,6 +23,23 @@ export type Show = {
   date: string;
   time?: string;
   ticketUrl?: string;
+  /** Acts in running order, headliner last */
+  lineup?: string[];
+  /** Street address of the venue */
+  address?: string;
+  /** Venue coordinates for the map on the show page */
+  lat?: number;
+  lng?: number;
+  /** "HH:MM", when the gates open */
+  doorsTime?: string;
+  /** Minimum age; 0 for all ages, leave out if not stated */
+  minAge?: number;
+  /** IANA timezone of the venue; defaults to Africa/Johannesburg */
+  timezone?: string;
+  // Archive, once the show is over
+  setlist?: SetlistEntry[];
+  attendanceNote?: string;
+  photos?: ShowPhoto[];
 };
 
 export const SHOWS: Show[] = [
@@ -21,5 +50,6 @@ export const SHOWS: Show[] = [
     city: "Welkom",
     date: "2026-06-06",
     time: "15:00",
+    lineup: ["Kiefbeats", "BliximStraat"],
   },
 ];
@@ -13,6 +13,8 @@ export type Song = {
   albumUrl?: string;
   youtubeUrl: string;
   coverUrl?: string;
+  /** Public 30-second clip; only set for songs loaded from the database */
+  previewUrl?: string;
 };
 
 const YT      = (id: string) => `https://www.youtube.com/watch?v=${id}`;
@@ -0,0 +1,25 @@
+import { useEffect, useState } from "react";
+import { catalog } from "../lib/catalog";
+
+type Catalog = typeof catalog;
+
+/**
+ * Renders straight away with the best data we have (cached or static),
+ * then swaps in the database copy once it arrives.
+ */
+export function useCatalog<K extends keyof Catalog>(key: K): ReturnType<Catalog[K]["peek"]> {
+  const source = catalog[key];
+  const [data, setData] = useState(() => source.peek());
+
+  useEffect(() => {
+    let cancelled = false;
+    source.get().then((rows) => {
+      if (!cancelled) setData(rows);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [source]);
+
+  return data as ReturnType<Catalog[K]["peek"]>;
+}
@@ -0,0 +1,43 @@
+import { useEffect, useState } from "react";
+import { supabase } from "../lib/supabase";
+import { useAuth } from "../contexts/AuthContext";
+
+export type Role = "admin";
+
+/**
+ * Looks the signed-in user up in user_roles.
+ * `checking` stays true until the answer for the *current* user is in,
+ * so guards never flash "not allowed" while a lookup is still running.
+ */
+export function useHasRole(role: Role) {
+  const { user, loading } = useAuth();
+  const [result, setResult] = useState<{ userId: string; role: Role; has: boolean } | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+
+    const check = async () => {
+      const { data, error } = await supabase
+        .from("user_roles")
+        .select("role")
+        .eq("user_id", user.id)
+        .eq("role", role)
+        .maybeSingle();
+
+      if (!cancelled) setResult({ userId: user.id, role, has: !error && !!data });
+    };
+
+    check();
+    return () => {
+      cancelled = true;
+    };
+  }, [user, role]);
+
+  const current = !!user && result?.userId === user.id && result.role === role;
+
+  return {
+    hasRole: current && !!result?.has,
+    checking: loading || (!!user && !current),
+  };
+}
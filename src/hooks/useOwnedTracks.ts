@@ -0,0 +1,73 @@
+import { useEffect, useState } from "react";
+import { supabase } from "../lib/supabase";
+import { useAuth } from "../contexts/AuthContext";
+import type { PlayerTrack } from "../lib/player";
+import { getSongAudioUrl } from "../lib/songAudio";
+import type { AudioFormat } from "../lib/audioFormats";
+
+export type OwnedSongRow = {
+  id: string;
+  slug: string | null;
+  title: string;
+  artist: string | null;
+  cover_url: string | null;
+  song_audio_files: { format: AudioFormat }[] | null;
+};
+
+/** Columns to select (from songs) for ownedTrack() */
+export const OWNED_SONG_COLUMNS = "id, slug, title, artist, cover_url, song_audio_files (format)";
+
+/**
+ * Player track for a purchased song, keyed like the catalogue (slug, else uuid).
+ * The audio is private, so the URL is signed when the track actually plays.
+ */
+export function ownedTrack(song: OwnedSongRow): PlayerTrack | null {
+  if (!song.song_audio_files?.length) return null;
+  return {
+    id: song.slug ?? song.id,
+    title: song.title,
+    artist: song.artist,
+    coverUrl: song.cover_url,
+    src: () => getSongAudioUrl(song.id, "stream").then((r) => r.url),
+  };
+}
+
+type Owned = { userId: string | null; tracks: Map<string, PlayerTrack> };
+
+const NONE = new Map<string, PlayerTrack>();
+
+/**
+ * Full-length tracks the signed-in user has bought, by catalogue song id.
+ * Empty for visitors; RLS on user_purchases does the filtering.
+ */
+export function useOwnedTracks(): Map<string, PlayerTrack> {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const [owned, setOwned] = useState<Owned>({ userId: null, tracks: NONE });
+
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+
+    supabase
+      .from("user_purchases")
+      .select(`songs:song_id (${OWNED_SONG_COLUMNS})`)
+      .then(({ data, error }) => {
+        if (cancelled || error) return;
+        const tracks = new Map<string, PlayerTrack>();
+        for (const row of (data ?? []) as unknown as { songs: OwnedSongRow | OwnedSongRow[] | null }[]) {
+          const song = Array.isArray(row.songs) ? row.songs[0] : row.songs;
+          const track = song ? ownedTrack(song) : null;
+          if (track) tracks.set(track.id, track);
+        }
+        setOwned({ userId, tracks });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  // Don't leak the previous account's library after a sign-out / switch
+  return owned.userId === userId ? owned.tracks : NONE;
+}
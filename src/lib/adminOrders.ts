@@ -0,0 +1,31 @@
+// src/lib/adminOrders.ts
+// Cancels and refunds through netlify/functions/admin-orders.ts, which checks the
+// caller is an admin and talks to the payment provider.
+import { supabase } from "./supabase";
+import type { OrderStatus, RefundItem } from "./refunds";
+import { callFunction } from "./functionsClient";
+
+export type OrderAction =
+  | { action: "cancel"; order_id: string; reason?: string }
+  | {
+      action: "refund";
+      order_id: string;
+      items: RefundItem[];
+      include_shipping: boolean;
+      /** Omit to refund exactly what the items (and shipping) cost */
+      amount_cents?: number;
+      restock: boolean;
+      reason?: string;
+    };
+
+export async function runOrderAction(input: OrderAction): Promise<{ status: OrderStatus; amount_cents?: number }> {
+  const { data } = await supabase.auth.getSession();
+  const token = data.session?.access_token;
+  if (!token) throw new Error("Please sign in again.");
+
+  return callFunction<{ status: OrderStatus; amount_cents?: number }>("admin-orders", {
+    body: input,
+    token,
+    fallbackMessage: "Could not update this order.",
+  });
+}
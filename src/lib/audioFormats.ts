@@ -0,0 +1,24 @@
+// src/lib/audioFormats.ts
+// Formats a full track can be stored and downloaded in. Shared by Admin,
+// PurchasedSongs and netlify/functions/song-audio.ts, so keep it browser-free.
+
+export type AudioFormat = "mp3" | "flac" | "wav";
+
+/** Streaming preference: smallest first. */
+export const AUDIO_FORMATS: AudioFormat[] = ["mp3", "flac", "wav"];
+
+export const AUDIO_FORMAT_LABEL: Record<AudioFormat, string> = {
+  mp3: "MP3",
+  flac: "FLAC",
+  wav: "WAV",
+};
+
+export function isAudioFormat(value: unknown): value is AudioFormat {
+  return AUDIO_FORMATS.includes(value as AudioFormat);
+}
+
+/** "Track 01.FLAC" -> "flac"; null for anything we don't sell. */
+export function audioFormatFromFileName(name: string): AudioFormat | null {
+  const ext = name.split(".").pop()?.toLowerCase();
+  return isAudioFormat(ext) ? ext : null;
+}
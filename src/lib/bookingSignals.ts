@@ -0,0 +1,199 @@
+// src/lib/bookingSignals.ts
+// Booking signals: checking what the pin form sends
+// (netlify/functions/booking-signal.ts) and triage for the Admin Demand tab —
+// statuses, spotting repeat submitters and the CSV handed to the booking
+// agent. Plain code only, like ./refunds, so functions can use it.
+import { geocodeTown, normaliseTown } from "./geocode";
+import { isProvince, type Province } from "./provinces";
+
+export type SignalStatus = "new" | "contacted" | "booked" | "ignored";
+
+export const SIGNAL_STATUSES: SignalStatus[] = ["new", "contacted", "booked", "ignored"];
+
+export const SIGNAL_STATUS_LABEL: Record<SignalStatus, string> = {
+  new: "New",
+  contacted: "Contacted",
+  booked: "Booked",
+  ignored: "Ignored",
+};
+
+export function isSignalStatus(value: unknown): value is SignalStatus {
+  return SIGNAL_STATUSES.includes(value as SignalStatus);
+}
+
+export const SIGNAL_SOURCES = ["pin_button"] as const;
+
+export type SignalSource = (typeof SIGNAL_SOURCES)[number];
+
+/** Longest accepted value per field; the table has matching checks. */
+export const SIGNAL_MAX_LENGTH = { name: 80, town: 80, message: 1000 };
+
+/** What the pin form sends, cleaned up */
+export type SignalSubmission = {
+  name: string | null;
+  town: string;
+  province: Province;
+  wants_show: boolean;
+  is_venue: boolean;
+  message: string | null;
+  source: SignalSource;
+};
+
+// drops control characters other than tab and newline
+const printable = (value: string) =>
+  Array.from(value)
+    .filter((c) => {
+      const code = c.charCodeAt(0);
+      return code === 9 || code === 10 || (code >= 32 && code !== 127);
+    })
+    .join("");
+
+function text(value: unknown, field: keyof typeof SIGNAL_MAX_LENGTH): string | null {
+  if (value == null) return null;
+  if (typeof value !== "string") throw new TypeError(`${field} must be text`);
+  const cleaned = printable(value).trim();
+  if (cleaned.length > SIGNAL_MAX_LENGTH[field]) {
+    throw new TypeError(`${field} is too long (${SIGNAL_MAX_LENGTH[field]} characters at most)`);
+  }
+  return cleaned || null;
+}
+
+function flag(value: unknown, field: string): boolean {
+  if (value == null) return false;
+  if (typeof value !== "boolean") throw new TypeError(`${field} must be true or false`);
+  return value;
+}
+
+/** The form fields in a request body, or what's wrong with them. */
+export function parseSignalSubmission(
+  body: Record<string, unknown>
+): { signal: SignalSubmission } | { problem: string } {
+  try {
+    const town = text(body.town, "town");
+    if (!town || town.length < 2 || !/\p{L}/u.test(town)) return { problem: "Please add your town" };
+    if (!isProvince(body.province)) return { problem: "Please pick a province" };
+
+    const source = body.source ?? "pin_button";
+    if (!SIGNAL_SOURCES.includes(source as SignalSource)) return { problem: "Unknown source" };
+
+    return {
+      signal: {
+        name: text(body.name, "name"),
+        town,
+        province: body.province,
+        wants_show: flag(body.wants_show, "wants_show"),
+        is_venue: flag(body.is_venue, "is_venue"),
+        message: text(body.message, "message"),
+        source: source as SignalSource,
+      },
+    };
+  } catch (e) {
+    return { problem: e instanceof Error ? e.message : "Invalid booking signal" };
+  }
+}
+
+const LINK_RE = /https?:\/\/|www\.|[a-z0-9-]+\.(com|net|org|ru|xyz|top|info|biz)\b/i;
+
+const linkCount = (value: string | null) => (value ?? "").split(/\s+/).filter((word) => LINK_RE.test(word)).length;
+
+/**
+ * Why a submission looks like spam, if it does. Such signals are still kept
+ * but quarantined: left off the demand map until an admin releases them.
+ */
+export function signalSpamReasons(signal: SignalSubmission): string[] {
+  const reasons: string[] = [];
+  if (linkCount(signal.name) || linkCount(signal.town)) reasons.push("link in name or town");
+  if (linkCount(signal.message) > 1) reasons.push("links in message");
+  return reasons;
+}
+
+/** A booking_signals row as Admin reads it */
+export type BookingSignal = {
+  id: string;
+  name: string | null;
+  town: string | null;
+  province: string | null;
+  wants_show: boolean;
+  is_venue: boolean;
+  message: string | null;
+  source: string | null;
+  status: SignalStatus;
+  admin_notes: string | null;
+  status_changed_at: string | null;
+  duplicate_of: string | null;
+  quarantined: boolean;
+  quarantine_reasons: string[];
+  created_at: string;
+};
+
+/** What dedupe needs to know about a signal */
+export type SignalIdentity = Pick<
+  BookingSignal,
+  "id" | "name" | "town" | "province" | "is_venue" | "duplicate_of" | "created_at"
+>;
+
+/**
+ * Who and where a signal came from, or null for anonymous pins. The town goes
+ * through the gazetteer so "Jhb" and "Johannesburg" count as the same place.
+ */
+export function submitterKey(s: Omit<SignalIdentity, "id" | "duplicate_of" | "created_at">): string | null {
+  const name = normaliseTown(s.name ?? "");
+  if (!name) return null;
+
+  const town = s.town ? geocodeTown(s.town, s.province)?.place.name ?? normaliseTown(s.town) : "";
+  return [name, normaliseTown(town), s.is_venue ? "venue" : "fan"].join("|");
+}
+
+/**
+ * Repeat submissions among `signals`: every later signal from the same
+ * submitter, pointed at their earliest one. Signals already marked as
+ * duplicates are left alone.
+ */
+export function findDuplicates(signals: SignalIdentity[]): { id: string; duplicate_of: string }[] {
+  const first = new Map<string, SignalIdentity>();
+  const found: { id: string; duplicate_of: string }[] = [];
+
+  const oldestFirst = signals
+    .filter((s) => !s.duplicate_of)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+  for (const s of oldestFirst) {
+    const key = submitterKey(s);
+    if (!key) continue;
+    const original = first.get(key);
+    if (original) found.push({ id: s.id, duplicate_of: original.id });
+    else first.set(key, s);
+  }
+  return found;
+}
+
+/** One CSV field; cells starting like a formula are quoted with ' so spreadsheets show them as text. */
+function csvCell(value: string | number | boolean | null | undefined): string {
+  let text = value == null ? "" : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const CSV_COLUMNS: { header: string; value: (s: BookingSignal) => string | boolean | null }[] = [
+  { header: "Received", value: (s) => s.created_at },
+  { header: "Status", value: (s) => SIGNAL_STATUS_LABEL[s.status] ?? s.status },
+  { header: "Venue", value: (s) => (s.is_venue ? "yes" : "no") },
+  { header: "Wants a show", value: (s) => (s.wants_show ? "yes" : "no") },
+  { header: "Name", value: (s) => s.name },
+  { header: "Town", value: (s) => s.town },
+  { header: "Matched town", value: (s) => (s.town ? geocodeTown(s.town, s.province)?.place.name ?? null : null) },
+  { header: "Province", value: (s) => s.province },
+  { header: "Message", value: (s) => s.message },
+  { header: "Notes", value: (s) => s.admin_notes },
+  { header: "Source", value: (s) => s.source },
+  { header: "Id", value: (s) => s.id },
+];
+
+/** The signals as CSV (RFC 4180, CRLF line ends) with a header row. */
+export function signalsCsv(signals: BookingSignal[]): string {
+  const lines = [
+    CSV_COLUMNS.map((c) => csvCell(c.header)).join(","),
+    ...signals.map((s) => CSV_COLUMNS.map((c) => csvCell(c.value(s))).join(",")),
+  ];
+  return `${lines.join("\r\n")}\r\n`;
+}
@@ -0,0 +1,19 @@
+import { describe, expect, it } from "vitest";
+import { spreadDiscount } from "./bundles";
+
+describe("spreadDiscount", () => {
+  it("splits the discount in proportion to each amount", () => {
+    expect(spreadDiscount([3000, 1000], 400)).toEqual([300, 100]);
+  });
+
+  it("never gives a cheap last line more than it costs", () => {
+    const shares = spreadDiscount([1000, 1000, 1000, 1], 2000);
+
+    expect(shares).toEqual([667, 666, 666, 1]);
+    expect(shares.reduce((sum, s) => sum + s, 0)).toBe(2000);
+  });
+
+  it("takes no more than the amounts add up to", () => {
+    expect(spreadDiscount([500, 250], 1000)).toEqual([500, 250]);
+  });
+});
@@ -0,0 +1,133 @@
+// src/lib/bundles.ts
+// Album bundle pricing. A release with a bundle price costs that much when the
+// cart completes it; tracks the buyer already owns are credited at their share
+// of the bundle. CartContext and netlify/functions/create-checkout.ts both use
+// this, so keep it free of browser code.
+
+export type BundleTrack = {
+  /** songs.id (uuid) */
+  song_id: string;
+  title: string;
+  artist: string | null;
+  cover_url: string | null;
+  price_cents: number;
+};
+
+export type Bundle = {
+  /** albums.id (uuid) */
+  album_id: string;
+  /** Catalogue id of the release (slug, else uuid) */
+  release_id: string;
+  title: string;
+  bundle_price_cents: number;
+  tracks: BundleTrack[];
+};
+
+export type AppliedBundle = {
+  album_id: string;
+  title: string;
+  /** Cart songs the bundle covers */
+  song_ids: string[];
+  discount_cents: number;
+};
+
+type AlbumBundleRow = {
+  id: string;
+  slug: string | null;
+  title: string;
+  bundle_price_cents: number | null;
+};
+
+/** Null when the album has no bundle price or no tracks. */
+export function toBundle(album: AlbumBundleRow, tracks: BundleTrack[]): Bundle | null {
+  const price = Math.round(Number(album.bundle_price_cents) || 0);
+  if (price <= 0 || !tracks.length) return null;
+
+  return {
+    album_id: album.id,
+    release_id: album.slug ?? album.id,
+    title: album.title,
+    bundle_price_cents: price,
+    tracks,
+  };
+}
+
+const sumPrices = (tracks: BundleTrack[]) => tracks.reduce((sum, t) => sum + t.price_cents, 0);
+
+/**
+ * What the rest of the release costs someone who owns `owned`.
+ * Null when there is nothing left to buy, or the bundle isn't cheaper.
+ */
+export function bundlePriceFor(bundle: Bundle, owned: ReadonlySet<string>): number | null {
+  const listCents = sumPrices(bundle.tracks);
+  const remaining = bundle.tracks.filter((t) => !owned.has(t.song_id));
+  if (!remaining.length || bundle.bundle_price_cents >= listCents) return null;
+
+  const credit = Math.round((bundle.bundle_price_cents * (listCents - sumPrices(remaining))) / listCents);
+  return bundle.bundle_price_cents - credit;
+}
+
+/**
+ * Bundles the cart completes, biggest saving first. A song counts towards
+ * one bundle at most.
+ */
+export function applyBundles(
+  bundles: Bundle[],
+  cartSongIds: ReadonlySet<string>,
+  owned: ReadonlySet<string>
+): AppliedBundle[] {
+  const candidates: AppliedBundle[] = [];
+
+  for (const bundle of bundles) {
+    const remaining = bundle.tracks.filter((t) => !owned.has(t.song_id));
+    if (!remaining.length || !remaining.every((t) => cartSongIds.has(t.song_id))) continue;
+
+    const price = bundlePriceFor(bundle, owned);
+    if (price === null) continue;
+
+    const discount_cents = sumPrices(remaining) - price;
+    if (discount_cents <= 0) continue;
+
+    candidates.push({
+      album_id: bundle.album_id,
+      title: bundle.title,
+      song_ids: remaining.map((t) => t.song_id),
+      discount_cents,
+    });
+  }
+
+  const used = new Set<string>();
+  return candidates
+    .sort((a, b) => b.discount_cents - a.discount_cents)
+    .filter((applied) => {
+      if (applied.song_ids.some((id) => used.has(id))) return false;
+      applied.song_ids.forEach((id) => used.add(id));
+      return true;
+    });
+}
+
+/**
+ * Splits `discount` over `amounts` in proportion; the last non-zero one takes
+ * the rounding. No share is more than its amount: whatever a line has no room
+ * for goes to the next line that does.
+ */
+export function spreadDiscount(amounts: number[], discount: number): number[] {
+  const total = amounts.reduce((sum, a) => sum + a, 0);
+  if (total <= 0 || discount <= 0) return amounts.map(() => 0);
+
+  const capped = Math.min(discount, total);
+  const last = amounts.reduce((at, amount, i) => (amount > 0 ? i : at), -1);
+  let left = capped;
+  const shares = amounts.map((amount, i) => {
+    const share = Math.min(amount, left, i === last ? left : Math.round((capped * amount) / total));
+    left -= share;
+    return share;
+  });
+
+  for (let i = 0; left > 0 && i < amounts.length; i++) {
+    const more = Math.min(left, amounts[i] - shares[i]);
+    shares[i] += more;
+    left -= more;
+  }
+  return shares;
+}
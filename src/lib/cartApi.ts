@@ -1,6 +1,71 @@
 import { supabase } from "./supabase";
+import type { CartItem } from "../contexts/CartContext";
+import { findMerchVariant, merchVariantLabel, toMerchItems, type MerchItem, type MerchProductRow } from "../data/merch";
+import type { DeliveryMethod, ShippingAddress, ShippingRule } from "./shipping";
+import { toBundle, type Bundle, type BundleTrack } from "./bundles";
+import { normaliseGift } from "./gifts";
+import { ticketLineTitle, type TicketTier } from "./tickets";
+import { isPastShow } from "./showTime";
+import { callFunction } from "./functionsClient";
 
+type CartSongJoin = {
+  id: string;
+  title: string;
+  artist: string | null;
+  price_cents: number;
+  cover_url: string | null;
+};
 
+type CartTierJoin = {
+  id: string;
+  name: string;
+  price_cents: number;
+  shows: { title: string | null; venue: string | null; city: string | null; show_date: string | null } | null;
+};
+
+/** A tier as the Shows page offers it */
+export type TicketTierOffer = TicketTier & {
+  /** Catalogue id of the show (slug, else uuid), as on Show.id */
+  show_catalog_id: string;
+  /** Seats left; null when availability is unknown */
+  remaining: number | null;
+};
+
+/** Sent with the checkout when the cart holds merch. */
+export type CheckoutDelivery = {
+  method: DeliveryMethod;
+  address?: ShippingAddress;
+  show_id?: string | null;
+};
+
+/** create-checkout's answer to { quote: true }: prices only, no order */
+export type CheckoutQuote = {
+  subtotal_cents: number;
+  discount_cents: number;
+  promo_discount_cents: number;
+  /** Merch lines after discounts: what the delivery fee is worked out from */
+  merch_subtotal_cents: number;
+  promo: { code: string; description: string | null } | null;
+};
+
+/** create-checkout's answer once the order exists and a payment page is ready */
+export type CheckoutStarted = {
+  checkoutUrl: string;
+  order_id: string;
+  total_cents: number;
+  discount_cents: number;
+  shipping_cents: number;
+  requires_shipping: boolean;
+};
+
+export type CollectShow = {
+  id: string;
+  title: string | null;
+  venue: string | null;
+  city: string | null;
+  show_date: string | null;
+  timezone: string | null;
+};
 
 export async function getOrCreateCartId(): Promise<string> {
   const { data: auth } = await supabase.auth.getUser();
@@ -40,7 +105,17 @@ export async function fetchCartItems() {
       quantity,
       added_at,
       song_id,
-      songs:song_id (
+      sku,
+      ticket_tier_id,
+      gift_email,
+      gift_message,
+      ticket_tiers (
+        id,
+        name,
+        price_cents,
+        shows (title, venue, city, show_date)
+      ),
+      songs:song_catalog (
         id,
         title,
         artist,
@@ -86,6 +161,113 @@ export async function addToCart(songId: string, quantity = 1) {
   if (error) throw error;
 }
 
+/** Server cart rows in the same shape CartContext keeps in memory. */
+export async function fetchCartLines(): Promise<CartItem[]> {
+  const { items } = await fetchCartItems();
+  const merch = items.some((row) => row.sku) ? await fetchMerchCatalog() : [];
+
+  return items.flatMap((row): CartItem[] => {
+    const qty = Number(row.quantity) || 1;
+
+    // merch lines: priced from products, like checkout
+    if (row.sku) {
+      const variant = findMerchVariant(merch, String(row.sku));
+      if (!variant) return [];
+
+      return [
+        {
+          id: String(row.sku),
+          title: merchVariantLabel(variant),
+          artist: "BliximStraat Merch",
+          cover_url: variant.colour?.image ?? variant.item.image,
+          price_cents: variant.item.priceCents,
+          qty,
+          kind: "merch",
+          sku: String(row.sku),
+        },
+      ];
+    }
+
+    // ticket lines: the tier and its show come from the join
+    if (row.ticket_tier_id) {
+      const joinedTier = row.ticket_tiers as unknown as CartTierJoin | CartTierJoin[] | null;
+      const tier = Array.isArray(joinedTier) ? joinedTier[0] : joinedTier;
+      if (!tier) return [];
+
+      return [
+        {
+          id: String(row.ticket_tier_id),
+          title: ticketLineTitle(tier.shows?.title ?? "Show", tier.name),
+          artist: [tier.shows?.venue, tier.shows?.city, tier.shows?.show_date].filter(Boolean).join(" · ") || null,
+          cover_url: null,
+          price_cents: Number(tier.price_cents) || 0,
+          qty,
+          kind: "ticket",
+          sku: null,
+        },
+      ];
+    }
+
+    // one-to-one joins can come back as an object or a single-element array
+    const joined = row.songs as unknown as CartSongJoin | CartSongJoin[] | null;
+    const song = Array.isArray(joined) ? joined[0] : joined;
+    if (!song) return [];
+
+    return [
+      {
+        id: String(row.song_id),
+        title: song.title,
+        artist: song.artist ?? null,
+        cover_url: song.cover_url ?? null,
+        price_cents: Number(song.price_cents) || 0,
+        qty,
+        kind: "song",
+        sku: null,
+        gift: normaliseGift({ email: row.gift_email, message: row.gift_message }),
+      },
+    ];
+  });
+}
+
+/**
+ * Set an absolute quantity for a cart line (0 removes it). Merch lines are keyed by SKU,
+ * ticket lines by tier. Song lines also save their gift details.
+ */
+export async function setCartLineQty(item: Pick<CartItem, "id" | "kind" | "sku" | "gift">, quantity: number) {
+  const cartId = await getOrCreateCartId();
+  const isMerch = item.kind === "merch" && !!item.sku;
+  const isTicket = item.kind === "ticket";
+  const keyColumn = isMerch ? "sku" : isTicket ? "ticket_tier_id" : "song_id";
+  const keyValue = isMerch ? (item.sku as string) : item.id;
+  const gift =
+    isMerch || isTicket ? {} : { gift_email: item.gift?.email ?? null, gift_message: item.gift?.message || null };
+
+  if (quantity <= 0) {
+    const { error } = await supabase
+      .from("cart_items")
+      .delete()
+      .eq("cart_id", cartId)
+      .eq(keyColumn, keyValue);
+    if (error) throw error;
+    return;
+  }
+
+  const { data: existing, error: exErr } = await supabase
+    .from("cart_items")
+    .select("id")
+    .eq("cart_id", cartId)
+    .eq(keyColumn, keyValue)
+    .maybeSingle();
+
+  if (exErr) throw exErr;
+
+  const { error } = existing
+    ? await supabase.from("cart_items").update({ quantity, ...gift }).eq("id", existing.id)
+    : await supabase.from("cart_items").insert({ cart_id: cartId, [keyColumn]: keyValue, quantity, ...gift });
+
+  if (error) throw error;
+}
+
 export async function setCartItemQty(cartItemId: string, quantity: number) {
   if (quantity <= 0) {
     const { error } = await supabase.from("cart_items").delete().eq("id", cartItemId);
@@ -111,28 +293,126 @@ export async function clearCart() {
   const { error } = await supabase.from("cart_items").delete().eq("cart_id", cartId);
   if (error) throw error;
 }
+/** Active delivery options, in display order. */
+export async function fetchShippingRules(): Promise<ShippingRule[]> {
+  const { data, error } = await supabase
+    .from("shipping_rules")
+    .select("method, label, fee_cents, free_over_cents")
+    .eq("is_active", true)
+    .order("sort_order", { ascending: true });
+
+  if (error) throw error;
+  return (data ?? []) as ShippingRule[];
+}
+
+/** Releases with a bundle price, tracks in tracklist order. */
+export async function fetchBundles(): Promise<Bundle[]> {
+  const { data, error } = await supabase
+    .from("albums")
+    .select("id, slug, title, bundle_price_cents, song_catalog (id, title, artist, cover_url, price_cents, track_number)")
+    .not("bundle_price_cents", "is", null);
+
+  if (error) throw error;
+
+  type Row = {
+    id: string;
+    slug: string | null;
+    title: string;
+    bundle_price_cents: number | null;
+    song_catalog: (Omit<BundleTrack, "song_id"> & { id: string; track_number: number | null })[] | null;
+  };
+
+  return ((data ?? []) as unknown as Row[]).flatMap((row) => {
+    const tracks = (row.song_catalog ?? [])
+      .sort((a, b) => (a.track_number ?? Infinity) - (b.track_number ?? Infinity))
+      .map((t) => ({
+        song_id: String(t.id),
+        title: t.title,
+        artist: t.artist ?? null,
+        cover_url: t.cover_url ?? null,
+        price_cents: Number(t.price_cents) || 0,
+      }));
+    const bundle = toBundle(row, tracks);
+    return bundle ? [bundle] : [];
+  });
+}
+
+/** Song uuids the signed-in user has bought (RLS limits user_purchases to their own rows). */
+export async function fetchOwnedSongIds(): Promise<Set<string>> {
+  const { data, error } = await supabase.from("user_purchases").select("song_id");
+  if (error) throw error;
+  return new Set((data ?? []).map((r) => String(r.song_id)));
+}
+
+/** Upcoming shows where merch can be collected. */
+export async function fetchCollectShows(): Promise<CollectShow[]> {
+  // venues behind UTC can still be on yesterday; isPastShow decides in each venue's timezone
+  const yesterday = new Date(Date.now() - 86_400_000).toISOString().slice(0, 10);
+  const { data, error } = await supabase
+    .from("shows")
+    .select("id, title, venue, city, show_date, timezone")
+    .gte("show_date", yesterday)
+    .order("show_date", { ascending: true });
+
+  if (error) throw error;
+  return ((data ?? []) as CollectShow[]).filter((s) => !isPastShow({ date: s.show_date, timezone: s.timezone }));
+}
+
+/** Every product that has variants, with prices and stock as checkout sees them. */
+export async function fetchMerchCatalog(): Promise<MerchItem[]> {
+  const { data, error } = await supabase
+    .from("products")
+    .select("id, slug, name, category, price_cents, image_url, is_preorder, product_variants (sku, size, colour, stock_qty)")
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return toMerchItems((data ?? []) as MerchProductRow[]);
+}
+
+/** Active ticket tiers with the seats they have left, in display order. */
+export async function fetchTicketTiers(): Promise<TicketTierOffer[]> {
+  const [{ data, error }, { data: seats, error: seatsErr }] = await Promise.all([
+    supabase
+      .from("ticket_tiers")
+      .select(
+        "id, show_id, name, description, price_cents, capacity, sales_start, sales_end, sort_order, is_active, shows (slug)"
+      )
+      .eq("is_active", true)
+      .order("sort_order", { ascending: true })
+      .order("price_cents", { ascending: true }),
+    supabase.from("ticket_tier_availability").select("tier_id, remaining"),
+  ]);
+
+  if (error) throw error;
+  if (seatsErr) throw seatsErr;
+
+  type Row = TicketTier & { shows: { slug: string | null } | null };
+
+  const remaining = new Map((seats ?? []).map((s) => [String(s.tier_id), Number(s.remaining)]));
+  return ((data ?? []) as unknown as Row[]).map(({ shows, ...tier }) => ({
+    ...tier,
+    show_catalog_id: shows?.slug ?? tier.show_id,
+    remaining: remaining.get(tier.id) ?? null,
+  }));
+}
+
 // --- YOCO CHECKOUT ---
 // This calls your serverless function that creates a Yoco checkout session.
 // IMPORTANT: the function path must match your actual Netlify function name.
-export async function createYocoCheckoutFromCart() {
+export async function createYocoCheckoutFromCart(delivery?: CheckoutDelivery) {
   const { cartId, items } = await fetchCartItems();
+  const { data: auth } = await supabase.auth.getSession();
+  const token = auth.session?.access_token;
+  if (!token) throw new Error("Please sign in to check out.");
 
-  const res = await fetch("/.netlify/functions/create-checkout", {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ cartId, items }),
+  // Prices are looked up again on the server; only ids + quantities matter here.
+  // The buyer is whoever the token belongs to.
+  const { checkoutUrl } = await callFunction<CheckoutStarted>("create-checkout", {
+    body: { cartId, items, delivery },
+    token,
+    fallbackMessage: "Checkout failed",
   });
+  if (!checkoutUrl) throw new Error("Server did not return a checkout URL.");
 
-  if (!res.ok) {
-    const msg = await res.text().catch(() => "Checkout failed");
-    throw new Error(msg);
-  }
-
-  const data = (await res.json()) as { checkoutUrl?: string; url?: string };
-
-  // support either key name
-  const url = data.checkoutUrl || data.url;
-  if (!url) throw new Error("Server did not return a checkout URL.");
-
-  return url;
+  return checkoutUrl;
 }
\ No newline at end of file
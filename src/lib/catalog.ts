@@ -0,0 +1,264 @@
+// src/lib/catalog.ts
+// Read side of the public catalogue: songs, releases, shows and lyrics.
+// Supabase is the source of truth (Admin writes there). The files in src/data
+// are the fallback when the database can't be reached or hasn't been seeded
+// yet, and the seed for scripts/import-catalog.mjs.
+import { supabase } from "./supabase";
+import { SONGS, hasVideo, type Song } from "../data/songs";
+import { SHOWS, type Show } from "../data/shows";
+import { LYRICS, type LyricEntry } from "../data/lyrics";
+import { RELEASES, type ReleaseDef, type ReleaseType } from "../data/releases";
+
+export type { Song, Show, LyricEntry, ReleaseType };
+export { hasVideo };
+
+/** An album, EP or single with its ordered tracklist (Song ids). */
+export type Release = ReleaseDef;
+
+const YT_CHANNEL = "https://www.youtube.com/channel/UCaRgHj3J8RjDuS_eyZXdepA";
+
+/* ------------------ DB rows ------------------ */
+
+type AlbumJoin = { title: string; slug: string | null; youtube_url: string | null };
+
+type SongRow = {
+  id: string;
+  slug: string | null;
+  title: string;
+  artist: string | null;
+  release_date: string | null;
+  genre: string | null;
+  youtube_url: string | null;
+  cover_url: string | null;
+  preview_url: string | null;
+  albums: AlbumJoin | AlbumJoin[] | null;
+};
+
+type ReleaseTrack = {
+  id: string;
+  slug: string | null;
+  track_number: number | null;
+};
+
+type AlbumRow = {
+  id: string;
+  slug: string | null;
+  title: string;
+  release_type: ReleaseType | null;
+  release_date: string | null;
+  cover_url: string | null;
+  youtube_url: string | null;
+  song_catalog: ReleaseTrack[] | null;
+};
+
+type ShowRow = {
+  id: string;
+  slug: string | null;
+  title: string | null;
+  venue: string | null;
+  city: string | null;
+  show_date: string;
+  show_time: string | null;
+  ticket_url: string | null;
+  lineup: string[] | null;
+  venue_address: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  doors_time: string | null;
+  min_age: number | null;
+  timezone: string | null;
+  attendance_note: string | null;
+  show_setlist_entries: SetlistRow[] | null;
+  show_photos: PhotoRow[] | null;
+};
+
+type SetlistRow = {
+  position: number;
+  title: string;
+  note: string | null;
+  song_catalog: { id: string; slug: string | null } | { id: string; slug: string | null }[] | null;
+};
+
+type PhotoRow = {
+  image_url: string;
+  caption: string | null;
+  sort_order: number;
+  created_at: string;
+};
+
+type LyricRow = {
+  id: string;
+  title: string | null;
+  album: string | null;
+  year: string | null;
+  lyrics: string | null;
+  song_catalog: { slug: string | null } | { slug: string | null }[] | null;
+};
+
+// one-to-one joins can come back as an object or a single-element array
+const one = <T,>(joined: T | T[] | null): T | null =>
+  Array.isArray(joined) ? joined[0] ?? null : joined;
+
+const yearOf = (date: string | null) => (date ? date.slice(0, 4) : "");
+
+/* ------------------ Loaders ------------------ */
+// Songs are read through the song_catalog view, which leaves out audio_url
+// and inactive songs (supabase/migrations/20261019000800_song_previews.sql).
+
+async function loadSongs(): Promise<Song[]> {
+  const { data, error } = await supabase
+    .from("song_catalog")
+    .select("id, slug, title, artist, release_date, genre, youtube_url, cover_url, preview_url, albums:album_id (title, slug, youtube_url)")
+    .order("sort_order", { ascending: true })
+    .order("release_date", { ascending: false, nullsFirst: false });
+  if (error) throw error;
+
+  return ((data ?? []) as unknown as SongRow[]).map((row) => {
+    const album = one(row.albums);
+    return {
+      id: row.slug ?? row.id,
+      title: row.title,
+      artist: row.artist ?? "BliximStraat",
+      year: yearOf(row.release_date),
+      genre: row.genre ?? undefined,
+      album: album?.title ?? undefined,
+      albumUrl: album?.youtube_url ?? undefined,
+      youtubeUrl: row.youtube_url ?? YT_CHANNEL,
+      coverUrl: row.cover_url ?? undefined,
+      previewUrl: row.preview_url ?? undefined,
+    };
+  });
+}
+
+async function loadReleases(): Promise<Release[]> {
+  const { data, error } = await supabase
+    .from("albums")
+    .select("id, slug, title, release_type, release_date, cover_url, youtube_url, song_catalog (id, slug, track_number)")
+    .order("release_date", { ascending: false, nullsFirst: false });
+  if (error) throw error;
+
+  return ((data ?? []) as unknown as AlbumRow[]).map((row) => ({
+    id: row.slug ?? row.id,
+    title: row.title,
+    type: row.release_type ?? "album",
+    releaseDate: row.release_date ?? "",
+    coverUrl: row.cover_url ?? undefined,
+    youtubeUrl: row.youtube_url ?? undefined,
+    // tracks without a number go to the end, in the order they were added
+    trackIds: (row.song_catalog ?? [])
+      .sort((a, b) => (a.track_number ?? Infinity) - (b.track_number ?? Infinity))
+      .map((t) => t.slug ?? t.id),
+  }));
+}
+
+async function loadShows(): Promise<Show[]> {
+  const { data, error } = await supabase
+    .from("shows")
+    .select(
+      `id, slug, title, venue, city, show_date, show_time, ticket_url, lineup, venue_address, latitude, longitude,
+      doors_time, min_age, timezone, attendance_note,
+      show_setlist_entries (position, title, note, song_catalog (id, slug)),
+      show_photos (image_url, caption, sort_order, created_at)`
+    )
+    .not("show_date", "is", null)
+    .order("show_date", { ascending: true });
+  if (error) throw error;
+
+  return ((data ?? []) as unknown as ShowRow[]).map((row) => ({
+    id: row.slug ?? row.id,
+    title: row.title ?? "",
+    venue: row.venue ?? "",
+    city: row.city ?? "",
+    date: row.show_date,
+    // time columns come back as "HH:MM:SS"
+    time: row.show_time ? row.show_time.slice(0, 5) : undefined,
+    ticketUrl: row.ticket_url ?? undefined,
+    lineup: row.lineup?.length ? row.lineup : undefined,
+    address: row.venue_address ?? undefined,
+    lat: row.latitude ?? undefined,
+    lng: row.longitude ?? undefined,
+    doorsTime: row.doors_time ? row.doors_time.slice(0, 5) : undefined,
+    minAge: row.min_age ?? undefined,
+    timezone: row.timezone ?? undefined,
+    attendanceNote: row.attendance_note ?? undefined,
+    setlist: (row.show_setlist_entries ?? [])
+      .sort((a, b) => a.position - b.position)
+      .map((e) => {
+        const song = one(e.song_catalog);
+        return { title: e.title, songId: song ? (song.slug ?? song.id) : undefined, note: e.note ?? undefined };
+      }),
+    photos: (row.show_photos ?? [])
+      .sort((a, b) => a.sort_order - b.sort_order || a.created_at.localeCompare(b.created_at))
+      .map((p) => ({ url: p.image_url, caption: p.caption ?? undefined })),
+  }));
+}
+
+async function loadLyrics(): Promise<LyricEntry[]> {
+  const { data, error } = await supabase
+    .from("lyrics")
+    .select("id, title, album, year, lyrics, song_catalog (slug)")
+    .order("title", { ascending: true });
+  if (error) throw error;
+
+  return ((data ?? []) as unknown as LyricRow[])
+    .filter((row) => row.lyrics?.trim())
+    .map((row) => ({
+      id: one(row.song_catalog)?.slug ?? row.id,
+      title: row.title ?? "Untitled",
+      year: row.year ?? undefined,
+      album: row.album ?? undefined,
+      lyrics: row.lyrics ?? "",
+    }));
+}
+
+/* ------------------ Cache ------------------ */
+
+export type CatalogResource<T> = {
+  /** Whatever is best right now: the last database result, else the static data. */
+  peek(): T;
+  /** Loads once per session; never rejects (falls back to the static data). */
+  get(): Promise<T>;
+};
+
+function resource<T extends unknown[]>(
+  label: string,
+  fallback: T,
+  load: () => Promise<T>
+): CatalogResource<T> & { reset(): void } {
+  let value: T | null = null;
+  let pending: Promise<T> | null = null;
+
+  return {
+    peek: () => value ?? fallback,
+    get() {
+      pending ??= load()
+        .then((rows) => {
+          // An empty table means the importer hasn't run yet
+          value = rows.length ? rows : fallback;
+          return value;
+        })
+        .catch((err) => {
+          console.warn(`catalog: using static ${label}:`, err?.message ?? err);
+          pending = null; // try the database again next time
+          return fallback;
+        });
+      return pending;
+    },
+    reset() {
+      value = null;
+      pending = null;
+    },
+  };
+}
+
+export const catalog = {
+  songs: resource("songs", SONGS, loadSongs),
+  releases: resource("releases", RELEASES, loadReleases),
+  shows: resource("shows", SHOWS, loadShows),
+  lyrics: resource("lyrics", LYRICS, loadLyrics),
+};
+
+/** Drop cached results, e.g. after Admin edits, so the next read hits the database. */
+export function invalidateCatalog() {
+  Object.values(catalog).forEach((r) => r.reset());
+}
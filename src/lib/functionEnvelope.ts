@@ -0,0 +1,28 @@
+// src/lib/functionEnvelope.ts
+// The JSON shape every Netlify function answers with
+// (netlify/functions/_lib/http.ts) and ./functionsClient unwraps. Types only,
+// so both sides import it.
+
+export type FunctionErrorCode =
+  | "bad_request"
+  | "invalid_body"
+  | "unauthorized"
+  | "forbidden"
+  | "not_found"
+  | "method_not_allowed"
+  | "conflict"
+  | "rate_limited"
+  | "payment_provider"
+  | "internal";
+
+export type FunctionError = {
+  code: FunctionErrorCode;
+  /** Safe to show to the person using the site */
+  message: string;
+  /** Extra machine-readable context, e.g. the formats a song does come in */
+  details?: unknown;
+  /** Matches the function's log line */
+  request_id?: string;
+};
+
+export type FunctionEnvelope<T> = { ok: true; data: T } | { ok: false; error: FunctionError };
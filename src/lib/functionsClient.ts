@@ -0,0 +1,78 @@
+// src/lib/functionsClient.ts
+// Calls a Netlify function and unwraps its { ok, data } / { ok, error } answer
+// (./functionEnvelope). Failures, including HTML error pages from the CDN,
+// come back as a FunctionCallError whose message can go straight on screen.
+import type { FunctionEnvelope, FunctionErrorCode } from "./functionEnvelope";
+
+export class FunctionCallError extends Error {
+  code: FunctionErrorCode | "network";
+  status: number;
+  details?: unknown;
+
+  constructor(code: FunctionErrorCode | "network", status: number, message: string, details?: unknown) {
+    super(message);
+    this.name = "FunctionCallError";
+    this.code = code;
+    this.status = status;
+    this.details = details;
+  }
+}
+
+export type CallOptions = {
+  method?: "GET" | "POST";
+  /** Sent as JSON */
+  body?: unknown;
+  /** Supabase access token, for functions that need to know who is asking */
+  token?: string;
+  signal?: AbortSignal;
+  /** Shown when the function fails without saying why */
+  fallbackMessage?: string;
+};
+
+const isEnvelope = (value: unknown): value is FunctionEnvelope<unknown> =>
+  !!value && typeof value === "object" && typeof (value as { ok?: unknown }).ok === "boolean";
+
+async function errorFrom(res: Response, fallbackMessage: string): Promise<FunctionCallError> {
+  const body: unknown = await res.json().catch(() => null);
+  if (isEnvelope(body) && !body.ok) {
+    return new FunctionCallError(body.error.code, res.status, body.error.message, body.error.details);
+  }
+  return new FunctionCallError("internal", res.status, fallbackMessage);
+}
+
+/** The raw response of a successful call, for functions that answer with a file. */
+export async function fetchFunction(name: string, options: CallOptions = {}): Promise<Response> {
+  const { method = options.body === undefined ? "GET" : "POST", body, token, signal } = options;
+  const fallbackMessage = options.fallbackMessage ?? "Something went wrong. Please try again.";
+
+  const headers: Record<string, string> = {};
+  if (body !== undefined) headers["Content-Type"] = "application/json";
+  if (token) headers.Authorization = `Bearer ${token}`;
+
+  let res: Response;
+  try {
+    res = await fetch(`/.netlify/functions/${name}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal,
+    });
+  } catch (e) {
+    if (e instanceof DOMException && e.name === "AbortError") throw e;
+    throw new FunctionCallError("network", 0, "Couldn't reach the server. Check your connection and try again.");
+  }
+
+  if (!res.ok) throw await errorFrom(res, fallbackMessage);
+  return res;
+}
+
+/** The `data` of a successful call. */
+export async function callFunction<T>(name: string, options: CallOptions = {}): Promise<T> {
+  const res = await fetchFunction(name, options);
+  const body: unknown = await res.json().catch(() => null);
+  if (!isEnvelope(body)) {
+    throw new FunctionCallError("internal", res.status, options.fallbackMessage ?? "The server sent an odd answer.");
+  }
+  if (!body.ok) throw new FunctionCallError(body.error.code, res.status, body.error.message, body.error.details);
+  return body.data as T;
+}
@@ -0,0 +1,112 @@
+// src/lib/geocode.ts
+// Turns the free-text town on a booking signal into a place from the offline
+// gazetteer (./saPlaces): exact names and nicknames first ("Jhb", "PE",
+// "Nelspruit"), then close spellings ("Johannesberg", "Pietermartizburg").
+// The province the person picked breaks ties between towns with the same name.
+// Plain code only: netlify/functions/booking-signals-public.ts uses it.
+import type { Province } from "./provinces";
+import { SA_PLACES, type Place } from "./saPlaces";
+
+export type GeocodeMatch = {
+  place: Place;
+  /** false when only a close spelling matched */
+  exact: boolean;
+};
+
+/** Lowercase, no accents or punctuation, single spaces. */
+export function normaliseTown(raw: string): string {
+  return raw
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/['’.]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+// suburbs and areas people add to a town name: "Pretoria East", "Durban North"
+const AREA_WORDS = /\s+(north|south|east|west|central|cbd|centre|center|city|noord|suid|oos|wes|sentraal)$/;
+
+type Entry = { key: string; place: Place };
+
+const ENTRIES: Entry[] = SA_PLACES.flatMap((place) =>
+  [place.name, ...(place.aliases ?? [])].map((n) => ({ key: normaliseTown(n), place }))
+);
+
+const BY_KEY = new Map<string, Place[]>();
+for (const { key, place } of ENTRIES) {
+  const list = BY_KEY.get(key) ?? [];
+  if (!list.includes(place)) list.push(place);
+  BY_KEY.set(key, list);
+}
+
+/** Typos allowed for a name this long; short nicknames must match exactly. */
+const allowedTypos = (length: number) => (length <= 4 ? 0 : length <= 7 ? 1 : length <= 12 ? 2 : 3);
+
+/** Edit distance counting a swapped pair of letters as one typo; gives up once it's past `max`. */
+function distance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let before: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let best = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        row[j] = Math.min(row[j], before[j - 2] + 1);
+      }
+      best = Math.min(best, row[j]);
+    }
+    if (best > max) return max + 1;
+    before = prev;
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+const pick = (places: Place[], province?: string | null) =>
+  places.find((p) => p.province === province) ?? places[0];
+
+function exactMatch(key: string, province?: string | null): Place | null {
+  const places = BY_KEY.get(key) ?? BY_KEY.get(key.replace(AREA_WORDS, ""));
+  return places?.length ? pick(places, province) : null;
+}
+
+function closeMatch(key: string, province?: string | null): Place | null {
+  const max = allowedTypos(key.length);
+  if (!max) return null;
+
+  let best: { place: Place; score: number } | null = null;
+  for (const entry of ENTRIES) {
+    const d = distance(key, entry.key, max);
+    if (d > max) continue;
+    // a town in the chosen province wins a tie
+    const score = d - (entry.place.province === province ? 0.5 : 0);
+    if (!best || score < best.score) best = { place: entry.place, score };
+  }
+  return best?.place ?? null;
+}
+
+/**
+ * The gazetteer place for a typed town, or null. "Sandton, Johannesburg" and
+ * "Welkom (Free State)" are tried whole and then part by part.
+ */
+export function geocodeTown(town: string, province?: Province | string | null): GeocodeMatch | null {
+  const whole = normaliseTown(town);
+  if (!whole) return null;
+
+  const parts = [whole, ...town.split(/[,/()]/).map(normaliseTown)].filter(Boolean);
+
+  for (const key of parts) {
+    const place = exactMatch(key, province);
+    if (place) return { place, exact: true };
+  }
+  for (const key of parts) {
+    const place = closeMatch(key, province) ?? closeMatch(key.replace(AREA_WORDS, ""), province);
+    if (place) return { place, exact: false };
+  }
+  return null;
+}
@@ -0,0 +1,24 @@
+// src/lib/gifts.ts
+// Songs bought as a gift go to song_gifts instead of the buyer's library and are
+// claimed by whoever signs in with the recipient's email (see Profile).
+// Shared by CartModal and netlify/functions/create-checkout.ts: no browser code.
+
+export type SongGift = {
+  email: string;
+  message: string;
+};
+
+export const GIFT_MESSAGE_MAX = 300;
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** Lower-cased and trimmed; null when either field is unusable. */
+export function normaliseGift(raw: unknown): SongGift | null {
+  if (!raw || typeof raw !== "object") return null;
+  const input = raw as { email?: unknown; message?: unknown };
+
+  const email = String(input.email ?? "").trim().toLowerCase();
+  if (!EMAIL_RE.test(email)) return null;
+
+  return { email, message: String(input.message ?? "").trim().slice(0, GIFT_MESSAGE_MAX) };
+}
@@ -1,5 +1,11 @@
 // src/lib/groupSongsByAlbum.ts
-import { ALBUMS, SINGLES_LABEL } from "../data/albumMap";
+import type { Release, Song } from "./catalog";
+
+export type ResolvedRelease = Omit<Release, "trackIds"> & {
+  year: string;
+  /** In tracklist order; tracks that aren't in the song list are left out. */
+  tracks: Song[];
+};
 
 export type AlbumGroup<TSong> = {
   albumTitle: string;
@@ -8,19 +14,62 @@ export type AlbumGroup<TSong> = {
   songs: TSong[];
 };
 
+export const SINGLES_LABEL = "Singles";
+
+/**
+ * Every release with its songs, newest year first. Songs that are on no
+ * release become a single of their own. Within a year, singles keep the
+ * catalogue order and albums/EPs follow by release date.
+ */
+export function resolveReleases(songs: Song[], releases: Release[]): ResolvedRelease[] {
+  const byId = new Map(songs.map((s) => [s.id, s]));
+  const onRelease = new Set(releases.flatMap((r) => r.trackIds));
+
+  const singles: ResolvedRelease[] = songs
+    .filter((s) => !onRelease.has(s.id))
+    .map((s) => ({
+      id: s.id,
+      title: s.title,
+      type: "single",
+      releaseDate: "",
+      year: s.year,
+      coverUrl: s.coverUrl,
+      youtubeUrl: s.youtubeUrl,
+      tracks: [s],
+    }));
+
+  const collections: ResolvedRelease[] = releases
+    .map(({ trackIds, ...release }) => ({
+      ...release,
+      year: release.releaseDate.slice(0, 4),
+      tracks: trackIds.map((id) => byId.get(id)).filter((s): s is Song => !!s),
+    }))
+    // Only show a release if it actually has songs that exist in this fetch
+    .filter((r) => r.tracks.length > 0);
+
+  return [...singles, ...collections].sort((a, b) => {
+    const byYear = Number(b.year) - Number(a.year);
+    if (byYear || !a.releaseDate || !b.releaseDate) return byYear;
+    return b.releaseDate.localeCompare(a.releaseDate);
+  });
+}
+
+/** Albums and EPs in release order, with everything else in one Singles group. */
 export function groupSongsByAlbum<TSong extends { id: string }>(
-  songs: TSong[]
+  songs: TSong[],
+  releases: Release[]
 ): AlbumGroup<TSong>[] {
   const byId = new Map(songs.map((s) => [s.id, s]));
 
   const used = new Set<string>();
   const groups: AlbumGroup<TSong>[] = [];
 
-  // Build album groups in the order defined in ALBUMS
-  for (const album of ALBUMS) {
+  const ordered = [...releases].sort((a, b) => b.releaseDate.localeCompare(a.releaseDate));
+
+  for (const release of ordered) {
     const albumSongs: TSong[] = [];
 
-    for (const id of album.songIds) {
+    for (const id of release.trackIds) {
       const song = byId.get(id);
       if (song) {
         albumSongs.push(song);
@@ -28,12 +77,11 @@ export function groupSongsByAlbum<TSong extends { id: string }>(
       }
     }
 
-    // Only show album if it actually has songs that exist in this fetch
     if (albumSongs.length) {
       groups.push({
-        albumTitle: album.title,
-        year: album.year,
-        coverUrl: album.coverUrl,
+        albumTitle: release.title,
+        year: release.releaseDate.slice(0, 4) || undefined,
+        coverUrl: release.coverUrl,
         songs: albumSongs,
       });
     }
@@ -49,4 +97,4 @@ export function groupSongsByAlbum<TSong extends { id: string }>(
   }
 
   return groups;
-}
\ No newline at end of file
+}
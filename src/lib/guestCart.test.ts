@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import type { CartItem } from "../contexts/CartContext";
+import { mergeCartItems, replayCartEdits } from "./guestCart";
+
+const song = (id: string): CartItem => ({ id, title: id, price_cents: 1500, qty: 1, kind: "song" });
+const tee = (qty: number): CartItem => ({
+  id: "men-tee/m/blue",
+  sku: "men-tee/m/blue",
+  title: "Men's Tee",
+  price_cents: 45000,
+  qty,
+  kind: "merch",
+});
+
+const quantities = (items: CartItem[]) => items.map((it) => [it.id, it.qty]);
+
+// The sign-in merge: the guest cart as it was when the merge started, and the
+// server cart it was merged into. Edits made in the meantime only changed memory.
+const guest = [song("a"), tee(2)];
+const merged = mergeCartItems([song("s")], guest);
+
+describe("replayCartEdits", () => {
+  it("keeps lines added while the merge ran", () => {
+    const edited = [song("a"), tee(3), song("b")];
+
+    expect(quantities(replayCartEdits(merged, guest, edited))).toEqual([
+      ["s", 1],
+      ["a", 1],
+      ["men-tee/m/blue", 3],
+      ["b", 1],
+    ]);
+  });
+
+  it("keeps lines removed while the merge ran", () => {
+    const edited = [tee(1)];
+
+    expect(quantities(replayCartEdits(merged, guest, edited))).toEqual([
+      ["s", 1],
+      ["men-tee/m/blue", 1],
+    ]);
+  });
+
+  it("changes nothing when nothing was edited", () => {
+    expect(replayCartEdits(merged, guest, guest)).toEqual(merged);
+  });
+});
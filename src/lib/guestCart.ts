@@ -0,0 +1,117 @@
+// src/lib/guestCart.ts
+// Signed-out visitors keep their cart in localStorage. On sign-in it is merged
+// into the server cart (see CartContext) and cleared here.
+import type { CartItem } from "../contexts/CartContext";
+import { normaliseGift } from "./gifts";
+import { TICKET_MAX_QTY } from "./tickets";
+
+const STORAGE_KEY = "blix_cart_v1";
+
+/** Songs are digital: owning one copy is all there is. */
+export const SONG_MAX_QTY = 1;
+/** Keep in sync with MAX_MERCH_QTY in netlify/functions/create-checkout.ts */
+export const MERCH_MAX_QTY = 10;
+
+export function maxQtyFor(item: Pick<CartItem, "kind">): number {
+  if (item.kind === "ticket") return TICKET_MAX_QTY;
+  return item.kind === "merch" ? MERCH_MAX_QTY : SONG_MAX_QTY;
+}
+
+export function clampQty(item: Pick<CartItem, "kind">, qty: number): number {
+  if (!Number.isFinite(qty)) return 1;
+  return Math.max(1, Math.min(maxQtyFor(item), Math.round(qty)));
+}
+
+/**
+ * Quantity rules when the same line exists in two carts:
+ * quantities add up, then get clamped to what that line allows.
+ * Order: lines from `base` first, then anything new from `incoming`.
+ */
+export function mergeCartItems(base: CartItem[], incoming: CartItem[]): CartItem[] {
+  const merged = base.map((it) => ({ ...it }));
+
+  for (const it of incoming) {
+    const existing = merged.find((m) => m.id === it.id);
+    if (existing) {
+      existing.qty = clampQty(existing, existing.qty + it.qty);
+      existing.cover_url = existing.cover_url ?? it.cover_url;
+      existing.artist = existing.artist ?? it.artist;
+    } else {
+      merged.push({ ...it, qty: clampQty(it, it.qty) });
+    }
+  }
+
+  return merged;
+}
+
+/** Takes each line's quantity off `base`, dropping lines that reach zero. */
+export function removeCartItems(base: CartItem[], removed: CartItem[]): CartItem[] {
+  return base.flatMap((it) => {
+    const qty = it.qty - removed.filter((r) => r.id === it.id).reduce((sum, r) => sum + r.qty, 0);
+    return qty > 0 ? [{ ...it, qty }] : [];
+  });
+}
+
+/**
+ * What `after` has on top of `before`: new lines, and the extra quantity of
+ * lines that went up. CartContext uses it to keep adds made mid-sync.
+ */
+export function linesAddedSince(before: CartItem[], after: CartItem[]): CartItem[] {
+  return after.flatMap((it) => {
+    const extra = it.qty - (before.find((b) => b.id === it.id)?.qty ?? 0);
+    return extra > 0 ? [{ ...it, qty: extra }] : [];
+  });
+}
+
+/**
+ * What `after` no longer has of `before`: lines taken out, and the quantity
+ * lines went down by. CartContext uses it to keep removals made mid-sync.
+ */
+export function linesRemovedSince(before: CartItem[], after: CartItem[]): CartItem[] {
+  return linesAddedSince(after, before);
+}
+
+/** `merged` with the adds and removals that turned `before` into `after` made again on top. */
+export function replayCartEdits(merged: CartItem[], before: CartItem[], after: CartItem[]): CartItem[] {
+  return removeCartItems(mergeCartItems(merged, linesAddedSince(before, after)), linesRemovedSince(before, after));
+}
+
+export function loadGuestCart(): CartItem[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    if (!Array.isArray(parsed)) return [];
+
+    return parsed
+      .filter((it) => it && typeof it.id === "string" && typeof it.title === "string")
+      .map((it): CartItem => {
+        const kind = it.kind === "merch" || it.kind === "ticket" ? it.kind : "song";
+        return {
+          id: it.id,
+          title: it.title,
+          artist: it.artist ?? null,
+          cover_url: it.cover_url ?? null,
+          price_cents: Math.max(0, Math.round(Number(it.price_cents) || 0)),
+          qty: clampQty({ kind }, Number(it.qty)),
+          kind,
+          sku: it.sku ?? null,
+          gift: kind === "song" ? normaliseGift(it.gift) : null,
+        };
+      });
+  } catch {
+    return [];
+  }
+}
+
+export function saveGuestCart(items: CartItem[]) {
+  try {
+    if (items.length) localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+    else localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // storage full / disabled: the cart just won't survive a refresh
+  }
+}
+
+export function clearGuestCart() {
+  saveGuestCart([]);
+}
@@ -0,0 +1,26 @@
+// src/lib/invoiceDownload.ts
+// Fetches an order's PDF invoice from netlify/functions/invoice-pdf.ts and hands
+// it to the browser as a download.
+import { supabase } from "./supabase";
+import { fetchFunction } from "./functionsClient";
+
+export async function downloadInvoicePdf(orderId: string): Promise<void> {
+  const { data } = await supabase.auth.getSession();
+  const token = data.session?.access_token;
+  if (!token) throw new Error("Please sign in to download your invoice.");
+
+  const res = await fetchFunction("invoice-pdf", {
+    body: { order_id: orderId },
+    token,
+    fallbackMessage: "Could not download this invoice.",
+  });
+
+  const fileName =
+    /filename="([^"]+)"/.exec(res.headers.get("Content-Disposition") ?? "")?.[1] ?? `invoice-${orderId}.pdf`;
+  const url = URL.createObjectURL(await res.blob());
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,186 @@
+// src/lib/invoices.ts
+// Tax invoices for paid orders. The number and VAT total are fixed when the
+// invoice is issued (issue_invoice() in the invoices migration); this file turns
+// that row and its order into the lines both the printable page (pages/Invoice)
+// and netlify/functions/invoice-pdf.ts lay out. Keep it free of browser code.
+import type { ShippingAddress } from "./shipping";
+
+/** South African VAT. Prices are VAT-inclusive; issue_invoice() works out the same share. */
+export const VAT_RATE = 0.15;
+
+export const SELLER = {
+  name: "BliximStraat",
+  email: "management@bliximstraat.com",
+  website: "bliximstraat.com",
+  address: ["South Africa"],
+  /** Printed only once it's set */
+  vat_number: "",
+};
+
+/** Same shape for the page (RLS) and the function (service role). */
+export const INVOICE_SELECT = `
+  invoice_number,
+  issued_at,
+  total_cents,
+  vat_cents,
+  buyer_email,
+  orders (
+    id,
+    user_id,
+    currency,
+    shipping_method,
+    shipping_cents,
+    shipping_address,
+    order_items (
+      quantity,
+      price_cents,
+      discount_cents,
+      title,
+      sku,
+      variant_size,
+      variant_colour,
+      ticket_tier_id,
+      gift_email,
+      songs:song_catalog (
+        title,
+        artist
+      )
+    )
+  )
+`;
+
+type InvoiceOrderItem = {
+  quantity: number;
+  price_cents: number;
+  discount_cents: number | null;
+  title: string | null;
+  sku: string | null;
+  variant_size: string | null;
+  variant_colour: string | null;
+  ticket_tier_id: string | null;
+  gift_email: string | null;
+  songs: { title: string; artist: string | null }[] | { title: string; artist: string | null } | null;
+};
+
+type InvoiceOrder = {
+  id: string;
+  user_id: string;
+  currency: string;
+  shipping_method: "courier" | "collect" | null;
+  shipping_cents: number | null;
+  shipping_address: ShippingAddress | null;
+  order_items: InvoiceOrderItem[] | null;
+};
+
+export type InvoiceRow = {
+  invoice_number: number;
+  issued_at: string;
+  total_cents: number;
+  vat_cents: number;
+  buyer_email: string | null;
+  orders: InvoiceOrder | InvoiceOrder[] | null;
+};
+
+export type InvoiceLine = {
+  description: string;
+  detail: string | null;
+  quantity: number;
+  unit_cents: number;
+  discount_cents: number;
+  /** VAT-inclusive */
+  amount_cents: number;
+};
+
+export type Invoice = {
+  number: string;
+  issued_at: string;
+  order_id: string;
+  /** orders.user_id, so callers can check who may see it */
+  user_id: string;
+  currency: string;
+  buyer_email: string | null;
+  ship_to: string[];
+  lines: InvoiceLine[];
+  total_cents: number;
+  vat_cents: number;
+  excl_vat_cents: number;
+};
+
+/** 42 -> "INV-000042" */
+export function invoiceNumber(n: number): string {
+  return `INV-${String(n).padStart(6, "0")}`;
+}
+
+export function formatInvoiceAmount(cents: number): string {
+  return `R ${((cents || 0) / 100).toLocaleString("en-ZA", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function addressLines(address: ShippingAddress | null): string[] {
+  if (!address) return [];
+  return [
+    address.recipient,
+    address.line1,
+    address.line2,
+    address.suburb,
+    [address.city, address.postal_code].filter(Boolean).join(" "),
+    address.province,
+  ].filter(Boolean);
+}
+
+function toLine(item: InvoiceOrderItem): InvoiceLine {
+  const song = (Array.isArray(item.songs) ? item.songs[0] : item.songs) ?? null;
+  const variant = [item.variant_colour, item.variant_size].filter(Boolean).join(" / ");
+  const discount = item.discount_cents ?? 0;
+
+  const detail = item.sku
+    ? variant || "Merch"
+    : item.ticket_tier_id
+      ? "Show ticket"
+      : [`Digital download • ${song?.artist ?? "BliximStraat"}`, item.gift_email ? `gift to ${item.gift_email}` : ""]
+          .filter(Boolean)
+          .join(" • ");
+
+  return {
+    description: item.sku || item.ticket_tier_id
+      ? (item.title ?? (item.sku ? "Merch" : "Ticket"))
+      : (song?.title ?? item.title ?? "Song"),
+    detail,
+    quantity: item.quantity,
+    unit_cents: item.price_cents,
+    discount_cents: discount,
+    amount_cents: item.price_cents * item.quantity - discount,
+  };
+}
+
+/** Null when the row came back without its order. */
+export function buildInvoice(row: InvoiceRow): Invoice | null {
+  const order = (Array.isArray(row.orders) ? row.orders[0] : row.orders) ?? null;
+  if (!order) return null;
+
+  const lines = (order.order_items ?? []).map(toLine);
+  if (order.shipping_method) {
+    const shipping = order.shipping_cents ?? 0;
+    lines.push({
+      description: order.shipping_method === "collect" ? "Collect at show" : "Courier delivery",
+      detail: null,
+      quantity: 1,
+      unit_cents: shipping,
+      discount_cents: 0,
+      amount_cents: shipping,
+    });
+  }
+
+  return {
+    number: invoiceNumber(row.invoice_number),
+    issued_at: row.issued_at,
+    order_id: order.id,
+    user_id: order.user_id,
+    currency: order.currency,
+    buyer_email: row.buyer_email,
+    ship_to: order.shipping_method === "courier" ? addressLines(order.shipping_address) : [],
+    lines,
+    total_cents: row.total_cents,
+    vat_cents: row.vat_cents,
+    excl_vat_cents: row.total_cents - row.vat_cents,
+  };
+}
@@ -0,0 +1,62 @@
+// src/lib/player.ts
+// What the global audio player offers, and the hook to reach it. The provider
+// (with the <audio> element) lives in contexts/PlayerContext.tsx.
+import { createContext, useContext } from "react";
+
+export type PlayerTrack = {
+  /** Catalogue song id (or any stable id for non-catalogue audio) */
+  id: string;
+  title: string;
+  artist?: string | null;
+  coverUrl?: string | null;
+  /** A URL, or a loader for URLs that must be fetched when played (signed, expiring) */
+  src: string | (() => Promise<string>);
+  /** A short public clip rather than the full (purchased) track */
+  preview?: boolean;
+  /** Loops on its own and isn't part of the listening queue (the site intro). */
+  ambient?: boolean;
+};
+
+export type RepeatMode = "off" | "all" | "one";
+
+export type PlayerContextValue = {
+  // queue
+  queue: PlayerTrack[];
+  current: PlayerTrack | null;
+  /** Index into `queue` of the current track, -1 when idle */
+  currentIndex: number;
+  shuffle: boolean;
+  repeat: RepeatMode;
+
+  // playback
+  isPlaying: boolean;
+  currentTime: number;
+  duration: number;
+  volume: number;
+  /** Why the current track isn't playing, if it failed to load */
+  error: string | null;
+
+  // actions
+  playQueue: (tracks: PlayerTrack[], startIndex?: number) => void;
+  playTrack: (track: PlayerTrack) => void;
+  addToQueue: (tracks: PlayerTrack[]) => void;
+  jumpTo: (index: number) => void;
+  togglePlay: () => void;
+  next: () => void;
+  previous: () => void;
+  seek: (seconds: number) => void;
+  setVolume: (volume: number) => void;
+  toggleShuffle: () => void;
+  cycleRepeat: () => void;
+  stop: () => void;
+  /** Starts the intro loop, unless something is already loaded. */
+  playIntro: () => void;
+};
+
+export const PlayerContext = createContext<PlayerContextValue | undefined>(undefined);
+
+export function usePlayer() {
+  const ctx = useContext(PlayerContext);
+  if (!ctx) throw new Error("usePlayer must be used inside <PlayerProvider>");
+  return ctx;
+}
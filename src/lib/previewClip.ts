@@ -0,0 +1,88 @@
+// src/lib/previewClip.ts
+// Cuts a preview clip out of a full track in the browser, so Admin can make
+// one without an audio editor. Output is a small mono WAV with short fades.
+
+export const PREVIEW_DEFAULT_DURATION_S = 30;
+
+const SAMPLE_RATE = 22050;
+const FADE_S = 1.5;
+
+/** 16-bit PCM WAV for a single channel. */
+function encodeWav(samples: Float32Array, sampleRate: number): Blob {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeString(0, "RIFF");
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, "WAVE");
+  writeString(12, "fmt ");
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // byte rate
+  view.setUint16(32, 2, true); // block align
+  view.setUint16(34, 16, true); // bits per sample
+  writeString(36, "data");
+  view.setUint32(40, samples.length * 2, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+  }
+
+  return new Blob([buffer], { type: "audio/wav" });
+}
+
+/**
+ * Renders `durationS` seconds of `source` starting at `startS`.
+ * `source` is an uploaded file or a URL the admin can read.
+ */
+export async function cutPreviewClip(
+  source: Blob | string,
+  startS: number,
+  durationS = PREVIEW_DEFAULT_DURATION_S
+): Promise<File> {
+  const bytes =
+    typeof source === "string"
+      ? await fetch(source).then((res) => {
+          if (!res.ok) throw new Error(`Could not fetch the full track (${res.status}).`);
+          return res.arrayBuffer();
+        })
+      : await source.arrayBuffer();
+
+  const decodeCtx = new AudioContext();
+  let decoded: AudioBuffer;
+  try {
+    decoded = await decodeCtx.decodeAudioData(bytes);
+  } catch {
+    throw new Error("That audio file could not be decoded.");
+  } finally {
+    void decodeCtx.close();
+  }
+
+  const start = Math.max(0, Math.min(startS, decoded.duration - 1));
+  const length = Math.max(1, Math.min(durationS, decoded.duration - start));
+
+  // Render through an offline context: downmix to mono, resample, fade in/out
+  const offline = new OfflineAudioContext(1, Math.ceil(length * SAMPLE_RATE), SAMPLE_RATE);
+  const node = offline.createBufferSource();
+  node.buffer = decoded;
+
+  const gain = offline.createGain();
+  const fade = Math.min(FADE_S, length / 4);
+  gain.gain.setValueAtTime(0, 0);
+  gain.gain.linearRampToValueAtTime(1, fade);
+  gain.gain.setValueAtTime(1, length - fade);
+  gain.gain.linearRampToValueAtTime(0, length);
+
+  node.connect(gain).connect(offline.destination);
+  node.start(0, start, length);
+
+  const rendered = await offline.startRendering();
+  const wav = encodeWav(rendered.getChannelData(0), SAMPLE_RATE);
+  return new File([wav], "preview.wav", { type: "audio/wav" });
+}
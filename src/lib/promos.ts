@@ -0,0 +1,99 @@
+// src/lib/promos.ts
+// Promo code rules. netlify/functions/create-checkout.ts is the only place a
+// code is checked and applied (the promo_codes table isn't readable by
+// shoppers); Admin uses the types and labels. Keep it free of browser code.
+import { spreadDiscount } from "./bundles";
+
+export type PromoDiscountType = "percent" | "fixed";
+
+/** all = the whole cart, selected = only the listed songs / merch products */
+export type PromoScope = "all" | "songs" | "merch" | "selected";
+
+export type PromoCode = {
+  id: string;
+  code: string;
+  description: string | null;
+  discount_type: PromoDiscountType;
+  /** percent: 1-100, fixed: cents */
+  discount_value: number;
+  scope: PromoScope;
+  song_ids: string[];
+  product_ids: string[];
+  min_subtotal_cents: number | null;
+  starts_at: string | null;
+  expires_at: string | null;
+  max_redemptions: number | null;
+  per_user_limit: number | null;
+  is_active: boolean;
+  created_at: string;
+};
+
+export const PROMO_SCOPE_LABEL: Record<PromoScope, string> = {
+  all: "Everything",
+  songs: "Songs",
+  merch: "Merch",
+  selected: "Selected items",
+};
+
+/** What a promo needs to know about a checkout line. */
+export type PromoLine = {
+  song_id: string | null;
+  product_id: string | null;
+  /** What the line costs after any bundle discount */
+  amount_cents: number;
+};
+
+/** " summer-25 " -> "SUMMER-25" */
+export function normalisePromoCode(raw: unknown): string {
+  return String(raw ?? "").trim().toUpperCase();
+}
+
+export function promoCoversLine(promo: PromoCode, line: PromoLine): boolean {
+  switch (promo.scope) {
+    case "all":
+      return true;
+    case "songs":
+      return !!line.song_id;
+    case "merch":
+      return !!line.product_id;
+    case "selected":
+      return (
+        (!!line.song_id && promo.song_ids.includes(line.song_id)) ||
+        (!!line.product_id && promo.product_ids.includes(line.product_id))
+      );
+  }
+}
+
+/** Why the code can't be used right now (ignoring usage limits), or null. */
+export function promoProblem(promo: PromoCode, now = new Date()): string | null {
+  if (!promo.is_active) return "That code is no longer active";
+  if (promo.starts_at && new Date(promo.starts_at) > now) return "That code isn't active yet";
+  if (promo.expires_at && new Date(promo.expires_at) <= now) return "That code has expired";
+  return null;
+}
+
+/**
+ * The saving on each line (same order as `lines`). Shipping is never discounted.
+ * Throws nothing: a code that covers none of the lines simply saves 0.
+ */
+export function promoDiscounts(promo: PromoCode, lines: PromoLine[]): number[] {
+  const eligible = lines.map((l) => (promoCoversLine(promo, l) ? Math.max(0, l.amount_cents) : 0));
+  const base = eligible.reduce((sum, a) => sum + a, 0);
+
+  const discount =
+    promo.discount_type === "percent"
+      ? Math.round((base * Math.min(100, promo.discount_value)) / 100)
+      : Math.min(base, promo.discount_value);
+
+  return spreadDiscount(eligible, discount);
+}
+
+/** "20% off songs", "R50 off merch" */
+export function describePromo(promo: Pick<PromoCode, "discount_type" | "discount_value" | "scope">): string {
+  const amount =
+    promo.discount_type === "percent"
+      ? `${promo.discount_value}%`
+      : `R${(promo.discount_value / 100).toFixed(promo.discount_value % 100 ? 2 : 0)}`;
+  const what = promo.scope === "all" ? "" : ` ${PROMO_SCOPE_LABEL[promo.scope].toLowerCase()}`;
+  return `${amount} off${what}`;
+}
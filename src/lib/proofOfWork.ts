@@ -0,0 +1,43 @@
+// src/lib/proofOfWork.ts
+// A small hashcash-style puzzle for public forms: find a nonce so that
+// SHA-256(`${salt}:${nonce}`) starts with `difficulty` zero bits. A person's
+// browser solves it in a second or two; a script posting thousands of booking
+// signals pays that for every one. Web Crypto only, so the booking pin
+// (src/components/PinWhatsapp.tsx) and netlify/functions/booking-signal.ts
+// share it.
+
+export type PowChallenge = {
+  id: string;
+  salt: string;
+  difficulty: number;
+};
+
+function leadingZeroBits(bytes: Uint8Array): number {
+  let bits = 0;
+  for (const byte of bytes) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    return bits + Math.clz32(byte) - 24;
+  }
+  return bits;
+}
+
+async function powBits(salt: string, nonce: number): Promise<number> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(`${salt}:${nonce}`));
+  return leadingZeroBits(new Uint8Array(digest));
+}
+
+export async function verifyPow(salt: string, nonce: number, difficulty: number): Promise<boolean> {
+  if (!Number.isSafeInteger(nonce) || nonce < 0) return false;
+  return (await powBits(salt, nonce)) >= difficulty;
+}
+
+/** The first nonce that solves the challenge. Stops with an AbortError when `signal` fires. */
+export async function solvePow(challenge: PowChallenge, signal?: AbortSignal): Promise<number> {
+  for (let nonce = 0; ; nonce++) {
+    if (signal?.aborted) throw new DOMException("Proof of work cancelled", "AbortError");
+    if ((await powBits(challenge.salt, nonce)) >= challenge.difficulty) return nonce;
+  }
+}
@@ -0,0 +1,30 @@
+// src/lib/provinces.ts
+// South African provinces, shared by the booking pin and the delivery form.
+// Plain data only: netlify functions import this file too.
+
+export type Province =
+  | "Gauteng"
+  | "Western Cape"
+  | "KwaZulu-Natal"
+  | "Eastern Cape"
+  | "Free State"
+  | "Limpopo"
+  | "Mpumalanga"
+  | "North West"
+  | "Northern Cape";
+
+export const PROVINCES: Province[] = [
+  "Gauteng",
+  "Western Cape",
+  "KwaZulu-Natal",
+  "Eastern Cape",
+  "Free State",
+  "Limpopo",
+  "Mpumalanga",
+  "North West",
+  "Northern Cape",
+];
+
+export function isProvince(value: unknown): value is Province {
+  return typeof value === "string" && (PROVINCES as string[]).includes(value);
+}
@@ -0,0 +1,54 @@
+// src/lib/refunds.ts
+// Order statuses and refund maths. The Admin Orders tab uses this to suggest an
+// amount and netlify/functions/admin-orders.ts to check it, so keep it free of
+// browser code.
+
+export type OrderStatus = "pending" | "paid" | "failed" | "cancelled" | "partially_refunded" | "refunded";
+
+export const ORDER_STATUSES: OrderStatus[] = ["pending", "paid", "failed", "cancelled", "partially_refunded", "refunded"];
+
+export const ORDER_STATUS_LABEL: Record<OrderStatus, string> = {
+  pending: "Awaiting payment",
+  paid: "Paid",
+  failed: "Payment failed",
+  cancelled: "Cancelled",
+  partially_refunded: "Partly refunded",
+  refunded: "Refunded",
+};
+
+/** Paid money that can still (partly) go back */
+export const REFUNDABLE_STATUSES: OrderStatus[] = ["paid", "partially_refunded"];
+
+/** Never paid, so cancelling needs no refund */
+export const CANCELLABLE_STATUSES: OrderStatus[] = ["pending", "failed"];
+
+export function isOrderStatus(value: unknown): value is OrderStatus {
+  return ORDER_STATUSES.includes(value as OrderStatus);
+}
+
+export type RefundableLine = {
+  quantity: number;
+  price_cents: number;
+  discount_cents: number | null;
+  refunded_quantity: number;
+};
+
+/** One line of a refund request */
+export type RefundItem = {
+  order_item_id: string;
+  quantity: number;
+};
+
+/**
+ * What `quantity` more units of the line are worth, net of its discount.
+ * Units are valued cumulatively, so refunding a line bit by bit adds up to
+ * exactly what was paid for it.
+ */
+export function lineRefundCents(line: RefundableLine, quantity: number): number {
+  const units = Math.max(0, Math.min(quantity, line.quantity - line.refunded_quantity));
+  if (!units || line.quantity <= 0) return 0;
+
+  const paid = line.price_cents * line.quantity - (line.discount_cents ?? 0);
+  const upTo = (n: number) => Math.round((paid * n) / line.quantity);
+  return upTo(line.refunded_quantity + units) - upTo(line.refunded_quantity);
+}
@@ -0,0 +1,221 @@
+// src/lib/saPlaces.ts
+// Offline gazetteer of South African towns for the tour demand map: the
+// bigger towns in each province with their usual nicknames, old names and
+// Afrikaans spellings. Coordinates are town centres, rounded to ~1 km.
+// Plain data only: netlify functions import this file too.
+import type { Province } from "./provinces";
+
+export type Place = {
+  name: string;
+  province: Province;
+  lat: number;
+  lng: number;
+  /** Other names people type for the same place */
+  aliases?: string[];
+};
+
+export const SA_PLACES: Place[] = [
+  // ── Gauteng ────────────────────────────────────────────────────────────────
+  { name: "Johannesburg", province: "Gauteng", lat: -26.204, lng: 28.047, aliases: ["Jhb", "Joburg", "Jozi", "Jo'burg", "Egoli", "Johannesburg CBD"] },
+  { name: "Pretoria", province: "Gauteng", lat: -25.747, lng: 28.188, aliases: ["Pta", "Tshwane", "Pitori", "Pretoria CBD"] },
+  { name: "Soweto", province: "Gauteng", lat: -26.267, lng: 27.858 },
+  { name: "Sandton", province: "Gauteng", lat: -26.107, lng: 28.057 },
+  { name: "Randburg", province: "Gauteng", lat: -26.094, lng: 28.001 },
+  { name: "Roodepoort", province: "Gauteng", lat: -26.163, lng: 27.872 },
+  { name: "Midrand", province: "Gauteng", lat: -25.989, lng: 28.128 },
+  { name: "Centurion", province: "Gauteng", lat: -25.860, lng: 28.189 },
+  { name: "Kempton Park", province: "Gauteng", lat: -26.100, lng: 28.233 },
+  { name: "Tembisa", province: "Gauteng", lat: -25.996, lng: 28.227 },
+  { name: "Edenvale", province: "Gauteng", lat: -26.141, lng: 28.152 },
+  { name: "Germiston", province: "Gauteng", lat: -26.218, lng: 28.171 },
+  { name: "Boksburg", province: "Gauteng", lat: -26.212, lng: 28.262 },
+  { name: "Benoni", province: "Gauteng", lat: -26.188, lng: 28.321 },
+  { name: "Brakpan", province: "Gauteng", lat: -26.237, lng: 28.370 },
+  { name: "Springs", province: "Gauteng", lat: -26.254, lng: 28.440 },
+  { name: "Nigel", province: "Gauteng", lat: -26.431, lng: 28.477 },
+  { name: "Alberton", province: "Gauteng", lat: -26.268, lng: 28.122 },
+  { name: "Krugersdorp", province: "Gauteng", lat: -26.101, lng: 27.770, aliases: ["Mogale City"] },
+  { name: "Randfontein", province: "Gauteng", lat: -26.184, lng: 27.702 },
+  { name: "Westonaria", province: "Gauteng", lat: -26.319, lng: 27.649 },
+  { name: "Vereeniging", province: "Gauteng", lat: -26.674, lng: 27.926 },
+  { name: "Vanderbijlpark", province: "Gauteng", lat: -26.700, lng: 27.836, aliases: ["Vaal", "VDBP"] },
+  { name: "Meyerton", province: "Gauteng", lat: -26.558, lng: 28.018 },
+  { name: "Heidelberg", province: "Gauteng", lat: -26.504, lng: 28.359 },
+  { name: "Mamelodi", province: "Gauteng", lat: -25.720, lng: 28.398 },
+  { name: "Cullinan", province: "Gauteng", lat: -25.673, lng: 28.521 },
+  { name: "Bronkhorstspruit", province: "Gauteng", lat: -25.810, lng: 28.740 },
+
+  // ── Western Cape ──────────────────────────────────────────────────────────
+  { name: "Cape Town", province: "Western Cape", lat: -33.925, lng: 18.424, aliases: ["Cpt", "Kaapstad", "Mother City", "Kaap", "Cape Town CBD"] },
+  { name: "Bellville", province: "Western Cape", lat: -33.900, lng: 18.629 },
+  { name: "Durbanville", province: "Western Cape", lat: -33.832, lng: 18.647 },
+  { name: "Kuils River", province: "Western Cape", lat: -33.927, lng: 18.683, aliases: ["Kuilsrivier"] },
+  { name: "Mitchells Plain", province: "Western Cape", lat: -34.047, lng: 18.618 },
+  { name: "Khayelitsha", province: "Western Cape", lat: -34.040, lng: 18.678 },
+  { name: "Atlantis", province: "Western Cape", lat: -33.567, lng: 18.487 },
+  { name: "Somerset West", province: "Western Cape", lat: -34.078, lng: 18.843 },
+  { name: "Strand", province: "Western Cape", lat: -34.110, lng: 18.827 },
+  { name: "Stellenbosch", province: "Western Cape", lat: -33.932, lng: 18.860, aliases: ["Stellies"] },
+  { name: "Paarl", province: "Western Cape", lat: -33.734, lng: 18.962 },
+  { name: "Wellington", province: "Western Cape", lat: -33.640, lng: 19.011 },
+  { name: "Franschhoek", province: "Western Cape", lat: -33.913, lng: 19.121 },
+  { name: "Worcester", province: "Western Cape", lat: -33.646, lng: 19.448 },
+  { name: "Ceres", province: "Western Cape", lat: -33.369, lng: 19.310 },
+  { name: "Robertson", province: "Western Cape", lat: -33.802, lng: 19.884 },
+  { name: "Malmesbury", province: "Western Cape", lat: -33.461, lng: 18.727 },
+  { name: "Vredenburg", province: "Western Cape", lat: -32.907, lng: 17.990 },
+  { name: "Saldanha", province: "Western Cape", lat: -33.011, lng: 17.944, aliases: ["Saldanha Bay", "Saldanhabaai"] },
+  { name: "Vredendal", province: "Western Cape", lat: -31.668, lng: 18.502 },
+  { name: "Clanwilliam", province: "Western Cape", lat: -32.179, lng: 18.891 },
+  { name: "Hermanus", province: "Western Cape", lat: -34.418, lng: 19.235 },
+  { name: "Caledon", province: "Western Cape", lat: -34.230, lng: 19.427 },
+  { name: "Swellendam", province: "Western Cape", lat: -34.022, lng: 20.442 },
+  { name: "Riversdale", province: "Western Cape", lat: -34.094, lng: 21.262 },
+  { name: "Mossel Bay", province: "Western Cape", lat: -34.183, lng: 22.146, aliases: ["Mosselbaai"] },
+  { name: "George", province: "Western Cape", lat: -33.963, lng: 22.462 },
+  { name: "Oudtshoorn", province: "Western Cape", lat: -33.590, lng: 22.201 },
+  { name: "Knysna", province: "Western Cape", lat: -34.036, lng: 23.048 },
+  { name: "Plettenberg Bay", province: "Western Cape", lat: -34.053, lng: 23.372, aliases: ["Plett", "Plettenbergbaai"] },
+  { name: "Beaufort West", province: "Western Cape", lat: -32.357, lng: 22.583, aliases: ["Beaufort-Wes"] },
+
+  // ── KwaZulu-Natal ─────────────────────────────────────────────────────────
+  { name: "Durban", province: "KwaZulu-Natal", lat: -29.858, lng: 31.022, aliases: ["Dbn", "Durbs", "eThekwini", "Thekwini"] },
+  { name: "Umhlanga", province: "KwaZulu-Natal", lat: -29.726, lng: 31.085, aliases: ["Umhlanga Rocks"] },
+  { name: "Umlazi", province: "KwaZulu-Natal", lat: -29.970, lng: 30.884 },
+  { name: "Pinetown", province: "KwaZulu-Natal", lat: -29.817, lng: 30.858 },
+  { name: "Hillcrest", province: "KwaZulu-Natal", lat: -29.779, lng: 30.763 },
+  { name: "Amanzimtoti", province: "KwaZulu-Natal", lat: -30.053, lng: 30.883, aliases: ["Toti"] },
+  { name: "Ballito", province: "KwaZulu-Natal", lat: -29.539, lng: 31.214 },
+  { name: "KwaDukuza", province: "KwaZulu-Natal", lat: -29.338, lng: 31.289, aliases: ["Stanger"] },
+  { name: "Pietermaritzburg", province: "KwaZulu-Natal", lat: -29.601, lng: 30.379, aliases: ["PMB", "Maritzburg", "Msunduzi"] },
+  { name: "Howick", province: "KwaZulu-Natal", lat: -29.478, lng: 30.231 },
+  { name: "Estcourt", province: "KwaZulu-Natal", lat: -29.007, lng: 29.872 },
+  { name: "Ladysmith", province: "KwaZulu-Natal", lat: -28.560, lng: 29.781 },
+  { name: "Newcastle", province: "KwaZulu-Natal", lat: -27.758, lng: 29.932 },
+  { name: "Dundee", province: "KwaZulu-Natal", lat: -28.165, lng: 30.233 },
+  { name: "Vryheid", province: "KwaZulu-Natal", lat: -27.769, lng: 30.792 },
+  { name: "Richards Bay", province: "KwaZulu-Natal", lat: -28.783, lng: 32.038, aliases: ["Richardsbaai"] },
+  { name: "Empangeni", province: "KwaZulu-Natal", lat: -28.750, lng: 31.893 },
+  { name: "Eshowe", province: "KwaZulu-Natal", lat: -28.893, lng: 31.469 },
+  { name: "Scottburgh", province: "KwaZulu-Natal", lat: -30.287, lng: 30.753 },
+  { name: "Port Shepstone", province: "KwaZulu-Natal", lat: -30.741, lng: 30.455 },
+  { name: "Margate", province: "KwaZulu-Natal", lat: -30.863, lng: 30.371 },
+  { name: "Kokstad", province: "KwaZulu-Natal", lat: -30.547, lng: 29.424 },
+
+  // ── Eastern Cape ──────────────────────────────────────────────────────────
+  { name: "Gqeberha", province: "Eastern Cape", lat: -33.961, lng: 25.602, aliases: ["Port Elizabeth", "PE", "Nelson Mandela Bay", "NMB"] },
+  { name: "Kariega", province: "Eastern Cape", lat: -33.766, lng: 25.397, aliases: ["Uitenhage"] },
+  { name: "East London", province: "Eastern Cape", lat: -33.015, lng: 27.912, aliases: ["EL", "Oos-Londen", "Buffalo City"] },
+  { name: "Qonce", province: "Eastern Cape", lat: -32.878, lng: 27.390, aliases: ["King William's Town", "King Williams Town", "KWT"] },
+  { name: "Bhisho", province: "Eastern Cape", lat: -32.847, lng: 27.442, aliases: ["Bisho"] },
+  { name: "Stutterheim", province: "Eastern Cape", lat: -32.570, lng: 27.424 },
+  { name: "Mthatha", province: "Eastern Cape", lat: -31.589, lng: 28.784, aliases: ["Umtata"] },
+  { name: "Butterworth", province: "Eastern Cape", lat: -32.331, lng: 28.150, aliases: ["Gcuwa"] },
+  { name: "Port St Johns", province: "Eastern Cape", lat: -31.623, lng: 29.544 },
+  { name: "Makhanda", province: "Eastern Cape", lat: -33.310, lng: 26.526, aliases: ["Grahamstown", "Grahamstad"] },
+  { name: "Port Alfred", province: "Eastern Cape", lat: -33.591, lng: 26.891 },
+  { name: "Komani", province: "Eastern Cape", lat: -31.897, lng: 26.875, aliases: ["Queenstown"] },
+  { name: "Aliwal North", province: "Eastern Cape", lat: -30.694, lng: 26.711, aliases: ["Aliwal-Noord"] },
+  { name: "Cradock", province: "Eastern Cape", lat: -32.165, lng: 25.618 },
+  { name: "Middelburg", province: "Eastern Cape", lat: -31.493, lng: 25.008 },
+  { name: "Graaff-Reinet", province: "Eastern Cape", lat: -32.252, lng: 24.531 },
+  { name: "Somerset East", province: "Eastern Cape", lat: -32.720, lng: 25.582, aliases: ["Somerset-Oos"] },
+  { name: "Jeffreys Bay", province: "Eastern Cape", lat: -34.050, lng: 24.909, aliases: ["J-Bay", "JBay", "Jeffreysbaai"] },
+  { name: "Humansdorp", province: "Eastern Cape", lat: -34.028, lng: 24.766 },
+
+  // ── Free State ────────────────────────────────────────────────────────────
+  { name: "Bloemfontein", province: "Free State", lat: -29.086, lng: 26.160, aliases: ["Bloem", "Mangaung"] },
+  { name: "Botshabelo", province: "Free State", lat: -29.270, lng: 26.727 },
+  { name: "Thaba Nchu", province: "Free State", lat: -29.209, lng: 26.839 },
+  { name: "Welkom", province: "Free State", lat: -27.977, lng: 26.735 },
+  { name: "Odendaalsrus", province: "Free State", lat: -27.871, lng: 26.694 },
+  { name: "Virginia", province: "Free State", lat: -28.104, lng: 26.864 },
+  { name: "Bothaville", province: "Free State", lat: -27.389, lng: 26.617 },
+  { name: "Kroonstad", province: "Free State", lat: -27.650, lng: 27.234 },
+  { name: "Heilbron", province: "Free State", lat: -27.284, lng: 27.971 },
+  { name: "Sasolburg", province: "Free State", lat: -26.814, lng: 27.817 },
+  { name: "Parys", province: "Free State", lat: -26.903, lng: 27.456 },
+  { name: "Frankfort", province: "Free State", lat: -27.273, lng: 28.496 },
+  { name: "Bethlehem", province: "Free State", lat: -28.231, lng: 28.307 },
+  { name: "Harrismith", province: "Free State", lat: -28.273, lng: 29.129 },
+  { name: "Phuthaditjhaba", province: "Free State", lat: -28.524, lng: 28.816, aliases: ["QwaQwa"] },
+  { name: "Clarens", province: "Free State", lat: -28.513, lng: 28.425 },
+  { name: "Ficksburg", province: "Free State", lat: -28.872, lng: 27.877 },
+  { name: "Ladybrand", province: "Free State", lat: -29.194, lng: 27.457 },
+  { name: "Zastron", province: "Free State", lat: -30.302, lng: 27.084 },
+
+  // ── Limpopo ───────────────────────────────────────────────────────────────
+  { name: "Polokwane", province: "Limpopo", lat: -23.904, lng: 29.469, aliases: ["Pietersburg", "PKW"] },
+  { name: "Mokopane", province: "Limpopo", lat: -24.194, lng: 29.010, aliases: ["Potgietersrus"] },
+  { name: "Modimolle", province: "Limpopo", lat: -24.700, lng: 28.406, aliases: ["Nylstroom"] },
+  { name: "Bela-Bela", province: "Limpopo", lat: -24.884, lng: 28.290, aliases: ["Warmbaths", "Warmbad"] },
+  { name: "Thabazimbi", province: "Limpopo", lat: -24.592, lng: 27.412 },
+  { name: "Lephalale", province: "Limpopo", lat: -23.667, lng: 27.700, aliases: ["Ellisras"] },
+  { name: "Makhado", province: "Limpopo", lat: -23.043, lng: 29.904, aliases: ["Louis Trichardt"] },
+  { name: "Musina", province: "Limpopo", lat: -22.352, lng: 30.040, aliases: ["Messina"] },
+  { name: "Thohoyandou", province: "Limpopo", lat: -22.946, lng: 30.484 },
+  { name: "Giyani", province: "Limpopo", lat: -23.303, lng: 30.718 },
+  { name: "Tzaneen", province: "Limpopo", lat: -23.833, lng: 30.163 },
+  { name: "Phalaborwa", province: "Limpopo", lat: -23.943, lng: 31.141 },
+  { name: "Hoedspruit", province: "Limpopo", lat: -24.353, lng: 30.953 },
+  { name: "Burgersfort", province: "Limpopo", lat: -24.673, lng: 30.330 },
+
+  // ── Mpumalanga ────────────────────────────────────────────────────────────
+  { name: "Mbombela", province: "Mpumalanga", lat: -25.475, lng: 30.970, aliases: ["Nelspruit"] },
+  { name: "White River", province: "Mpumalanga", lat: -25.331, lng: 31.011, aliases: ["Witrivier"] },
+  { name: "Hazyview", province: "Mpumalanga", lat: -25.047, lng: 31.129 },
+  { name: "Sabie", province: "Mpumalanga", lat: -25.098, lng: 30.780 },
+  { name: "Graskop", province: "Mpumalanga", lat: -24.933, lng: 30.841 },
+  { name: "Mashishing", province: "Mpumalanga", lat: -25.096, lng: 30.451, aliases: ["Lydenburg"] },
+  { name: "Dullstroom", province: "Mpumalanga", lat: -25.418, lng: 30.104 },
+  { name: "eMakhazeni", province: "Mpumalanga", lat: -25.689, lng: 30.034, aliases: ["Belfast"] },
+  { name: "Barberton", province: "Mpumalanga", lat: -25.786, lng: 31.053 },
+  { name: "Malelane", province: "Mpumalanga", lat: -25.483, lng: 31.511 },
+  { name: "Komatipoort", province: "Mpumalanga", lat: -25.433, lng: 31.948 },
+  { name: "eMalahleni", province: "Mpumalanga", lat: -25.871, lng: 29.233, aliases: ["Witbank"] },
+  { name: "Middelburg", province: "Mpumalanga", lat: -25.775, lng: 29.464 },
+  { name: "Delmas", province: "Mpumalanga", lat: -26.147, lng: 28.682 },
+  { name: "Secunda", province: "Mpumalanga", lat: -26.551, lng: 29.171 },
+  { name: "Bethal", province: "Mpumalanga", lat: -26.458, lng: 29.466 },
+  { name: "Standerton", province: "Mpumalanga", lat: -26.934, lng: 29.241 },
+  { name: "Ermelo", province: "Mpumalanga", lat: -26.533, lng: 29.983 },
+  { name: "eMkhondo", province: "Mpumalanga", lat: -27.007, lng: 30.813, aliases: ["Piet Retief"] },
+
+  // ── North West ────────────────────────────────────────────────────────────
+  { name: "Rustenburg", province: "North West", lat: -25.667, lng: 27.242 },
+  { name: "Mogwase", province: "North West", lat: -25.278, lng: 27.236 },
+  { name: "Sun City", province: "North West", lat: -25.335, lng: 27.093 },
+  { name: "Brits", province: "North West", lat: -25.634, lng: 27.780 },
+  { name: "Hartbeespoort", province: "North West", lat: -25.745, lng: 27.897, aliases: ["Harties", "Hartbeespoort Dam"] },
+  { name: "Mahikeng", province: "North West", lat: -25.865, lng: 25.644, aliases: ["Mafikeng", "Mafeking"] },
+  { name: "Zeerust", province: "North West", lat: -25.538, lng: 26.078 },
+  { name: "Lichtenburg", province: "North West", lat: -26.152, lng: 26.160 },
+  { name: "Potchefstroom", province: "North West", lat: -26.715, lng: 27.103, aliases: ["Potch", "Tlokwe"] },
+  { name: "Klerksdorp", province: "North West", lat: -26.852, lng: 26.667, aliases: ["Matlosana"] },
+  { name: "Stilfontein", province: "North West", lat: -26.843, lng: 26.768 },
+  { name: "Orkney", province: "North West", lat: -26.980, lng: 26.672 },
+  { name: "Wolmaransstad", province: "North West", lat: -27.198, lng: 25.983 },
+  { name: "Schweizer-Reneke", province: "North West", lat: -27.186, lng: 25.330 },
+  { name: "Christiana", province: "North West", lat: -27.913, lng: 25.161 },
+  { name: "Vryburg", province: "North West", lat: -26.957, lng: 24.729 },
+
+  // ── Northern Cape ─────────────────────────────────────────────────────────
+  { name: "Kimberley", province: "Northern Cape", lat: -28.738, lng: 24.764 },
+  { name: "Barkly West", province: "Northern Cape", lat: -28.536, lng: 24.519, aliases: ["Barkly-Wes"] },
+  { name: "Jan Kempdorp", province: "Northern Cape", lat: -27.920, lng: 24.837 },
+  { name: "Hartswater", province: "Northern Cape", lat: -27.755, lng: 24.799 },
+  { name: "Kuruman", province: "Northern Cape", lat: -27.452, lng: 23.433 },
+  { name: "Kathu", province: "Northern Cape", lat: -27.696, lng: 23.049 },
+  { name: "Postmasburg", province: "Northern Cape", lat: -28.333, lng: 23.067 },
+  { name: "Upington", province: "Northern Cape", lat: -28.448, lng: 21.256 },
+  { name: "Kakamas", province: "Northern Cape", lat: -28.772, lng: 20.617 },
+  { name: "Prieska", province: "Northern Cape", lat: -29.664, lng: 22.747 },
+  { name: "De Aar", province: "Northern Cape", lat: -30.650, lng: 24.012 },
+  { name: "Colesberg", province: "Northern Cape", lat: -30.719, lng: 25.097 },
+  { name: "Victoria West", province: "Northern Cape", lat: -31.403, lng: 23.120, aliases: ["Victoria-Wes"] },
+  { name: "Carnarvon", province: "Northern Cape", lat: -30.968, lng: 22.133 },
+  { name: "Calvinia", province: "Northern Cape", lat: -31.471, lng: 19.776 },
+  { name: "Sutherland", province: "Northern Cape", lat: -32.398, lng: 20.662 },
+  { name: "Springbok", province: "Northern Cape", lat: -29.664, lng: 17.887 },
+  { name: "Port Nolloth", province: "Northern Cape", lat: -29.253, lng: 16.868 },
+];
@@ -0,0 +1,82 @@
+// src/lib/shipping.ts
+// Delivery rules for physical (merch) orders. The rules themselves live in the
+// shipping_rules table; this file only does the maths and the validation, so
+// CartModal and create-checkout agree on the fee. Keep it free of browser code:
+// netlify/functions/create-checkout.ts imports it.
+import { isProvince, type Province } from "./provinces";
+
+/** courier = door to door, collect = pick up at one of the upcoming shows */
+export type DeliveryMethod = "courier" | "collect";
+
+export type ShippingRule = {
+  method: DeliveryMethod;
+  label: string;
+  fee_cents: number;
+  /** Merch subtotal (cents) from which this method is free; null = never free. */
+  free_over_cents: number | null;
+};
+
+export type ShippingAddress = {
+  recipient: string;
+  phone: string;
+  line1: string;
+  line2: string;
+  suburb: string;
+  city: string;
+  province: Province | "";
+  postal_code: string;
+};
+
+export const EMPTY_ADDRESS: ShippingAddress = {
+  recipient: "",
+  phone: "",
+  line1: "",
+  line2: "",
+  suburb: "",
+  city: "",
+  province: "",
+  postal_code: "",
+};
+
+export function isDeliveryMethod(value: unknown): value is DeliveryMethod {
+  return value === "courier" || value === "collect";
+}
+
+/** Only merch counts towards the free-delivery threshold; songs don't ship. */
+export function shippingFeeCents(rule: ShippingRule, merchSubtotalCents: number): number {
+  if (rule.free_over_cents !== null && merchSubtotalCents >= rule.free_over_cents) return 0;
+  return Math.max(0, Math.round(rule.fee_cents));
+}
+
+/** Trims every field and normalises the phone number to +27… */
+export function normaliseAddress(raw: Partial<Record<keyof ShippingAddress, unknown>>): ShippingAddress {
+  const text = (v: unknown) => String(v ?? "").trim();
+  const phone = text(raw.phone).replace(/[\s()-]/g, "");
+  const province = text(raw.province);
+
+  return {
+    recipient: text(raw.recipient),
+    phone: phone.startsWith("0")
+      ? `+27${phone.slice(1)}`
+      : phone.startsWith("27")
+        ? `+${phone}`
+        : phone,
+    line1: text(raw.line1),
+    line2: text(raw.line2),
+    suburb: text(raw.suburb),
+    city: text(raw.city),
+    province: isProvince(province) ? province : "",
+    postal_code: text(raw.postal_code),
+  };
+}
+
+/** First problem with the address, or null when it can go to the courier. */
+export function validateAddress(address: ShippingAddress): string | null {
+  if (address.recipient.length < 2) return "Add the name of the person receiving the parcel.";
+  if (!/^\+27\d{9}$/.test(address.phone)) return "Add a South African cellphone number (e.g. 082 123 4567).";
+  if (address.line1.length < 3) return "Add a street address.";
+  if (!address.city) return "Add a town or city.";
+  if (!address.province) return "Pick a province.";
+  if (!/^\d{4}$/.test(address.postal_code)) return "Postal codes are 4 digits.";
+  return null;
+}
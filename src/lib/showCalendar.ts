@@ -0,0 +1,150 @@
+// src/lib/showCalendar.ts
+// "Add to calendar" for a show: an .ics file (Apple/Outlook/anything) and a
+// Google Calendar link. Show times are the venue's wall clock; both are
+// written in UTC so calendars in other timezones get them right.
+import type { Show } from "../data/shows";
+import { DEFAULT_SHOW_TIMEZONE, venueTimeToUtc } from "./showTime";
+
+/** How long a show runs in the calendar when only a start time is known */
+const DEFAULT_DURATION_HOURS = 4;
+
+type CalendarEvent = {
+  uid: string;
+  title: string;
+  location: string;
+  description: string;
+  /** YYYYMMDD for all-day, YYYYMMDDTHHMMSSZ otherwise */
+  start: string;
+  end: string;
+  allDay: boolean;
+};
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+function utcStamp(d: Date) {
+  return (
+    `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}` +
+    `T${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}Z`
+  );
+}
+
+function dateStamp(y: number, m: number, d: number) {
+  // Date.UTC rolls over month/year ends for us
+  const date = new Date(Date.UTC(y, m - 1, d));
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`;
+}
+
+/** Venue, street address and town, without repeats. */
+export function showLocation(show: Show): string {
+  const parts = [show.venue, show.address, show.city].filter((p): p is string => !!p?.trim());
+  return parts.filter((p, i) => !parts.slice(0, i).some((q) => q.includes(p))).join(", ");
+}
+
+function toEvent(show: Show, pageUrl: string): CalendarEvent {
+  const [y, m, d] = show.date.split("-").map(Number);
+  // the calendar entry starts when the gates open
+  const startTime = show.doorsTime ?? show.time;
+
+  const description = [
+    show.lineup?.length ? `Lineup: ${show.lineup.join(", ")}` : "",
+    show.doorsTime ? `Doors: ${show.doorsTime}` : "",
+    show.time ? `Show: ${show.time}` : "",
+    pageUrl,
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+  const base = {
+    uid: `${show.id}@bliximstraat.com`,
+    title: show.title || show.venue,
+    location: showLocation(show),
+    description,
+  };
+
+  if (!startTime) {
+    return { ...base, start: dateStamp(y, m, d), end: dateStamp(y, m, d + 1), allDay: true };
+  }
+
+  const start = venueTimeToUtc(show.date, startTime, show.timezone);
+  const end = new Date(start.getTime() + DEFAULT_DURATION_HOURS * 3600_000);
+  return { ...base, start: utcStamp(start), end: utcStamp(end), allDay: false };
+}
+
+export function googleCalendarUrl(show: Show, pageUrl: string): string {
+  const ev = toEvent(show, pageUrl);
+  const params = new URLSearchParams({
+    action: "TEMPLATE",
+    text: ev.title,
+    dates: `${ev.start}/${ev.end}`,
+    location: ev.location,
+    details: ev.description,
+    ctz: show.timezone ?? DEFAULT_SHOW_TIMEZONE,
+  });
+  return `https://calendar.google.com/calendar/render?${params.toString()}`;
+}
+
+/** RFC 5545 TEXT escaping */
+const icsText = (s: string) =>
+  s.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+const encoder = new TextEncoder();
+
+/** Lines longer than 75 octets continue on the next line after a space. */
+function fold(line: string): string {
+  if (encoder.encode(line).length <= 75) return line;
+
+  const out: string[] = [];
+  let current = "";
+  let size = 0;
+  for (const ch of line) {
+    const n = encoder.encode(ch).length;
+    // continuation lines lose one octet to the leading space
+    if (size + n > (out.length ? 74 : 75)) {
+      out.push(current);
+      current = "";
+      size = 0;
+    }
+    current += ch;
+    size += n;
+  }
+  out.push(current);
+  return out.join("\r\n ");
+}
+
+export function showIcs(show: Show, pageUrl: string, now = new Date()): string {
+  const ev = toEvent(show, pageUrl);
+  const when = ev.allDay
+    ? [`DTSTART;VALUE=DATE:${ev.start}`, `DTEND;VALUE=DATE:${ev.end}`]
+    : [`DTSTART:${ev.start}`, `DTEND:${ev.end}`];
+
+  return [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//BliximStraat//Shows//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "BEGIN:VEVENT",
+    `UID:${ev.uid}`,
+    `DTSTAMP:${utcStamp(now)}`,
+    ...when,
+    `SUMMARY:${icsText(ev.title)}`,
+    `LOCATION:${icsText(ev.location)}`,
+    `DESCRIPTION:${icsText(ev.description)}`,
+    `URL:${pageUrl}`,
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ]
+    .map(fold)
+    .join("\r\n") + "\r\n";
+}
+
+/** Saves the show's .ics through a temporary object URL. */
+export function downloadShowIcs(show: Show, pageUrl: string) {
+  const blob = new Blob([showIcs(show, pageUrl)], { type: "text/calendar;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${show.id}.ics`;
+  link.click();
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,66 @@
+// src/lib/showTime.ts
+// Show dates and times are wall-clock times at the venue. Each show carries
+// its IANA timezone, and a show counts as past once its date is over there.
+// Used by the Shows pages, Admin and netlify/functions/create-checkout.ts,
+// so keep it free of browser code.
+
+export const DEFAULT_SHOW_TIMEZONE = "Africa/Johannesburg";
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const zoneOf = (timeZone: string | null | undefined) =>
+  timeZone && isValidTimeZone(timeZone) ? timeZone : DEFAULT_SHOW_TIMEZONE;
+
+/** Wall-clock fields of an instant in a timezone. */
+function wallClock(at: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(at);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+  return { y: get("year"), m: get("month"), d: get("day"), hh: get("hour"), mm: get("minute"), ss: get("second") };
+}
+
+/** "YYYY-MM-DD" of `now` at the venue. */
+export function venueToday(timeZone?: string | null, now = new Date()): string {
+  const { y, m, d } = wallClock(now, zoneOf(timeZone));
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${y}-${pad(m)}-${pad(d)}`;
+}
+
+/** True once the show's date has ended in its own timezone. */
+export function isPastShow(
+  show: { date: string | null; timezone?: string | null },
+  now = new Date()
+): boolean {
+  return !!show.date && show.date < venueToday(show.timezone, now);
+}
+
+/** The instant a venue's wall-clock date + "HH:MM" time falls on. */
+export function venueTimeToUtc(date: string, time: string, timeZone?: string | null): Date {
+  const zone = zoneOf(timeZone);
+  const [y, m, d] = date.split("-").map(Number);
+  const [hh, mm] = time.split(":").map(Number);
+  const asUtc = Date.UTC(y, m - 1, d, hh, mm);
+
+  // the zone's offset at that moment; checked twice so DST changeovers land right
+  const offsetAt = (t: number) => {
+    const w = wallClock(new Date(t), zone);
+    return Date.UTC(w.y, w.m - 1, w.d, w.hh, w.mm, w.ss) - t;
+  };
+  const first = asUtc - offsetAt(asUtc);
+  return new Date(asUtc - offsetAt(first));
+}
@@ -0,0 +1,33 @@
+// src/lib/songAudio.ts
+// Full tracks sit in a private bucket; netlify/functions/song-audio.ts hands
+// buyers a signed URL that expires (an hour for streaming, minutes for downloads).
+import { supabase } from "./supabase";
+import type { AudioFormat } from "./audioFormats";
+import { callFunction } from "./functionsClient";
+
+export type SongAudioKind = "stream" | "download";
+
+export type SongAudioUrl = {
+  url: string;
+  format: AudioFormat;
+  /** Every format this song has */
+  formats: AudioFormat[];
+  expires_in: number;
+};
+
+/** `songId` is the songs.id uuid, not the catalogue slug. */
+export async function getSongAudioUrl(
+  songId: string,
+  kind: SongAudioKind,
+  format?: AudioFormat
+): Promise<SongAudioUrl> {
+  const { data } = await supabase.auth.getSession();
+  const token = data.session?.access_token;
+  if (!token) throw new Error("Please sign in to play your music.");
+
+  return callFunction<SongAudioUrl>("song-audio", {
+    body: { song_id: songId, kind, format },
+    token,
+    fallbackMessage: "Could not load this track.",
+  });
+}
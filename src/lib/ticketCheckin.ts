@@ -0,0 +1,120 @@
+// src/lib/ticketCheckin.ts
+// The door scanner's side of netlify/functions/ticket-checkin.ts. Each show's
+// ticket list is kept in localStorage so the crew can keep scanning without
+// signal; scans made offline are queued and sent once the connection is back.
+import { supabase } from "./supabase";
+import { callFunction } from "./functionsClient";
+import {
+  parseTicketCode,
+  type CheckInResult,
+  type DoorScan,
+  type DoorTicket,
+} from "./tickets";
+
+export type DoorShow = {
+  id: string;
+  title: string | null;
+  venue: string | null;
+  city: string | null;
+  show_date: string | null;
+  show_time: string | null;
+};
+
+/** What the scanner keeps per show */
+export type DoorList = {
+  show: DoorShow;
+  tickets: DoorTicket[];
+  fetched_at: string;
+};
+
+const LIST_KEY = (showId: string) => `blix_door_v1:${showId}`;
+const QUEUE_KEY = (showId: string) => `blix_door_queue_v1:${showId}`;
+
+async function callCheckin<T>(input: Record<string, unknown>): Promise<T> {
+  const { data } = await supabase.auth.getSession();
+  const token = data.session?.access_token;
+  if (!token) throw new Error("Please sign in again.");
+
+  return callFunction<T>("ticket-checkin", {
+    body: input,
+    token,
+    fallbackMessage: "The check-in service didn't answer.",
+  });
+}
+
+export function fetchDoorList(showId: string): Promise<DoorList> {
+  return callCheckin<DoorList>({ action: "list", show_id: showId });
+}
+
+export async function sendScans(showId: string, scans: DoorScan[]): Promise<CheckInResult[]> {
+  const { results } = await callCheckin<{ results: CheckInResult[] }>({
+    action: "check_in",
+    show_id: showId,
+    scans,
+  });
+  return results;
+}
+
+function readJson<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function writeJson(key: string, value: unknown) {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // storage full / disabled: offline mode just won't survive a reload
+  }
+}
+
+export function loadCachedList(showId: string): DoorList | null {
+  const list = readJson<DoorList | null>(LIST_KEY(showId), null);
+  return list && Array.isArray(list.tickets) ? list : null;
+}
+
+export function saveCachedList(list: DoorList) {
+  writeJson(LIST_KEY(list.show.id), list);
+}
+
+/** Scans made offline that the server hasn't seen yet, oldest first. */
+export function loadQueue(showId: string): DoorScan[] {
+  const queue = readJson<DoorScan[]>(QUEUE_KEY(showId), []);
+  return Array.isArray(queue) ? queue : [];
+}
+
+export function saveQueue(showId: string, queue: DoorScan[]) {
+  if (queue.length) writeJson(QUEUE_KEY(showId), queue);
+  else localStorage.removeItem(QUEUE_KEY(showId));
+}
+
+/**
+ * Checks a scan against the cached list, as the server would. A ticket this
+ * device already let in counts as used; another door might have too, which
+ * only shows up when the queue syncs.
+ */
+export function checkOffline(list: DoorList, scan: DoorScan): CheckInResult {
+  const code = parseTicketCode(scan.code);
+  if (!code) return { code: scan.code, outcome: "not_found", ticket: null };
+
+  const matches = list.tickets.filter((t) => (code.length === 32 ? t.code === code : t.code.startsWith(code)));
+  if (matches.length > 1) return { code: scan.code, outcome: "ambiguous", ticket: null };
+
+  const ticket = matches[0];
+  if (!ticket) return { code: scan.code, outcome: "not_found", ticket: null };
+  if (ticket.status === "void") return { code: scan.code, outcome: "void", ticket };
+  if (ticket.checked_in_at) return { code: scan.code, outcome: "already_used", ticket };
+
+  return { code: scan.code, outcome: "ok", ticket: { ...ticket, checked_in_at: scan.scanned_at } };
+}
+
+/** The cached list with these results' tickets swapped in. */
+export function applyResults(list: DoorList, results: CheckInResult[]): DoorList {
+  const byCode = new Map(results.flatMap((r) => (r.ticket ? [[r.ticket.code, r.ticket] as const] : [])));
+  if (!byCode.size) return list;
+  return { ...list, tickets: list.tickets.map((t) => byCode.get(t.code) ?? t) };
+}
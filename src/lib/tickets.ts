@@ -0,0 +1,120 @@
+// src/lib/tickets.ts
+// Ticket tiers and the tickets they turn into. The Shows page uses the sale
+// rules to show what's buyable and netlify/functions/create-checkout.ts checks
+// them again; the door scanner and netlify/functions/ticket-checkin.ts share
+// the check-in outcomes. Keep it free of browser code.
+import { isPastShow } from "./showTime";
+
+export type TicketTier = {
+  id: string;
+  show_id: string;
+  name: string;
+  description: string | null;
+  price_cents: number;
+  capacity: number;
+  /** null = on sale as soon as the tier is active */
+  sales_start: string | null;
+  /** null = on sale until the show */
+  sales_end: string | null;
+  sort_order: number;
+  is_active: boolean;
+};
+
+/** One seat; `code` is what the QR code holds. */
+export type Ticket = {
+  id: string;
+  order_id: string;
+  show_id: string;
+  tier_id: string;
+  code: string;
+  status: "valid" | "void";
+  /** Set the first time the ticket is scanned at the door */
+  checked_in_at: string | null;
+  created_at: string;
+};
+
+/** Keep in sync with MAX_TICKET_QTY in netlify/functions/create-checkout.ts */
+export const TICKET_MAX_QTY = 10;
+
+/** Versioned so the door scanner can tell our tickets from any other QR code. */
+const QR_PREFIX = "BLXT1:";
+
+export function ticketQrPayload(code: string): string {
+  return `${QR_PREFIX}${code}`;
+}
+
+/** Printed under the QR code, for typing in when the camera won't read it. */
+export function ticketShortCode(code: string): string {
+  return code.slice(0, 8).toUpperCase();
+}
+
+/**
+ * The code from a scanned QR payload or a typed-in code: the full 32 hex
+ * characters, or the 8-character short code. Null if it can't be either.
+ */
+export function parseTicketCode(raw: string): string | null {
+  const text = raw.trim();
+  const code = (text.toUpperCase().startsWith(QR_PREFIX) ? text.slice(QR_PREFIX.length) : text)
+    .replace(/[\s-]/g, "")
+    .toLowerCase();
+  return /^[0-9a-f]{32}$/.test(code) || /^[0-9a-f]{8}$/.test(code) ? code : null;
+}
+
+export type CheckInOutcome = "ok" | "already_used" | "void" | "wrong_show" | "not_found" | "ambiguous";
+
+export const CHECK_IN_LABEL: Record<CheckInOutcome, string> = {
+  ok: "Valid — let them in",
+  already_used: "Already scanned",
+  void: "Refunded ticket",
+  wrong_show: "Ticket for another show",
+  not_found: "Not a ticket we know",
+  ambiguous: "Short code matches more than one ticket — type the full code",
+};
+
+/** What the door scanner needs to know about a ticket. */
+export type DoorTicket = {
+  code: string;
+  tier_name: string | null;
+  status: Ticket["status"];
+  checked_in_at: string | null;
+};
+
+/** A scan; scanned_at lets offline scans keep the time they were made. */
+export type DoorScan = {
+  code: string;
+  scanned_at: string;
+};
+
+export type CheckInResult = {
+  /** As scanned or typed, so the scanner can match results to its queue */
+  code: string;
+  outcome: CheckInOutcome;
+  ticket: DoorTicket | null;
+};
+
+/**
+ * Why this tier can't be bought right now, or null.
+ * `remaining` is seats left (null when unknown); `quantity` what the shopper wants.
+ */
+export function tierProblem(
+  tier: Pick<TicketTier, "name" | "is_active" | "sales_start" | "sales_end">,
+  show: { date: string | null; timezone?: string | null },
+  remaining: number | null,
+  quantity = 1,
+  now = new Date()
+): string | null {
+  if (isPastShow(show, now)) return "This show has already happened";
+
+  if (!tier.is_active) return `${tier.name} tickets aren't on sale`;
+  if (tier.sales_start && new Date(tier.sales_start) > now) return `${tier.name} sales haven't opened yet`;
+  if (tier.sales_end && new Date(tier.sales_end) <= now) return `${tier.name} sales have closed`;
+
+  if (remaining !== null && remaining <= 0) return `${tier.name} is sold out`;
+  if (remaining !== null && remaining < quantity) return `Only ${remaining} ${tier.name} tickets left`;
+  return null;
+}
+
+/** What a ticket line is called in the cart, on the order and on the invoice. */
+export function ticketLineTitle(showTitle: string, tierName: string): string {
+  return `${showTitle} — ${tierName}`;
+}
@@ -6,12 +6,15 @@ import App from "./App.tsx";
 
 import { AuthProvider } from "./contexts/AuthContext";
 import { CartProvider } from "./contexts/CartContext";
+import { PlayerProvider } from "./contexts/PlayerContext";
 
 createRoot(document.getElementById("root")!).render(
   <StrictMode>
     <AuthProvider>
       <CartProvider>
-        <App />
+        <PlayerProvider>
+          <App />
+        </PlayerProvider>
       </CartProvider>
     </AuthProvider>
   </StrictMode>
@@ -1,10 +1,45 @@
-import { useEffect, useState, type ReactNode } from "react";
+import { useCallback, useEffect, useState, type ReactNode } from "react";
+import { Link } from "react-router-dom";
 import Navbar from "../components/layout/Navbar";
 import Footer from "../components/layout/Footer";
 import { supabase } from "../lib/supabase";
-import { useAuth } from "../contexts/AuthContext";
-
-type Tab = "songs" | "shows" | "merch" | "lyrics";
+import { variantSku } from "../data/merch";
+import { invalidateCatalog, type ReleaseType } from "../lib/catalog";
+import { cutPreviewClip, PREVIEW_DEFAULT_DURATION_S } from "../lib/previewClip";
+import { AUDIO_FORMATS, AUDIO_FORMAT_LABEL, audioFormatFromFileName, type AudioFormat } from "../lib/audioFormats";
+import {
+  describePromo,
+  normalisePromoCode,
+  PROMO_SCOPE_LABEL,
+  type PromoCode,
+  type PromoDiscountType,
+  type PromoScope,
+} from "../lib/promos";
+import {
+  CANCELLABLE_STATUSES,
+  lineRefundCents,
+  ORDER_STATUS_LABEL,
+  ORDER_STATUSES,
+  REFUNDABLE_STATUSES,
+  type OrderStatus,
+  type RefundItem,
+} from "../lib/refunds";
+import { runOrderAction } from "../lib/adminOrders";
+import type { TicketTier } from "../lib/tickets";
+import { DEFAULT_SHOW_TIMEZONE, isPastShow, isValidTimeZone } from "../lib/showTime";
+import {
+  findDuplicates,
+  SIGNAL_STATUS_LABEL,
+  SIGNAL_STATUSES,
+  signalsCsv,
+  type BookingSignal,
+  type SignalIdentity,
+  type SignalStatus,
+} from "../lib/bookingSignals";
+import { geocodeTown } from "../lib/geocode";
+import { PROVINCES } from "../lib/provinces";
+
+type Tab = "songs" | "shows" | "merch" | "lyrics" | "promotions" | "orders" | "demand";
 
 /* ------------------ DB TYPES ------------------ */
 
@@ -15,7 +50,16 @@ type SongRow = {
   release_date: string | null; // date
   price_cents: number; // store cents
   cover_url: string | null;
-  audio_url: string | null;
+  genre?: string | null;
+
+  // full tracks, private "audio" bucket
+  song_audio_files?: { format: AudioFormat; storage_path: string }[] | null;
+  youtube_url?: string | null;
+
+  // public preview clip
+  preview_url?: string | null;
+  preview_start_s?: number;
+  preview_duration_s?: number;
 
   // albums
   album_id?: string | null;
@@ -31,8 +75,11 @@ type AlbumRow = {
   id: string;
   title: string;
   artist: string;
+  release_type: ReleaseType;
   release_date: string | null;
   cover_url: string | null;
+  // whole-release price; null = tracks only sold one by one
+  bundle_price_cents: number | null;
   created_at: string;
 };
 
@@ -43,8 +90,15 @@ type ShowRow = {
   city: string | null;
   show_date: string | null; // date
   show_time: string | null; // time
-  is_past: boolean | null;
   ticket_url: string | null;
+  lineup: string[] | null;
+  venue_address: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  doors_time: string | null; // time
+  min_age: number | null;
+  timezone: string;
+  attendance_note: string | null;
   created_at: string;
 };
 
@@ -56,6 +110,65 @@ type ProductRow = {
   image_url: string | null;
   note: string | null;
   is_preorder: boolean | null;
+  slug: string | null;
+  created_at: string;
+  product_variants?: { stock_qty: number | null }[];
+};
+
+type VariantRow = {
+  id: string;
+  product_id: string;
+  sku: string;
+  size: string | null;
+  colour: string | null;
+  stock_qty: number | null; // null = not tracked
+  created_at: string;
+};
+
+type PromoStatsRow = {
+  promo_code_id: string;
+  redemptions: number;
+  discount_cents: number;
+  pending: number;
+};
+
+// admin_orders view: orders plus the buyer's email
+type AdminOrderRow = {
+  id: string;
+  user_id: string;
+  customer_email: string | null;
+  status: OrderStatus;
+  currency: string;
+  total_cents: number;
+  refunded_cents: number;
+  discount_cents: number | null;
+  shipping_method: "courier" | "collect" | null;
+  shipping_cents: number | null;
+  provider: string | null;
+  created_at: string;
+  paid_at: string | null;
+};
+
+type AdminOrderItemRow = {
+  id: string;
+  quantity: number;
+  price_cents: number;
+  discount_cents: number | null;
+  refunded_quantity: number;
+  title: string | null;
+  sku: string | null;
+  variant_size: string | null;
+  variant_colour: string | null;
+  ticket_tier_id: string | null;
+  gift_email: string | null;
+  songs: { title: string; artist: string | null }[] | null;
+};
+
+type OrderHistoryRow = {
+  id: string;
+  status: OrderStatus;
+  note: string | null;
+  amount_cents: number | null;
   created_at: string;
 };
 
@@ -106,45 +219,29 @@ const toCents = (zar: string) => {
   return Math.round(n * 100);
 };
 
-export default function Admin() {
-  const { user, loading: authLoading } = useAuth();
-
-  const [checking, setChecking] = useState(true);
-  const [isAdmin, setIsAdmin] = useState(false);
+const RELEASE_TYPE_LABEL: Record<ReleaseType, string> = {
+  album: "Album",
+  ep: "EP",
+  single: "Single",
+};
 
+// Only reachable through <RequireRole role="admin"> (see App.tsx)
+export default function Admin() {
   const [tab, setTab] = useState<Tab>("songs");
 
+  // public pages cache the catalogue; make them re-read it after editing
+  useEffect(() => invalidateCatalog, []);
+
   // shared dataset for lyrics dropdown
   const [songsForLyrics, setSongsForLyrics] = useState<SongRow[]>([]);
 
-  useEffect(() => {
-    if (!user) {
-      setChecking(false);
-      return;
-    }
-
-    const checkAdmin = async () => {
-      const { data, error } = await supabase
-        .from("user_roles")
-        .select("role")
-        .eq("user_id", user.id)
-        .eq("role", "admin")
-        .maybeSingle();
-
-      if (!error && data) setIsAdmin(true);
-      setChecking(false);
-    };
-
-    checkAdmin();
-  }, [user]);
-
   useEffect(() => {
     // keep songs list around for lyrics linking
     const load = async () => {
       const { data } = await supabase
         .from("songs")
         .select(
-          "id,title,artist,release_date,price_cents,cover_url,audio_url,album_id,track_number,created_at,is_active"
+          "id,title,artist,release_date,price_cents,cover_url,preview_url,preview_start_s,preview_duration_s,album_id,track_number,genre,youtube_url,created_at,is_active,song_audio_files(format,storage_path)"
         )
         .order("created_at", { ascending: false });
 
@@ -154,30 +251,6 @@ export default function Admin() {
     load();
   }, []);
 
-  if (authLoading || checking) {
-    return (
-      <div className="min-h-screen bg-black text-white flex items-center justify-center">
-        Checking permissions…
-      </div>
-    );
-  }
-
-  if (!user) {
-    return (
-      <div className="min-h-screen bg-black text-white flex items-center justify-center">
-        Please sign in to access admin.
-      </div>
-    );
-  }
-
-  if (!isAdmin) {
-    return (
-      <div className="min-h-screen bg-black text-white flex items-center justify-center">
-        You are not allowed here.
-      </div>
-    );
-  }
-
   return (
     <div className="relative min-h-screen text-white overflow-x-hidden flex flex-col">
       {/* Background */}
@@ -209,7 +282,7 @@ export default function Admin() {
                   </span>
                 </h1>
                 <p className="mt-2 text-white/70">
-                  Add / edit / delete songs, shows, merch and lyrics.
+                  Add / edit / delete songs, shows, merch, lyrics and promo codes; refund orders; follow up booking requests.
                 </p>
               </div>
             </header>
@@ -228,6 +301,15 @@ export default function Admin() {
               <TabButton active={tab === "lyrics"} onClick={() => setTab("lyrics")}>
                 Lyrics
               </TabButton>
+              <TabButton active={tab === "promotions"} onClick={() => setTab("promotions")}>
+                Promotions
+              </TabButton>
+              <TabButton active={tab === "orders"} onClick={() => setTab("orders")}>
+                Orders
+              </TabButton>
+              <TabButton active={tab === "demand"} onClick={() => setTab("demand")}>
+                Demand
+              </TabButton>
             </div>
 
             {/* Panels */}
@@ -238,7 +320,7 @@ export default function Admin() {
                     const { data } = await supabase
                       .from("songs")
                       .select(
-                        "id,title,artist,release_date,price_cents,cover_url,audio_url,album_id,track_number,created_at,is_active"
+                        "id,title,artist,release_date,price_cents,cover_url,preview_url,preview_start_s,preview_duration_s,album_id,track_number,genre,youtube_url,created_at,is_active,song_audio_files(format,storage_path)"
                       )
                       .order("created_at", { ascending: false });
 
@@ -249,6 +331,9 @@ export default function Admin() {
 
               {tab === "shows" && <ShowsPanel />}
               {tab === "merch" && <MerchPanel />}
+              {tab === "promotions" && <PromotionsPanel />}
+              {tab === "orders" && <OrdersPanel />}
+              {tab === "demand" && <DemandPanel />}
               {tab === "lyrics" && (
                 <LyricsPanel
                   songs={songsForLyrics}
@@ -257,7 +342,7 @@ export default function Admin() {
                     const { data } = await supabase
                       .from("songs")
                       .select(
-                        "id,title,artist,release_date,price_cents,cover_url,audio_url,album_id,track_number,created_at,is_active"
+                        "id,title,artist,release_date,price_cents,cover_url,preview_url,preview_start_s,preview_duration_s,album_id,track_number,genre,youtube_url,created_at,is_active,song_audio_files(format,storage_path)"
                       )
                       .order("created_at", { ascending: false });
 
@@ -422,24 +507,42 @@ function SongsPanel({ onSongsChanged }: { onSongsChanged: () => Promise<void> })
   const [artist, setArtist] = useState("Bliximstraat");
   const [releaseDate, setReleaseDate] = useState("");
   const [priceZar, setPriceZar] = useState("0");
+  const [genre, setGenre] = useState("");
+  const [youtubeUrl, setYoutubeUrl] = useState("");
 
-  // optional manual URLs
+  // optional manual URL
   const [coverUrl, setCoverUrl] = useState("");
-  const [audioUrl, setAudioUrl] = useState("");
 
   // upload files
   const [coverFile, setCoverFile] = useState<File | null>(null);
   const [audioFile, setAudioFile] = useState<File | null>(null);
 
+  // preview clip: uploaded, or cut from the full track in the browser
+  const [previewUrl, setPreviewUrl] = useState("");
+  const [previewFile, setPreviewFile] = useState<File | null>(null);
+  const [previewListenUrl, setPreviewListenUrl] = useState<string | null>(null);
+  const [previewStart, setPreviewStart] = useState("0");
+  const [previewLength, setPreviewLength] = useState(String(PREVIEW_DEFAULT_DURATION_S));
+  const [cuttingPreview, setCuttingPreview] = useState(false);
+
+  // free the in-memory clip once it's replaced or the panel closes
+  useEffect(() => {
+    if (!previewListenUrl) return;
+    return () => URL.revokeObjectURL(previewListenUrl);
+  }, [previewListenUrl]);
+
   // ✅ Album assignment
   type AlbumMode = "none" | "existing" | "new";
   const [albumMode, setAlbumMode] = useState<AlbumMode>("none");
   const [selectedAlbumId, setSelectedAlbumId] = useState<string>("");
   const [trackNumber, setTrackNumber] = useState<string>("");
+  // bundle price of the chosen / new album, in rands ("" = no bundle)
+  const [bundleZar, setBundleZar] = useState("");
 
   // ✅ New album fields (inline)
   const [newAlbumTitle, setNewAlbumTitle] = useState("");
   const [newAlbumArtist, setNewAlbumArtist] = useState("Bliximstraat");
+  const [newAlbumType, setNewAlbumType] = useState<ReleaseType>("album");
   const [newAlbumReleaseDate, setNewAlbumReleaseDate] = useState("");
   const [newAlbumCoverFile, setNewAlbumCoverFile] = useState<File | null>(null);
   const [newAlbumCoverUrl, setNewAlbumCoverUrl] = useState("");
@@ -450,17 +553,25 @@ function SongsPanel({ onSongsChanged }: { onSongsChanged: () => Promise<void> })
     setArtist("Bliximstraat");
     setReleaseDate("");
     setPriceZar("0");
+    setGenre("");
+    setYoutubeUrl("");
     setCoverUrl("");
-    setAudioUrl("");
     setCoverFile(null);
     setAudioFile(null);
+    setPreviewUrl("");
+    setPreviewFile(null);
+    setPreviewListenUrl(null);
+    setPreviewStart("0");
+    setPreviewLength(String(PREVIEW_DEFAULT_DURATION_S));
 
     setAlbumMode("none");
     setSelectedAlbumId("");
     setTrackNumber("");
+    setBundleZar("");
 
     setNewAlbumTitle("");
     setNewAlbumArtist("Bliximstraat");
+    setNewAlbumType("album");
     setNewAlbumReleaseDate("");
     setNewAlbumCoverFile(null);
     setNewAlbumCoverUrl("");
@@ -471,7 +582,7 @@ function SongsPanel({ onSongsChanged }: { onSongsChanged: () => Promise<void> })
     const { data, error } = await supabase
       .from("songs")
       .select(
-        "id,title,artist,release_date,price_cents,cover_url,audio_url,album_id,track_number,created_at,is_active"
+        "id,title,artist,release_date,price_cents,cover_url,preview_url,preview_start_s,preview_duration_s,album_id,track_number,genre,youtube_url,created_at,is_active,song_audio_files(format,storage_path)"
       )
       .order("created_at", { ascending: false });
 
@@ -483,8 +594,8 @@ function SongsPanel({ onSongsChanged }: { onSongsChanged: () => Promise<void> })
   const loadAlbums = async () => {
     const { data, error } = await supabase
       .from("albums")
-      .select("id,title,artist,release_date,cover_url,created_at")
-      .order("created_at", { ascending: false });
+      .select("id,title,artist,release_type,release_date,cover_url,bundle_price_cents,created_at")
+      .order("release_date", { ascending: false, nullsFirst: false });
 
     if (!error) setAlbums((data as AlbumRow[]) ?? []);
   };
@@ -496,31 +607,45 @@ function SongsPanel({ onSongsChanged }: { onSongsChanged: () => Promise<void> })
     })();
   }, []);
 
+  const bundleZarOf = (albumId: string) => {
+    const cents = albums.find((a) => a.id === albumId)?.bundle_price_cents;
+    return cents ? String(cents / 100) : "";
+  };
+
   const onEdit = (row: SongRow) => {
     setEditingId(row.id);
     setTitle(row.title ?? "");
     setArtist(row.artist ?? "");
     setReleaseDate(row.release_date ?? "");
     setPriceZar(String(Math.round((row.price_cents ?? 0) / 100)));
+    setGenre(row.genre ?? "");
+    setYoutubeUrl(row.youtube_url ?? "");
     setCoverUrl(row.cover_url ?? "");
-    setAudioUrl(row.audio_url ?? "");
     setCoverFile(null);
     setAudioFile(null);
+    setPreviewUrl(row.preview_url ?? "");
+    setPreviewFile(null);
+    setPreviewListenUrl(null);
+    setPreviewStart(String(row.preview_start_s ?? 0));
+    setPreviewLength(String(row.preview_duration_s ?? PREVIEW_DEFAULT_DURATION_S));
     setError(null);
 
     if (row.album_id) {
       setAlbumMode("existing");
       setSelectedAlbumId(row.album_id);
       setTrackNumber(row.track_number ? String(row.track_number) : "");
+      setBundleZar(bundleZarOf(row.album_id));
     } else {
       setAlbumMode("none");
       setSelectedAlbumId("");
       setTrackNumber("");
+      setBundleZar("");
     }
 
     // clear new album fields on edit
     setNewAlbumTitle("");
     setNewAlbumArtist("Bliximstraat");
+    setNewAlbumType("album");
     setNewAlbumReleaseDate("");
     setNewAlbumCoverFile(null);
     setNewAlbumCoverUrl("");
@@ -557,11 +682,13 @@ function SongsPanel({ onSongsChanged }: { onSongsChanged: () => Promise<void> })
     await onSongsChanged();
   };
 
-  const uploadToBucket = async (bucket: "covers" | "audio", file: File) => {
+  /** Uploads and returns the object path inside the bucket. */
+  const uploadFile = async (bucket: "covers" | "audio" | "previews", file: File) => {
     if (bucket === "covers" && !file.type.startsWith("image/")) {
       throw new Error("Cover must be an image file.");
     }
-    if (bucket === "audio" && !file.type.startsWith("audio/")) {
+    // full tracks are checked by extension in saveSong (browsers often leave FLAC untyped)
+    if (bucket === "previews" && !file.type.startsWith("audio/")) {
       throw new Error("Audio must be an audio file.");
     }
 
@@ -576,17 +703,69 @@ function SongsPanel({ onSongsChanged }: { onSongsChanged: () => Promise<void> })
     });
 
     if (error) throw new Error(error.message ?? "Storage upload failed");
+    return data.path;
+  };
 
-    const { data: urlData } = supabase.storage.from(bucket).getPublicUrl(data.path);
+  /** For the public buckets only; "audio" is private and served via signed URLs. */
+  const uploadToBucket = async (bucket: "covers" | "previews", file: File) => {
+    const path = await uploadFile(bucket, file);
+    const { data: urlData } = supabase.storage.from(bucket).getPublicUrl(path);
     return urlData.publicUrl;
   };
 
+  const editingFiles = items.find((i) => i.id === editingId)?.song_audio_files ?? [];
+
+  const previewWindow = () => {
+    const start = Math.max(0, Math.round(Number(previewStart) || 0));
+    const length = Math.round(Number(previewLength) || PREVIEW_DEFAULT_DURATION_S);
+    if (length < 5 || length > 60) throw new Error("Preview length must be between 5 and 60 seconds.");
+    return { start, length };
+  };
+
+  const onCutPreview = async () => {
+    setError(null);
+    setCuttingPreview(true);
+    try {
+      let source: Blob | string | null = audioFile;
+      if (!source && editingFiles.length) {
+        // the bucket is private, so read the stored track through a short-lived link
+        const { data, error } = await supabase.storage
+          .from("audio")
+          .createSignedUrl(editingFiles[0].storage_path, 300);
+        if (error) throw new Error(error.message);
+        source = data.signedUrl;
+      }
+      if (!source) throw new Error("Add the full track first, then cut a preview from it.");
+
+      const { start, length } = previewWindow();
+      const clip = await cutPreviewClip(source, start, length);
+      setPreviewFile(clip);
+      setPreviewListenUrl(URL.createObjectURL(clip));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not cut a preview.");
+    } finally {
+      setCuttingPreview(false);
+    }
+  };
+
   const createAlbumIfNeeded = async (): Promise<string | null> => {
     if (albumMode === "none") return null;
 
+    const bundlePriceCents = bundleZar.trim() ? toCents(bundleZar) || null : null;
+
     if (albumMode === "existing") {
       const clean = selectedAlbumId.trim();
       if (!clean) throw new Error("Please select an album.");
+
+      const album = albums.find((a) => a.id === clean);
+      if (album && (album.bundle_price_cents ?? null) !== bundlePriceCents) {
+        const { error: bundleErr } = await supabase
+          .from("albums")
+          .update({ bundle_price_cents: bundlePriceCents })
+          .eq("id", clean);
+        if (bundleErr) throw new Error(bundleErr.message);
+        await loadAlbums();
+      }
       return clean;
     }
 
@@ -602,8 +781,10 @@ function SongsPanel({ onSongsChanged }: { onSongsChanged: () => Promise<void> })
       .insert({
         title: newAlbumTitle.trim(),
         artist: newAlbumArtist.trim(),
+        release_type: newAlbumType,
         release_date: newAlbumReleaseDate ? newAlbumReleaseDate : null,
         cover_url: nextAlbumCoverUrl,
+        bundle_price_cents: bundlePriceCents,
       })
       .select("id")
       .single();
@@ -627,10 +808,18 @@ function SongsPanel({ onSongsChanged }: { onSongsChanged: () => Promise<void> })
     const priceCents = toCents(priceZar);
 
     let nextCoverUrl = coverUrl.trim() || null;
-    let nextAudioUrl = audioUrl.trim() || null;
+
+    const audioFormat = audioFile ? audioFormatFromFileName(audioFile.name) : null;
+    if (audioFile && !audioFormat) {
+      throw new Error(`Audio must be ${AUDIO_FORMATS.map((f) => AUDIO_FORMAT_LABEL[f]).join(", ")}.`);
+    }
+
+    let nextPreviewUrl = previewUrl.trim() || null;
+    const { start: previewStartS, length: previewDurationS } = previewWindow();
 
     if (coverFile) nextCoverUrl = await uploadToBucket("covers", coverFile);
-    if (audioFile) nextAudioUrl = await uploadToBucket("audio", audioFile);
+    const audioPath = audioFile ? await uploadFile("audio", audioFile) : null;
+    if (previewFile) nextPreviewUrl = await uploadToBucket("previews", previewFile);
 
     const albumId = await createAlbumIfNeeded();
 
@@ -645,19 +834,38 @@ function SongsPanel({ onSongsChanged }: { onSongsChanged: () => Promise<void> })
       artist: artist.trim() || "Bliximstraat",
       release_date: releaseDate ? releaseDate : null,
       price_cents: priceCents,
+      genre: genre.trim() || null,
+      youtube_url: youtubeUrl.trim() || null,
       cover_url: nextCoverUrl,
-      audio_url: nextAudioUrl,
+      preview_url: nextPreviewUrl,
+      preview_start_s: previewStartS,
+      preview_duration_s: previewDurationS,
       album_id: albumId,
       track_number: albumId ? nextTrackNumber : null,
       is_active: true,
     };
 
+    let songId = editingId;
     if (editingId) {
       const { error } = await supabase.from("songs").update(payload).eq("id", editingId);
       if (error) throw new Error(error.message);
     } else {
-      const { error } = await supabase.from("songs").insert(payload);
+      const { data, error } = await supabase.from("songs").insert(payload).select("id").single();
+      if (error) throw new Error(error.message);
+      songId = data.id as string;
+    }
+
+    if (songId && audioFormat && audioPath) {
+      const { error } = await supabase
+        .from("song_audio_files")
+        .upsert({ song_id: songId, format: audioFormat, storage_path: audioPath }, { onConflict: "song_id,format" });
       if (error) throw new Error(error.message);
+
+      // same format uploaded again: drop the file it replaced
+      const replaced = editingFiles.find((f) => f.format === audioFormat);
+      if (replaced && replaced.storage_path !== audioPath) {
+        await supabase.storage.from("audio").remove([replaced.storage_path]);
+      }
     }
   };
 
@@ -721,10 +929,12 @@ function SongsPanel({ onSongsChanged }: { onSongsChanged: () => Promise<void> })
                         {s.release_date ? ` • ${s.release_date}` : ""} • {formatZar(s.price_cents)}
                       </div>
 
-                      {(s.cover_url || s.audio_url) && (
+                      {(s.cover_url || s.song_audio_files?.length) && (
                         <div className="mt-2 text-xs text-white/45 space-y-1">
                           {s.cover_url ? <div className="truncate">Cover: {s.cover_url}</div> : null}
-                          {s.audio_url ? <div className="truncate">Audio: {s.audio_url}</div> : null}
+                          {s.song_audio_files?.length ? (
+                            <div>Audio: {s.song_audio_files.map((f) => AUDIO_FORMAT_LABEL[f.format]).join(", ")}</div>
+                          ) : null}
                         </div>
                       )}
                     </div>
@@ -766,6 +976,13 @@ function SongsPanel({ onSongsChanged }: { onSongsChanged: () => Promise<void> })
             <Field label="Artist" value={artist} onChange={setArtist} placeholder="Bliximstraat" />
             <Field label="Release date" value={releaseDate} onChange={setReleaseDate} type="date" />
             <Field label="Price (ZAR)" value={priceZar} onChange={setPriceZar} type="number" />
+            <Field label="Genre" value={genre} onChange={setGenre} placeholder="Afrikaans EDM" />
+            <Field
+              label="YouTube video (shown on the Music page)"
+              value={youtubeUrl}
+              onChange={setYoutubeUrl}
+              placeholder="https://www.youtube.com/watch?v=..."
+            />
 
             {/* ✅ Album selector / create new */}
             <div className="rounded-2xl border border-white/10 bg-black/25 p-4 space-y-3">
@@ -821,13 +1038,17 @@ function SongsPanel({ onSongsChanged }: { onSongsChanged: () => Promise<void> })
                     <label className="block text-xs text-white/60 mb-2">Choose album</label>
                     <select
                       value={selectedAlbumId}
-                      onChange={(e) => setSelectedAlbumId(e.target.value)}
+                      onChange={(e) => {
+                        setSelectedAlbumId(e.target.value);
+                        setBundleZar(bundleZarOf(e.target.value));
+                      }}
                       className="w-full rounded-2xl border border-white/10 bg-black/40 px-4 py-3 text-white/90 outline-none focus:border-teal-400/40 focus:ring-2 focus:ring-teal-400/15"
                     >
                       <option value="">Select…</option>
                       {albums.map((a) => (
                         <option key={a.id} value={a.id}>
-                          {a.title} {a.release_date ? `(${a.release_date.slice(0, 4)})` : ""}
+                          {a.title} · {RELEASE_TYPE_LABEL[a.release_type] ?? "Album"}
+                          {a.release_date ? ` (${a.release_date.slice(0, 4)})` : ""}
                         </option>
                       ))}
                     </select>
@@ -840,6 +1061,14 @@ function SongsPanel({ onSongsChanged }: { onSongsChanged: () => Promise<void> })
                     type="number"
                     placeholder="1"
                   />
+
+                  <Field
+                    label="Bundle price (ZAR, optional)"
+                    value={bundleZar}
+                    onChange={setBundleZar}
+                    type="number"
+                    placeholder="Whole release, e.g. 99"
+                  />
                 </div>
               )}
 
@@ -857,6 +1086,20 @@ function SongsPanel({ onSongsChanged }: { onSongsChanged: () => Promise<void> })
                     onChange={setNewAlbumArtist}
                     placeholder="Bliximstraat"
                   />
+                  <div>
+                    <label className="block text-xs text-white/60 mb-2">Release type</label>
+                    <select
+                      value={newAlbumType}
+                      onChange={(e) => setNewAlbumType(e.target.value as ReleaseType)}
+                      className="w-full rounded-2xl border border-white/10 bg-black/40 px-4 py-3 text-white/90 outline-none focus:border-teal-400/40 focus:ring-2 focus:ring-teal-400/15"
+                    >
+                      {Object.entries(RELEASE_TYPE_LABEL).map(([value, label]) => (
+                        <option key={value} value={value}>
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
                   <Field
                     label="New album release date"
                     value={newAlbumReleaseDate}
@@ -891,6 +1134,14 @@ function SongsPanel({ onSongsChanged }: { onSongsChanged: () => Promise<void> })
                     placeholder="1"
                   />
 
+                  <Field
+                    label="Bundle price (ZAR, optional)"
+                    value={bundleZar}
+                    onChange={setBundleZar}
+                    type="number"
+                    placeholder="Whole release, e.g. 99"
+                  />
+
                   <div className="text-xs text-white/50">
                     This will create the album first, then save the song into it.
                   </div>
@@ -916,16 +1167,62 @@ function SongsPanel({ onSongsChanged }: { onSongsChanged: () => Promise<void> })
             {/* Audio */}
             <div className="rounded-2xl border border-white/10 bg-black/25 p-4 space-y-3">
               <div className="text-sm font-semibold text-white/80">Audio</div>
+              <div className="text-xs text-white/50">
+                Private: buyers get an expiring link. Upload one file per format (MP3, FLAC, WAV); the same
+                format again replaces it.
+              </div>
 
               <input
                 type="file"
-                accept="audio/*"
+                accept=".mp3,.flac,.wav,audio/mpeg,audio/flac,audio/wav"
                 onChange={(e) => setAudioFile(e.target.files?.[0] ?? null)}
                 className="block w-full text-sm text-white/70 file:mr-3 file:rounded-lg file:border file:border-white/15 file:bg-black/30 file:px-3 file:py-1.5 file:text-white/80 hover:file:bg-black/40"
               />
 
-              <div className="text-xs text-white/50">Or paste an audio URL (optional)</div>
-              <Field label="" value={audioUrl} onChange={setAudioUrl} placeholder="https://..." />
+              {editingFiles.length > 0 && (
+                <div className="text-xs text-white/50">
+                  Stored: {editingFiles.map((f) => AUDIO_FORMAT_LABEL[f.format]).join(", ")}
+                </div>
+              )}
+            </div>
+
+            {/* Preview clip */}
+            <div className="rounded-2xl border border-white/10 bg-black/25 p-4 space-y-3">
+              <div className="text-sm font-semibold text-white/80">Preview clip</div>
+              <div className="text-xs text-white/50">
+                Public clip for the Music page. The full track is only ever served to buyers.
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <Field label="Start (seconds)" value={previewStart} onChange={setPreviewStart} type="number" placeholder="0" />
+                <Field label="Length (seconds)" value={previewLength} onChange={setPreviewLength} type="number" placeholder="30" />
+              </div>
+
+              <SmallButton variant="ghost" disabled={saving || cuttingPreview} onClick={onCutPreview}>
+                {cuttingPreview ? "Cutting…" : "Cut from full track"}
+              </SmallButton>
+
+              <input
+                type="file"
+                accept="audio/*"
+                onChange={(e) => {
+                  setPreviewFile(e.target.files?.[0] ?? null);
+                  setPreviewListenUrl(null);
+                }}
+                className="block w-full text-sm text-white/70 file:mr-3 file:rounded-lg file:border file:border-white/15 file:bg-black/30 file:px-3 file:py-1.5 file:text-white/80 hover:file:bg-black/40"
+              />
+
+              {previewListenUrl ? (
+                <audio controls src={previewListenUrl} className="w-full" />
+              ) : previewUrl && !previewFile ? (
+                <audio controls src={previewUrl} className="w-full" />
+              ) : null}
+              {previewFile && (
+                <div className="text-xs text-white/50">New clip ready — it uploads when you save.</div>
+              )}
+
+              <div className="text-xs text-white/50">Or paste a preview URL (optional)</div>
+              <Field label="" value={previewUrl} onChange={setPreviewUrl} placeholder="https://..." />
             </div>
 
             <div className="flex items-center justify-between pt-1">
@@ -1298,7 +1595,14 @@ function ShowsPanel() {
   const [showDate, setShowDate] = useState("");
   const [showTime, setShowTime] = useState("");
   const [ticketUrl, setTicketUrl] = useState("");
-  const [isPast, setIsPast] = useState(false);
+  const [lineup, setLineup] = useState("");
+  const [venueAddress, setVenueAddress] = useState("");
+  const [latitude, setLatitude] = useState("");
+  const [longitude, setLongitude] = useState("");
+  const [doorsTime, setDoorsTime] = useState("");
+  const [minAge, setMinAge] = useState("");
+  const [timezone, setTimezone] = useState(DEFAULT_SHOW_TIMEZONE);
+  const [attendanceNote, setAttendanceNote] = useState("");
 
   const resetForm = () => {
     setEditingId(null);
@@ -1308,7 +1612,14 @@ function ShowsPanel() {
     setShowDate("");
     setShowTime("");
     setTicketUrl("");
-    setIsPast(false);
+    setLineup("");
+    setVenueAddress("");
+    setLatitude("");
+    setLongitude("");
+    setDoorsTime("");
+    setMinAge("");
+    setTimezone(DEFAULT_SHOW_TIMEZONE);
+    setAttendanceNote("");
   };
 
   const load = async () => {
@@ -1317,7 +1628,9 @@ function ShowsPanel() {
 
     const { data, error } = await supabase
       .from(SHOWS_TABLE)
-      .select("id,title,venue,city,show_date,show_time,is_past,ticket_url,created_at")
+      .select(
+        "id,title,venue,city,show_date,show_time,ticket_url,lineup,venue_address,latitude,longitude,doors_time,min_age,timezone,attendance_note,created_at"
+      )
       .order("show_date", { ascending: false })
       .order("created_at", { ascending: false });
 
@@ -1338,7 +1651,14 @@ function ShowsPanel() {
     setShowDate(row.show_date ?? "");
     setShowTime(row.show_time ?? "");
     setTicketUrl(row.ticket_url ?? "");
-    setIsPast(Boolean(row.is_past));
+    setLineup((row.lineup ?? []).join(", "));
+    setVenueAddress(row.venue_address ?? "");
+    setLatitude(row.latitude?.toString() ?? "");
+    setLongitude(row.longitude?.toString() ?? "");
+    setDoorsTime(row.doors_time ?? "");
+    setMinAge(row.min_age?.toString() ?? "");
+    setTimezone(row.timezone || DEFAULT_SHOW_TIMEZONE);
+    setAttendanceNote(row.attendance_note ?? "");
     setError(null);
   };
 
@@ -1366,14 +1686,39 @@ function ShowsPanel() {
     try {
       if (!title.trim()) throw new Error("Title is required.");
 
+      if (!isValidTimeZone(timezone.trim())) {
+        throw new Error("Timezone must be an IANA name like Africa/Johannesburg.");
+      }
+
+      const lat = latitude.trim() ? Number(latitude) : null;
+      const lng = longitude.trim() ? Number(longitude) : null;
+      if ((lat === null) !== (lng === null)) throw new Error("Enter both latitude and longitude, or neither.");
+      if (lat !== null && !(Math.abs(lat) <= 90)) throw new Error("Latitude must be between -90 and 90.");
+      if (lng !== null && !(Math.abs(lng) <= 180)) throw new Error("Longitude must be between -180 and 180.");
+
+      const age = minAge.trim() ? Number(minAge) : null;
+      if (age !== null && !(Number.isInteger(age) && age >= 0 && age <= 21)) {
+        throw new Error("Minimum age must be a whole number from 0 (all ages) to 21.");
+      }
+
       const payload = {
         title: title.trim(),
         venue: venue.trim(),
         city: city.trim(),
         show_date: showDate ? showDate : null,
         show_time: showTime ? showTime : null,
-        is_past: Boolean(isPast),
         ticket_url: ticketUrl.trim() || null,
+        lineup: lineup
+          .split(",")
+          .map((act) => act.trim())
+          .filter(Boolean),
+        venue_address: venueAddress.trim() || null,
+        latitude: lat,
+        longitude: lng,
+        doors_time: doorsTime ? doorsTime : null,
+        min_age: age,
+        timezone: timezone.trim(),
+        attendance_note: attendanceNote.trim() || null,
       };
 
       if (editingId) {
@@ -1417,7 +1762,7 @@ function ShowsPanel() {
                   <div className="min-w-0">
                     <div className="font-semibold truncate flex items-center gap-2">
                       <span className="truncate">{s.title}</span>
-                      {s.is_past ? (
+                      {isPastShow({ date: s.show_date, timezone: s.timezone }) ? (
                         <span className="shrink-0 text-[11px] px-2 py-0.5 rounded-full border border-white/15 bg-white/5 text-white/70">
                           Past
                         </span>
@@ -1436,6 +1781,12 @@ function ShowsPanel() {
                   </div>
 
                   <div className="flex gap-2 shrink-0">
+                    <Link
+                      to={`/admin/checkin/${s.id}`}
+                      className="rounded-xl border px-3 py-2 text-sm font-semibold transition bg-black/30 hover:bg-black/35 border-white/10 text-white/80"
+                    >
+                      Door
+                    </Link>
                     <SmallButton onClick={() => onEdit(s)}>Edit</SmallButton>
                     <SmallButton variant="danger" onClick={() => void onDelete(s.id)} disabled={saving}>
                       Delete
@@ -1463,8 +1814,36 @@ function ShowsPanel() {
             <Field label="Show date" value={showDate} onChange={setShowDate} type="date" />
             <Field label="Show time" value={showTime} onChange={setShowTime} type="time" />
             <Field label="Ticket URL" value={ticketUrl} onChange={setTicketUrl} placeholder="https://..." />
+            <Field
+              label="Lineup (comma-separated, headliner last)"
+              value={lineup}
+              onChange={setLineup}
+              placeholder="Support act, BliximStraat"
+            />
+            <Field label="Venue address" value={venueAddress} onChange={setVenueAddress} placeholder="12 Main Rd" />
+            <div className="grid grid-cols-2 gap-3">
+              <Field label="Latitude" value={latitude} onChange={setLatitude} placeholder="-27.97" />
+              <Field label="Longitude" value={longitude} onChange={setLongitude} placeholder="26.73" />
+            </div>
+            <Field label="Doors open" value={doorsTime} onChange={setDoorsTime} type="time" />
+            <Field label="Minimum age (0 = all ages)" value={minAge} onChange={setMinAge} type="number" />
+            <Field
+              label="Timezone (the show is archived once its date is over here)"
+              value={timezone}
+              onChange={setTimezone}
+              placeholder={DEFAULT_SHOW_TIMEZONE}
+            />
+            <TextArea
+              label="Attendance note (shown once the show is past)"
+              value={attendanceNote}
+              onChange={setAttendanceNote}
+              placeholder="Sold out, 400 people in the rain…"
+              rows={3}
+            />
 
-            <ToggleRow label="Mark as past" checked={isPast} onChange={setIsPast} disabled={saving} />
+            {editingId && <TicketTiersEditor showId={editingId} />}
+            {editingId && <SetlistEditor showId={editingId} />}
+            {editingId && <ShowPhotosEditor showId={editingId} />}
 
             <div className="flex items-center justify-between pt-1">
               {editingId ? (
@@ -1531,10 +1910,12 @@ function MerchPanel() {
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [note, setNote] = useState("");
   const [isPreorder, setIsPreorder] = useState(false);
+  const [slug, setSlug] = useState("");
 
   const resetForm = () => {
     setEditingId(null);
     setName("");
+    setSlug("");
     setCategory("Accessories");
     setPriceZar("0");
     setImageUrl("");
@@ -1549,7 +1930,7 @@ function MerchPanel() {
 
     const { data, error } = await supabase
       .from(PRODUCTS_TABLE)
-      .select("id,name,category,price_cents,image_url,note,is_preorder,created_at")
+      .select("id,name,category,price_cents,image_url,note,is_preorder,slug,created_at,product_variants(stock_qty)")
       .order("created_at", { ascending: false });
 
     if (error) setError(error.message);
@@ -1564,6 +1945,7 @@ function MerchPanel() {
   const onEdit = (row: ProductRow) => {
     setEditingId(row.id);
     setName(row.name ?? "");
+    setSlug(row.slug ?? "");
     setCategory(
       row.category && MERCH_CATEGORIES.includes(row.category) ? row.category : "Accessories"
     );
@@ -1633,6 +2015,7 @@ function MerchPanel() {
         image_url: nextImageUrl,
         note: note.trim() || null,
         is_preorder: Boolean(isPreorder),
+        slug: slug.trim() || null,
       };
 
       if (editingId) {
@@ -1683,6 +2066,7 @@ function MerchPanel() {
 
                     <div className="text-xs text-white/60">
                       {(p.category || "Accessories") + " • " + formatZar(p.price_cents)}
+                      {stockSummary(p) ? " • " + stockSummary(p) : ""}
                     </div>
 
                     {p.image_url ? (
@@ -1717,6 +2101,13 @@ function MerchPanel() {
           <div className="space-y-4">
             <Field label="Name" value={name} onChange={setName} placeholder="T-Shirt (Black)" />
 
+            <Field
+              label="Slug (matches the Merch page id, used in SKUs)"
+              value={slug}
+              onChange={setSlug}
+              placeholder="men-tee"
+            />
+
             <div>
               <label className="block text-xs text-white/60 mb-2">Category</label>
               <select
@@ -1751,6 +2142,19 @@ function MerchPanel() {
             <Field label="Note" value={note} onChange={setNote} placeholder="Optional" />
 
             <ToggleRow label="Preorder" checked={isPreorder} onChange={setIsPreorder} disabled={saving} />
+            {isPreorder && (
+              <div className="text-xs text-white/50 -mt-2">
+                Preorder items keep selling at 0 stock; those lines are marked backordered.
+              </div>
+            )}
+
+            {editingId && (
+              <VariantsEditor
+                productId={editingId}
+                slug={slug.trim()}
+                onChanged={load}
+              />
+            )}
 
             <div className="flex items-center justify-between pt-1">
               {editingId ? (
@@ -1796,7 +2200,2016 @@ function MerchPanel() {
   );
 }
 
-/* ------------------ Small helper ------------------ */
+/** "12 in stock" / "Sold out" across all variants; empty when stock isn't tracked. */
+function stockSummary(p: ProductRow) {
+  const tracked = (p.product_variants ?? []).filter((v) => v.stock_qty !== null);
+  if (!tracked.length) return "";
+
+  const total = tracked.reduce((sum, v) => sum + (v.stock_qty ?? 0), 0);
+  return total > 0 ? `${total} in stock` : "Sold out";
+}
+
+/* ------------------ MERCH VARIANTS / STOCK ------------------ */
+
+function VariantsEditor({
+  productId,
+  slug,
+  onChanged,
+}: {
+  productId: string;
+  slug: string;
+  onChanged: () => Promise<void>;
+}) {
+  const [variants, setVariants] = useState<VariantRow[]>([]);
+  // stock inputs per variant id, as typed ("" = not tracked)
+  const [stockInput, setStockInput] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [newSize, setNewSize] = useState("");
+  const [newColour, setNewColour] = useState("");
+  const [newStock, setNewStock] = useState("");
+
+  const load = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("product_variants")
+      .select("id,product_id,sku,size,colour,stock_qty,created_at")
+      .eq("product_id", productId)
+      .order("sku", { ascending: true });
+
+    if (error) setError(error.message);
+    const rows = (data as VariantRow[]) ?? [];
+    setVariants(rows);
+    setStockInput(
+      Object.fromEntries(rows.map((v) => [v.id, v.stock_qty === null ? "" : String(v.stock_qty)]))
+    );
+  }, [productId]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const parseStock = (raw: string) => {
+    if (!raw.trim()) return null;
+    const n = Math.round(Number(raw));
+    if (!Number.isFinite(n) || n < 0) throw new Error("Stock must be 0 or more (or blank to not track).");
+    return n;
+  };
+
+  const run = async (work: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await work();
+      await load();
+      await onChanged();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to update variants.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const saveStock = (v: VariantRow) =>
+    run(async () => {
+      const { error } = await supabase
+        .from("product_variants")
+        .update({ stock_qty: parseStock(stockInput[v.id] ?? "") })
+        .eq("id", v.id);
+      if (error) throw new Error(error.message);
+    });
+
+  const addVariant = () =>
+    run(async () => {
+      if (!slug) throw new Error("Set a slug on the product before adding variants.");
+
+      const size = newSize.trim() || "One Size";
+      const colour = newColour.trim() || null;
+
+      const { error } = await supabase.from("product_variants").insert({
+        product_id: productId,
+        sku: variantSku(slug, size, colour),
+        size,
+        colour,
+        stock_qty: parseStock(newStock),
+      });
+      if (error) throw new Error(error.message);
+
+      setNewSize("");
+      setNewColour("");
+      setNewStock("");
+    });
+
+  const removeVariant = (v: VariantRow) => {
+    const ok = window.confirm(`Remove variant ${v.sku}? Past orders keep their copy.`);
+    if (!ok) return;
+
+    void run(async () => {
+      const { error } = await supabase.from("product_variants").delete().eq("id", v.id);
+      if (error) throw new Error(error.message);
+    });
+  };
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-black/25 p-4 space-y-3">
+      <div className="text-sm font-semibold text-white/80">Variants & stock</div>
+      <div className="text-xs text-white/50">
+        Leave stock blank to not track it. Paid orders take stock off automatically.
+      </div>
+
+      {error && (
+        <div className="rounded-xl border border-red-500/30 bg-red-500/10 px-3 py-2 text-xs text-red-200">
+          {error}
+        </div>
+      )}
+
+      {variants.length === 0 ? (
+        <div className="text-xs text-white/50">No variants yet.</div>
+      ) : (
+        <div className="space-y-2">
+          {variants.map((v) => (
+            <div key={v.id} className="flex items-center gap-2">
+              <div className="min-w-0 flex-1">
+                <div className="text-sm text-white/85 truncate">
+                  {[v.colour, v.size].filter(Boolean).join(" / ") || "—"}
+                </div>
+                <div className="text-[11px] text-white/40 truncate">{v.sku}</div>
+              </div>
+              <input
+                value={stockInput[v.id] ?? ""}
+                onChange={(e) => setStockInput((m) => ({ ...m, [v.id]: e.target.value }))}
+                placeholder="∞"
+                type="number"
+                min={0}
+                className="w-20 rounded-xl border border-white/10 bg-black/40 px-3 py-2 text-sm text-white/90 outline-none focus:border-teal-400/40"
+              />
+              <SmallButton onClick={() => void saveStock(v)} disabled={busy}>
+                Save
+              </SmallButton>
+              <SmallButton variant="danger" onClick={() => removeVariant(v)} disabled={busy}>
+                ✕
+              </SmallButton>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-2 pt-2">
+        <Field label="Size" value={newSize} onChange={setNewSize} placeholder="One Size" />
+        <Field label="Colour" value={newColour} onChange={setNewColour} placeholder="Optional" />
+        <Field label="Stock" value={newStock} onChange={setNewStock} type="number" placeholder="∞" />
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-[11px] text-white/40 truncate">
+          {slug ? `SKU: ${variantSku(slug, newSize.trim() || "One Size", newColour)}` : "Needs a slug"}
+        </div>
+        <SmallButton variant="solid" onClick={() => void addVariant()} disabled={busy || !slug}>
+          Add variant
+        </SmallButton>
+      </div>
+    </div>
+  );
+}
+
+// <input type="datetime-local"> wants local "YYYY-MM-DDTHH:MM"
+const dateTimeInputOf = (iso: string | null) => {
+  if (!iso) return "";
+  const d = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+function TicketTiersEditor({ showId }: { showId: string }) {
+  const [tiers, setTiers] = useState<TicketTier[]>([]);
+  // seats sold (or held by a checkout in progress) per tier id
+  const [taken, setTaken] = useState<Record<string, number>>({});
+  // capacity inputs per tier id, as typed
+  const [capacityInput, setCapacityInput] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [newName, setNewName] = useState("");
+  const [newDescription, setNewDescription] = useState("");
+  const [newPrice, setNewPrice] = useState("");
+  const [newCapacity, setNewCapacity] = useState("");
+  const [newStart, setNewStart] = useState("");
+  const [newEnd, setNewEnd] = useState("");
+
+  const load = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("ticket_tiers")
+      .select("id,show_id,name,description,price_cents,capacity,sales_start,sales_end,sort_order,is_active")
+      .eq("show_id", showId)
+      .order("sort_order", { ascending: true })
+      .order("price_cents", { ascending: true });
+
+    if (error) setError(error.message);
+    const rows = (data as TicketTier[]) ?? [];
+    setTiers(rows);
+    setCapacityInput(Object.fromEntries(rows.map((t) => [t.id, String(t.capacity)])));
+
+    if (rows.length) {
+      const { data: seats } = await supabase
+        .from("ticket_tier_availability")
+        .select("tier_id,taken")
+        .in("tier_id", rows.map((t) => t.id));
+      setTaken(Object.fromEntries((seats ?? []).map((r) => [String(r.tier_id), Number(r.taken) || 0])));
+    }
+  }, [showId]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const run = async (work: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await work();
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to update ticket tiers.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const parseCapacity = (raw: string) => {
+    const n = Math.round(Number(raw));
+    if (!raw.trim() || !Number.isFinite(n) || n < 1) throw new Error("Capacity must be 1 or more.");
+    return n;
+  };
+
+  const saveCapacity = (t: TicketTier) =>
+    run(async () => {
+      const capacity = parseCapacity(capacityInput[t.id] ?? "");
+      if (capacity < (taken[t.id] ?? 0)) throw new Error(`${taken[t.id]} ${t.name} tickets are already sold.`);
+
+      const { error } = await supabase.from("ticket_tiers").update({ capacity }).eq("id", t.id);
+      if (error) throw new Error(error.message);
+    });
+
+  const toggleActive = (t: TicketTier) =>
+    run(async () => {
+      const { error } = await supabase.from("ticket_tiers").update({ is_active: !t.is_active }).eq("id", t.id);
+      if (error) throw new Error(error.message);
+    });
+
+  const addTier = () =>
+    run(async () => {
+      if (!newName.trim()) throw new Error("Give the tier a name (e.g. Early bird).");
+      const price_cents = toCents(newPrice);
+      if (price_cents <= 0) throw new Error("Tickets need a price.");
+
+      const { error } = await supabase.from("ticket_tiers").insert({
+        show_id: showId,
+        name: newName.trim(),
+        description: newDescription.trim() || null,
+        price_cents,
+        capacity: parseCapacity(newCapacity),
+        sales_start: newStart ? new Date(newStart).toISOString() : null,
+        sales_end: newEnd ? new Date(newEnd).toISOString() : null,
+        sort_order: tiers.length,
+      });
+      if (error) throw new Error(error.message);
+
+      setNewName("");
+      setNewDescription("");
+      setNewPrice("");
+      setNewCapacity("");
+      setNewStart("");
+      setNewEnd("");
+    });
+
+  const removeTier = (t: TicketTier) => {
+    if (taken[t.id]) {
+      setError(`${t.name} has sales — switch it off instead.`);
+      return;
+    }
+    const ok = window.confirm(`Remove the ${t.name} tier?`);
+    if (!ok) return;
+
+    void run(async () => {
+      const { error } = await supabase.from("ticket_tiers").delete().eq("id", t.id);
+      if (error) throw new Error(error.message);
+    });
+  };
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-black/25 p-4 space-y-3">
+      <div className="text-sm font-semibold text-white/80">Ticket tiers</div>
+      <div className="text-xs text-white/50">
+        Sold on the Shows page through the cart. Leave the sale dates blank to sell from now until the show.
+      </div>
+
+      {error && (
+        <div className="rounded-xl border border-red-500/30 bg-red-500/10 px-3 py-2 text-xs text-red-200">
+          {error}
+        </div>
+      )}
+
+      {tiers.length === 0 ? (
+        <div className="text-xs text-white/50">No tiers yet — the Ticket URL is used instead.</div>
+      ) : (
+        <div className="space-y-2">
+          {tiers.map((t) => (
+            <div key={t.id} className="flex items-center gap-2">
+              <div className="min-w-0 flex-1">
+                <div className={`text-sm truncate ${t.is_active ? "text-white/85" : "text-white/40 line-through"}`}>
+                  {t.name} • {formatZar(t.price_cents)}
+                </div>
+                <div className="text-[11px] text-white/40 truncate">
+                  {taken[t.id] ?? 0} sold
+                  {t.sales_start ? ` • from ${dateTimeInputOf(t.sales_start).replace("T", " ")}` : ""}
+                  {t.sales_end ? ` • until ${dateTimeInputOf(t.sales_end).replace("T", " ")}` : ""}
+                </div>
+              </div>
+              <input
+                value={capacityInput[t.id] ?? ""}
+                onChange={(e) => setCapacityInput((m) => ({ ...m, [t.id]: e.target.value }))}
+                type="number"
+                min={1}
+                aria-label={`${t.name} capacity`}
+                className="w-20 rounded-xl border border-white/10 bg-black/40 px-3 py-2 text-sm text-white/90 outline-none focus:border-teal-400/40"
+              />
+              <SmallButton onClick={() => void saveCapacity(t)} disabled={busy}>
+                Save
+              </SmallButton>
+              <SmallButton onClick={() => void toggleActive(t)} disabled={busy}>
+                {t.is_active ? "Off" : "On"}
+              </SmallButton>
+              <SmallButton variant="danger" onClick={() => removeTier(t)} disabled={busy}>
+                ✕
+              </SmallButton>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-2 pt-2">
+        <Field label="Tier" value={newName} onChange={setNewName} placeholder="General" />
+        <Field label="Price (R)" value={newPrice} onChange={setNewPrice} type="number" placeholder="150" />
+        <Field label="Capacity" value={newCapacity} onChange={setNewCapacity} type="number" placeholder="200" />
+      </div>
+      <Field label="Description" value={newDescription} onChange={setNewDescription} placeholder="Optional" />
+      <div className="grid grid-cols-2 gap-2">
+        <Field label="Sales open" value={newStart} onChange={setNewStart} type="datetime-local" />
+        <Field label="Sales close" value={newEnd} onChange={setNewEnd} type="datetime-local" />
+      </div>
+      <div className="flex justify-end">
+        <SmallButton variant="solid" onClick={() => void addTier()} disabled={busy}>
+          Add tier
+        </SmallButton>
+      </div>
+    </div>
+  );
+}
+
+type SetlistRow = {
+  song_id: string | null;
+  title: string;
+  note: string;
+};
+
+/** The songs played, in order. Saving replaces the whole setlist. */
+function SetlistEditor({ showId }: { showId: string }) {
+  const [rows, setRows] = useState<SetlistRow[]>([]);
+  const [songs, setSongs] = useState<{ id: string; title: string }[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [dirty, setDirty] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [newSongId, setNewSongId] = useState("");
+  const [newTitle, setNewTitle] = useState("");
+
+  const load = useCallback(async () => {
+    const [{ data, error }, { data: songRows }] = await Promise.all([
+      supabase
+        .from("show_setlist_entries")
+        .select("position,song_id,title,note")
+        .eq("show_id", showId)
+        .order("position", { ascending: true }),
+      supabase.from("songs").select("id,title").order("title", { ascending: true }),
+    ]);
+
+    if (error) setError(error.message);
+    setRows(
+      ((data ?? []) as { song_id: string | null; title: string; note: string | null }[]).map((r) => ({
+        song_id: r.song_id,
+        title: r.title,
+        note: r.note ?? "",
+      }))
+    );
+    setSongs(((songRows ?? []) as { id: string; title: string | null }[]).map((r) => ({ id: r.id, title: r.title ?? "" })));
+    setDirty(false);
+  }, [showId]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const edit = (next: SetlistRow[]) => {
+    setRows(next);
+    setDirty(true);
+  };
+
+  const move = (i: number, by: -1 | 1) => {
+    const j = i + by;
+    if (j < 0 || j >= rows.length) return;
+    const next = [...rows];
+    [next[i], next[j]] = [next[j], next[i]];
+    edit(next);
+  };
+
+  const addRow = () => {
+    const song = songs.find((x) => x.id === newSongId);
+    const title = newTitle.trim() || song?.title || "";
+    if (!title) {
+      setError("Pick one of our songs or type a title.");
+      return;
+    }
+    setError(null);
+    edit([...rows, { song_id: song?.id ?? null, title, note: "" }]);
+    setNewSongId("");
+    setNewTitle("");
+  };
+
+  const save = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const { error: delErr } = await supabase.from("show_setlist_entries").delete().eq("show_id", showId);
+      if (delErr) throw new Error(delErr.message);
+
+      if (rows.length) {
+        const { error } = await supabase.from("show_setlist_entries").insert(
+          rows.map((r, position) => ({
+            show_id: showId,
+            position,
+            song_id: r.song_id,
+            title: r.title.trim(),
+            note: r.note.trim() || null,
+          }))
+        );
+        if (error) throw new Error(error.message);
+      }
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to save setlist.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-black/25 p-4 space-y-3">
+      <div className="text-sm font-semibold text-white/80">Setlist</div>
+      <div className="text-xs text-white/50">
+        Shown on the show's page once it's past. Our own songs link to their video; covers just need a title.
+      </div>
+
+      {error && (
+        <div className="rounded-xl border border-red-500/30 bg-red-500/10 px-3 py-2 text-xs text-red-200">
+          {error}
+        </div>
+      )}
+
+      {rows.length === 0 ? (
+        <div className="text-xs text-white/50">No songs yet.</div>
+      ) : (
+        <div className="space-y-2">
+          {rows.map((r, i) => (
+            <div key={i} className="flex items-center gap-2">
+              <span className="w-5 text-right text-xs text-white/40">{i + 1}</span>
+              <div className="min-w-0 flex-1 text-sm text-white/85 truncate">
+                {r.title}
+                {r.song_id ? "" : <span className="text-white/40"> • not in catalogue</span>}
+              </div>
+              <input
+                value={r.note}
+                onChange={(e) => edit(rows.map((x, k) => (k === i ? { ...x, note: e.target.value } : x)))}
+                placeholder="Note"
+                aria-label={`${r.title} note`}
+                className="w-28 rounded-xl border border-white/10 bg-black/40 px-3 py-2 text-xs text-white/90 placeholder:text-white/40 outline-none focus:border-teal-400/40"
+              />
+              <SmallButton onClick={() => move(i, -1)} disabled={busy || i === 0}>
+                ↑
+              </SmallButton>
+              <SmallButton onClick={() => move(i, 1)} disabled={busy || i === rows.length - 1}>
+                ↓
+              </SmallButton>
+              <SmallButton variant="danger" onClick={() => edit(rows.filter((_, k) => k !== i))} disabled={busy}>
+                ✕
+              </SmallButton>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2 pt-2">
+        <div>
+          <label className="block text-xs text-white/60 mb-2">Our song</label>
+          <select
+            value={newSongId}
+            onChange={(e) => setNewSongId(e.target.value)}
+            className="w-full rounded-2xl border border-white/10 bg-black/40 px-4 py-3 text-white/90 outline-none focus:border-teal-400/40"
+          >
+            <option value="">—</option>
+            {songs.map((song) => (
+              <option key={song.id} value={song.id}>
+                {song.title}
+              </option>
+            ))}
+          </select>
+        </div>
+        <Field label="Or a title" value={newTitle} onChange={setNewTitle} placeholder="Cover / new song" />
+      </div>
+      <div className="flex justify-end gap-2">
+        <SmallButton onClick={addRow} disabled={busy}>
+          Add song
+        </SmallButton>
+        <SmallButton variant="solid" onClick={() => void save()} disabled={busy || !dirty}>
+          Save setlist
+        </SmallButton>
+      </div>
+    </div>
+  );
+}
+
+type ShowPhotoRow = {
+  id: string;
+  storage_path: string;
+  image_url: string;
+  caption: string | null;
+  sort_order: number;
+};
+
+/** Photos for the show's archive gallery, in the public "show-photos" bucket. */
+function ShowPhotosEditor({ showId }: { showId: string }) {
+  const [photos, setPhotos] = useState<ShowPhotoRow[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [files, setFiles] = useState<File[]>([]);
+  const [caption, setCaption] = useState("");
+
+  const load = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("show_photos")
+      .select("id,storage_path,image_url,caption,sort_order")
+      .eq("show_id", showId)
+      .order("sort_order", { ascending: true })
+      .order("created_at", { ascending: true });
+
+    if (error) setError(error.message);
+    setPhotos((data as ShowPhotoRow[]) ?? []);
+  }, [showId]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const run = async (work: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await work();
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to update photos.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const upload = () =>
+    run(async () => {
+      if (!files.length) throw new Error("Choose one or more photos first.");
+      if (files.some((f) => !f.type.startsWith("image/"))) throw new Error("Photos must be image files.");
+
+      let sort_order = photos.length ? Math.max(...photos.map((p) => p.sort_order)) + 1 : 0;
+      for (const file of files) {
+        const ext = (file.name.split(".").pop() || "jpg").toLowerCase();
+        const path = `${showId}/${uuid()}.${ext}`;
+
+        const { error: upErr } = await supabase.storage.from("show-photos").upload(path, file, {
+          upsert: false,
+          contentType: file.type || undefined,
+          cacheControl: "3600",
+        });
+        if (upErr) throw new Error(upErr.message ?? "Storage upload failed");
+
+        const { data: urlData } = supabase.storage.from("show-photos").getPublicUrl(path);
+        const { error } = await supabase.from("show_photos").insert({
+          show_id: showId,
+          storage_path: path,
+          image_url: urlData.publicUrl,
+          caption: caption.trim() || null,
+          sort_order: sort_order++,
+        });
+        if (error) throw new Error(error.message);
+      }
+
+      setFiles([]);
+      setCaption("");
+    });
+
+  const move = (i: number, by: -1 | 1) => {
+    const j = i + by;
+    if (j < 0 || j >= photos.length) return;
+    const next = [...photos];
+    [next[i], next[j]] = [next[j], next[i]];
+
+    void run(async () => {
+      // renumber from the list order so the swap holds even if positions had gaps or repeats
+      const results = await Promise.all(
+        next
+          .map((p, sort_order) => ({ p, sort_order }))
+          .filter(({ p, sort_order }) => p.sort_order !== sort_order)
+          .map(({ p, sort_order }) => supabase.from("show_photos").update({ sort_order }).eq("id", p.id))
+      );
+      const failed = results.find((r) => r.error);
+      if (failed?.error) throw new Error(failed.error.message);
+    });
+  };
+
+  const remove = (photo: ShowPhotoRow) => {
+    const ok = window.confirm("Remove this photo?");
+    if (!ok) return;
+
+    void run(async () => {
+      const { error } = await supabase.from("show_photos").delete().eq("id", photo.id);
+      if (error) throw new Error(error.message);
+      // the row is what the site reads; a leftover file is harmless
+      await supabase.storage.from("show-photos").remove([photo.storage_path]);
+    });
+  };
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-black/25 p-4 space-y-3">
+      <div className="text-sm font-semibold text-white/80">Photos</div>
+      <div className="text-xs text-white/50">The show's gallery, shown on its page once it's past.</div>
+
+      {error && (
+        <div className="rounded-xl border border-red-500/30 bg-red-500/10 px-3 py-2 text-xs text-red-200">
+          {error}
+        </div>
+      )}
+
+      {photos.length === 0 ? (
+        <div className="text-xs text-white/50">No photos yet.</div>
+      ) : (
+        <div className="space-y-2">
+          {photos.map((p, i) => (
+            <div key={p.id} className="flex items-center gap-2">
+              <img src={p.image_url} alt="" className="w-12 h-12 rounded-lg object-cover" />
+              <div className="min-w-0 flex-1 text-xs text-white/60 truncate">{p.caption || "No caption"}</div>
+              <SmallButton onClick={() => move(i, -1)} disabled={busy || i === 0}>
+                ↑
+              </SmallButton>
+              <SmallButton onClick={() => move(i, 1)} disabled={busy || i === photos.length - 1}>
+                ↓
+              </SmallButton>
+              <SmallButton variant="danger" onClick={() => remove(p)} disabled={busy}>
+                ✕
+              </SmallButton>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2 pt-2">
+        <input
+          // remounts (and clears) after each upload
+          key={photos.length}
+          type="file"
+          accept="image/*"
+          multiple
+          onChange={(e) => setFiles(Array.from(e.target.files ?? []))}
+          className="block w-full text-sm text-white/70 file:mr-3 file:rounded-lg file:border file:border-white/15 file:bg-black/30 file:px-3 file:py-1.5 file:text-white/80 hover:file:bg-black/40"
+        />
+        <Field label="Caption (applies to this upload)" value={caption} onChange={setCaption} placeholder="Optional" />
+      </div>
+      <div className="flex justify-end">
+        <SmallButton variant="solid" onClick={() => void upload()} disabled={busy || !files.length}>
+          {busy ? "Uploading…" : `Upload${files.length > 1 ? ` ${files.length} photos` : ""}`}
+        </SmallButton>
+      </div>
+    </div>
+  );
+}
+
+/* ------------------ Small helper ------------------ */
+
+/* ------------------ PROMOTIONS ------------------ */
+
+// <input type="date"> works in local days; the table stores instants
+const dateInputOf = (iso: string | null) => {
+  if (!iso) return "";
+  const d = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+};
+
+const positiveIntOrNull = (raw: string) => {
+  const n = Number.parseInt(raw || "", 10);
+  return Number.isFinite(n) && n > 0 ? n : null;
+};
+
+function PromotionsPanel() {
+  const [items, setItems] = useState<PromoCode[]>([]);
+  const [stats, setStats] = useState<Record<string, PromoStatsRow>>({});
+  const [songs, setSongs] = useState<{ id: string; title: string }[]>([]);
+  const [products, setProducts] = useState<{ id: string; name: string | null }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const [code, setCode] = useState("");
+  const [description, setDescription] = useState("");
+  const [discountType, setDiscountType] = useState<PromoDiscountType>("percent");
+  // percent, or rands for fixed discounts
+  const [discountValue, setDiscountValue] = useState("10");
+  const [scope, setScope] = useState<PromoScope>("all");
+  const [songIds, setSongIds] = useState<string[]>([]);
+  const [productIds, setProductIds] = useState<string[]>([]);
+  const [minSubtotalZar, setMinSubtotalZar] = useState("");
+  const [startsOn, setStartsOn] = useState("");
+  const [expiresOn, setExpiresOn] = useState("");
+  const [maxRedemptions, setMaxRedemptions] = useState("");
+  const [perUserLimit, setPerUserLimit] = useState("1");
+  const [isActive, setIsActive] = useState(true);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setCode("");
+    setDescription("");
+    setDiscountType("percent");
+    setDiscountValue("10");
+    setScope("all");
+    setSongIds([]);
+    setProductIds([]);
+    setMinSubtotalZar("");
+    setStartsOn("");
+    setExpiresOn("");
+    setMaxRedemptions("");
+    setPerUserLimit("1");
+    setIsActive(true);
+  };
+
+  const load = async () => {
+    setLoading(true);
+    setError(null);
+
+    const [codesRes, statsRes] = await Promise.all([
+      supabase.from("promo_codes").select("*").order("created_at", { ascending: false }),
+      supabase.from("promo_code_stats").select("promo_code_id,redemptions,discount_cents,pending"),
+    ]);
+
+    if (codesRes.error) setError(codesRes.error.message);
+    setItems((codesRes.data as PromoCode[]) ?? []);
+    setStats(
+      Object.fromEntries(((statsRes.data as PromoStatsRow[]) ?? []).map((r) => [r.promo_code_id, r]))
+    );
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    void load();
+
+    // what "selected items" codes can point at
+    void supabase
+      .from("songs")
+      .select("id,title")
+      .order("title", { ascending: true })
+      .then(({ data }) => setSongs(data ?? []));
+    void supabase
+      .from("products")
+      .select("id,name")
+      .order("name", { ascending: true })
+      .then(({ data }) => setProducts(data ?? []));
+  }, []);
+
+  const onEdit = (row: PromoCode) => {
+    setEditingId(row.id);
+    setCode(row.code);
+    setDescription(row.description ?? "");
+    setDiscountType(row.discount_type);
+    setDiscountValue(
+      row.discount_type === "percent" ? String(row.discount_value) : String(row.discount_value / 100)
+    );
+    setScope(row.scope);
+    setSongIds(row.song_ids ?? []);
+    setProductIds(row.product_ids ?? []);
+    setMinSubtotalZar(row.min_subtotal_cents ? String(row.min_subtotal_cents / 100) : "");
+    setStartsOn(dateInputOf(row.starts_at));
+    setExpiresOn(dateInputOf(row.expires_at));
+    setMaxRedemptions(row.max_redemptions ? String(row.max_redemptions) : "");
+    setPerUserLimit(row.per_user_limit ? String(row.per_user_limit) : "");
+    setIsActive(row.is_active);
+    setError(null);
+  };
+
+  const setActive = async (row: PromoCode, active: boolean) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const { error } = await supabase.from("promo_codes").update({ is_active: active }).eq("id", row.id);
+      if (error) throw new Error(error.message);
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to update code.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleIn = (list: string[], id: string) =>
+    list.includes(id) ? list.filter((x) => x !== id) : [...list, id];
+
+  const onSave = async () => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const cleanCode = normalisePromoCode(code);
+      if (!/^[A-Z0-9_-]{3,32}$/.test(cleanCode)) {
+        throw new Error("Codes are 3–32 letters, numbers, dashes or underscores.");
+      }
+
+      const value =
+        discountType === "percent" ? positiveIntOrNull(discountValue) : toCents(discountValue) || null;
+      if (!value) throw new Error("Enter how much the code takes off.");
+      if (discountType === "percent" && value > 100) throw new Error("A percentage can't be more than 100.");
+      if (scope === "selected" && !songIds.length && !productIds.length) {
+        throw new Error("Pick at least one song or product for this code.");
+      }
+
+      const startsAt = startsOn ? new Date(`${startsOn}T00:00:00`).toISOString() : null;
+      // valid up to the end of the chosen day
+      const expiresAt = expiresOn ? new Date(`${expiresOn}T23:59:59`).toISOString() : null;
+      if (startsAt && expiresAt && expiresAt <= startsAt) throw new Error("The code expires before it starts.");
+
+      const payload = {
+        code: cleanCode,
+        description: description.trim() || null,
+        discount_type: discountType,
+        discount_value: value,
+        scope,
+        song_ids: scope === "selected" ? songIds : [],
+        product_ids: scope === "selected" ? productIds : [],
+        min_subtotal_cents: toCents(minSubtotalZar) || null,
+        starts_at: startsAt,
+        expires_at: expiresAt,
+        max_redemptions: positiveIntOrNull(maxRedemptions),
+        per_user_limit: positiveIntOrNull(perUserLimit),
+        is_active: isActive,
+      };
+
+      if (editingId) {
+        const { error } = await supabase.from("promo_codes").update(payload).eq("id", editingId);
+        if (error) throw new Error(error.message);
+      } else {
+        const { error } = await supabase.from("promo_codes").insert(payload);
+        if (error) throw new Error(error.code === "23505" ? `${cleanCode} already exists.` : error.message);
+      }
+
+      await load();
+      resetForm();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to save code.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const selectCls =
+    "w-full rounded-2xl border border-white/10 bg-black/40 px-4 py-3 text-white/90 outline-none focus:border-teal-400/40 focus:ring-2 focus:ring-teal-400/15";
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
+      <div className="lg:col-span-7">
+        <Card title="Promotions" subtitle="Discount codes shoppers can enter in the cart. Paid orders count as used; a checkout still being paid for holds one for an hour.">
+          {error && (
+            <div className="mb-4 rounded-xl border border-red-500/30 bg-red-500/10 px-4 py-3 text-sm text-red-200">
+              {error}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="text-white/60">Loading…</div>
+          ) : items.length === 0 ? (
+            <div className="text-white/60">No promo codes yet.</div>
+          ) : (
+            <div className="space-y-3">
+              {items.map((p) => {
+                const used = stats[p.id];
+                const expired = !!p.expires_at && new Date(p.expires_at) <= new Date();
+
+                return (
+                  <div
+                    key={p.id}
+                    className={[
+                      "rounded-2xl border border-white/10 bg-black/30 p-4 flex items-start justify-between gap-4",
+                      p.is_active && !expired ? "" : "opacity-60",
+                    ].join(" ")}
+                  >
+                    <div className="min-w-0">
+                      <div className="font-semibold truncate flex items-center gap-2">
+                        <span className="truncate font-mono">{p.code}</span>
+                        {!p.is_active ? (
+                          <span className="shrink-0 text-[11px] px-2 py-0.5 rounded-full border border-white/15 bg-white/5 text-white/70">
+                            Inactive
+                          </span>
+                        ) : expired ? (
+                          <span className="shrink-0 text-[11px] px-2 py-0.5 rounded-full border border-white/15 bg-white/5 text-white/70">
+                            Expired
+                          </span>
+                        ) : null}
+                      </div>
+
+                      <div className="text-xs text-white/60">
+                        {describePromo(p)}
+                        {p.min_subtotal_cents ? ` • min ${formatZar(p.min_subtotal_cents)}` : ""}
+                        {p.expires_at ? ` • until ${new Date(p.expires_at).toLocaleDateString("en-ZA")}` : ""}
+                      </div>
+
+                      <div className="mt-2 text-xs text-white/45">
+                        Used {used?.redemptions ?? 0}
+                        {p.max_redemptions ? ` / ${p.max_redemptions}` : ""}
+                        {p.per_user_limit ? ` • ${p.per_user_limit} per person` : ""}
+                        {used?.discount_cents ? ` • ${formatZar(used.discount_cents)} given` : ""}
+                        {used?.pending ? ` • ${used.pending} unpaid` : ""}
+                      </div>
+
+                      {p.description ? <div className="mt-1 text-xs text-white/45 truncate">{p.description}</div> : null}
+                    </div>
+
+                    <div className="flex gap-2 shrink-0">
+                      <SmallButton onClick={() => onEdit(p)}>Edit</SmallButton>
+                      {p.is_active ? (
+                        <SmallButton variant="danger" onClick={() => void setActive(p, false)} disabled={saving}>
+                          Deactivate
+                        </SmallButton>
+                      ) : (
+                        <SmallButton variant="solid" onClick={() => void setActive(p, true)} disabled={saving}>
+                          Activate
+                        </SmallButton>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </Card>
+      </div>
+
+      <div className="lg:col-span-5">
+        <Card title={editingId ? "Edit Code" : "Add Code"} subtitle="Checked again at checkout, so changes apply straight away.">
+          <div className="space-y-4">
+            <Field label="Code" value={code} onChange={(v) => setCode(v.toUpperCase())} placeholder="SUMMER25" />
+            <Field label="Description (optional)" value={description} onChange={setDescription} placeholder="Summer tour promo" />
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs text-white/60 mb-2">Discount</label>
+                <select
+                  value={discountType}
+                  onChange={(e) => setDiscountType(e.target.value as PromoDiscountType)}
+                  className={selectCls}
+                >
+                  <option value="percent">Percent off</option>
+                  <option value="fixed">Rands off</option>
+                </select>
+              </div>
+              <Field
+                label={discountType === "percent" ? "Percent" : "Amount (ZAR)"}
+                value={discountValue}
+                onChange={setDiscountValue}
+                type="number"
+                placeholder={discountType === "percent" ? "10" : "50"}
+              />
+            </div>
+
+            <div>
+              <label className="block text-xs text-white/60 mb-2">Applies to</label>
+              <select value={scope} onChange={(e) => setScope(e.target.value as PromoScope)} className={selectCls}>
+                {Object.entries(PROMO_SCOPE_LABEL).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {scope === "selected" && (
+              <div className="rounded-2xl border border-white/10 bg-black/25 p-4 space-y-3 max-h-72 overflow-y-auto">
+                <div className="text-xs text-white/60">Songs</div>
+                {songs.map((s) => (
+                  <label key={s.id} className="flex items-center gap-2 text-sm text-white/80">
+                    <input
+                      type="checkbox"
+                      checked={songIds.includes(s.id)}
+                      onChange={() => setSongIds((ids) => toggleIn(ids, s.id))}
+                      className="h-4 w-4 accent-teal-400"
+                    />
+                    {s.title}
+                  </label>
+                ))}
+
+                <div className="pt-2 text-xs text-white/60">Merch</div>
+                {products.map((p) => (
+                  <label key={p.id} className="flex items-center gap-2 text-sm text-white/80">
+                    <input
+                      type="checkbox"
+                      checked={productIds.includes(p.id)}
+                      onChange={() => setProductIds((ids) => toggleIn(ids, p.id))}
+                      className="h-4 w-4 accent-teal-400"
+                    />
+                    {p.name ?? "Untitled product"}
+                  </label>
+                ))}
+              </div>
+            )}
+
+            <Field
+              label="Minimum spend (ZAR, optional)"
+              value={minSubtotalZar}
+              onChange={setMinSubtotalZar}
+              type="number"
+              placeholder="200"
+            />
+
+            <div className="grid grid-cols-2 gap-3">
+              <Field label="Starts (optional)" value={startsOn} onChange={setStartsOn} type="date" />
+              <Field label="Expires (optional)" value={expiresOn} onChange={setExpiresOn} type="date" />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <Field
+                label="Total uses (blank = unlimited)"
+                value={maxRedemptions}
+                onChange={setMaxRedemptions}
+                type="number"
+                placeholder="100"
+              />
+              <Field
+                label="Uses per person"
+                value={perUserLimit}
+                onChange={setPerUserLimit}
+                type="number"
+                placeholder="1"
+              />
+            </div>
+
+            <ToggleRow label="Active" checked={isActive} onChange={setIsActive} disabled={saving} />
+
+            <div className="flex items-center justify-between pt-1">
+              {editingId ? (
+                <div className="text-xs text-white/55">Editing {code}</div>
+              ) : (
+                <div className="text-xs text-white/55">Creating a new code</div>
+              )}
+
+              <div className="flex gap-2">
+                {editingId && (
+                  <SmallButton
+                    onClick={() => {
+                      resetForm();
+                      setError(null);
+                    }}
+                    disabled={saving}
+                  >
+                    Cancel edit
+                  </SmallButton>
+                )}
+
+                <SmallButton variant="solid" onClick={() => void onSave()} disabled={saving}>
+                  {saving ? "Saving…" : editingId ? "Save changes" : "Add code"}
+                </SmallButton>
+              </div>
+            </div>
+          </div>
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+/* ------------------ ORDERS (search, refunds, cancellations) ------------------ */
+
+const ORDER_PAGE_SIZE = 50;
+
+/** The filters as of the last Search; editing the fields doesn't reload the list */
+type OrderSearch = { status: OrderStatus | ""; from: string; to: string; query: string };
+
+const NO_ORDER_SEARCH: OrderSearch = { status: "", from: "", to: "", query: "" };
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const orderItemLabel = (it: AdminOrderItemRow) => {
+  if (it.sku) {
+    const variant = [it.variant_colour, it.variant_size].filter(Boolean).join(" / ");
+    return `${it.title ?? "Merch"}${variant ? ` • ${variant}` : ""}`;
+  }
+  if (it.ticket_tier_id) return `${it.title ?? "Ticket"} • ticket`;
+  const song = it.songs?.[0] ?? null;
+  return `${song?.title ?? it.title ?? "Song"}${it.gift_email ? ` • gift to ${it.gift_email}` : ""}`;
+};
+
+function StatusBadge({ status }: { status: OrderStatus }) {
+  const tone =
+    status === "paid"
+      ? "border-teal-400/30 bg-teal-400/10 text-teal-200"
+      : status === "refunded" || status === "partially_refunded"
+      ? "border-amber-400/30 bg-amber-400/10 text-amber-200"
+      : status === "failed" || status === "cancelled"
+      ? "border-red-500/30 bg-red-500/10 text-red-200"
+      : "border-white/15 bg-white/5 text-white/70";
+
+  return (
+    <span className={`shrink-0 text-[11px] px-2 py-0.5 rounded-full border ${tone}`}>
+      {ORDER_STATUS_LABEL[status] ?? status}
+    </span>
+  );
+}
+
+function OrdersPanel() {
+  const [items, setItems] = useState<AdminOrderRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [statusFilter, setStatusFilter] = useState<OrderStatus | "">("");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [query, setQuery] = useState("");
+  const [search, setSearch] = useState<OrderSearch>(NO_ORDER_SEARCH);
+
+  const [selected, setSelected] = useState<AdminOrderRow | null>(null);
+  const [lines, setLines] = useState<AdminOrderItemRow[]>([]);
+  const [history, setHistory] = useState<OrderHistoryRow[]>([]);
+  const [detailLoading, setDetailLoading] = useState(false);
+
+  // refund form: units per order_items.id
+  const [refundQty, setRefundQty] = useState<Record<string, number>>({});
+  const [includeShipping, setIncludeShipping] = useState(false);
+  const [restock, setRestock] = useState(true);
+  const [amountZar, setAmountZar] = useState("");
+  const [reason, setReason] = useState("");
+  const [working, setWorking] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    let q = supabase
+      .from("admin_orders")
+      .select("*")
+      .order("created_at", { ascending: false })
+      .limit(ORDER_PAGE_SIZE);
+
+    if (search.status) q = q.eq("status", search.status);
+    if (search.from) q = q.gte("created_at", new Date(`${search.from}T00:00:00`).toISOString());
+    if (search.to) q = q.lte("created_at", new Date(`${search.to}T23:59:59`).toISOString());
+
+    const term = search.query.trim();
+    if (UUID_RE.test(term)) q = q.or(`id.eq.${term},user_id.eq.${term}`);
+    else if (term) q = q.ilike("customer_email", `%${term.replace(/[%_,()]/g, "")}%`);
+
+    const { data, error } = await q;
+    if (error) setError(error.message);
+    setItems((data as AdminOrderRow[]) ?? []);
+    setLoading(false);
+  }, [search]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const resetRefundForm = () => {
+    setRefundQty({});
+    setIncludeShipping(false);
+    setRestock(true);
+    setAmountZar("");
+    setReason("");
+  };
+
+  const openOrder = async (row: AdminOrderRow) => {
+    setSelected(row);
+    setDetailLoading(true);
+    setNotice(null);
+    setError(null);
+    resetRefundForm();
+
+    const [itemsRes, historyRes] = await Promise.all([
+      supabase
+        .from("order_items")
+        .select(
+          "id,quantity,price_cents,discount_cents,refunded_quantity,title,sku,variant_size,variant_colour,ticket_tier_id,gift_email,songs:song_catalog(title,artist)"
+        )
+        .eq("order_id", row.id),
+      supabase
+        .from("order_status_history")
+        .select("id,status,note,amount_cents,created_at")
+        .eq("order_id", row.id)
+        .order("created_at", { ascending: true }),
+    ]);
+
+    if (itemsRes.error) setError(itemsRes.error.message);
+    setLines(((itemsRes.data ?? []) as unknown) as AdminOrderItemRow[]);
+    setHistory((historyRes.data as OrderHistoryRow[]) ?? []);
+    setDetailLoading(false);
+  };
+
+  const refundItems: RefundItem[] = Object.entries(refundQty)
+    .filter(([, quantity]) => quantity > 0)
+    .map(([order_item_id, quantity]) => ({ order_item_id, quantity }));
+
+  const suggestedCents = selected
+    ? Math.min(
+        refundItems.reduce((sum, it) => {
+          const line = lines.find((l) => l.id === it.order_item_id);
+          return sum + (line ? lineRefundCents(line, it.quantity) : 0);
+        }, 0) + (includeShipping ? selected.shipping_cents ?? 0 : 0),
+        selected.total_cents - selected.refunded_cents
+      )
+    : 0;
+
+  const selectEverything = () => {
+    setRefundQty(Object.fromEntries(lines.map((l) => [l.id, l.quantity - l.refunded_quantity])));
+    setIncludeShipping(!!selected?.shipping_cents);
+    setAmountZar("");
+  };
+
+  // Re-read the list and the order so the new status and history show
+  const afterAction = async (orderId: string, message: string) => {
+    await load();
+    const { data } = await supabase.from("admin_orders").select("*").eq("id", orderId).maybeSingle();
+    if (data) await openOrder(data as AdminOrderRow);
+    setNotice(message);
+  };
+
+  const onRefund = async () => {
+    if (!selected) return;
+    setWorking(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      if (!refundItems.length && !includeShipping) throw new Error("Pick what's being refunded.");
+      const amount_cents = amountZar.trim() ? toCents(amountZar) : undefined;
+      if (amount_cents !== undefined && (amount_cents <= 0 || amount_cents > suggestedCents)) {
+        throw new Error(`The amount must be between R0.01 and R${(suggestedCents / 100).toFixed(2)}.`);
+      }
+
+      const result = await runOrderAction({
+        action: "refund",
+        order_id: selected.id,
+        items: refundItems,
+        include_shipping: includeShipping,
+        amount_cents,
+        restock,
+        reason: reason.trim() || undefined,
+      });
+      await afterAction(
+        selected.id,
+        `Refunded ${formatZar(result.amount_cents ?? 0)} — order is now ${ORDER_STATUS_LABEL[result.status].toLowerCase()}.`
+      );
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Refund failed.");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const onCancel = async () => {
+    if (!selected) return;
+    if (!window.confirm("Cancel this unpaid order?")) return;
+    setWorking(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      await runOrderAction({ action: "cancel", order_id: selected.id, reason: reason.trim() || undefined });
+      await afterAction(selected.id, "Order cancelled.");
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Cancel failed.");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const selectCls =
+    "w-full rounded-2xl border border-white/10 bg-black/40 px-4 py-3 text-white/90 outline-none focus:border-teal-400/40 focus:ring-2 focus:ring-teal-400/15";
+
+  const refundable = !!selected && REFUNDABLE_STATUSES.includes(selected.status);
+  const cancellable = !!selected && CANCELLABLE_STATUSES.includes(selected.status);
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
+      <div className="lg:col-span-7">
+        <Card title="Orders" subtitle={`Newest first, ${ORDER_PAGE_SIZE} at a time. Search by email, order id or user id.`}>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <Field label="Search" value={query} onChange={setQuery} placeholder="fan@example.com" />
+            <div>
+              <label className="block text-xs text-white/60 mb-2">Status</label>
+              <select
+                value={statusFilter}
+                onChange={(e) => setStatusFilter(e.target.value as OrderStatus | "")}
+                className={selectCls}
+              >
+                <option value="">Any status</option>
+                {ORDER_STATUSES.map((s) => (
+                  <option key={s} value={s}>
+                    {ORDER_STATUS_LABEL[s]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <Field label="From" value={fromDate} onChange={setFromDate} type="date" />
+            <Field label="To" value={toDate} onChange={setToDate} type="date" />
+          </div>
+
+          <div className="mt-3 flex justify-end">
+            <SmallButton
+              variant="solid"
+              onClick={() => setSearch({ status: statusFilter, from: fromDate, to: toDate, query })}
+              disabled={loading}
+            >
+              {loading ? "Searching…" : "Search"}
+            </SmallButton>
+          </div>
+
+          {error && !selected && (
+            <div className="mt-4 rounded-xl border border-red-500/30 bg-red-500/10 px-4 py-3 text-sm text-red-200">
+              {error}
+            </div>
+          )}
+
+          <div className="mt-4">
+            {loading ? (
+              <div className="text-white/60">Loading…</div>
+            ) : items.length === 0 ? (
+              <div className="text-white/60">No orders match.</div>
+            ) : (
+              <div className="space-y-2">
+                {items.map((o) => (
+                  <button
+                    key={o.id}
+                    type="button"
+                    onClick={() => void openOrder(o)}
+                    className={[
+                      "w-full text-left rounded-2xl border p-4 flex items-start justify-between gap-4 transition",
+                      selected?.id === o.id
+                        ? "border-teal-400/40 bg-teal-400/5"
+                        : "border-white/10 bg-black/30 hover:border-white/20",
+                    ].join(" ")}
+                  >
+                    <div className="min-w-0">
+                      <div className="font-semibold truncate flex items-center gap-2">
+                        <span className="truncate">{o.customer_email ?? o.user_id}</span>
+                        <StatusBadge status={o.status} />
+                      </div>
+                      <div className="text-xs text-white/60 truncate">
+                        {new Date(o.created_at).toLocaleString("en-ZA")} • {o.id}
+                      </div>
+                    </div>
+                    <div className="text-right shrink-0">
+                      <div className="font-semibold">{formatZar(o.total_cents)}</div>
+                      {o.refunded_cents ? (
+                        <div className="text-xs text-amber-200">−{formatZar(o.refunded_cents)}</div>
+                      ) : null}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </Card>
+      </div>
+
+      <div className="lg:col-span-5">
+        <Card
+          title={selected ? "Order" : "Pick an order"}
+          subtitle={selected ? selected.customer_email ?? selected.user_id : "Line items, history and refunds show here."}
+        >
+          {!selected ? (
+            <div className="text-white/60">Nothing selected.</div>
+          ) : detailLoading ? (
+            <div className="text-white/60">Loading…</div>
+          ) : (
+            <div className="space-y-5">
+              {error && (
+                <div className="rounded-xl border border-red-500/30 bg-red-500/10 px-4 py-3 text-sm text-red-200">
+                  {error}
+                </div>
+              )}
+              {notice && (
+                <div className="rounded-xl border border-teal-400/30 bg-teal-400/10 px-4 py-3 text-sm text-teal-100">
+                  {notice}
+                </div>
+              )}
+
+              <div className="text-xs text-white/60 break-all">
+                {selected.id}
+                <br />
+                {selected.provider ?? "—"} • total {formatZar(selected.total_cents)}
+                {selected.refunded_cents ? ` • refunded ${formatZar(selected.refunded_cents)}` : ""}
+              </div>
+
+              <div className="space-y-3">
+                {lines.map((it) => {
+                  const left = it.quantity - it.refunded_quantity;
+                  return (
+                    <div key={it.id} className="flex items-center justify-between gap-3 text-sm">
+                      <div className="min-w-0">
+                        <div className="font-semibold truncate">{orderItemLabel(it)}</div>
+                        <div className="text-xs text-white/60">
+                          Qty {it.quantity} • {formatZar(it.price_cents * it.quantity - (it.discount_cents ?? 0))}
+                          {it.refunded_quantity ? ` • ${it.refunded_quantity} refunded` : ""}
+                        </div>
+                      </div>
+                      {refundable && left > 0 ? (
+                        <input
+                          type="number"
+                          min={0}
+                          max={left}
+                          value={refundQty[it.id] ?? 0}
+                          onChange={(e) => {
+                            const n = Math.max(0, Math.min(left, Number.parseInt(e.target.value || "0", 10) || 0));
+                            setRefundQty((q) => ({ ...q, [it.id]: n }));
+                          }}
+                          aria-label="Units to refund"
+                          className="w-16 shrink-0 rounded-xl border border-white/10 bg-black/40 px-2 py-1.5 text-right text-white/90 outline-none focus:border-teal-400/40"
+                        />
+                      ) : null}
+                    </div>
+                  );
+                })}
+
+                {selected.shipping_method ? (
+                  <div className="flex items-center justify-between text-sm text-white/70">
+                    <div>{selected.shipping_method === "collect" ? "Collect at show" : "Courier delivery"}</div>
+                    <div>{selected.shipping_cents ? formatZar(selected.shipping_cents) : "Free"}</div>
+                  </div>
+                ) : null}
+              </div>
+
+              {refundable && (
+                <div className="space-y-3 border-t border-white/10 pt-4">
+                  <div className="flex items-center justify-between">
+                    <div className="text-sm font-semibold">Refund</div>
+                    <SmallButton onClick={selectEverything} disabled={working}>
+                      Select everything
+                    </SmallButton>
+                  </div>
+
+                  {selected.shipping_cents ? (
+                    <ToggleRow label="Refund delivery" checked={includeShipping} onChange={setIncludeShipping} disabled={working} />
+                  ) : null}
+                  <ToggleRow label="Put merch back in stock" checked={restock} onChange={setRestock} disabled={working} />
+
+                  <Field
+                    label={`Amount (ZAR, blank = R${(suggestedCents / 100).toFixed(2)})`}
+                    value={amountZar}
+                    onChange={setAmountZar}
+                    type="number"
+                    placeholder={(suggestedCents / 100).toFixed(2)}
+                  />
+                  <TextArea
+                    label="Reason (optional, not shown to the customer)"
+                    value={reason}
+                    onChange={setReason}
+                    rows={2}
+                    placeholder="Size sold out after payment"
+                  />
+
+                  <div className="flex justify-end">
+                    <SmallButton variant="danger" onClick={() => void onRefund()} disabled={working || suggestedCents <= 0}>
+                      {working ? "Refunding…" : "Refund"}
+                    </SmallButton>
+                  </div>
+                </div>
+              )}
+
+              {cancellable && (
+                <div className="space-y-3 border-t border-white/10 pt-4">
+                  <TextArea label="Note to the customer (optional)" value={reason} onChange={setReason} rows={2} />
+                  <div className="flex justify-end">
+                    <SmallButton variant="danger" onClick={() => void onCancel()} disabled={working}>
+                      {working ? "Cancelling…" : "Cancel order"}
+                    </SmallButton>
+                  </div>
+                </div>
+              )}
+
+              <div className="border-t border-white/10 pt-4">
+                <div className="text-sm font-semibold mb-2">History</div>
+                {history.length === 0 ? (
+                  <div className="text-xs text-white/60">No history recorded.</div>
+                ) : (
+                  <ol className="space-y-2">
+                    {history.map((h) => (
+                      <li key={h.id} className="text-xs text-white/70">
+                        <span className="text-white/90 font-semibold">{ORDER_STATUS_LABEL[h.status] ?? h.status}</span>
+                        {h.amount_cents ? ` • ${formatZar(h.amount_cents)}` : ""} •{" "}
+                        {new Date(h.created_at).toLocaleString("en-ZA")}
+                        {h.note ? <div className="text-white/55 italic">“{h.note}”</div> : null}
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </div>
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+/* ------------------ DEMAND (booking signals triage) ------------------ */
+
+const SIGNAL_PAGE_SIZE = 500;
+
+/** The filters as of the last Search; editing the fields doesn't reload the list */
+type SignalSearch = {
+  status: SignalStatus | "";
+  province: string;
+  venuesOnly: boolean;
+  showDuplicates: boolean;
+  quarantinedOnly: boolean;
+  from: string;
+  to: string;
+  query: string;
+};
+
+const NO_SIGNAL_SEARCH: SignalSearch = {
+  status: "",
+  province: "",
+  venuesOnly: false,
+  showDuplicates: false,
+  quarantinedOnly: false,
+  from: "",
+  to: "",
+  query: "",
+};
+
+const SIGNAL_COLUMNS =
+  "id,name,town,province,wants_show,is_venue,message,source,status,admin_notes,status_changed_at,duplicate_of,quarantined,quarantine_reasons,created_at";
+
+function SignalBadge({ status }: { status: SignalStatus }) {
+  const tone =
+    status === "booked"
+      ? "border-teal-400/30 bg-teal-400/10 text-teal-200"
+      : status === "contacted"
+      ? "border-amber-400/30 bg-amber-400/10 text-amber-200"
+      : status === "ignored"
+      ? "border-white/10 bg-white/5 text-white/40"
+      : "border-white/15 bg-white/5 text-white/70";
+
+  return (
+    <span className={`shrink-0 text-[11px] px-2 py-0.5 rounded-full border ${tone}`}>
+      {SIGNAL_STATUS_LABEL[status] ?? status}
+    </span>
+  );
+}
+
+const signalPlace = (s: BookingSignal) => [s.town, s.province].filter(Boolean).join(", ") || "Unknown town";
+
+function DemandPanel() {
+  const [items, setItems] = useState<BookingSignal[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const [statusFilter, setStatusFilter] = useState<SignalStatus | "">("");
+  const [provinceFilter, setProvinceFilter] = useState("");
+  const [venuesOnly, setVenuesOnly] = useState(false);
+  const [showDuplicates, setShowDuplicates] = useState(false);
+  const [quarantinedOnly, setQuarantinedOnly] = useState(false);
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [query, setQuery] = useState("");
+  const [search, setSearch] = useState<SignalSearch>(NO_SIGNAL_SEARCH);
+
+  const [selected, setSelected] = useState<BookingSignal | null>(null);
+  const [repeats, setRepeats] = useState<BookingSignal[]>([]);
+  const [notes, setNotes] = useState("");
+  const [working, setWorking] = useState(false);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    let q = supabase
+      .from("booking_signals")
+      .select(SIGNAL_COLUMNS)
+      .order("created_at", { ascending: false })
+      .limit(SIGNAL_PAGE_SIZE);
+
+    if (search.status) q = q.eq("status", search.status);
+    if (search.province) q = q.eq("province", search.province);
+    if (search.venuesOnly) q = q.eq("is_venue", true);
+    if (!search.showDuplicates) q = q.is("duplicate_of", null);
+    q = q.eq("quarantined", search.quarantinedOnly);
+    if (search.from) q = q.gte("created_at", new Date(`${search.from}T00:00:00`).toISOString());
+    if (search.to) q = q.lte("created_at", new Date(`${search.to}T23:59:59`).toISOString());
+
+    const term = search.query.trim().replace(/[%_,()]/g, "");
+    if (term) q = q.or(`name.ilike.%${term}%,town.ilike.%${term}%,message.ilike.%${term}%`);
+
+    const { data, error } = await q;
+    if (error) setError(error.message);
+    setItems((data as BookingSignal[]) ?? []);
+    setLoading(false);
+  }, [search]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const openSignal = async (s: BookingSignal) => {
+    setSelected(s);
+    setNotes(s.admin_notes ?? "");
+    setNotice(null);
+    setError(null);
+    setRepeats([]);
+
+    const { data, error } = await supabase
+      .from("booking_signals")
+      .select(SIGNAL_COLUMNS)
+      .eq("duplicate_of", s.id)
+      .order("created_at", { ascending: true });
+    if (error) setError(error.message);
+    setRepeats((data as BookingSignal[]) ?? []);
+  };
+
+  // keep the list and the open signal in step after an edit
+  const applyEdit = (id: string, patch: Partial<BookingSignal>) => {
+    setItems((list) => list.map((s) => (s.id === id ? { ...s, ...patch } : s)));
+    setSelected((s) => (s?.id === id ? { ...s, ...patch } : s));
+  };
+
+  const update = async (id: string, patch: Partial<BookingSignal>, done: string) => {
+    setWorking(true);
+    setError(null);
+    setNotice(null);
+
+    const { error } = await supabase.from("booking_signals").update(patch).eq("id", id);
+    if (error) setError(error.message);
+    else {
+      applyEdit(id, patch);
+      setNotice(done);
+    }
+    setWorking(false);
+  };
+
+  const setStatus = (s: BookingSignal, status: SignalStatus) =>
+    update(s.id, { status, status_changed_at: new Date().toISOString() }, `Marked ${SIGNAL_STATUS_LABEL[status].toLowerCase()}.`);
+
+  const notDuplicate = async (s: BookingSignal) => {
+    setWorking(true);
+    setError(null);
+
+    const { error } = await supabase.from("booking_signals").update({ duplicate_of: null }).eq("id", s.id);
+    if (error) setError(error.message);
+    else {
+      setRepeats((list) => list.filter((r) => r.id !== s.id));
+      applyEdit(s.id, { duplicate_of: null });
+      setNotice("Kept as a separate signal.");
+    }
+    setWorking(false);
+  };
+
+  // looks across every signal, not just the filtered list, so repeats are
+  // caught however far apart they came in
+  const markDuplicates = async () => {
+    setWorking(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const { data, error } = await supabase
+        .from("booking_signals")
+        .select("id,name,town,province,is_venue,duplicate_of,created_at")
+        .is("duplicate_of", null)
+        .not("name", "is", null);
+      if (error) throw new Error(error.message);
+
+      const found = findDuplicates((data as SignalIdentity[]) ?? []);
+      if (found.length === 0) {
+        setNotice("No repeat submitters found.");
+        return;
+      }
+      if (!window.confirm(`Mark ${found.length} repeat submission${found.length === 1 ? "" : "s"} as duplicates?`)) return;
+
+      const byOriginal = new Map<string, string[]>();
+      for (const d of found) byOriginal.set(d.duplicate_of, [...(byOriginal.get(d.duplicate_of) ?? []), d.id]);
+
+      for (const [original, ids] of byOriginal) {
+        const { error } = await supabase.from("booking_signals").update({ duplicate_of: original }).in("id", ids);
+        if (error) throw new Error(error.message);
+      }
+
+      setSelected(null);
+      await load();
+      setNotice(`Marked ${found.length} duplicate${found.length === 1 ? "" : "s"}.`);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not mark duplicates.");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const exportCsv = () => {
+    // the BOM makes Excel read the file as UTF-8
+    const blob = new Blob(["\uFEFF", signalsCsv(items)], { type: "text/csv;charset=utf-8" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `booking-signals-${new Date().toISOString().slice(0, 10)}.csv`;
+    link.click();
+    window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const selectCls =
+    "w-full rounded-2xl border border-white/10 bg-black/40 px-4 py-3 text-white/90 outline-none focus:border-teal-400/40 focus:ring-2 focus:ring-teal-400/15";
+
+  const matched = selected?.town ? geocodeTown(selected.town, selected.province) : null;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
+      <div className="lg:col-span-7">
+        <Card
+          title="Demand"
+          subtitle={`Booking requests from the pin button, newest first (up to ${SIGNAL_PAGE_SIZE}). Search by name, town or message.`}
+        >
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <Field label="Search" value={query} onChange={setQuery} placeholder="Pretoria" />
+            <div>
+              <label className="block text-xs text-white/60 mb-2">Status</label>
+              <select
+                value={statusFilter}
+                onChange={(e) => setStatusFilter(e.target.value as SignalStatus | "")}
+                className={selectCls}
+              >
+                <option value="">Any status</option>
+                {SIGNAL_STATUSES.map((s) => (
+                  <option key={s} value={s}>
+                    {SIGNAL_STATUS_LABEL[s]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs text-white/60 mb-2">Province</label>
+              <select value={provinceFilter} onChange={(e) => setProvinceFilter(e.target.value)} className={selectCls}>
+                <option value="">Any province</option>
+                {PROVINCES.map((p) => (
+                  <option key={p} value={p}>
+                    {p}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <Field label="From" value={fromDate} onChange={setFromDate} type="date" />
+              <Field label="To" value={toDate} onChange={setToDate} type="date" />
+            </div>
+            <ToggleRow label="Venues only" checked={venuesOnly} onChange={setVenuesOnly} />
+            <ToggleRow label="Include duplicates" checked={showDuplicates} onChange={setShowDuplicates} />
+            <ToggleRow label="Quarantined only" checked={quarantinedOnly} onChange={setQuarantinedOnly} />
+          </div>
+
+          <div className="mt-3 flex flex-wrap justify-end gap-2">
+            <SmallButton onClick={() => void markDuplicates()} disabled={working}>
+              Mark duplicates
+            </SmallButton>
+            <SmallButton onClick={exportCsv} disabled={loading || items.length === 0}>
+              Export CSV
+            </SmallButton>
+            <SmallButton
+              variant="solid"
+              onClick={() =>
+                setSearch({
+                  status: statusFilter,
+                  province: provinceFilter,
+                  venuesOnly,
+                  showDuplicates,
+                  quarantinedOnly,
+                  from: fromDate,
+                  to: toDate,
+                  query,
+                })
+              }
+              disabled={loading}
+            >
+              {loading ? "Searching…" : "Search"}
+            </SmallButton>
+          </div>
+
+          {error && !selected && (
+            <div className="mt-4 rounded-xl border border-red-500/30 bg-red-500/10 px-4 py-3 text-sm text-red-200">
+              {error}
+            </div>
+          )}
+          {notice && !selected && (
+            <div className="mt-4 rounded-xl border border-teal-400/30 bg-teal-400/10 px-4 py-3 text-sm text-teal-100">
+              {notice}
+            </div>
+          )}
+
+          <div className="mt-4">
+            {loading ? (
+              <div className="text-white/60">Loading…</div>
+            ) : items.length === 0 ? (
+              <div className="text-white/60">No signals match.</div>
+            ) : (
+              <div className="space-y-2">
+                {items.map((s) => (
+                  <button
+                    key={s.id}
+                    type="button"
+                    onClick={() => void openSignal(s)}
+                    className={[
+                      "w-full text-left rounded-2xl border p-4 flex items-start justify-between gap-4 transition",
+                      selected?.id === s.id
+                        ? "border-teal-400/40 bg-teal-400/5"
+                        : "border-white/10 bg-black/30 hover:border-white/20",
+                    ].join(" ")}
+                  >
+                    <div className="min-w-0">
+                      <div className="font-semibold truncate flex items-center gap-2">
+                        <span className="truncate">{s.name || "Anonymous"}</span>
+                        {s.is_venue && (
+                          <span className="shrink-0 text-[11px] px-2 py-0.5 rounded-full border border-teal-400/30 text-teal-200">
+                            Venue
+                          </span>
+                        )}
+                        {s.duplicate_of && (
+                          <span className="shrink-0 text-[11px] px-2 py-0.5 rounded-full border border-white/15 text-white/50">
+                            Duplicate
+                          </span>
+                        )}
+                        {s.quarantined && (
+                          <span className="shrink-0 text-[11px] px-2 py-0.5 rounded-full border border-red-500/30 text-red-200">
+                            Quarantined
+                          </span>
+                        )}
+                      </div>
+                      <div className="text-xs text-white/60 truncate">
+                        {signalPlace(s)} • {new Date(s.created_at).toLocaleString("en-ZA")}
+                      </div>
+                      {s.message && <div className="mt-1 text-xs text-white/50 truncate">{s.message}</div>}
+                    </div>
+                    <SignalBadge status={s.status} />
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </Card>
+      </div>
+
+      <div className="lg:col-span-5">
+        <Card
+          title={selected ? selected.name || "Anonymous" : "Pick a signal"}
+          subtitle={selected ? signalPlace(selected) : "Status, notes and repeat submissions show here."}
+        >
+          {!selected ? (
+            <div className="text-white/60">Nothing selected.</div>
+          ) : (
+            <div className="space-y-5">
+              {error && (
+                <div className="rounded-xl border border-red-500/30 bg-red-500/10 px-4 py-3 text-sm text-red-200">
+                  {error}
+                </div>
+              )}
+              {notice && (
+                <div className="rounded-xl border border-teal-400/30 bg-teal-400/10 px-4 py-3 text-sm text-teal-100">
+                  {notice}
+                </div>
+              )}
+
+              <div className="text-xs text-white/60 break-all">
+                {selected.id}
+                <br />
+                {new Date(selected.created_at).toLocaleString("en-ZA")} • via {selected.source ?? "—"}
+                <br />
+                {[selected.is_venue ? "Venue" : "Fan", selected.wants_show ? "wants a show" : null]
+                  .filter(Boolean)
+                  .join(" • ")}
+                {matched ? ` • map: ${matched.place.name}${matched.exact ? "" : " (close spelling)"}` : " • not on the map"}
+              </div>
+
+              {selected.quarantined ? (
+                <div className="rounded-xl border border-red-500/30 bg-red-500/10 px-4 py-3 text-sm text-red-200 flex items-center justify-between gap-3">
+                  <div>
+                    Quarantined as likely spam
+                    {selected.quarantine_reasons.length ? `: ${selected.quarantine_reasons.join(", ")}` : ""}. Not on the
+                    demand map.
+                  </div>
+                  <SmallButton
+                    onClick={() => void update(selected.id, { quarantined: false }, "Released onto the demand map.")}
+                    disabled={working}
+                  >
+                    Release
+                  </SmallButton>
+                </div>
+              ) : (
+                <div className="flex justify-end">
+                  <SmallButton
+                    variant="danger"
+                    onClick={() => void update(selected.id, { quarantined: true }, "Quarantined; off the demand map.")}
+                    disabled={working}
+                  >
+                    Quarantine as spam
+                  </SmallButton>
+                </div>
+              )}
+
+              {selected.message && (
+                <div className="rounded-2xl border border-white/10 bg-black/25 px-4 py-3 text-sm text-white/80 whitespace-pre-wrap">
+                  {selected.message}
+                </div>
+              )}
+
+              <div>
+                <div className="text-sm font-semibold mb-2">Status</div>
+                <div className="flex flex-wrap gap-2">
+                  {SIGNAL_STATUSES.map((s) => (
+                    <SmallButton
+                      key={s}
+                      variant={selected.status === s ? "solid" : "ghost"}
+                      onClick={() => void setStatus(selected, s)}
+                      disabled={working || selected.status === s}
+                    >
+                      {SIGNAL_STATUS_LABEL[s]}
+                    </SmallButton>
+                  ))}
+                </div>
+                {selected.status_changed_at && (
+                  <div className="mt-2 text-xs text-white/50">
+                    Since {new Date(selected.status_changed_at).toLocaleString("en-ZA")}
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <TextArea
+                  label="Notes (admins only)"
+                  value={notes}
+                  onChange={setNotes}
+                  placeholder="Spoke to the owner, wants a Friday in March…"
+                  rows={4}
+                />
+                <div className="mt-2 flex justify-end">
+                  <SmallButton
+                    variant="solid"
+                    onClick={() => void update(selected.id, { admin_notes: notes.trim() || null }, "Notes saved.")}
+                    disabled={working || notes.trim() === (selected.admin_notes ?? "")}
+                  >
+                    Save notes
+                  </SmallButton>
+                </div>
+              </div>
+
+              {selected.duplicate_of ? (
+                <div className="border-t border-white/10 pt-4 flex items-center justify-between gap-3">
+                  <div className="text-xs text-white/60">A repeat of an earlier signal; left off the demand map.</div>
+                  <SmallButton onClick={() => void notDuplicate(selected)} disabled={working}>
+                    Not a duplicate
+                  </SmallButton>
+                </div>
+              ) : repeats.length > 0 ? (
+                <div className="border-t border-white/10 pt-4">
+                  <div className="text-sm font-semibold mb-2">Also sent</div>
+                  <ol className="space-y-2">
+                    {repeats.map((r) => (
+                      <li key={r.id} className="flex items-start justify-between gap-3 text-xs text-white/70">
+                        <div className="min-w-0">
+                          {new Date(r.created_at).toLocaleString("en-ZA")} • {signalPlace(r)}
+                          {r.message ? <div className="text-white/55 italic truncate">“{r.message}”</div> : null}
+                        </div>
+                        <SmallButton onClick={() => void notDuplicate(r)} disabled={working}>
+                          Not a duplicate
+                        </SmallButton>
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              ) : null}
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
 
 function ToggleRow({
   label,
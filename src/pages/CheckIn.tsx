@@ -0,0 +1,410 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { NavLink, useParams } from "react-router-dom";
+import jsQR from "jsqr";
+import Navbar from "../components/layout/Navbar";
+import {
+  applyResults,
+  checkOffline,
+  fetchDoorList,
+  loadCachedList,
+  loadQueue,
+  saveCachedList,
+  saveQueue,
+  sendScans,
+  type DoorList,
+} from "../lib/ticketCheckin";
+import { FunctionCallError } from "../lib/functionsClient";
+import { CHECK_IN_LABEL, ticketShortCode, type CheckInResult, type DoorScan } from "../lib/tickets";
+
+type ScanLog = CheckInResult & {
+  at: string;
+  /** checked against the cached list; the server hasn't seen it yet */
+  offline: boolean;
+};
+
+/** The camera sees the same code many times a second while it's held up */
+const RESCAN_AFTER_MS = 3000;
+const DECODE_EVERY_MS = 200;
+const LOG_SIZE = 30;
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString("en-ZA", { hour: "2-digit", minute: "2-digit", second: "2-digit" });
+
+function Scanner({ onCode, onError }: { onCode: (text: string) => void; onError: (message: string) => void }) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const onCodeRef = useRef(onCode);
+  const onErrorRef = useRef(onError);
+
+  useEffect(() => {
+    onCodeRef.current = onCode;
+    onErrorRef.current = onError;
+  });
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let frame = 0;
+    let lastDecode = 0;
+    let stopped = false;
+    const canvas = document.createElement("canvas");
+    const ctx = canvas.getContext("2d", { willReadFrequently: true });
+
+    const tick = (now: number) => {
+      if (stopped) return;
+      frame = requestAnimationFrame(tick);
+
+      const video = videoRef.current;
+      if (!video || !ctx || video.readyState < video.HAVE_ENOUGH_DATA || now - lastDecode < DECODE_EVERY_MS) return;
+      lastDecode = now;
+
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      const found = jsQR(image.data, image.width, image.height, { inversionAttempts: "dontInvert" });
+      if (found?.data) onCodeRef.current(found.data);
+    };
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: "environment" }, audio: false })
+      .then((media) => {
+        if (stopped) {
+          media.getTracks().forEach((t) => t.stop());
+          return;
+        }
+        stream = media;
+        const video = videoRef.current;
+        if (video) {
+          video.srcObject = media;
+          void video.play();
+        }
+        frame = requestAnimationFrame(tick);
+      })
+      .catch((err) => {
+        onErrorRef.current(err instanceof Error ? err.message : "Camera unavailable");
+      });
+
+    return () => {
+      stopped = true;
+      cancelAnimationFrame(frame);
+      stream?.getTracks().forEach((t) => t.stop());
+    };
+  }, []);
+
+  return <video ref={videoRef} muted playsInline className="w-full aspect-square object-cover rounded-2xl bg-black" />;
+}
+
+export default function CheckIn() {
+  const { showId = "" } = useParams();
+
+  const [list, setList] = useState<DoorList | null>(() => loadCachedList(showId));
+  const [queue, setQueue] = useState<DoorScan[]>(() => loadQueue(showId));
+  const [online, setOnline] = useState(() => navigator.onLine);
+  // the crew can force offline mode when the signal is there but useless
+  const [workOffline, setWorkOffline] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const [log, setLog] = useState<ScanLog[]>([]);
+  const [manual, setManual] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [syncing, setSyncing] = useState(false);
+  const [syncNote, setSyncNote] = useState<string | null>(null);
+  const [cameraOn, setCameraOn] = useState(false);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+
+  const lastRead = useRef<{ text: string; at: number } | null>(null);
+  const listRef = useRef(list);
+  useEffect(() => {
+    listRef.current = list;
+  }, [list]);
+
+  const updateList = useCallback((next: DoorList) => {
+    listRef.current = next;
+    saveCachedList(next);
+    setList(next);
+  }, []);
+
+  const record = useCallback((results: CheckInResult[], offline: boolean) => {
+    const at = new Date().toISOString();
+    setLog((prev) => [...results.map((r) => ({ ...r, at, offline })).reverse(), ...prev].slice(0, LOG_SIZE));
+  }, []);
+
+  /** Sends whatever was scanned offline. Anything another door got first comes back as a conflict. */
+  const syncQueue = useCallback(async () => {
+    const pending = loadQueue(showId);
+    if (!pending.length) return;
+
+    setSyncing(true);
+    setSyncNote(null);
+    try {
+      const results = await sendScans(showId, pending);
+      saveQueue(showId, []);
+      setQueue([]);
+
+      const conflicts = results.filter((r) => r.outcome !== "ok");
+      if (conflicts.length) record(conflicts, false);
+      setSyncNote(
+        `Synced ${results.length} offline scan${results.length === 1 ? "" : "s"}` +
+          (conflicts.length ? ` — ${conflicts.length} had already been used or refunded (see below).` : ".")
+      );
+
+      updateList(await fetchDoorList(showId));
+    } catch (err) {
+      setSyncNote(`Sync failed: ${err instanceof Error ? err.message : "try again"}`);
+    } finally {
+      setSyncing(false);
+    }
+  }, [showId, record, updateList]);
+
+  useEffect(() => {
+    fetchDoorList(showId)
+      .then((fresh) => {
+        updateList(fresh);
+        setLoadError(null);
+      })
+      .catch((err) => setLoadError(err instanceof Error ? err.message : "Could not load the ticket list."));
+  }, [showId, updateList]);
+
+  useEffect(() => {
+    const goOnline = () => {
+      setOnline(true);
+      void syncQueue();
+    };
+    const goOffline = () => setOnline(false);
+
+    window.addEventListener("online", goOnline);
+    window.addEventListener("offline", goOffline);
+    return () => {
+      window.removeEventListener("online", goOnline);
+      window.removeEventListener("offline", goOffline);
+    };
+  }, [syncQueue]);
+
+  const scanOffline = (scan: DoorScan) => {
+    const current = listRef.current;
+    if (!current) {
+      setLoadError("No ticket list on this device yet — connect once to download it.");
+      return;
+    }
+
+    const result = checkOffline(current, scan);
+    if (result.outcome === "ok") {
+      const next = [...loadQueue(showId), scan];
+      saveQueue(showId, next);
+      setQueue(next);
+      updateList(applyResults(current, [result]));
+    }
+    record([result], true);
+  };
+
+  const scan = async (text: string) => {
+    const raw = text.trim();
+    if (!raw) return;
+
+    const now = Date.now();
+    if (lastRead.current && lastRead.current.text === raw && now - lastRead.current.at < RESCAN_AFTER_MS) return;
+    lastRead.current = { text: raw, at: now };
+
+    const entry: DoorScan = { code: raw, scanned_at: new Date(now).toISOString() };
+    if (workOffline || !online) {
+      scanOffline(entry);
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const results = await sendScans(showId, [entry]);
+      record(results, false);
+      if (listRef.current) updateList(applyResults(listRef.current, results));
+    } catch (err) {
+      // fetch itself failing means the connection dropped: fall back to the cached list
+      if (err instanceof FunctionCallError && err.code === "network") scanOffline(entry);
+      else setLoadError(err instanceof Error ? err.message : "Check-in failed.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const submitManual = () => {
+    void scan(manual);
+    setManual("");
+  };
+
+  const last = log[0] ?? null;
+  const valid = list?.tickets.filter((t) => t.status === "valid") ?? [];
+  const inside = valid.filter((t) => t.checked_in_at).length;
+  const offlineMode = workOffline || !online;
+
+  return (
+    <div className="relative min-h-screen text-white bg-black flex flex-col">
+      <Navbar />
+
+      <main className="flex-1">
+        <div className="h-20" />
+
+        <div className="mx-auto max-w-3xl px-4 py-6 space-y-5">
+          <header className="flex items-start justify-between gap-4">
+            <div className="min-w-0">
+              <NavLink to="/admin" className="text-xs text-white/50 hover:text-white/80">
+                ← Admin
+              </NavLink>
+              <h1 className="mt-1 text-3xl font-black tracking-tight truncate">
+                Door{" "}
+                <span className="text-teal-300">{list?.show.title || list?.show.venue || "check-in"}</span>
+              </h1>
+              {list ? (
+                <p className="text-sm text-white/60">
+                  {[list.show.venue, list.show.city, list.show.show_date].filter(Boolean).join(" • ")}
+                </p>
+              ) : null}
+            </div>
+            <div className="shrink-0 text-right">
+              <div className="text-xs text-white/60">Inside</div>
+              <div className="text-2xl font-black tabular-nums">
+                {inside}
+                <span className="text-white/40 text-base"> / {valid.length}</span>
+              </div>
+            </div>
+          </header>
+
+          {loadError && (
+            <div className="rounded-xl border border-red-500/30 bg-red-500/10 px-4 py-3 text-sm text-red-200">
+              {loadError}
+              {list ? ` Using the list saved ${new Date(list.fetched_at).toLocaleString("en-ZA")}.` : ""}
+            </div>
+          )}
+
+          <div
+            className={`rounded-xl border px-4 py-3 text-sm flex items-center justify-between gap-3 ${
+              offlineMode ? "border-amber-400/30 bg-amber-400/10 text-amber-100" : "border-white/10 bg-white/5 text-white/70"
+            }`}
+          >
+            <div>
+              {offlineMode
+                ? `Offline — checking against the saved list. ${queue.length} scan${queue.length === 1 ? "" : "s"} waiting to sync.`
+                : queue.length
+                  ? `${queue.length} offline scan${queue.length === 1 ? "" : "s"} waiting to sync.`
+                  : "Online — every scan is checked with the server."}
+            </div>
+            <div className="flex shrink-0 gap-2">
+              {queue.length > 0 && !offlineMode && (
+                <button
+                  type="button"
+                  onClick={() => void syncQueue()}
+                  disabled={syncing}
+                  className="rounded-lg border border-white/15 bg-white/10 px-3 py-1.5 text-xs font-semibold disabled:opacity-60"
+                >
+                  {syncing ? "Syncing…" : "Sync now"}
+                </button>
+              )}
+              <label className="flex items-center gap-2 text-xs">
+                <input
+                  type="checkbox"
+                  checked={workOffline}
+                  onChange={(e) => setWorkOffline(e.target.checked)}
+                  className="h-4 w-4 accent-teal-400"
+                />
+                Work offline
+              </label>
+            </div>
+          </div>
+
+          {syncNote && <div className="text-sm text-white/70">{syncNote}</div>}
+
+          {last && (
+            <div
+              className={`rounded-2xl border px-5 py-4 ${
+                last.outcome === "ok"
+                  ? "border-teal-400/40 bg-teal-400/15 text-teal-50"
+                  : "border-red-500/40 bg-red-500/15 text-red-50"
+              }`}
+            >
+              <div className="text-2xl font-black">{CHECK_IN_LABEL[last.outcome]}</div>
+              <div className="mt-1 text-sm opacity-80">
+                {last.ticket ? `${last.ticket.tier_name ?? "Ticket"} • ${ticketShortCode(last.ticket.code)}` : last.code}
+                {last.outcome === "already_used" && last.ticket?.checked_in_at
+                  ? ` • scanned ${formatTime(last.ticket.checked_in_at)}`
+                  : ""}
+                {last.offline ? " • offline check" : ""}
+              </div>
+            </div>
+          )}
+
+          <div className="rounded-2xl border border-white/10 bg-white/5 p-4 space-y-3">
+            {cameraOn ? (
+              <Scanner
+                onCode={(text) => void scan(text)}
+                onError={(message) => {
+                  setCameraError(message);
+                  setCameraOn(false);
+                }}
+              />
+            ) : (
+              <button
+                type="button"
+                onClick={() => {
+                  setCameraError(null);
+                  setCameraOn(true);
+                }}
+                className="w-full rounded-2xl border border-white/15 bg-white/10 py-10 text-lg font-bold hover:bg-white/15"
+              >
+                Start camera
+              </button>
+            )}
+            {cameraOn && (
+              <button
+                type="button"
+                onClick={() => setCameraOn(false)}
+                className="w-full rounded-xl border border-white/10 bg-black/30 py-2 text-sm text-white/70"
+              >
+                Stop camera
+              </button>
+            )}
+            {cameraError && <div className="text-xs text-red-200">Camera: {cameraError}</div>}
+
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                submitManual();
+              }}
+            >
+              <input
+                value={manual}
+                onChange={(e) => setManual(e.target.value)}
+                placeholder="Type the code under the QR (e.g. 3F9A12BC)"
+                autoCapitalize="characters"
+                autoComplete="off"
+                className="min-w-0 flex-1 rounded-xl border border-white/10 bg-black/40 px-4 py-3 font-mono tracking-widest text-white/90 placeholder:font-sans placeholder:tracking-normal placeholder:text-white/40 outline-none focus:border-teal-400/40"
+              />
+              <button
+                type="submit"
+                disabled={busy || !manual.trim()}
+                className="rounded-xl border border-white/15 bg-white/10 px-4 text-sm font-semibold disabled:opacity-60"
+              >
+                Check
+              </button>
+            </form>
+          </div>
+
+          {log.length > 0 && (
+            <ol className="space-y-1 text-sm">
+              {log.map((entry, i) => (
+                <li key={`${entry.at}-${i}`} className="flex items-center justify-between gap-3 text-white/70">
+                  <span className="truncate">
+                    <span className={entry.outcome === "ok" ? "text-teal-300" : "text-red-300"}>
+                      {CHECK_IN_LABEL[entry.outcome]}
+                    </span>
+                    {" • "}
+                    {entry.ticket ? ticketShortCode(entry.ticket.code) : entry.code}
+                    {entry.offline ? " • offline" : ""}
+                  </span>
+                  <span className="shrink-0 text-xs text-white/40 tabular-nums">{formatTime(entry.at)}</span>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
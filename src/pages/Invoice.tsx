@@ -0,0 +1,199 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { ArrowLeft, Download, Printer } from "lucide-react";
+import { supabase } from "../lib/supabase";
+import { buildInvoice, formatInvoiceAmount, INVOICE_SELECT, SELLER, VAT_RATE, type Invoice, type InvoiceRow } from "../lib/invoices";
+import { downloadInvoicePdf } from "../lib/invoiceDownload";
+
+type Loaded = { orderId: string; invoice: Invoice | null; error: string | null };
+
+// Only the sheet prints: the player bar, cart and cookie banner stay on screen
+const PRINT_CSS = `
+  @media print {
+    @page { size: A4; margin: 16mm; }
+    body * { visibility: hidden; }
+    .invoice-sheet, .invoice-sheet * { visibility: visible; }
+    .invoice-sheet { position: absolute; inset: 0 auto auto 0; width: 100%; box-shadow: none; border: 0; }
+  }
+`;
+
+export default function InvoicePage() {
+  const { orderId = "" } = useParams();
+  const [loaded, setLoaded] = useState<Loaded | null>(null);
+  const [downloading, setDownloading] = useState(false);
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    supabase
+      .from("invoices")
+      .select(INVOICE_SELECT)
+      .eq("order_id", orderId)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        setLoaded({
+          orderId,
+          invoice: data ? buildInvoice((data as unknown) as InvoiceRow) : null,
+          error: error?.message ?? null,
+        });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [orderId]);
+
+  const current = loaded?.orderId === orderId ? loaded : null;
+  const invoice = current?.invoice ?? null;
+
+  const download = async () => {
+    setDownloading(true);
+    setDownloadError(null);
+    try {
+      await downloadInvoicePdf(orderId);
+    } catch (e) {
+      setDownloadError(e instanceof Error ? e.message : "Could not download this invoice.");
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-neutral-200 text-neutral-900">
+      <style>{PRINT_CSS}</style>
+
+      <div className="mx-auto w-full max-w-3xl px-4 py-8">
+        <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+          <Link to="/orders" className="inline-flex items-center gap-2 text-sm text-neutral-600 hover:text-neutral-900">
+            <ArrowLeft className="h-4 w-4" /> Purchase history
+          </Link>
+
+          {invoice && (
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => window.print()}
+                className="inline-flex items-center gap-2 rounded-xl border border-neutral-400 bg-white px-4 py-2 text-sm font-semibold hover:bg-neutral-100"
+              >
+                <Printer className="h-4 w-4" /> Print
+              </button>
+              <button
+                type="button"
+                onClick={download}
+                disabled={downloading}
+                className="inline-flex items-center gap-2 rounded-xl bg-neutral-900 px-4 py-2 text-sm font-semibold text-white hover:bg-neutral-700 disabled:opacity-60"
+              >
+                <Download className="h-4 w-4" /> {downloading ? "Preparing…" : "Download PDF"}
+              </button>
+            </div>
+          )}
+        </div>
+
+        {downloadError && (
+          <div className="mb-4 rounded-xl border border-red-300 bg-red-50 px-4 py-3 text-sm text-red-700">{downloadError}</div>
+        )}
+
+        {!current ? (
+          <div className="rounded-2xl bg-white p-8 text-neutral-500 shadow">Loading…</div>
+        ) : current.error ? (
+          <div className="rounded-2xl bg-white p-8 text-red-700 shadow">Failed to load the invoice: {current.error}</div>
+        ) : !invoice ? (
+          <div className="rounded-2xl bg-white p-8 text-neutral-600 shadow">
+            There’s no invoice for this order yet. Invoices are issued once payment has gone through.
+          </div>
+        ) : (
+          <article className="invoice-sheet rounded-2xl border border-neutral-300 bg-white p-8 md:p-12 shadow">
+            <header className="flex flex-wrap items-start justify-between gap-6">
+              <div>
+                <div className="text-2xl font-bold">{SELLER.name}</div>
+                <div className="mt-2 text-sm text-neutral-500 leading-relaxed">
+                  {SELLER.address.map((l) => (
+                    <div key={l}>{l}</div>
+                  ))}
+                  <div>{SELLER.email}</div>
+                  <div>{SELLER.website}</div>
+                  {SELLER.vat_number ? <div>VAT no. {SELLER.vat_number}</div> : null}
+                </div>
+              </div>
+
+              <div className="text-right">
+                <div className="text-xl font-bold tracking-wide">TAX INVOICE</div>
+                <div className="mt-2 font-semibold">{invoice.number}</div>
+                <div className="text-sm text-neutral-500">
+                  Date: {new Date(invoice.issued_at).toLocaleDateString("en-ZA")}
+                </div>
+                <div className="text-xs text-neutral-500 break-all">Order: {invoice.order_id}</div>
+              </div>
+            </header>
+
+            <section className="mt-8 grid gap-6 sm:grid-cols-2 text-sm">
+              <div>
+                <div className="text-xs font-semibold uppercase tracking-wider text-neutral-500">Bill to</div>
+                <div className="mt-1">{invoice.buyer_email ?? "Customer"}</div>
+              </div>
+              {invoice.ship_to.length > 0 && (
+                <div>
+                  <div className="text-xs font-semibold uppercase tracking-wider text-neutral-500">Deliver to</div>
+                  <div className="mt-1 leading-relaxed">
+                    {invoice.ship_to.map((l, i) => (
+                      <div key={i}>{l}</div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </section>
+
+            <table className="mt-8 w-full text-sm">
+              <thead>
+                <tr className="border-b border-neutral-300 text-xs uppercase tracking-wider text-neutral-500">
+                  <th className="py-2 text-left font-semibold">Description</th>
+                  <th className="py-2 text-right font-semibold">Qty</th>
+                  <th className="py-2 text-right font-semibold">Unit</th>
+                  <th className="py-2 text-right font-semibold">Discount</th>
+                  <th className="py-2 text-right font-semibold">Amount</th>
+                </tr>
+              </thead>
+              <tbody>
+                {invoice.lines.map((line, i) => (
+                  <tr key={i} className="border-b border-neutral-100 align-top">
+                    <td className="py-2 pr-3">
+                      <div className="font-semibold">{line.description}</div>
+                      {line.detail ? <div className="text-xs text-neutral-500">{line.detail}</div> : null}
+                    </td>
+                    <td className="py-2 text-right">{line.quantity}</td>
+                    <td className="py-2 text-right whitespace-nowrap">{formatInvoiceAmount(line.unit_cents)}</td>
+                    <td className="py-2 text-right whitespace-nowrap">
+                      {line.discount_cents ? `−${formatInvoiceAmount(line.discount_cents)}` : ""}
+                    </td>
+                    <td className="py-2 text-right whitespace-nowrap">{formatInvoiceAmount(line.amount_cents)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <dl className="mt-6 ml-auto w-full max-w-xs space-y-1 text-sm">
+              <div className="flex justify-between text-neutral-600">
+                <dt>Total excl. VAT</dt>
+                <dd>{formatInvoiceAmount(invoice.excl_vat_cents)}</dd>
+              </div>
+              <div className="flex justify-between text-neutral-600">
+                <dt>VAT ({Math.round(VAT_RATE * 100)}%)</dt>
+                <dd>{formatInvoiceAmount(invoice.vat_cents)}</dd>
+              </div>
+              <div className="flex justify-between border-t border-neutral-300 pt-2 text-base font-bold">
+                <dt>Total (incl. VAT)</dt>
+                <dd>{formatInvoiceAmount(invoice.total_cents)}</dd>
+              </div>
+            </dl>
+
+            <footer className="mt-10 text-xs text-neutral-500">
+              All amounts in {invoice.currency || "ZAR"} and include VAT at {Math.round(VAT_RATE * 100)}%.
+            </footer>
+          </article>
+        )}
+      </div>
+    </div>
+  );
+}
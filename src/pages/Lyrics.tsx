@@ -2,9 +2,10 @@ import { useMemo, useState } from "react";
 import Navbar from "../components/layout/Navbar";
 import Footer from "../components/layout/Footer";
 import VideoBackground from "../components/layout/VideoBackground";
-import { LYRICS } from "../data/lyrics";
+import { useCatalog } from "../hooks/useCatalog";
 
 export default function Lyrics() {
+  const LYRICS = useCatalog("lyrics");
   const [query, setQuery] = useState("");
   const [activeId, setActiveId] = useState(LYRICS[0]?.id ?? "");
   const [isOpen, setIsOpen] = useState(false);
@@ -15,7 +16,7 @@ export default function Lyrics() {
     return LYRICS.filter(s =>
       `${s.title} ${s.album ?? ""} ${s.year ?? ""} ${s.lyrics}`.toLowerCase().includes(q)
     );
-  }, [query]);
+  }, [query, LYRICS]);
 
   const activeSong = useMemo(
     () => filtered.find(s => s.id === activeId) ?? filtered[0],
@@ -3,167 +3,82 @@ import Navbar from "../components/layout/Navbar";
 import Footer from "../components/layout/Footer";
 import VideoBackground from "../components/layout/VideoBackground";
 
-import imgBlueCap from "../../Graphics/merch/blue-cap.png";
-import imgBlueCheaperCap from "../../Graphics/merch/blue-cheaper-cap.png";
-import imgMenBlue from "../../Graphics/merch/men-blue.png";
-import imgMenGrey from "../../Graphics/merch/men-grey.png";
-import imgMooisteCap from "../../Graphics/merch/mooiste-cap.png";
-import imgOrangeCap from "../../Graphics/merch/orange-cap.png";
-import imgOrangeJeanCap from "../../Graphics/merch/orange-jean-cap.png";
-import imgStupidCap from "../../Graphics/merch/stupid-cap.png";
-import imgWomenBlue from "../../Graphics/merch/women-blue.png";
-import imgWomenGrey from "../../Graphics/merch/women-grey.png";
-import imgKeyring from "../../Graphics/merch/keyring.png";
-import imgBand from "../../Graphics/merch/band.png";
-
-type Category = "All" | "Shirts" | "Caps" | "Accessories";
-
-type MerchItem = {
-  id: string;
-  name: string;
-  category: "Shirts" | "Caps" | "Accessories";
-  priceZar: number;
-  description: string;
-  isPreorder?: boolean;
-  image: string;
-  sizes: string[];
-};
-
-const MERCH: MerchItem[] = [
-  {
-    id: "men-tee-blue",
-    name: "Men's Tee — Blue",
-    category: "Shirts",
-    priceZar: 450,
-    description: "100% cotton, screen-printed BliximStraat logo. Regular fit.",
-    image: imgMenBlue,
-    sizes: ["S", "M", "L", "XL", "XXL"],
-  },
-  {
-    id: "men-tee-grey",
-    name: "Men's Tee — Grey",
-    category: "Shirts",
-    priceZar: 450,
-    description: "100% cotton, screen-printed BliximStraat logo. Regular fit.",
-    image: imgMenGrey,
-    sizes: ["S", "M", "L", "XL", "XXL"],
-  },
-  {
-    id: "women-tee-blue",
-    name: "Women's Tee — Blue",
-    category: "Shirts",
-    priceZar: 450,
-    description: "100% cotton, screen-printed BliximStraat logo. Slim fit.",
-    image: imgWomenBlue,
-    sizes: ["XS", "S", "M", "L", "XL"],
-  },
-  {
-    id: "women-tee-grey",
-    name: "Women's Tee — Grey",
-    category: "Shirts",
-    priceZar: 450,
-    description: "100% cotton, screen-printed BliximStraat logo. Slim fit.",
-    image: imgWomenGrey,
-    sizes: ["XS", "S", "M", "L", "XL"],
-  },
-  {
-    id: "cap-blue",
-    name: "Blue Snapback Cap",
-    category: "Caps",
-    priceZar: 420,
-    description: "Embroidered logo, adjustable snapback closure.",
-    image: imgBlueCap,
-    sizes: ["One Size"],
-  },
-  {
-    id: "cap-mooiste",
-    name: "Mooiste Cap",
-    category: "Caps",
-    priceZar: 420,
-    description: "Embroidered logo, adjustable snapback closure.",
-    image: imgMooisteCap,
-    sizes: ["One Size"],
-  },
-  {
-    id: "cap-orange-jean",
-    name: "Orange Jean Cap",
-    category: "Caps",
-    priceZar: 420,
-    description: "Denim-style brim, embroidered logo, adjustable strap.",
-    image: imgOrangeJeanCap,
-    sizes: ["One Size"],
-  },
-  {
-    id: "cap-stupid",
-    name: "Stupid Cap",
-    category: "Caps",
-    priceZar: 420,
-    description: "Embroidered logo, adjustable snapback closure.",
-    image: imgStupidCap,
-    sizes: ["One Size"],
-  },
-  {
-    id: "cap-blue-cheaper",
-    name: "Blue Cap",
-    category: "Caps",
-    priceZar: 120,
-    description: "BliximStraat logo cap, adjustable closure.",
-    image: imgBlueCheaperCap,
-    sizes: ["One Size"],
-  },
-  {
-    id: "cap-orange",
-    name: "Orange Cap",
-    category: "Caps",
-    priceZar: 120,
-    description: "BliximStraat logo cap, adjustable closure.",
-    image: imgOrangeCap,
-    sizes: ["One Size"],
-  },
-  {
-    id: "keyring",
-    name: "BliximStraat Keyring",
-    category: "Accessories",
-    priceZar: 30,
-    description: "Official BliximStraat branded keyring.",
-    image: imgKeyring,
-    sizes: ["One Size"],
-  },
-  {
-    id: "band",
-    name: "BliximStraat Band",
-    category: "Accessories",
-    priceZar: 30,
-    description: "Official BliximStraat wristband.",
-    image: imgBand,
-    sizes: ["One Size"],
-  },
-];
+import { useCart } from "../contexts/CartContext";
+import { fetchMerchCatalog } from "../lib/cartApi";
+import { merchSku, merchVariantLabel, type MerchItem } from "../data/merch";
 
 const WHATSAPP_NUMBER = "27759572550";
 
-function buildWhatsappLink(item: MerchItem) {
+const formatRand = (cents: number) => `R${cents % 100 ? (cents / 100).toFixed(2) : cents / 100}`;
+
+function buildWhatsappLink(item: MerchItem, size: string | null, colour: string | null) {
+  const colourNote = colour ? ` — Colour: ${colour}` : "";
   const sizeNote =
     item.sizes.length === 1 && item.sizes[0] === "One Size"
       ? ""
-      : " — Size: [please fill in]";
+      : ` — Size: ${size ?? "[please fill in]"}`;
   const msg = encodeURIComponent(
-    `Hi! I'd like to order the ${item.name} (R${item.priceZar})${sizeNote}. Please confirm availability and delivery details.`
+    `Hi! I'd like to order the ${item.name} (${formatRand(item.priceCents)})${colourNote}${sizeNote}. Please confirm availability and delivery details.`
   );
   return `https://wa.me/${WHATSAPP_NUMBER}?text=${msg}`;
 }
 
-const CATEGORIES: Category[] = ["All", "Shirts", "Caps", "Accessories"];
+/** For when the shop can't show what's in stock */
+const WHATSAPP_ORDER_LINK = `https://wa.me/${WHATSAPP_NUMBER}?text=${encodeURIComponent(
+  "Hi! I'd like to order some merch. What do you have in stock?"
+)}`;
+
+/** "Only N left" shows from this many units down. */
+const LOW_STOCK = 3;
+
+type VariantStock = {
+  /** null = not tracked, always available */
+  stock: number | null;
+  preorder: boolean;
+  /** false when this size isn't made in the chosen colour */
+  offered: boolean;
+};
 
 export default function Merch() {
-  const [activeCategory, setActiveCategory] = useState<Category>("All");
+  const [catalog, setCatalog] = useState<MerchItem[] | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [activeCategory, setActiveCategory] = useState("All");
   const [activeIndex, setActiveIndex] = useState(0);
   const [dragging, setDragging] = useState(false);
   const dragStartX = useRef(0);
   const dragDelta = useRef(0);
   const trackRef = useRef<HTMLDivElement>(null);
 
-  const filtered = MERCH.filter(
+  const { addItem } = useCart();
+  // chosen variant per item, so flipping through the carousel keeps picks
+  const [sizeById, setSizeById] = useState<Record<string, string>>({});
+  const [colourById, setColourById] = useState<Record<string, string>>({});
+
+  // Prices, sizes and stock come from the same products rows checkout charges from
+  const loadCatalog = useCallback(() => {
+    fetchMerchCatalog()
+      .then((items) => {
+        setCatalog(items);
+        setLoadFailed(false);
+      })
+      .catch((err) => {
+        console.error("Merch load error:", err);
+        setLoadFailed(true);
+      });
+  }, []);
+
+  useEffect(() => {
+    loadCatalog();
+  }, [loadCatalog]);
+
+  const retryLoad = () => {
+    setLoadFailed(false);
+    loadCatalog();
+  };
+
+  const merch = catalog ?? [];
+  const categories = ["All", ...new Set(merch.map((m) => m.category))];
+  const filtered = merch.filter(
     (item) => activeCategory === "All" || item.category === activeCategory
   );
 
@@ -213,6 +128,54 @@ export default function Merch() {
 
   const item = filtered[activeIndex];
 
+  const size = item
+    ? sizeById[item.id] ?? (item.sizes.length === 1 ? item.sizes[0] : null)
+    : null;
+  const colour = item?.colours?.find((c) => c.name === colourById[item.id]) ?? item?.colours?.[0] ?? null;
+  const image = colour?.image ?? item?.image;
+
+  const stockOf = (sz: string): VariantStock => {
+    const sku = item ? merchSku(item, sz, colour?.name) : null;
+    const variant = sku ? item?.variants.find((v) => v.sku === sku) : undefined;
+    return { stock: variant?.stock ?? null, preorder: !!item?.isPreorder, offered: !!variant };
+  };
+  // Sold out only blocks a size when the product doesn't take backorders;
+  // a size not made in this colour is as good as sold out
+  const isSoldOut = (sz: string) => {
+    const s = stockOf(sz);
+    return !s.offered || (s.stock !== null && s.stock <= 0 && !s.preorder);
+  };
+  const isBackorder = (sz: string) => {
+    const s = stockOf(sz);
+    return s.stock !== null && s.stock <= 0 && !isSoldOut(sz);
+  };
+
+  const itemSoldOut = !!item && item.sizes.every(isSoldOut);
+  const sizeStock = size ? stockOf(size).stock : null;
+  const sizeSoldOut = !!size && isSoldOut(size);
+  const sizeBackorder = !!size && isBackorder(size);
+
+  const addToCart = () => {
+    if (!item || !size || isSoldOut(size)) return;
+    const variant = { item, size, colour };
+    const sku = merchSku(item, size, colour?.name);
+    if (!sku) return;
+
+    addItem({
+      id: sku,
+      sku,
+      kind: "merch",
+      title: merchVariantLabel(variant),
+      artist: "BliximStraat Merch",
+      cover_url: image ?? null,
+      price_cents: item.priceCents,
+      qty: 1,
+    });
+  };
+
+  // keeps the carousel's pointer capture from swallowing clicks on controls
+  const stopDrag = (e: React.PointerEvent) => e.stopPropagation();
+
   return (
     <div
       className="relative min-h-screen text-white overflow-x-hidden flex flex-col"
@@ -233,13 +196,13 @@ export default function Merch() {
               </p>
               <h1 className="text-4xl md:text-5xl font-light tracking-tight text-white">Merch</h1>
               <p className="mt-2 text-sm text-white/40 max-w-lg">
-                Official BliximStraat gear. Order via WhatsApp — we'll confirm availability. Deliveries are standardized at R120.00 PER ORDER within South Africa.
+                Official BliximStraat gear. Add it to your cart with your music, or order via WhatsApp. Courier delivery within South Africa or collect at a show, chosen at checkout.
               </p>
             </header>
 
             {/* Category tabs */}
             <div className="flex items-center gap-1 mb-10">
-              {CATEGORIES.map((cat) => {
+              {categories.map((cat) => {
                 const isActive = activeCategory === cat;
                 return (
                   <button
@@ -263,7 +226,7 @@ export default function Merch() {
                         className="ml-2 text-[9px]"
                         style={{ color: isActive ? "rgba(0,0,0,0.4)" : "rgba(255,255,255,0.25)" }}
                       >
-                        {MERCH.filter((m) => m.category === cat).length}
+                        {merch.filter((m) => m.category === cat).length}
                       </span>
                     )}
                   </button>
@@ -295,22 +258,34 @@ export default function Merch() {
                       style={{ borderRight: "1px solid rgba(255,255,255,0.05)" }}
                     >
                       <img
-                        key={item.id}
-                        src={item.image}
+                        key={`${item.id}-${colour?.name ?? ""}`}
+                        src={image}
                         alt={item.name}
                         className="w-full h-full object-cover transition-opacity duration-300"
                         draggable={false}
                       />
-                      {item.isPreorder && (
+                      {itemSoldOut ? (
                         <span
-                          className="absolute top-5 left-5 px-3 py-1 text-[10px] font-medium uppercase tracking-[0.15em] text-white rounded-full"
+                          className="absolute top-5 left-5 px-3 py-1 text-[10px] font-medium uppercase tracking-[0.15em] text-white/70 rounded-full"
                           style={{
-                            background: "rgba(255,0,144,0.15)",
-                            border: "1px solid rgba(255,0,144,0.3)",
+                            background: "rgba(0,0,0,0.55)",
+                            border: "1px solid rgba(255,255,255,0.2)",
                           }}
                         >
-                          Pre-order
+                          Sold out
                         </span>
+                      ) : (
+                        (item.isPreorder || sizeBackorder) && (
+                          <span
+                            className="absolute top-5 left-5 px-3 py-1 text-[10px] font-medium uppercase tracking-[0.15em] text-white rounded-full"
+                            style={{
+                              background: "rgba(255,0,144,0.15)",
+                              border: "1px solid rgba(255,0,144,0.3)",
+                            }}
+                          >
+                            Pre-order
+                          </span>
+                        )
                       )}
                       {/* Slide counter badge */}
                       <span
@@ -334,39 +309,109 @@ export default function Merch() {
                           {item.description}
                         </p>
 
+                        {/* Colours */}
+                        {item.colours && item.colours.length > 1 && (
+                          <div className="mt-8">
+                            <p className="text-[10px] uppercase tracking-[0.22em] text-white/30 mb-3">
+                              Colour — <span className="text-white/60">{colour?.name}</span>
+                            </p>
+                            <div className="flex flex-wrap gap-2">
+                              {item.colours.map((c) => {
+                                const isActive = c.name === colour?.name;
+                                return (
+                                  <button
+                                    key={c.name}
+                                    type="button"
+                                    onPointerDown={stopDrag}
+                                    onClick={() => setColourById((m) => ({ ...m, [item.id]: c.name }))}
+                                    className="w-11 h-11 rounded-md overflow-hidden transition-all duration-200"
+                                    style={{
+                                      border: isActive
+                                        ? "1.5px solid rgba(255,255,255,0.7)"
+                                        : "1.5px solid rgba(255,255,255,0.12)",
+                                      opacity: isActive ? 1 : 0.55,
+                                    }}
+                                    aria-label={c.name}
+                                    aria-pressed={isActive}
+                                  >
+                                    <img src={c.image} alt={c.name} className="w-full h-full object-cover" draggable={false} />
+                                  </button>
+                                );
+                              })}
+                            </div>
+                          </div>
+                        )}
+
                         {/* Sizes */}
                         <div className="mt-8">
                           <p className="text-[10px] uppercase tracking-[0.22em] text-white/30 mb-3">
                             Sizes
                           </p>
                           <div className="flex flex-wrap gap-2">
-                            {item.sizes.map((size) => (
-                              <span
-                                key={size}
-                                className="px-3 py-1.5 text-xs font-medium text-white/70 rounded-md"
-                                style={{ border: "1px solid rgba(255,255,255,0.14)" }}
-                              >
-                                {size}
-                              </span>
-                            ))}
+                            {item.sizes.map((sz) => {
+                              const isActive = sz === size;
+                              const soldOut = isSoldOut(sz);
+                              return (
+                                <button
+                                  key={sz}
+                                  type="button"
+                                  onPointerDown={stopDrag}
+                                  onClick={() => setSizeById((m) => ({ ...m, [item.id]: sz }))}
+                                  disabled={soldOut}
+                                  className="px-3 py-1.5 text-xs font-medium rounded-md transition-colors duration-200 disabled:line-through disabled:cursor-not-allowed"
+                                  style={{
+                                    color: isActive ? "#000" : soldOut ? "rgba(255,255,255,0.25)" : "rgba(255,255,255,0.7)",
+                                    background: isActive ? "#fff" : "transparent",
+                                    border: isActive ? "1px solid #fff" : "1px solid rgba(255,255,255,0.14)",
+                                  }}
+                                  aria-pressed={isActive}
+                                  title={soldOut ? "Sold out" : undefined}
+                                >
+                                  {sz}
+                                </button>
+                              );
+                            })}
                           </div>
                         </div>
                       </div>
 
                       <div className="mt-10">
                         <div className="flex items-baseline gap-2 mb-6">
-                          <span className="text-4xl font-light text-white">R{item.priceZar}</span>
+                          <span className="text-4xl font-light text-white">{formatRand(item.priceCents)}</span>
                           <span className="text-xs text-white/30">ZAR</span>
+                          {sizeStock !== null && sizeStock > 0 && sizeStock <= LOW_STOCK && (
+                            <span className="ml-auto text-xs font-medium" style={{ color: "#ff0090" }}>
+                              Only {sizeStock} left
+                            </span>
+                          )}
                         </div>
 
+                        <button
+                          type="button"
+                          onPointerDown={stopDrag}
+                          onClick={addToCart}
+                          disabled={!size || sizeSoldOut}
+                          className="block w-full text-center py-3.5 text-sm font-medium text-black bg-white rounded-lg hover:bg-white/90 transition-colors disabled:opacity-40"
+                        >
+                          {itemSoldOut || sizeSoldOut
+                            ? "Sold out"
+                            : !size
+                              ? "Pick a size"
+                              : sizeBackorder
+                                ? "Pre-order — ships when restocked"
+                                : "Add to cart"}
+                        </button>
+
                         <a
-                          href={buildWhatsappLink(item)}
+                          href={buildWhatsappLink(item, size, colour?.name ?? null)}
                           target="_blank"
                           rel="noreferrer"
-                          className="block w-full text-center py-3.5 text-sm font-medium text-black bg-white rounded-lg hover:bg-white/90 transition-colors"
+                          className="mt-3 block w-full text-center py-3 text-xs font-medium uppercase tracking-[0.14em] text-white/60 rounded-lg hover:text-white transition-colors"
+                          style={{ border: "1px solid rgba(255,255,255,0.14)" }}
+                          onPointerDown={stopDrag}
                           onClick={(e) => e.stopPropagation()}
                         >
-                          Order via WhatsApp
+                          Or order via WhatsApp
                         </a>
                       </div>
                     </div>
@@ -444,12 +489,38 @@ export default function Merch() {
                 className="rounded-xl p-14 text-center"
                 style={{ border: "1px solid rgba(255,255,255,0.07)" }}
               >
-                <div className="text-white/25 text-base font-light">No items in this category yet.</div>
+                {loadFailed ? (
+                  <div className="space-y-4">
+                    <div className="text-white/50 text-base font-light">Couldn't load the merch right now.</div>
+                    <div className="flex flex-col sm:flex-row items-center justify-center gap-3">
+                      <button
+                        type="button"
+                        onClick={retryLoad}
+                        className="px-6 py-3 text-sm font-medium text-black bg-white rounded-lg hover:bg-white/90 transition-colors"
+                      >
+                        Try again
+                      </button>
+                      <a
+                        href={WHATSAPP_ORDER_LINK}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="px-6 py-3 text-xs font-medium uppercase tracking-[0.14em] text-white/60 rounded-lg hover:text-white transition-colors"
+                        style={{ border: "1px solid rgba(255,255,255,0.14)" }}
+                      >
+                        Or order via WhatsApp
+                      </a>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="text-white/25 text-base font-light">
+                    {catalog ? "No items in this category yet." : "Loading merch…"}
+                  </div>
+                )}
               </div>
             )}
 
             <p className="mt-12 text-xs text-white/25 text-center">
-              All orders handled via WhatsApp. Delivery within South Africa.
+              Secure checkout, or order via WhatsApp. Delivery within South Africa.
             </p>
           </div>
         </main>
@@ -2,12 +2,16 @@ import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import Navbar from "../components/layout/Navbar";
 import Footer from "../components/layout/Footer";
 import VideoBackground from "../components/layout/VideoBackground";
-import { SONGS, hasVideo } from "../data/songs";
-import type { Song } from "../data/songs";
+import { hasVideo, type Release as CatalogRelease, type Song } from "../lib/catalog";
+import { resolveReleases, type ResolvedRelease } from "../lib/groupSongsByAlbum";
+import { useCatalog } from "../hooks/useCatalog";
+import { useOwnedTracks } from "../hooks/useOwnedTracks";
+import { usePlayer, type PlayerTrack } from "../lib/player";
+import { useCart } from "../contexts/CartContext";
 
 // ── Types ─────────────────────────────────────────────────────────────────────
 
-type ReleaseType = "Single" | "Album";
+type ReleaseType = "Single" | "EP" | "Album";
 
 type Release = {
   id: string;
@@ -21,56 +25,37 @@ type Release = {
 
 type FilterTab = "All" | "Singles" | "Albums";
 
-// ── Build releases list ───────────────────────────────────────────────────────
-
-function useReleases(songs: Song[]): Release[] {
-  return useMemo(() => {
-    const releases: Release[] = [];
-    const albumMap = new Map<string, Song[]>();
-    const albumOrder: string[] = [];
-
-    for (const song of songs) {
-      if (song.album) {
-        if (!albumMap.has(song.album)) {
-          albumOrder.push(song.album);
-          albumMap.set(song.album, []);
-        }
-        albumMap.get(song.album)!.push(song);
-      } else {
-        releases.push({
-          id: song.id,
-          title: song.title,
-          type: "Single",
-          year: song.year,
-          cover: song.coverUrl,
-          youtubeUrl: song.youtubeUrl,
-          tracks: [song],
-        });
-      }
-    }
+const TYPE_LABEL: Record<ResolvedRelease["type"], ReleaseType> = {
+  single: "Single",
+  ep: "EP",
+  album: "Album",
+};
 
-    for (const albumName of albumOrder) {
-      const tracks = albumMap.get(albumName)!;
-      releases.push({
-        id: `album-${albumName}`,
-        title: albumName,
-        type: "Album",
-        year: tracks[0].year,
-        cover: tracks[0].coverUrl,
-        youtubeUrl: tracks[0].albumUrl ?? tracks.find(s => hasVideo(s))?.youtubeUrl ?? YT_CHANNEL,
-        tracks,
-      });
-    }
+// ── Build releases list ───────────────────────────────────────────────────────
 
-    // newest first by year
-    return releases.sort((a, b) => Number(b.year) - Number(a.year));
-  }, [songs]);
+function useReleases(songs: Song[], releases: CatalogRelease[]): Release[] {
+  return useMemo(
+    () =>
+      resolveReleases(songs, releases).map((r) => ({
+        id: r.type === "single" ? r.id : `album-${r.id}`,
+        title: r.title,
+        type: TYPE_LABEL[r.type],
+        year: r.year,
+        cover: r.coverUrl ?? r.tracks[0]?.coverUrl,
+        youtubeUrl: r.youtubeUrl ?? r.tracks.find(s => hasVideo(s))?.youtubeUrl ?? YT_CHANNEL,
+        tracks: r.tracks,
+      })),
+    [songs, releases]
+  );
 }
 
 // ── Constants ─────────────────────────────────────────────────────────────────
 
 const YT_CHANNEL = "https://www.youtube.com/channel/UCaRgHj3J8RjDuS_eyZXdepA";
 
+const formatZar = (cents: number) =>
+  new Intl.NumberFormat("en-ZA", { style: "currency", currency: "ZAR" }).format(cents / 100);
+
 const PLATFORMS = [
   {
     label: "Spotify",
@@ -140,7 +125,41 @@ const ANIM_CSS = `
 
 // ── Release Card ──────────────────────────────────────────────────────────────
 
-function ReleaseCard({ release, isActive }: { release: Release; isActive: boolean }) {
+/** The public clip, for visitors who haven't bought the song. */
+function previewTrack(song: Song): PlayerTrack | undefined {
+  if (!song.previewUrl) return undefined;
+  return {
+    id: song.id,
+    title: song.title,
+    artist: song.artist,
+    coverUrl: song.coverUrl,
+    src: song.previewUrl,
+    preview: true,
+  };
+}
+
+function ReleaseCard({ release, isActive, owned }: {
+  release: Release;
+  isActive: boolean;
+  /** The visitor's purchased tracks, by song id */
+  owned: Map<string, PlayerTrack>;
+}) {
+  const player = usePlayer();
+  const cart = useCart();
+  const bundle = cart.bundles.find(b => b.release_id === release.id);
+  const bundlePrice = bundle ? cart.bundlePriceCents(bundle) : null;
+  // Bought songs play in full; the rest fall back to their preview clip
+  const trackFor = (song: Song) => owned.get(song.id) ?? previewTrack(song);
+  const playable = release.tracks.map(trackFor).filter((t): t is PlayerTrack => !!t);
+  const playingHere = player.isPlaying && playable.some(t => t.id === player.current?.id);
+
+  // Cards sit inside the swipe carousel, so keep clicks from turning into navigation
+  const playFrom = (e: React.MouseEvent, track: PlayerTrack) => {
+    e.stopPropagation();
+    if (player.current?.id === track.id) player.togglePlay();
+    else player.playQueue(playable, playable.indexOf(track));
+  };
+
   return (
     <div
       className="rounded-2xl overflow-hidden flex flex-col transition-all duration-500 select-none"
@@ -191,35 +210,80 @@ function ReleaseCard({ release, isActive }: { release: Release; isActive: boolea
               </span>
             </a>
           ))}
+
+          {playable.length > 0 && (
+            <button
+              type="button"
+              onClick={e => {
+                if (playingHere) { e.stopPropagation(); player.togglePlay(); }
+                else playFrom(e, playable[0]);
+              }}
+              className="ml-auto h-8 px-3 rounded-full text-[11px] font-bold uppercase tracking-[0.12em] transition-transform duration-200 hover:scale-105"
+              style={{ background: "#FF0090", color: "#fff" }}
+            >
+              {playingHere ? "❚❚ Pause" : playable.some(t => !t.preview) ? "▶ Play" : "▶ Preview"}
+            </button>
+          )}
         </div>
+
+        {bundle && bundlePrice !== null && (
+          <button
+            type="button"
+            onClick={e => { e.stopPropagation(); cart.addBundle(bundle); }}
+            className="mt-3 w-full h-9 rounded-full text-[11px] font-bold uppercase tracking-[0.12em] transition-colors duration-200 hover:bg-white/10"
+            style={{ border: "1px solid rgba(255,0,144,0.4)", color: "#fff" }}
+          >
+            Buy {release.type} · {formatZar(bundlePrice)}
+          </button>
+        )}
       </div>
 
-      {/* Album track list — only shown on album cards */}
-      {release.type === "Album" && release.tracks.length > 0 && (
+      {/* Track list — only shown on album and EP cards */}
+      {release.type !== "Single" && release.tracks.length > 0 && (
         <>
           <div className="mx-4 h-px" style={{ background: "rgba(255,255,255,0.06)" }} />
           <div className="px-3 py-2">
-            {release.tracks.map((song, i) => (
-              <a
-                key={song.id}
-                href={hasVideo(song) ? song.youtubeUrl : YT_CHANNEL}
-                target="_blank"
-                rel="noreferrer"
-                className="group flex items-center gap-2 px-2 py-1 rounded-md transition-colors"
-                onMouseEnter={e => { (e.currentTarget as HTMLAnchorElement).style.background = "rgba(255,255,255,0.05)"; }}
-                onMouseLeave={e => { (e.currentTarget as HTMLAnchorElement).style.background = ""; }}
-              >
-                <span className="shrink-0 w-4 text-right tabular-nums"
-                  style={{ fontSize: "9px", color: "rgba(255,255,255,0.25)" }}>{i + 1}</span>
-                <span className="flex-1 truncate group-hover:text-white/90 transition-colors"
-                  style={{ fontSize: "10px", color: "rgba(255,255,255,0.55)" }}>{song.title}</span>
-                {hasVideo(song)
-                  ? <span className="shrink-0 opacity-0 group-hover:opacity-100 transition-opacity"
-                      style={{ fontSize: "9px", color: "#FF3B3B" }}>▶</span>
-                  : <span style={{ fontSize: "9px", color: "rgba(255,255,255,0.18)" }}>·</span>
-                }
-              </a>
-            ))}
+            {release.tracks.map((song, i) => {
+              const track = trackFor(song);
+              const isCurrent = !!track && player.current?.id === track.id;
+              return (
+                <div
+                  key={song.id}
+                  className="group flex items-center gap-2 px-2 py-1 rounded-md transition-colors"
+                  onMouseEnter={e => { (e.currentTarget as HTMLDivElement).style.background = "rgba(255,255,255,0.05)"; }}
+                  onMouseLeave={e => { (e.currentTarget as HTMLDivElement).style.background = ""; }}
+                >
+                  {track ? (
+                    <button type="button" onClick={e => playFrom(e, track)}
+                      aria-label={isCurrent && player.isPlaying
+                        ? `Pause ${song.title}`
+                        : `${track.preview ? "Preview" : "Play"} ${song.title}`}
+                      className="shrink-0 w-4 text-right"
+                      style={{ fontSize: "9px", color: "#FF0090" }}>
+                      {isCurrent && player.isPlaying ? "❚❚" : "▶"}
+                    </button>
+                  ) : (
+                    <span className="shrink-0 w-4 text-right tabular-nums"
+                      style={{ fontSize: "9px", color: "rgba(255,255,255,0.25)" }}>{i + 1}</span>
+                  )}
+                  <a
+                    href={hasVideo(song) ? song.youtubeUrl : YT_CHANNEL}
+                    target="_blank"
+                    rel="noreferrer"
+                    onClick={e => e.stopPropagation()}
+                    className="flex-1 min-w-0 flex items-center gap-2"
+                  >
+                    <span className="flex-1 truncate group-hover:text-white/90 transition-colors"
+                      style={{ fontSize: "10px", color: isCurrent ? "#FF0090" : "rgba(255,255,255,0.55)" }}>{song.title}</span>
+                    {hasVideo(song)
+                      ? <span className="shrink-0 opacity-0 group-hover:opacity-100 transition-opacity"
+                          style={{ fontSize: "9px", color: "#FF3B3B" }}>▶</span>
+                      : <span style={{ fontSize: "9px", color: "rgba(255,255,255,0.18)" }}>·</span>
+                    }
+                  </a>
+                </div>
+              );
+            })}
           </div>
         </>
       )}
@@ -230,7 +294,8 @@ function ReleaseCard({ release, isActive }: { release: Release; isActive: boolea
 // ── Main Page ─────────────────────────────────────────────────────────────────
 
 export default function Music() {
-  const allReleases = useReleases(SONGS);
+  const allReleases = useReleases(useCatalog("songs"), useCatalog("releases"));
+  const owned = useOwnedTracks();
   const [filter,  setFilter]  = useState<FilterTab>("All");
   const [search,  setSearch]  = useState("");
   const [index,   setIndex]   = useState(0);
@@ -243,7 +308,7 @@ export default function Music() {
   const filtered = useMemo(() => {
     let list = allReleases;
     if (filter === "Singles") list = list.filter(r => r.type === "Single");
-    if (filter === "Albums")  list = list.filter(r => r.type === "Album");
+    if (filter === "Albums")  list = list.filter(r => r.type !== "Single");
     if (search.trim()) {
       const q = search.toLowerCase();
       list = list.filter(r => r.title.toLowerCase().includes(q));
@@ -254,7 +319,7 @@ export default function Music() {
   const counts = useMemo(() => ({
     All:     allReleases.length,
     Singles: allReleases.filter(r => r.type === "Single").length,
-    Albums:  allReleases.filter(r => r.type === "Album").length,
+    Albums:  allReleases.filter(r => r.type !== "Single").length,
   }), [allReleases]);
 
   // clamp index when filter changes
@@ -458,7 +523,7 @@ export default function Music() {
                       style={{ width: "200px", opacity: 0.4, transform: "scale(0.88) translateX(30px)", transformOrigin: "right center" }}
                       onClick={prev}
                     >
-                      {index > 0 && <ReleaseCard release={filtered[index - 1]} isActive={false} />}
+                      {index > 0 && <ReleaseCard release={filtered[index - 1]} isActive={false} owned={owned} />}
                     </div>
 
                     {/* Active card — drag/swipe only on this element */}
@@ -471,7 +536,7 @@ export default function Music() {
                       onPointerUp={onPointerUp}
                       onPointerCancel={onPointerUp}
                     >
-                      {current && <ReleaseCard release={current} isActive={true} />}
+                      {current && <ReleaseCard release={current} isActive={true} owned={owned} />}
                     </div>
 
                     {/* Next partial card */}
@@ -479,7 +544,7 @@ export default function Music() {
                       style={{ width: "200px", opacity: 0.4, transform: "scale(0.88) translateX(-30px)", transformOrigin: "left center" }}
                       onClick={next}
                     >
-                      {index < filtered.length - 1 && <ReleaseCard release={filtered[index + 1]} isActive={false} />}
+                      {index < filtered.length - 1 && <ReleaseCard release={filtered[index + 1]} isActive={false} owned={owned} />}
                     </div>
                   </div>
 
@@ -0,0 +1,225 @@
+import { useEffect, useMemo, useState } from "react";
+import { NavLink } from "react-router-dom";
+import qrcode from "qrcode-generator";
+import Navbar from "../components/layout/Navbar";
+import Footer from "../components/layout/Footer";
+import { supabase } from "../lib/supabase";
+import { ticketQrPayload, ticketShortCode, type Ticket } from "../lib/tickets";
+import { isPastShow } from "../lib/showTime";
+
+type TicketShow = {
+  title: string | null;
+  venue: string | null;
+  city: string | null;
+  show_date: string | null;
+  show_time: string | null;
+  timezone: string | null;
+};
+
+type TicketRow = Ticket & {
+  // Supabase relationship selects may come back as an object or a one-element array
+  ticket_tiers: { name: string } | { name: string }[] | null;
+  shows: TicketShow | TicketShow[] | null;
+};
+
+const one = <T,>(v: T | T[] | null): T | null => (Array.isArray(v) ? (v[0] ?? null) : v);
+
+const formatShowDate = (isoDate: string | null) => {
+  if (!isoDate) return "Date TBC";
+  const d = new Date(`${isoDate}T00:00:00`);
+  if (Number.isNaN(d.getTime())) return isoDate;
+  return d.toLocaleDateString("en-ZA", { weekday: "short", year: "numeric", month: "long", day: "2-digit" });
+};
+
+/** Dark modules as one SVG path; scales cleanly for printing or a bright phone screen. */
+function TicketQr({ value, size = 176 }: { value: string; size?: number }) {
+  const { count, path } = useMemo(() => {
+    const qr = qrcode(0, "M");
+    qr.addData(value);
+    qr.make();
+
+    const n = qr.getModuleCount();
+    let d = "";
+    for (let row = 0; row < n; row++) {
+      for (let col = 0; col < n; col++) {
+        if (qr.isDark(row, col)) d += `M${col} ${row}h1v1h-1z`;
+      }
+    }
+    return { count: n, path: d };
+  }, [value]);
+
+  // quiet zone of 2 modules around the code
+  return (
+    <svg
+      viewBox={`-2 -2 ${count + 4} ${count + 4}`}
+      width={size}
+      height={size}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label="Ticket QR code"
+      className="rounded-lg"
+    >
+      <rect x={-2} y={-2} width={count + 4} height={count + 4} fill="#fff" />
+      <path d={path} fill="#000" />
+    </svg>
+  );
+}
+
+export default function MyTickets() {
+  const [rows, setRows] = useState<TicketRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    // RLS limits tickets to the signed-in user's own
+    supabase
+      .from("tickets")
+      .select(
+        `
+        id,
+        order_id,
+        show_id,
+        tier_id,
+        code,
+        status,
+        checked_in_at,
+        created_at,
+        ticket_tiers:tier_id ( name ),
+        shows:show_id ( title, venue, city, show_date, show_time, timezone )
+      `
+      )
+      .order("created_at", { ascending: true })
+      .then(({ data, error }) => {
+        if (error) setError(error.message);
+        setRows(((data ?? []) as unknown) as TicketRow[]);
+        setLoading(false);
+      });
+  }, []);
+
+  // one group per show: upcoming soonest first, then past shows most recent first
+  const groups = useMemo(() => {
+    const byShow = new Map<string, { show: TicketShow | null; tickets: TicketRow[] }>();
+
+    for (const t of rows) {
+      const group = byShow.get(t.show_id) ?? { show: one(t.shows), tickets: [] };
+      group.tickets.push(t);
+      byShow.set(t.show_id, group);
+    }
+
+    return [...byShow.entries()]
+      .map(([showId, g]) => ({ showId, ...g, past: !!g.show && isPastShow({ date: g.show.show_date, timezone: g.show.timezone }) }))
+      .sort((a, b) => {
+        if (a.past !== b.past) return a.past ? 1 : -1;
+        const ad = a.show?.show_date ?? "";
+        const bd = b.show?.show_date ?? "";
+        return a.past ? bd.localeCompare(ad) : ad.localeCompare(bd);
+      });
+  }, [rows]);
+
+  const validCount = rows.filter((t) => t.status === "valid").length;
+
+  return (
+    <div className="relative min-h-screen flex flex-col">
+      <div className="fixed inset-0 z-0 pointer-events-none">
+        <video autoPlay muted loop playsInline preload="auto" className="h-full w-full object-cover">
+          <source src="/normal-bg.mp4" type="video/mp4" />
+        </video>
+        <div className="absolute inset-0 bg-black/45" />
+      </div>
+
+      <div className="relative z-10 flex flex-col min-h-screen text-white">
+        <Navbar overlayOnHome={false} />
+
+        <main className="flex-1">
+          <div className="mx-auto w-full max-w-6xl px-6 py-10">
+            <div className="flex items-start justify-between gap-6">
+              <div>
+                <h1 className="text-3xl md:text-4xl font-semibold tracking-tight">My Tickets</h1>
+                <p className="text-white/60 mt-2">
+                  Show the QR code at the door. Every code gets one person in, once.
+                </p>
+              </div>
+              <div className="shrink-0 text-right">
+                <div className="text-xs text-white/60">Valid</div>
+                <div className="text-sm font-semibold">{validCount}</div>
+              </div>
+            </div>
+
+            {error && (
+              <div className="mt-6 rounded-2xl border border-red-500/30 bg-red-500/10 px-5 py-4 text-sm text-red-200">
+                Failed to load tickets: {error}
+              </div>
+            )}
+
+            {loading ? (
+              <div className="mt-8 rounded-2xl border border-white/10 bg-black/35 backdrop-blur-sm p-6 text-white/70">
+                Loading…
+              </div>
+            ) : groups.length === 0 ? (
+              <div className="mt-8 rounded-2xl border border-white/10 bg-black/35 backdrop-blur-sm p-6 text-white/70">
+                No tickets yet. See what's coming up on the{" "}
+                <NavLink to="/shows" className="underline underline-offset-2">
+                  Shows
+                </NavLink>{" "}
+                page.
+              </div>
+            ) : (
+              <div className="mt-8 space-y-10">
+                {groups.map(({ showId, show, tickets, past }) => (
+                  <section key={showId} className={past ? "opacity-60" : undefined}>
+                    <h2 className="text-xl font-semibold">{show?.title || show?.venue || "Show"}</h2>
+                    <p className="text-sm text-white/60">
+                      {[show?.venue, show?.city].filter(Boolean).join(" · ")}
+                      {" · "}
+                      {formatShowDate(show?.show_date ?? null)}
+                      {show?.show_time ? ` · ${show.show_time.slice(0, 5)}` : ""}
+                      {past ? " · Past show" : ""}
+                    </p>
+
+                    <div className="mt-4 grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
+                      {tickets.map((t, i) => (
+                        <div
+                          key={t.id}
+                          className="rounded-2xl border border-white/10 bg-black/35 backdrop-blur-sm p-5 flex flex-col items-center text-center"
+                        >
+                          <div className="text-xs uppercase tracking-wide text-white/50">
+                            {one(t.ticket_tiers)?.name ?? "Ticket"} · {i + 1} of {tickets.length}
+                          </div>
+
+                          <div className={`mt-4 ${t.status === "void" ? "opacity-20" : ""}`}>
+                            <TicketQr value={ticketQrPayload(t.code)} />
+                          </div>
+
+                          <div className="mt-3 font-mono text-xs tracking-widest text-white/70">
+                            {ticketShortCode(t.code)}
+                          </div>
+
+                          {t.status === "void" ? (
+                            <div className="mt-2 text-xs text-red-200">Refunded — this ticket no longer works</div>
+                          ) : t.checked_in_at ? (
+                            <div className="mt-2 text-xs text-white/60">
+                              Scanned in {new Date(t.checked_in_at).toLocaleString("en-ZA")}
+                            </div>
+                          ) : null}
+
+                          <NavLink
+                            to="/orders"
+                            className="mt-3 text-xs text-white/50 underline underline-offset-2 hover:text-white/80"
+                          >
+                            Order #{t.order_id.slice(0, 8)}
+                          </NavLink>
+                        </div>
+                      ))}
+                    </div>
+                  </section>
+                ))}
+              </div>
+            )}
+          </div>
+        </main>
+
+        <Footer />
+      </div>
+    </div>
+  );
+}
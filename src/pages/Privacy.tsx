@@ -0,0 +1,90 @@
+import Navbar from "../components/layout/Navbar";
+import Footer from "../components/layout/Footer";
+import VideoBackground from "../components/layout/VideoBackground";
+import PageContainer from "../components/layout/PageContainer";
+
+const SECTIONS: { title: string; body: string[] }[] = [
+  {
+    title: "What we collect",
+    body: [
+      "Your email address and password when you create an account (passwords are handled by our login provider and never seen by us).",
+      "Your orders: what you bought, what you paid and, for merch, the delivery address and cellphone number you give us.",
+      "Show requests from the “Where should we play?” pin: your town and province, and your name and message if you add them.",
+    ],
+  },
+  {
+    title: "Cookies and local storage",
+    body: [
+      "Essential storage keeps you signed in, remembers your cart and remembers your cookie choice.",
+      "Optional analytics only run if you choose “Accept all”. You can change your mind by clearing this site’s data in your browser.",
+    ],
+  },
+  {
+    title: "Payments",
+    body: [
+      "Card payments are processed by Yoco. Your card details go straight to them; we only receive whether the payment succeeded.",
+    ],
+  },
+  {
+    title: "Who sees your information",
+    body: [
+      "The band’s management, to fulfil orders and plan shows. Couriers get the delivery details for your parcel and nothing else.",
+      "Show requests appear on the public demand map by province only — never your name or exact town.",
+      "We do not sell your information.",
+    ],
+  },
+  {
+    title: "Your rights (POPIA)",
+    body: [
+      "You can ask to see, correct or delete the personal information we hold about you. Email management@bliximstraat.com and we’ll sort it out.",
+    ],
+  },
+];
+
+export default function Privacy() {
+  return (
+    <div
+      className="relative min-h-screen text-white overflow-x-hidden flex flex-col"
+      style={{ background: "#000000" }}
+    >
+      <VideoBackground />
+
+      <div className="relative z-10 flex flex-col min-h-screen">
+        <Navbar />
+
+        <main className="relative z-10 flex-1">
+          <section className="pt-12 pb-16">
+            <PageContainer>
+              <div className="max-w-3xl">
+                <p className="text-[10px] font-medium uppercase tracking-[0.28em] text-white/35 mb-3">
+                  Legal
+                </p>
+                <h1 className="text-4xl md:text-5xl font-light tracking-tight text-white">
+                  Privacy Policy
+                </h1>
+                <p className="mt-2 text-sm text-white/40 max-w-lg">
+                  What BliximStraat keeps about you, why, and how to get it removed.
+                </p>
+
+                <div className="mt-10 space-y-8">
+                  {SECTIONS.map((s) => (
+                    <section key={s.title}>
+                      <h2 className="text-lg font-medium text-white">{s.title}</h2>
+                      <ul className="mt-3 space-y-2 text-sm text-white/60 leading-relaxed list-disc pl-5">
+                        {s.body.map((line) => (
+                          <li key={line}>{line}</li>
+                        ))}
+                      </ul>
+                    </section>
+                  ))}
+                </div>
+              </div>
+            </PageContainer>
+          </section>
+        </main>
+
+        <Footer />
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,10 @@
 import React, { useEffect, useState } from "react";
-import { NavLink } from "react-router-dom";
+import { Navigate, NavLink, useLocation, type Location } from "react-router-dom";
 import Navbar from "../components/layout/Navbar";
 import Footer from "../components/layout/Footer";
 import { supabase } from "../lib/supabase";
 import { useAuth } from "../contexts/AuthContext";
+import { useHasRole } from "../hooks/useHasRole";
 
 type Mode = "signin" | "signup";
 
@@ -17,31 +18,23 @@ export default function Profile() {
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const [checkingRole, setCheckingRole] = useState(false);
-  const [isAdmin, setIsAdmin] = useState(false);
+  const { hasRole: isAdmin, checking: checkingRole } = useHasRole("admin");
 
-  useEffect(() => {
-    const check = async () => {
-      if (!user) {
-        setIsAdmin(false);
-        return;
-      }
-
-      setCheckingRole(true);
+  // Songs someone bought for this email land in the library on sign-in / sign-up
+  const userId = user?.id ?? null;
+  const [giftsClaimed, setGiftsClaimed] = useState(0);
 
-      const { data, error } = await supabase
-        .from("user_roles")
-        .select("role")
-        .eq("user_id", user.id)
-        .eq("role", "admin")
-        .maybeSingle();
-
-      setIsAdmin(!error && !!data);
-      setCheckingRole(false);
-    };
+  useEffect(() => {
+    if (!userId) return;
+    supabase.rpc("claim_song_gifts").then(({ data, error }) => {
+      if (error) console.warn("Gift claim failed:", error.message);
+      else if (typeof data === "number" && data > 0) setGiftsClaimed(data);
+    });
+  }, [userId]);
 
-    check();
-  }, [user]);
+  // RequireAuth sends people here with the page they were after
+  const location = useLocation();
+  const from = (location.state as { from?: Location } | null)?.from;
 
   const onSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -63,6 +56,10 @@ export default function Profile() {
     }
   };
 
+  if (user && from) {
+    return <Navigate to={`${from.pathname}${from.search}${from.hash}`} replace />;
+  }
+
   return (
     <div className="relative min-h-screen text-white overflow-x-hidden flex flex-col">
       {/* Background (fast + mobile-safe) */}
@@ -91,7 +88,11 @@ export default function Profile() {
 
           <div className="mx-auto max-w-3xl px-6 py-10">
             <h1 className="text-4xl md:text-5xl font-black tracking-tight">Profile</h1>
-            <p className="mt-2 text-white/70">Sign in to view your purchased songs and order history.</p>
+            <p className="mt-2 text-white/70">
+              {from && !user
+                ? "Sign in to continue — we’ll take you straight back."
+                : "Sign in to view your purchased songs and order history."}
+            </p>
 
             {/* Loading */}
             {loading ? (
@@ -115,6 +116,16 @@ export default function Profile() {
                   </button>
                 </div>
 
+                {giftsClaimed > 0 && (
+                  <div className="mt-6 rounded-xl border border-emerald-400/30 bg-emerald-400/10 px-4 py-3 text-sm text-emerald-100">
+                    🎁 {giftsClaimed === 1 ? "A gifted song is" : `${giftsClaimed} gifted songs are`} now in your{" "}
+                    <NavLink to="/purchased" className="underline underline-offset-2">
+                      library
+                    </NavLink>
+                    .
+                  </div>
+                )}
+
                 {/* Admin button (admins only) */}
                 <div className="mt-6 flex items-center gap-3">
                   {checkingRole ? (
@@ -146,6 +157,19 @@ export default function Profile() {
                     </div>
                   </NavLink>
 
+                  <NavLink
+                    to="/tickets"
+                    className="group rounded-2xl border border-white/10 bg-black/30 p-5 hover:bg-black/40 hover:border-white/15 transition"
+                  >
+                    <h2 className="text-lg font-bold">My tickets</h2>
+                    <p className="mt-2 text-sm text-white/60">
+                      Show tickets with their QR codes (from <span className="text-white/80">tickets</span>).
+                    </p>
+                    <div className="mt-4 inline-flex items-center rounded-xl border border-white/15 bg-white/10 px-4 py-2 text-sm font-semibold group-hover:bg-white/15 transition">
+                      View tickets
+                    </div>
+                  </NavLink>
+
                   <NavLink
                     to="/orders"
                     className="group rounded-2xl border border-white/10 bg-black/30 p-5 hover:bg-black/40 hover:border-white/15 transition"
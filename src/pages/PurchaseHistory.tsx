@@ -1,7 +1,12 @@
 import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Download, FileText } from "lucide-react";
 import Navbar from "../components/layout/Navbar";
 import Footer from "../components/layout/Footer";
 import { supabase } from "../lib/supabase";
+import { useAuth } from "../contexts/AuthContext";
+import { downloadInvoicePdf } from "../lib/invoiceDownload";
+import { ORDER_STATUS_LABEL, type OrderStatus } from "../lib/refunds";
 
 type OrderSong = {
   id: string;
@@ -10,20 +15,62 @@ type OrderSong = {
 };
 
 type OrderItem = {
+  id: string;
   quantity: number;
   price_cents: number;
+  // bundle and promo savings on this line
+  discount_cents: number | null;
+  title: string | null;
+  // merch lines: the variant that was bought
+  sku: string | null;
+  variant_size: string | null;
+  variant_colour: string | null;
+  // ticket lines: the tier; title reads "Show — Tier"
+  ticket_tier_id: string | null;
+  // song bought for someone else
+  gift_email: string | null;
+  refunded_quantity: number | null;
   songs: OrderSong[] | null; // <-- array
 };
 
+// refunds and cancellations come with a note from us
+type StatusHistoryRow = {
+  id: string;
+  status: OrderStatus;
+  note: string | null;
+  amount_cents: number | null;
+  created_at: string;
+};
+
+// song_gifts rows this user sent or received (RLS shows both)
+type GiftRow = {
+  id: string;
+  order_item_id: string;
+  sender_id: string;
+  sender_email: string | null;
+  recipient_email: string;
+  message: string | null;
+  claimed_at: string | null;
+  created_at: string;
+  songs: OrderSong[] | OrderSong | null;
+};
+
 type OrderRow = {
   id: string;
-  status: string;
+  status: OrderStatus;
   currency: string;
   total_cents: number;
+  refunded_cents: number | null;
   created_at: string;
+  shipping_method: "courier" | "collect" | null;
+  shipping_cents: number | null;
   order_items: OrderItem[] | null;
+  order_status_history: StatusHistoryRow[] | null;
 };
 
+// these orders were paid at some point, so they have an invoice
+const WAS_PAID: OrderStatus[] = ["paid", "partially_refunded", "refunded"];
+
 const formatZar = (cents: number) =>
   new Intl.NumberFormat("en-ZA", {
     style: "currency",
@@ -33,9 +80,13 @@ const formatZar = (cents: number) =>
   }).format((cents || 0) / 100);
 
 export default function PurchaseHistory() {
+  const { user } = useAuth();
   const [orders, setOrders] = useState<OrderRow[]>([]);
+  const [gifts, setGifts] = useState<GiftRow[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [pdfOrderId, setPdfOrderId] = useState<string | null>(null);
+  const [pdfError, setPdfError] = useState<string | null>(null);
 
   useEffect(() => {
     const load = async () => {
@@ -50,15 +101,34 @@ export default function PurchaseHistory() {
           status,
           currency,
           total_cents,
+          refunded_cents,
           created_at,
+          shipping_method,
+          shipping_cents,
           order_items (
+            id,
             quantity,
             price_cents,
-            songs:song_id (
+            discount_cents,
+            title,
+            sku,
+            variant_size,
+            variant_colour,
+            ticket_tier_id,
+            gift_email,
+            refunded_quantity,
+            songs:song_catalog (
               id,
               title,
               artist
             )
+          ),
+          order_status_history (
+            id,
+            status,
+            note,
+            amount_cents,
+            created_at
           )
         `
         )
@@ -72,16 +142,43 @@ export default function PurchaseHistory() {
         const normalized = rows.map((o) => ({
           ...o,
           order_items: o.order_items ?? [],
+          order_status_history: [...(o.order_status_history ?? [])].sort((a, b) =>
+            a.created_at.localeCompare(b.created_at)
+          ),
         }));
         setOrders(normalized);
       }
 
+      const { data: giftData } = await supabase
+        .from("song_gifts")
+        .select(
+          "id, order_item_id, sender_id, sender_email, recipient_email, message, claimed_at, created_at, songs:song_catalog (id, title, artist)"
+        )
+        .order("created_at", { ascending: false });
+      setGifts(((giftData ?? []) as unknown) as GiftRow[]);
+
       setLoading(false);
     };
 
     load();
   }, []);
 
+  const sentGifts = new Map(gifts.filter((g) => g.sender_id === user?.id).map((g) => [g.order_item_id, g]));
+  const receivedGifts = gifts.filter((g) => g.sender_id !== user?.id);
+  const downloadPdf = async (orderId: string) => {
+    setPdfOrderId(orderId);
+    setPdfError(null);
+    try {
+      await downloadInvoicePdf(orderId);
+    } catch (e) {
+      setPdfError(e instanceof Error ? e.message : "Could not download this invoice.");
+    } finally {
+      setPdfOrderId(null);
+    }
+  };
+
+  const giftSong = (g: GiftRow) => (Array.isArray(g.songs) ? g.songs[0] : g.songs) ?? null;
+
   return (
     <div className="relative min-h-screen flex flex-col">
       <div className="fixed inset-0 z-0 pointer-events-none">
@@ -105,6 +202,32 @@ export default function PurchaseHistory() {
               </div>
             )}
 
+            {pdfError && (
+              <div className="mt-6 rounded-2xl border border-red-500/30 bg-red-500/10 px-5 py-4 text-sm text-red-200">
+                {pdfError}
+              </div>
+            )}
+
+            {!loading && receivedGifts.length > 0 && (
+              <div className="mt-8 rounded-2xl border border-white/10 bg-black/40 backdrop-blur-sm p-5">
+                <div className="text-sm text-white/60">Gifts received</div>
+                <div className="mt-3 space-y-3">
+                  {receivedGifts.map((g) => (
+                    <div key={g.id} className="text-sm">
+                      <div className="font-semibold truncate">
+                        🎁 {giftSong(g)?.title ?? "A song"}
+                        <span className="text-white/60 font-normal"> • {giftSong(g)?.artist ?? "Bliximstraat"}</span>
+                      </div>
+                      <div className="text-xs text-white/60">
+                        From {g.sender_email ?? "a fan"} • {new Date(g.created_at).toLocaleDateString("en-ZA")}
+                      </div>
+                      {g.message ? <div className="mt-1 text-xs text-white/70 italic">“{g.message}”</div> : null}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {loading ? (
               <div className="mt-8 rounded-2xl border border-white/10 bg-black/35 backdrop-blur-sm p-6 text-white/70">
                 Loading…
@@ -122,37 +245,108 @@ export default function PurchaseHistory() {
                         <div className="text-sm text-white/60">Order</div>
                         <div className="font-semibold break-all">{o.id}</div>
                         <div className="mt-1 text-xs text-white/60">
-                          {new Date(o.created_at).toLocaleString("en-ZA")} • Status: {o.status}
+                          {new Date(o.created_at).toLocaleString("en-ZA")} • Status: {ORDER_STATUS_LABEL[o.status] ?? o.status}
                         </div>
                       </div>
 
                       <div className="text-right">
                         <div className="text-sm text-white/60">Total</div>
                         <div className="text-lg font-bold">{formatZar(o.total_cents)}</div>
+                        {o.refunded_cents ? (
+                          <div className="text-xs text-white/70">Refunded {formatZar(o.refunded_cents)}</div>
+                        ) : null}
+                        {WAS_PAID.includes(o.status) && (
+                          <div className="mt-2 flex justify-end gap-3 text-xs">
+                            <Link
+                              to={`/orders/${o.id}/invoice`}
+                              className="inline-flex items-center gap-1 text-white/70 hover:text-white"
+                            >
+                              <FileText className="h-3.5 w-3.5" /> Invoice
+                            </Link>
+                            <button
+                              type="button"
+                              onClick={() => downloadPdf(o.id)}
+                              disabled={pdfOrderId !== null}
+                              className="inline-flex items-center gap-1 text-white/70 hover:text-white disabled:opacity-50"
+                            >
+                              <Download className="h-3.5 w-3.5" />
+                              {pdfOrderId === o.id ? "Preparing…" : "PDF"}
+                            </button>
+                          </div>
+                        )}
                       </div>
                     </div>
 
                     <div className="mt-4 border-t border-white/10 pt-4 space-y-2">
                       {(o.order_items ?? []).map((it, idx) => {
                         const song = it.songs?.[0] ?? null;
+                        const variant = [it.variant_colour, it.variant_size].filter(Boolean).join(" / ");
 
                         return (
                           <div key={idx} className="flex items-center justify-between text-sm">
                             <div className="min-w-0 pr-3">
-                              <div className="font-semibold truncate">
-                                {song?.title ?? "Unknown song"}
-                                <span className="text-white/60 font-normal"> • {song?.artist ?? "Bliximstraat"}</span>
-                              </div>
+                              {it.sku ? (
+                                <div className="font-semibold truncate">
+                                  {it.title ?? "Merch"}
+                                  <span className="text-white/60 font-normal"> • {variant || "Merch"}</span>
+                                </div>
+                              ) : it.ticket_tier_id ? (
+                                <div className="font-semibold truncate">
+                                  {it.title ?? "Show"}
+                                  <span className="text-white/60 font-normal"> • Ticket</span>
+                                </div>
+                              ) : (
+                                <div className="font-semibold truncate">
+                                  {song?.title ?? it.title ?? "Unknown song"}
+                                  <span className="text-white/60 font-normal"> • {song?.artist ?? "Bliximstraat"}</span>
+                                </div>
+                              )}
+                              {it.gift_email ? (
+                                <div className="text-xs text-white/70">
+                                  🎁 Gift to {it.gift_email}
+                                  {o.status === "paid"
+                                    ? sentGifts.get(it.id)?.claimed_at
+                                      ? " • claimed"
+                                      : " • waiting to be claimed"
+                                    : ""}
+                                </div>
+                              ) : null}
                               <div className="text-xs text-white/60">
                                 Qty {it.quantity} • {formatZar(it.price_cents)} each
+                                {it.discount_cents ? ` • −${formatZar(it.discount_cents)} off` : ""}
+                                {it.refunded_quantity ? ` • ${it.refunded_quantity} refunded` : ""}
                               </div>
                             </div>
 
-                            <div className="font-semibold">{formatZar(it.price_cents * it.quantity)}</div>
+                            <div className="font-semibold">
+                              {formatZar(it.price_cents * it.quantity - (it.discount_cents ?? 0))}
+                            </div>
                           </div>
                         );
                       })}
+
+                      {o.shipping_method ? (
+                        <div className="flex items-center justify-between text-sm text-white/70">
+                          <div>{o.shipping_method === "collect" ? "Collect at show" : "Courier delivery"}</div>
+                          <div className="font-semibold">
+                            {o.shipping_cents ? formatZar(o.shipping_cents) : "Free"}
+                          </div>
+                        </div>
+                      ) : null}
                     </div>
+
+                    {(o.order_status_history ?? []).length > 1 && (
+                      <ol className="mt-4 border-t border-white/10 pt-4 space-y-1 text-xs text-white/60">
+                        {(o.order_status_history ?? []).map((h) => (
+                          <li key={h.id}>
+                            <span className="text-white/80">{ORDER_STATUS_LABEL[h.status] ?? h.status}</span>
+                            {h.amount_cents ? ` • ${formatZar(h.amount_cents)} back to your card` : ""} •{" "}
+                            {new Date(h.created_at).toLocaleString("en-ZA")}
+                            {h.note ? <span className="italic"> — “{h.note}”</span> : null}
+                          </li>
+                        ))}
+                      </ol>
+                    )}
                   </div>
                 ))}
               </div>
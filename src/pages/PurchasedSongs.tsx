@@ -1,16 +1,22 @@
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import Navbar from "../components/layout/Navbar";
 import Footer from "../components/layout/Footer";
 import { supabase } from "../lib/supabase";
+import { usePlayer, type PlayerTrack } from "../lib/player";
+import { ownedTrack } from "../hooks/useOwnedTracks";
+import { useAuth } from "../contexts/AuthContext";
+import { getSongAudioUrl } from "../lib/songAudio";
+import { AUDIO_FORMATS, AUDIO_FORMAT_LABEL, type AudioFormat } from "../lib/audioFormats";
 
 type PurchasedSong = {
   id: string;
+  slug: string | null;
   title: string;
   artist: string | null;
   release_date: string | null;
   cover_url: string | null;
-  audio_url: string | null;
   price_cents: number | null;
+  song_audio_files: { format: AudioFormat }[] | null;
 };
 
 type PurchasedRow = {
@@ -31,8 +37,11 @@ export default function PurchasedSongs() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  const audioRef = useRef<HTMLAudioElement | null>(null);
-  const [nowPlayingId, setNowPlayingId] = useState<string | null>(null);
+  const { user } = useAuth();
+  const player = usePlayer();
+  // song uuid -> times downloaded by this user
+  const [downloads, setDownloads] = useState<Record<string, number>>({});
+  const [downloading, setDownloading] = useState<string | null>(null);
   const [toast, setToast] = useState<string | null>(null);
 
   const showToast = (msg: string) => {
@@ -48,9 +57,14 @@ export default function PurchasedSongs() {
         song: r.songs?.[0] ?? null,
       }))
       .filter((x) => !!x.song)
-      .map((x) => ({ purchasedAt: x.purchasedAt, song: x.song! }));
+      .map((x) => ({ purchasedAt: x.purchasedAt, song: x.song!, track: ownedTrack(x.song!) }));
   }, [rows]);
 
+  const playable = useMemo(
+    () => items.map((x) => x.track).filter((t): t is PlayerTrack => !!t),
+    [items]
+  );
+
   useEffect(() => {
     const load = async () => {
       setLoading(true);
@@ -63,12 +77,13 @@ export default function PurchasedSongs() {
           purchased_at,
           songs:song_id (
             id,
+            slug,
             title,
             artist,
             release_date,
             cover_url,
-            audio_url,
-            price_cents
+            price_cents,
+            song_audio_files ( format )
           )
         `
         )
@@ -94,66 +109,53 @@ export default function PurchasedSongs() {
     };
 
     load();
-
-    if (!audioRef.current) {
-      const a = new Audio();
-      a.preload = "auto";
-      a.crossOrigin = "anonymous";
-      audioRef.current = a;
-    }
-
-    return () => {
-      if (audioRef.current) {
-        audioRef.current.pause();
-        audioRef.current.src = "";
-        audioRef.current = null;
-      }
-    };
   }, []);
 
-  const stop = () => {
-    const a = audioRef.current;
-    if (!a) return;
-    a.pause();
-    try {
-      a.currentTime = 0;
-    } catch {
-      // ignore
-    }
-    setNowPlayingId(null);
-  };
-
-  const play = async (songId: string, audioUrl: string | null) => {
-    if (!audioUrl) {
+  useEffect(() => {
+    if (!user) return;
+    supabase
+      .from("song_download_counts")
+      .select("song_id, downloads")
+      .eq("user_id", user.id)
+      .then(({ data }) => {
+        const counts: Record<string, number> = {};
+        for (const r of (data ?? []) as { song_id: string; downloads: number }[]) counts[r.song_id] = r.downloads;
+        setDownloads(counts);
+      });
+  }, [user]);
+
+  const isCurrent = (track: PlayerTrack | null) => !!track && player.current?.id === track.id;
+
+  /** Plays the whole library from this song, so the queue carries on by itself. */
+  const play = (track: PlayerTrack | null) => {
+    if (!track) {
       showToast("No audio uploaded for this song yet.");
       return;
     }
-
-    if (nowPlayingId === songId) {
-      stop();
+    if (isCurrent(track)) {
+      player.togglePlay();
       return;
     }
+    player.playQueue(playable, playable.indexOf(track));
+  };
 
-    const a = audioRef.current ?? new Audio();
-    audioRef.current = a;
-
-    a.onended = () => setNowPlayingId(null);
-    a.onerror = () => {
-      showToast("Audio failed to load. Check bucket permissions / URL.");
-      setNowPlayingId(null);
-    };
-
+  /** Links expire after a few minutes, so sign one per click instead of rendering hrefs. */
+  const download = async (song: PurchasedSong, format: AudioFormat) => {
+    setDownloading(`${song.id}:${format}`);
     try {
-      a.src = audioUrl;
-      a.currentTime = 0;
-      await a.play();
-      setNowPlayingId(songId);
-    } catch {
-      showToast("Playback blocked. Try clicking again.");
-      setNowPlayingId(null);
+      const { url } = await getSongAudioUrl(song.id, "download", format);
+      setDownloads((prev) => ({ ...prev, [song.id]: (prev[song.id] ?? 0) + 1 }));
+      window.location.assign(url);
+    } catch (e) {
+      showToast(e instanceof Error ? e.message : "Download failed.");
+    } finally {
+      setDownloading(null);
     }
   };
 
+  const formatsOf = (song: PurchasedSong) =>
+    AUDIO_FORMATS.filter((f) => song.song_audio_files?.some((x) => x.format === f));
+
   return (
     <div className="relative min-h-screen flex flex-col">
       <div className="fixed inset-0 z-0 pointer-events-none">
@@ -173,9 +175,20 @@ export default function PurchasedSongs() {
                 <h1 className="text-3xl md:text-4xl font-semibold tracking-tight">Purchased Songs</h1>
                 <p className="text-white/60 mt-2">Your personal vault. Only you get to hear these.</p>
               </div>
-              <div className="shrink-0 text-right">
-                <div className="text-xs text-white/60">Owned</div>
-                <div className="text-sm font-semibold">{items.length}</div>
+              <div className="shrink-0 flex items-center gap-4">
+                {playable.length > 0 && (
+                  <button
+                    type="button"
+                    className="rounded-xl border border-white/15 bg-white/10 px-4 py-2 text-sm font-semibold hover:bg-white/15"
+                    onClick={() => player.playQueue(playable)}
+                  >
+                    Play all
+                  </button>
+                )}
+                <div className="text-right">
+                  <div className="text-xs text-white/60">Owned</div>
+                  <div className="text-sm font-semibold">{items.length}</div>
+                </div>
               </div>
             </div>
 
@@ -201,7 +214,7 @@ export default function PurchasedSongs() {
               </div>
             ) : (
               <div className="mt-8 grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
-                {items.map(({ purchasedAt, song }) => (
+                {items.map(({ purchasedAt, song, track }) => (
                   <div
                     key={song.id}
                     className="rounded-2xl border border-white/10 bg-black/40 backdrop-blur-sm overflow-hidden"
@@ -226,28 +239,36 @@ export default function PurchasedSongs() {
                           <button
                             type="button"
                             className="flex-1 rounded-xl border border-white/15 bg-white/10 px-4 py-2 text-sm font-semibold hover:bg-white/15"
-                            onClick={() => play(song.id, song.audio_url)}
+                            onClick={() => play(track)}
                           >
-                            {nowPlayingId === song.id ? "Stop" : "Play"}
+                            {isCurrent(track) && player.isPlaying ? "Pause" : "Play"}
                           </button>
-
-                          {song.audio_url && (
-                            <a
-                              href={song.audio_url}
-                              target="_blank"
-                              rel="noreferrer"
-                              className="flex-1 text-center rounded-xl border border-white/15 bg-white/10 px-4 py-2 text-sm font-semibold hover:bg-white/15"
-                            >
-                              Download
-                            </a>
-                          )}
                         </div>
+
+                        {formatsOf(song).length > 0 && (
+                          <div className="mt-2 flex gap-2">
+                            {formatsOf(song).map((format) => (
+                              <button
+                                key={format}
+                                type="button"
+                                disabled={downloading === `${song.id}:${format}`}
+                                className="flex-1 rounded-xl border border-white/15 bg-white/10 px-3 py-1.5 text-xs font-semibold hover:bg-white/15 disabled:opacity-50"
+                                onClick={() => download(song, format)}
+                              >
+                                ↓ {AUDIO_FORMAT_LABEL[format]}
+                              </button>
+                            ))}
+                          </div>
+                        )}
                       </div>
                     </div>
 
                     <div className="p-4">
                       <div className="text-xs text-white/60">Owned</div>
                       <div className="text-sm font-semibold">✅ Verified by RLS</div>
+                      <div className="mt-1 text-[11px] text-white/50">
+                        Downloaded {downloads[song.id] ?? 0}×
+                      </div>
                     </div>
                   </div>
                 ))}
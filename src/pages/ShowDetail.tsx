@@ -0,0 +1,261 @@
+import { useEffect, useState, type ReactNode } from "react";
+import { Link, useParams } from "react-router-dom";
+import Navbar from "../components/layout/Navbar";
+import Footer from "../components/layout/Footer";
+import VideoBackground from "../components/layout/VideoBackground";
+import TicketTiers from "../components/shows/TicketTiers";
+import VenueMap from "../components/shows/VenueMap";
+import ShowGallery from "../components/shows/ShowGallery";
+import { useCatalog } from "../hooks/useCatalog";
+import { catalog, hasVideo } from "../lib/catalog";
+import { fetchTicketTiers, type TicketTierOffer } from "../lib/cartApi";
+import { downloadShowIcs, googleCalendarUrl, showLocation } from "../lib/showCalendar";
+import { isPastShow } from "../lib/showTime";
+import type { SetlistEntry } from "../data/shows";
+
+function formatLongDate(dateStr: string) {
+  const [y, m, d] = dateStr.split("-").map(Number);
+  return new Date(y, m - 1, d).toLocaleDateString("en-ZA", {
+    weekday: "long",
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+  });
+}
+
+function ageLabel(minAge: number) {
+  return minAge === 0 ? "All ages" : `${minAge}+ only`;
+}
+
+function Detail({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div>
+      <p className="text-[10px] font-medium uppercase tracking-[0.28em] text-white/35 mb-1">{label}</p>
+      <div className="text-sm text-white/80">{children}</div>
+    </div>
+  );
+}
+
+/** Songs played, in order; our own songs link to their video. */
+function Setlist({ entries }: { entries: SetlistEntry[] }) {
+  const SONGS = useCatalog("songs");
+
+  return (
+    <ol className="space-y-1.5">
+      {entries.map((entry, i) => {
+        const song = entry.songId ? SONGS.find(s => s.id === entry.songId) : undefined;
+        return (
+          <li key={i} className="flex items-baseline gap-3 text-sm">
+            <span className="w-6 shrink-0 text-right text-xs text-white/30">{i + 1}</span>
+            {song && hasVideo(song) ? (
+              <a
+                href={song.youtubeUrl}
+                target="_blank"
+                rel="noreferrer"
+                className="text-white hover:underline underline-offset-2"
+              >
+                {entry.title}
+              </a>
+            ) : (
+              <span className={song ? "text-white" : "text-white/70"}>{entry.title}</span>
+            )}
+            {entry.note && <span className="text-xs text-white/35">{entry.note}</span>}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
+export default function ShowDetail() {
+  const { id = "" } = useParams();
+  const SHOWS = useCatalog("shows");
+  const show = SHOWS.find(s => s.id === id);
+
+  // a show added in Admin isn't in the static list, so wait for the database before saying "not found"
+  const [loaded, setLoaded] = useState(false);
+  const [tiers, setTiers] = useState<TicketTierOffer[]>([]);
+
+  useEffect(() => {
+    catalog.shows.get().then(() => setLoaded(true));
+    fetchTicketTiers()
+      .then(setTiers)
+      .catch(err => console.warn("Ticket tiers unavailable:", err));
+  }, []);
+
+  const pageUrl = `${window.location.origin}/shows/${encodeURIComponent(id)}`;
+
+  const past = !!show && isPastShow(show);
+  const showTiers = show ? tiers.filter(t => t.show_catalog_id === show.id) : [];
+  const location = show ? showLocation(show) : "";
+  const coords = show?.lat !== undefined && show?.lng !== undefined ? { lat: show.lat, lng: show.lng } : null;
+  const mapsUrl = `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(
+    coords ? `${coords.lat},${coords.lng}` : location
+  )}`;
+
+  return (
+    <div
+      className="relative min-h-screen text-white overflow-x-hidden flex flex-col"
+      style={{ background: "#000000" }}
+    >
+      <VideoBackground />
+
+      <div className="relative z-10 flex flex-col min-h-screen">
+        <Navbar />
+
+        <main className="flex-1">
+          <div className="max-w-6xl mx-auto px-6 py-12 space-y-10">
+            <Link to="/shows" className="text-xs text-white/40 hover:text-white/70 transition-colors">
+              ← All shows
+            </Link>
+
+            {!show ? (
+              <div
+                className="rounded-xl p-12 text-center"
+                style={{ border: "1px solid rgba(255,255,255,0.07)" }}
+              >
+                <div className="text-white/50 text-base font-light">
+                  {loaded ? "We couldn't find that show." : "Loading…"}
+                </div>
+              </div>
+            ) : (
+              <>
+                {/* Header */}
+                <header>
+                  <p className="text-[10px] font-medium uppercase tracking-[0.28em] text-white/35 mb-3">
+                    {past ? "Past show" : "Live"}
+                  </p>
+                  <h1 className="text-4xl md:text-5xl font-light tracking-tight text-white">
+                    {show.title || show.venue}
+                  </h1>
+                  <p className="mt-2 text-sm text-white/40">
+                    {formatLongDate(show.date)} · {show.venue} · {show.city}
+                  </p>
+                </header>
+
+                <div className="h-px" style={{ background: "rgba(255,255,255,0.07)" }} />
+
+                <div className="grid gap-10 md:grid-cols-2">
+                  <div className="space-y-6">
+                    {show.lineup && show.lineup.length > 0 && (
+                      <Detail label="Lineup">
+                        <ul className="space-y-1">
+                          {show.lineup.map(act => (
+                            <li key={act} className="text-base text-white">{act}</li>
+                          ))}
+                        </ul>
+                      </Detail>
+                    )}
+
+                    <div className="grid grid-cols-2 gap-6">
+                      {show.doorsTime && <Detail label="Doors">{show.doorsTime}</Detail>}
+                      {show.time && <Detail label="Show">{show.time}</Detail>}
+                      {show.minAge !== undefined && <Detail label="Age">{ageLabel(show.minAge)}</Detail>}
+                    </div>
+
+                    <Detail label="Venue">
+                      <p className="text-white">{show.venue}</p>
+                      {show.address && <p>{show.address}</p>}
+                      <p>{show.city}</p>
+                      <a
+                        href={mapsUrl}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="mt-1 inline-block text-xs text-white/40 underline underline-offset-2 hover:text-white/70"
+                      >
+                        Directions
+                      </a>
+                    </Detail>
+
+                    {!past && (
+                      <Detail label="Add to calendar">
+                        <div className="flex flex-wrap gap-2 mt-1">
+                          <button
+                            type="button"
+                            onClick={() => downloadShowIcs(show, pageUrl)}
+                            className="px-4 py-2 text-xs font-medium text-white rounded-sm border border-white/15 hover:bg-white/10 transition-colors"
+                          >
+                            Download .ics
+                          </button>
+                          <a
+                            href={googleCalendarUrl(show, pageUrl)}
+                            target="_blank"
+                            rel="noreferrer"
+                            className="px-4 py-2 text-xs font-medium text-white rounded-sm border border-white/15 hover:bg-white/10 transition-colors"
+                          >
+                            Google Calendar
+                          </a>
+                        </div>
+                      </Detail>
+                    )}
+                  </div>
+
+                  {coords && (
+                    <div
+                      className="h-[320px] md:h-full md:min-h-[360px] rounded-xl overflow-hidden"
+                      style={{ border: "1px solid rgba(255,255,255,0.07)" }}
+                    >
+                      <VenueMap lat={coords.lat} lng={coords.lng} label={show.venue} />
+                    </div>
+                  )}
+                </div>
+
+                {/* Archive */}
+                {past && (show.attendanceNote || (show.setlist?.length ?? 0) > 0) && (
+                  <section className="grid gap-10 md:grid-cols-2">
+                    {show.setlist && show.setlist.length > 0 && (
+                      <div className="space-y-4">
+                        <h2 className="text-base font-medium text-white">Setlist</h2>
+                        <Setlist entries={show.setlist} />
+                      </div>
+                    )}
+                    {show.attendanceNote && (
+                      <div className="space-y-4">
+                        <h2 className="text-base font-medium text-white">On the night</h2>
+                        <p className="text-sm text-white/60 whitespace-pre-line">{show.attendanceNote}</p>
+                      </div>
+                    )}
+                  </section>
+                )}
+
+                {show.photos && show.photos.length > 0 && (
+                  <section className="space-y-6">
+                    <div>
+                      <p className="text-[10px] font-medium uppercase tracking-[0.28em] text-white/35 mb-2">
+                        Photos
+                      </p>
+                      <h2 className="text-2xl font-light text-white">Gallery</h2>
+                    </div>
+                    <ShowGallery photos={show.photos} />
+                  </section>
+                )}
+
+                {/* Tickets */}
+                {!past && (showTiers.length > 0 || show.ticketUrl) && (
+                  <section className="space-y-4">
+                    <h2 className="text-base font-medium text-white">Tickets</h2>
+                    {/* our own tiers replace the external link once a show has any */}
+                    {showTiers.length > 0 ? (
+                      <TicketTiers show={show} tiers={showTiers} />
+                    ) : (
+                      <a
+                        href={show.ticketUrl}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="inline-flex px-6 py-2.5 text-sm font-medium text-black bg-white rounded-sm hover:bg-white/90 transition-colors"
+                      >
+                        Get tickets
+                      </a>
+                    )}
+                  </section>
+                )}
+              </>
+            )}
+          </div>
+        </main>
+
+        <Footer />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+-- create-checkout: server-side pricing + pluggable payment provider.
+-- Orders remember which provider session they belong to so the webhook can find them.
+
+alter table public.orders
+  add column if not exists provider text,
+  add column if not exists provider_checkout_id text;
+
+create index if not exists orders_provider_checkout_id_idx
+  on public.orders (provider_checkout_id);
+
+-- Order lines can now be either a song or a merch product.
+alter table public.order_items
+  add column if not exists product_id uuid references public.products (id),
+  add column if not exists title text;
+
+alter table public.order_items
+  alter column song_id drop not null;
+
+alter table public.order_items
+  drop constraint if exists order_items_song_or_product;
+
+alter table public.order_items
+  add constraint order_items_song_or_product
+  check ((song_id is not null) <> (product_id is not null));
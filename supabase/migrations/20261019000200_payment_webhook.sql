@@ -0,0 +1,31 @@
+-- payment-webhook: fulfilment + audit trail for provider events.
+
+alter table public.orders
+  add column if not exists paid_at timestamptz;
+
+-- One row per provider event. provider_event_id is the idempotency key;
+-- processed_at is only set once the event has been fully applied.
+create table if not exists public.payment_events (
+  id uuid primary key default gen_random_uuid(),
+  provider text not null,
+  provider_event_id text not null,
+  event_type text not null,
+  provider_payment_id text,
+  provider_checkout_id text,
+  order_id uuid references public.orders (id),
+  amount_cents integer,
+  payload jsonb not null,
+  outcome text,
+  received_at timestamptz not null default now(),
+  processed_at timestamptz,
+  unique (provider, provider_event_id)
+);
+
+alter table public.payment_events enable row level security;
+-- no policies: service role only
+
+alter table public.user_purchases
+  add column if not exists order_id uuid references public.orders (id);
+
+create unique index if not exists user_purchases_user_song_key
+  on public.user_purchases (user_id, song_id);
@@ -0,0 +1,83 @@
+-- Merch in the cart: one row per size/colour variant, addressed by SKU.
+-- SKU format matches merchSku() in src/data/merch.ts: <slug>/<size>[/<colour>]
+
+alter table public.products
+  add column if not exists slug text unique;
+
+create table if not exists public.product_variants (
+  id uuid primary key default gen_random_uuid(),
+  product_id uuid not null references public.products (id) on delete cascade,
+  sku text not null unique,
+  size text,
+  colour text,
+  created_at timestamptz not null default now()
+);
+
+alter table public.product_variants enable row level security;
+
+drop policy if exists "product_variants are public" on public.product_variants;
+create policy "product_variants are public"
+  on public.product_variants for select
+  using (true);
+
+-- Orders keep the variant that was bought, even if the variant row changes later.
+alter table public.order_items
+  add column if not exists sku text,
+  add column if not exists variant_size text,
+  add column if not exists variant_colour text;
+
+alter table public.orders
+  add column if not exists requires_shipping boolean not null default false;
+
+-- Server carts hold merch lines by SKU next to song lines.
+alter table public.cart_items
+  add column if not exists sku text;
+
+alter table public.cart_items
+  alter column song_id drop not null;
+
+alter table public.cart_items
+  drop constraint if exists cart_items_song_or_sku;
+
+alter table public.cart_items
+  add constraint cart_items_song_or_sku
+  check ((song_id is not null) <> (sku is not null));
+
+-- Seed the catalogue currently shown on /merch.
+insert into public.products (slug, name, category, price_cents, is_preorder)
+values
+  ('men-tee', 'Men''s Tee', 'Shirts', 45000, false),
+  ('women-tee', 'Women''s Tee', 'Shirts', 45000, false),
+  ('cap-blue', 'Blue Snapback Cap', 'Headwear', 42000, false),
+  ('cap-mooiste', 'Mooiste Cap', 'Headwear', 42000, false),
+  ('cap-orange-jean', 'Orange Jean Cap', 'Headwear', 42000, false),
+  ('cap-stupid', 'Stupid Cap', 'Headwear', 42000, false),
+  ('cap-blue-cheaper', 'Blue Cap', 'Headwear', 12000, false),
+  ('cap-orange', 'Orange Cap', 'Headwear', 12000, false),
+  ('keyring', 'BliximStraat Keyring', 'Accessories', 3000, false),
+  ('band', 'BliximStraat Band', 'Accessories', 3000, false)
+on conflict (slug) do nothing;
+
+insert into public.product_variants (product_id, sku, size, colour)
+select p.id, p.slug || '/' || lower(s.size) || '/' || lower(c.colour), s.size, c.colour
+from public.products p
+cross join (values ('Blue'), ('Grey')) as c (colour)
+cross join lateral (
+  select unnest(
+    case p.slug
+      when 'men-tee' then array['S', 'M', 'L', 'XL', 'XXL']
+      else array['XS', 'S', 'M', 'L', 'XL']
+    end
+  ) as size
+) s
+where p.slug in ('men-tee', 'women-tee')
+on conflict (sku) do nothing;
+
+insert into public.product_variants (product_id, sku, size, colour)
+select p.id, p.slug || '/one-size', 'One Size', null
+from public.products p
+where p.slug in (
+  'cap-blue', 'cap-mooiste', 'cap-orange-jean', 'cap-stupid',
+  'cap-blue-cheaper', 'cap-orange', 'keyring', 'band'
+)
+on conflict (sku) do nothing;
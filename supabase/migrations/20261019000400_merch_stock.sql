@@ -0,0 +1,62 @@
+-- Per-variant stock. stock_qty null means "not tracked" (always available).
+-- Products flagged is_preorder keep selling at 0 stock; those lines are backordered.
+
+alter table public.product_variants
+  add column if not exists stock_qty integer check (stock_qty is null or stock_qty >= 0);
+
+alter table public.order_items
+  add column if not exists backordered boolean not null default false;
+
+alter table public.orders
+  add column if not exists stock_applied_at timestamptz;
+
+drop policy if exists "product_variants admin write" on public.product_variants;
+create policy "product_variants admin write"
+  on public.product_variants for all
+  using (exists (select 1 from public.user_roles r where r.user_id = auth.uid() and r.role = 'admin'))
+  with check (exists (select 1 from public.user_roles r where r.user_id = auth.uid() and r.role = 'admin'));
+
+-- Called by payment-webhook once an order is paid. Safe to call more than once:
+-- only the first call per order touches stock.
+create or replace function public.apply_order_stock(p_order_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  line record;
+  current_stock integer;
+begin
+  update orders set stock_applied_at = now()
+  where id = p_order_id and stock_applied_at is null;
+
+  if not found then
+    return;
+  end if;
+
+  for line in
+    select id, sku, quantity from order_items
+    where order_id = p_order_id and sku is not null
+  loop
+    select stock_qty into current_stock
+    from product_variants
+    where sku = line.sku
+    for update;
+
+    if current_stock is null then
+      continue;
+    end if;
+
+    update product_variants
+    set stock_qty = greatest(current_stock - line.quantity, 0)
+    where sku = line.sku;
+
+    if current_stock < line.quantity then
+      update order_items set backordered = true where id = line.id;
+    end if;
+  end loop;
+end;
+$$;
+
+revoke execute on function public.apply_order_stock(uuid) from public, anon, authenticated;
@@ -0,0 +1,38 @@
+-- Delivery for physical orders: one rule per delivery method, read by the cart
+-- (public select) and by create-checkout, which works out the fee server-side.
+
+create table if not exists public.shipping_rules (
+  method text primary key check (method in ('courier', 'collect')),
+  label text not null,
+  fee_cents integer not null default 0 check (fee_cents >= 0),
+  free_over_cents integer check (free_over_cents is null or free_over_cents >= 0),
+  is_active boolean not null default true,
+  sort_order integer not null default 0
+);
+
+alter table public.shipping_rules enable row level security;
+
+drop policy if exists "shipping_rules are public" on public.shipping_rules;
+create policy "shipping_rules are public"
+  on public.shipping_rules for select
+  using (true);
+
+drop policy if exists "shipping_rules admin write" on public.shipping_rules;
+create policy "shipping_rules admin write"
+  on public.shipping_rules for all
+  using (exists (select 1 from public.user_roles r where r.user_id = auth.uid() and r.role = 'admin'))
+  with check (exists (select 1 from public.user_roles r where r.user_id = auth.uid() and r.role = 'admin'));
+
+-- R120 per order was the WhatsApp-era flat rate. Set free_over_cents to waive it.
+insert into public.shipping_rules (method, label, fee_cents, free_over_cents, sort_order)
+values
+  ('courier', 'Courier to your door', 12000, null, 0),
+  ('collect', 'Collect at a show', 0, null, 1)
+on conflict (method) do nothing;
+
+-- What the customer chose. total_cents already includes shipping_cents.
+alter table public.orders
+  add column if not exists shipping_method text check (shipping_method in ('courier', 'collect')),
+  add column if not exists shipping_cents integer not null default 0,
+  add column if not exists shipping_address jsonb,
+  add column if not exists collect_show_id uuid references public.shows (id) on delete set null;
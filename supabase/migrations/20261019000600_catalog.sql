@@ -0,0 +1,65 @@
+-- The public pages read the catalogue from here now (src/lib/catalog.ts).
+-- slug = the id the static src/data files used, so links and images keep working.
+-- Seed with: node scripts/import-catalog.mjs
+
+alter table public.songs
+  add column if not exists slug text unique,
+  add column if not exists genre text,
+  add column if not exists youtube_url text,
+  -- Music page order, lowest first. New songs default to 0 so they lead.
+  add column if not exists sort_order integer not null default 0;
+
+alter table public.songs
+  alter column price_cents set default 0;
+
+alter table public.albums
+  add column if not exists slug text unique,
+  add column if not exists youtube_url text;
+
+alter table public.shows
+  add column if not exists slug text unique;
+
+-- One lyrics sheet per song, so the importer can upsert on song_id.
+create unique index if not exists lyrics_song_id_key on public.lyrics (song_id);
+
+-- Anonymous visitors read the catalogue directly; admins keep writing from the Admin page.
+alter table public.songs enable row level security;
+alter table public.albums enable row level security;
+alter table public.shows enable row level security;
+alter table public.lyrics enable row level security;
+
+drop policy if exists "songs catalogue is public" on public.songs;
+create policy "songs catalogue is public" on public.songs for select using (true);
+
+drop policy if exists "albums catalogue is public" on public.albums;
+create policy "albums catalogue is public" on public.albums for select using (true);
+
+drop policy if exists "shows catalogue is public" on public.shows;
+create policy "shows catalogue is public" on public.shows for select using (true);
+
+drop policy if exists "lyrics catalogue is public" on public.lyrics;
+create policy "lyrics catalogue is public" on public.lyrics for select using (true);
+
+drop policy if exists "songs admin write" on public.songs;
+create policy "songs admin write"
+  on public.songs for all
+  using (exists (select 1 from public.user_roles r where r.user_id = auth.uid() and r.role = 'admin'))
+  with check (exists (select 1 from public.user_roles r where r.user_id = auth.uid() and r.role = 'admin'));
+
+drop policy if exists "albums admin write" on public.albums;
+create policy "albums admin write"
+  on public.albums for all
+  using (exists (select 1 from public.user_roles r where r.user_id = auth.uid() and r.role = 'admin'))
+  with check (exists (select 1 from public.user_roles r where r.user_id = auth.uid() and r.role = 'admin'));
+
+drop policy if exists "shows admin write" on public.shows;
+create policy "shows admin write"
+  on public.shows for all
+  using (exists (select 1 from public.user_roles r where r.user_id = auth.uid() and r.role = 'admin'))
+  with check (exists (select 1 from public.user_roles r where r.user_id = auth.uid() and r.role = 'admin'));
+
+drop policy if exists "lyrics admin write" on public.lyrics;
+create policy "lyrics admin write"
+  on public.lyrics for all
+  using (exists (select 1 from public.user_roles r where r.user_id = auth.uid() and r.role = 'admin'))
+  with check (exists (select 1 from public.user_roles r where r.user_id = auth.uid() and r.role = 'admin'));
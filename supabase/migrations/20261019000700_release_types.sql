@@ -0,0 +1,13 @@
+-- The albums table holds every release that has a tracklist: albums, EPs and
+-- the odd single with a B-side. Songs with no album_id are singles on their own.
+-- Track order comes from songs.track_number.
+
+alter table public.albums
+  add column if not exists release_type text not null default 'album';
+
+alter table public.albums
+  drop constraint if exists albums_release_type_check;
+alter table public.albums
+  add constraint albums_release_type_check check (release_type in ('album', 'ep', 'single'));
+
+create index if not exists songs_album_track_idx on public.songs (album_id, track_number);
@@ -0,0 +1,68 @@
+-- Preview clips for the Music page, and the full tracks taken off the public API.
+-- The clip lives in the public "previews" bucket; preview_start_s / preview_duration_s
+-- say which part of the full track it was cut from (Admin can regenerate it).
+
+alter table public.songs
+  add column if not exists preview_url text,
+  add column if not exists preview_start_s integer not null default 0,
+  add column if not exists preview_duration_s integer not null default 30;
+
+alter table public.songs
+  drop constraint if exists songs_preview_window_check;
+alter table public.songs
+  add constraint songs_preview_window_check
+  check (preview_start_s >= 0 and preview_duration_s between 5 and 60);
+
+-- Public bucket for clips. Full tracks stay in "audio".
+insert into storage.buckets (id, name, public)
+values ('previews', 'previews', true)
+on conflict (id) do update set public = true;
+
+drop policy if exists "previews admin write" on storage.objects;
+create policy "previews admin write"
+  on storage.objects for all
+  using (
+    bucket_id = 'previews'
+    and exists (select 1 from public.user_roles r where r.user_id = auth.uid() and r.role = 'admin')
+  )
+  with check (
+    bucket_id = 'previews'
+    and exists (select 1 from public.user_roles r where r.user_id = auth.uid() and r.role = 'admin')
+  );
+
+-- Everything the public pages need, minus audio_url. Runs with the owner's
+-- rights, so it isn't limited by the songs policies below.
+create or replace view public.song_catalog as
+select
+  id,
+  slug,
+  title,
+  artist,
+  release_date,
+  genre,
+  youtube_url,
+  cover_url,
+  price_cents,
+  album_id,
+  track_number,
+  sort_order,
+  preview_url,
+  preview_start_s,
+  preview_duration_s,
+  created_at
+from public.songs
+where is_active is not false;
+
+grant select on public.song_catalog to anon, authenticated;
+
+-- The songs table itself (with audio_url) is for admins and for people who bought the song.
+drop policy if exists "songs catalogue is public" on public.songs;
+drop policy if exists "songs readable by buyers" on public.songs;
+create policy "songs readable by buyers"
+  on public.songs for select
+  using (
+    exists (
+      select 1 from public.user_purchases p
+      where p.user_id = auth.uid() and p.song_id = songs.id
+    )
+  );
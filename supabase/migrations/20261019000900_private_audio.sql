@@ -0,0 +1,101 @@
+-- Full tracks are private now. Buyers get short-lived signed URLs from
+-- netlify/functions/song-audio.ts; nobody can reach the files by guessing a link.
+
+insert into storage.buckets (id, name, public)
+values ('audio', 'audio', false)
+on conflict (id) do update set public = false;
+
+drop policy if exists "audio admin access" on storage.objects;
+create policy "audio admin access"
+  on storage.objects for all
+  using (
+    bucket_id = 'audio'
+    and exists (select 1 from public.user_roles r where r.user_id = auth.uid() and r.role = 'admin')
+  )
+  with check (
+    bucket_id = 'audio'
+    and exists (select 1 from public.user_roles r where r.user_id = auth.uid() and r.role = 'admin')
+  );
+
+-- One file per song per format. storage_path is the object path inside the "audio" bucket.
+create table if not exists public.song_audio_files (
+  id uuid primary key default gen_random_uuid(),
+  song_id uuid not null references public.songs (id) on delete cascade,
+  format text not null check (format in ('mp3', 'flac', 'wav')),
+  storage_path text not null,
+  created_at timestamptz not null default now(),
+  unique (song_id, format)
+);
+
+alter table public.song_audio_files enable row level security;
+
+drop policy if exists "song_audio_files admin write" on public.song_audio_files;
+create policy "song_audio_files admin write"
+  on public.song_audio_files for all
+  using (exists (select 1 from public.user_roles r where r.user_id = auth.uid() and r.role = 'admin'))
+  with check (exists (select 1 from public.user_roles r where r.user_id = auth.uid() and r.role = 'admin'));
+
+-- Buyers may see which formats exist; the path alone doesn't get them the file.
+drop policy if exists "song_audio_files readable by buyers" on public.song_audio_files;
+create policy "song_audio_files readable by buyers"
+  on public.song_audio_files for select
+  using (
+    exists (
+      select 1 from public.user_purchases p
+      where p.user_id = auth.uid() and p.song_id = song_audio_files.song_id
+    )
+  );
+
+-- Move the existing public URLs over (…/object/public/audio/<path>).
+insert into public.song_audio_files (song_id, format, storage_path)
+select
+  s.id,
+  case lower(substring(s.audio_url from '\.([A-Za-z0-9]+)$'))
+    when 'flac' then 'flac'
+    when 'wav' then 'wav'
+    else 'mp3'
+  end,
+  substring(s.audio_url from '/object/public/audio/(.+)$')
+from public.songs s
+where s.audio_url like '%/object/public/audio/%'
+on conflict (song_id, format) do nothing;
+
+comment on column public.songs.audio_url is
+  'Deprecated: full tracks live in song_audio_files (private bucket).';
+
+-- Every signed URL handed out, for per-user download counts.
+create table if not exists public.song_downloads (
+  id bigint generated always as identity primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  song_id uuid not null references public.songs (id) on delete cascade,
+  format text not null,
+  kind text not null check (kind in ('stream', 'download')),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists song_downloads_user_song_idx on public.song_downloads (user_id, song_id);
+
+alter table public.song_downloads enable row level security;
+
+drop policy if exists "song_downloads own rows" on public.song_downloads;
+create policy "song_downloads own rows"
+  on public.song_downloads for select
+  using (user_id = auth.uid());
+
+drop policy if exists "song_downloads admin read" on public.song_downloads;
+create policy "song_downloads admin read"
+  on public.song_downloads for select
+  using (exists (select 1 from public.user_roles r where r.user_id = auth.uid() and r.role = 'admin'));
+
+create or replace view public.song_download_counts
+with (security_invoker = true) as
+select
+  user_id,
+  song_id,
+  count(*) filter (where kind = 'download') as downloads,
+  count(*) filter (where kind = 'stream') as streams,
+  max(created_at) filter (where kind = 'download') as last_download_at
+from public.song_downloads
+group by user_id, song_id;
+
+grant select on public.song_download_counts to authenticated;
@@ -0,0 +1,19 @@
+-- Bundle prices: buying every track of a release costs bundle_price_cents instead
+-- of the sum of the tracks. Tracks the buyer already owns are credited pro rata.
+-- The maths lives in src/lib/bundles.ts (shared by the cart and create-checkout).
+
+alter table public.albums
+  add column if not exists bundle_price_cents integer;
+
+alter table public.albums
+  drop constraint if exists albums_bundle_price_check;
+alter table public.albums
+  add constraint albums_bundle_price_check check (bundle_price_cents is null or bundle_price_cents > 0);
+
+-- A line's charge is price_cents * quantity - discount_cents.
+alter table public.order_items
+  add column if not exists discount_cents integer not null default 0,
+  add column if not exists bundle_album_id uuid references public.albums (id) on delete set null;
+
+alter table public.orders
+  add column if not exists discount_cents integer not null default 0;
@@ -0,0 +1,73 @@
+-- Promo codes, checked and applied by netlify/functions/create-checkout.ts.
+-- Shoppers never read this table directly; only admins (Promotions tab) and the
+-- service role do. The discount maths lives in src/lib/promos.ts.
+
+create table if not exists public.promo_codes (
+  id uuid primary key default gen_random_uuid(),
+  -- stored upper-case; shoppers can type it any way they like
+  code text not null unique check (code = upper(code) and length(code) between 3 and 32),
+  description text,
+  discount_type text not null check (discount_type in ('percent', 'fixed')),
+  -- percent: 1-100, fixed: cents
+  discount_value integer not null check (discount_value > 0),
+  -- what the code takes money off: everything, songs, merch, or the listed songs/products
+  scope text not null default 'all' check (scope in ('all', 'songs', 'merch', 'selected')),
+  song_ids uuid[] not null default '{}',
+  product_ids uuid[] not null default '{}',
+  min_subtotal_cents integer check (min_subtotal_cents is null or min_subtotal_cents > 0),
+  starts_at timestamptz,
+  expires_at timestamptz,
+  max_redemptions integer check (max_redemptions is null or max_redemptions > 0),
+  per_user_limit integer check (per_user_limit is null or per_user_limit > 0),
+  is_active boolean not null default true,
+  created_at timestamptz not null default now(),
+  constraint promo_codes_percent_check check (discount_type <> 'percent' or discount_value <= 100)
+);
+
+alter table public.promo_codes enable row level security;
+
+drop policy if exists "promo_codes admin access" on public.promo_codes;
+create policy "promo_codes admin access"
+  on public.promo_codes for all
+  using (exists (select 1 from public.user_roles r where r.user_id = auth.uid() and r.role = 'admin'))
+  with check (exists (select 1 from public.user_roles r where r.user_id = auth.uid() and r.role = 'admin'));
+
+-- One row per order that used a code. Only paid orders count towards the limits.
+create table if not exists public.promo_redemptions (
+  id uuid primary key default gen_random_uuid(),
+  promo_code_id uuid not null references public.promo_codes (id) on delete cascade,
+  order_id uuid not null unique references public.orders (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  discount_cents integer not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists promo_redemptions_code_idx on public.promo_redemptions (promo_code_id);
+create index if not exists promo_redemptions_user_idx on public.promo_redemptions (promo_code_id, user_id);
+
+alter table public.promo_redemptions enable row level security;
+
+drop policy if exists "promo_redemptions admin read" on public.promo_redemptions;
+create policy "promo_redemptions admin read"
+  on public.promo_redemptions for select
+  using (exists (select 1 from public.user_roles r where r.user_id = auth.uid() and r.role = 'admin'));
+
+alter table public.orders
+  add column if not exists promo_code_id uuid references public.promo_codes (id) on delete set null,
+  add column if not exists promo_discount_cents integer not null default 0;
+
+-- Redemption counts for the Promotions tab. Runs as the view owner so it can
+-- see order statuses, hence the admin check in the where clause.
+create or replace view public.promo_code_stats as
+select
+  p.id as promo_code_id,
+  count(o.id) filter (where o.status = 'paid') as redemptions,
+  coalesce(sum(r.discount_cents) filter (where o.status = 'paid'), 0) as discount_cents,
+  count(o.id) filter (where o.status = 'pending') as pending
+from public.promo_codes p
+left join public.promo_redemptions r on r.promo_code_id = p.id
+left join public.orders o on o.id = r.order_id
+where exists (select 1 from public.user_roles ur where ur.user_id = auth.uid() and ur.role = 'admin')
+group by p.id;
+
+grant select on public.promo_code_stats to authenticated;
@@ -0,0 +1,81 @@
+-- Gift purchases. A cart line can be sent to someone else by email; when the
+-- order is paid the webhook files a song_gifts row instead of a user_purchases
+-- row, and the recipient claims it with claim_song_gifts() on sign-in.
+
+alter table public.cart_items
+  add column if not exists gift_email text,
+  add column if not exists gift_message text;
+
+alter table public.order_items
+  add column if not exists gift_email text,
+  add column if not exists gift_message text;
+
+create table if not exists public.song_gifts (
+  id uuid primary key default gen_random_uuid(),
+  order_id uuid not null references public.orders (id) on delete cascade,
+  order_item_id uuid not null unique references public.order_items (id) on delete cascade,
+  song_id uuid not null references public.songs (id) on delete cascade,
+  sender_id uuid not null references auth.users (id) on delete cascade,
+  sender_email text,
+  recipient_email text not null check (recipient_email = lower(recipient_email)),
+  message text,
+  claimed_by uuid references auth.users (id) on delete set null,
+  claimed_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists song_gifts_recipient_idx
+  on public.song_gifts (recipient_email) where claimed_by is null;
+
+alter table public.song_gifts enable row level security;
+
+drop policy if exists "song_gifts sender read" on public.song_gifts;
+create policy "song_gifts sender read"
+  on public.song_gifts for select
+  using (sender_id = auth.uid());
+
+drop policy if exists "song_gifts recipient read" on public.song_gifts;
+create policy "song_gifts recipient read"
+  on public.song_gifts for select
+  using (claimed_by = auth.uid() or recipient_email = lower(auth.jwt() ->> 'email'));
+
+drop policy if exists "song_gifts admin read" on public.song_gifts;
+create policy "song_gifts admin read"
+  on public.song_gifts for select
+  using (exists (select 1 from public.user_roles r where r.user_id = auth.uid() and r.role = 'admin'));
+
+-- Moves every unclaimed gift sent to the caller's email into their library.
+-- Returns how many gifts were claimed by this call. Safe to call on every sign-in.
+create or replace function public.claim_song_gifts()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  me uuid := auth.uid();
+  my_email text := lower(auth.jwt() ->> 'email');
+  claimed integer;
+begin
+  if me is null or coalesce(my_email, '') = '' then
+    return 0;
+  end if;
+
+  update song_gifts
+  set claimed_by = me, claimed_at = now()
+  where claimed_by is null and recipient_email = my_email;
+  get diagnostics claimed = row_count;
+
+  -- also repairs anything a previous call claimed but didn't grant
+  insert into user_purchases (user_id, song_id, order_id)
+  select me, g.song_id, g.order_id
+  from song_gifts g
+  where g.claimed_by = me
+  on conflict (user_id, song_id) do nothing;
+
+  return claimed;
+end;
+$$;
+
+revoke all on function public.claim_song_gifts() from public;
+grant execute on function public.claim_song_gifts() to authenticated;
@@ -0,0 +1,101 @@
+-- Tax invoices. Every paid order gets exactly one, numbered without gaps.
+-- payment-webhook.ts calls issue_invoice() when an order is paid; the layout
+-- and VAT maths live in src/lib/invoices.ts.
+
+-- Single-row counter rather than a sequence: sequences skip numbers on rollback.
+create table if not exists public.invoice_counter (
+  id boolean primary key default true check (id),
+  last_number integer not null default 0
+);
+
+insert into public.invoice_counter (id, last_number) values (true, 0)
+on conflict (id) do nothing;
+
+alter table public.invoice_counter enable row level security;
+
+create table if not exists public.invoices (
+  id uuid primary key default gen_random_uuid(),
+  order_id uuid not null unique references public.orders (id) on delete restrict,
+  invoice_number integer not null unique,
+  issued_at timestamptz not null default now(),
+  -- totals as charged, VAT-inclusive (15%)
+  total_cents integer not null,
+  vat_cents integer not null,
+  buyer_email text
+);
+
+alter table public.invoices enable row level security;
+
+drop policy if exists "invoices own read" on public.invoices;
+create policy "invoices own read"
+  on public.invoices for select
+  using (exists (select 1 from public.orders o where o.id = invoices.order_id and o.user_id = auth.uid()));
+
+drop policy if exists "invoices admin read" on public.invoices;
+create policy "invoices admin read"
+  on public.invoices for select
+  using (exists (select 1 from public.user_roles r where r.user_id = auth.uid() and r.role = 'admin'));
+
+-- Issues the invoice for a paid order, or returns the one it already has.
+create or replace function public.issue_invoice(p_order_id uuid)
+returns public.invoices
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  inv invoices;
+  ord orders;
+  next_number integer;
+begin
+  select * into inv from invoices where order_id = p_order_id;
+  if found then
+    return inv;
+  end if;
+
+  select * into ord from orders where id = p_order_id for update;
+  if not found or ord.status <> 'paid' then
+    raise exception 'Order % is not paid', p_order_id;
+  end if;
+
+  -- a concurrent call may have issued it while we waited for the lock
+  select * into inv from invoices where order_id = p_order_id;
+  if found then
+    return inv;
+  end if;
+
+  update invoice_counter set last_number = last_number + 1 where id
+  returning last_number into next_number;
+
+  insert into invoices (order_id, invoice_number, issued_at, total_cents, vat_cents, buyer_email)
+  values (
+    ord.id,
+    next_number,
+    coalesce(ord.paid_at, now()),
+    ord.total_cents,
+    round(ord.total_cents * 15 / 115.0)::integer,
+    (select email from auth.users where id = ord.user_id)
+  )
+  returning * into inv;
+
+  return inv;
+end;
+$$;
+
+revoke all on function public.issue_invoice(uuid) from public, anon, authenticated;
+grant execute on function public.issue_invoice(uuid) to service_role;
+
+-- Orders that were paid before invoices existed, oldest first
+do $$
+declare
+  o record;
+begin
+  for o in
+    select id from public.orders
+    where status = 'paid' and not exists (select 1 from public.invoices i where i.order_id = orders.id)
+    order by coalesce(paid_at, created_at)
+  loop
+    perform public.issue_invoice(o.id);
+  end loop;
+end;
+$$;
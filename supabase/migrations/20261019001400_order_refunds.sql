@@ -0,0 +1,193 @@
+-- Admin Orders tab: refunds, cancellations and a status history the customer
+-- can see. Refunds go through netlify/functions/admin-orders.ts, which asks the
+-- payment provider first and then calls apply_order_refund().
+
+alter table public.orders
+  add column if not exists refunded_cents integer not null default 0 check (refunded_cents >= 0);
+
+alter table public.orders drop constraint if exists orders_status_check;
+alter table public.orders
+  add constraint orders_status_check
+  check (status in ('pending', 'paid', 'failed', 'cancelled', 'partially_refunded', 'refunded'));
+
+alter table public.order_items
+  add column if not exists refunded_quantity integer not null default 0 check (refunded_quantity >= 0);
+
+-- Admins read every order; customers keep reading their own through the existing policies
+drop policy if exists "orders admin read" on public.orders;
+create policy "orders admin read"
+  on public.orders for select
+  using (exists (select 1 from public.user_roles r where r.user_id = auth.uid() and r.role = 'admin'));
+
+drop policy if exists "order_items admin read" on public.order_items;
+create policy "order_items admin read"
+  on public.order_items for select
+  using (exists (select 1 from public.user_roles r where r.user_id = auth.uid() and r.role = 'admin'));
+
+-- Orders with the buyer's email, for searching. Runs as the view owner so it
+-- can read auth.users, hence the admin check in the where clause.
+create or replace view public.admin_orders as
+select
+  o.id,
+  o.user_id,
+  u.email as customer_email,
+  o.status,
+  o.currency,
+  o.total_cents,
+  o.refunded_cents,
+  o.discount_cents,
+  o.shipping_method,
+  o.shipping_cents,
+  o.shipping_address,
+  o.provider,
+  o.provider_checkout_id,
+  o.created_at,
+  o.paid_at
+from public.orders o
+left join auth.users u on u.id = o.user_id
+where exists (select 1 from public.user_roles ur where ur.user_id = auth.uid() and ur.role = 'admin');
+
+grant select on public.admin_orders to authenticated;
+
+-- Every status an order has been through. note is shown to the customer.
+create table if not exists public.order_status_history (
+  id uuid primary key default gen_random_uuid(),
+  order_id uuid not null references public.orders (id) on delete cascade,
+  status text not null,
+  note text,
+  -- refunds: how much went back
+  amount_cents integer,
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists order_status_history_order_idx
+  on public.order_status_history (order_id, created_at);
+
+alter table public.order_status_history enable row level security;
+
+drop policy if exists "order_status_history own read" on public.order_status_history;
+create policy "order_status_history own read"
+  on public.order_status_history for select
+  using (exists (select 1 from public.orders o where o.id = order_status_history.order_id and o.user_id = auth.uid()));
+
+drop policy if exists "order_status_history admin read" on public.order_status_history;
+create policy "order_status_history admin read"
+  on public.order_status_history for select
+  using (exists (select 1 from public.user_roles r where r.user_id = auth.uid() and r.role = 'admin'));
+
+-- What was asked of the provider. items: [{ "order_item_id": uuid, "quantity": n }]
+create table if not exists public.order_refunds (
+  id uuid primary key default gen_random_uuid(),
+  order_id uuid not null references public.orders (id) on delete cascade,
+  amount_cents integer not null check (amount_cents > 0),
+  shipping_cents integer not null default 0,
+  items jsonb not null default '[]'::jsonb,
+  restock boolean not null default true,
+  reason text,
+  status text not null default 'pending' check (status in ('pending', 'succeeded', 'failed')),
+  provider text,
+  provider_refund_id text,
+  error text,
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  applied_at timestamptz
+);
+
+create index if not exists order_refunds_order_idx on public.order_refunds (order_id);
+
+alter table public.order_refunds enable row level security;
+
+drop policy if exists "order_refunds admin read" on public.order_refunds;
+create policy "order_refunds admin read"
+  on public.order_refunds for select
+  using (exists (select 1 from public.user_roles r where r.user_id = auth.uid() and r.role = 'admin'));
+
+-- Applies a refund the provider has accepted: marks the lines refunded, takes
+-- refunded songs back (gifts too), puts merch back in stock and moves the order
+-- to partially_refunded / refunded. Only the first call per refund does anything.
+create or replace function public.apply_order_refund(p_refund_id uuid)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  ref order_refunds;
+  ord orders;
+  item jsonb;
+  line record;
+  qty integer;
+  new_status text;
+begin
+  select * into ref from order_refunds where id = p_refund_id for update;
+  if not found then
+    raise exception 'Refund % not found', p_refund_id;
+  end if;
+
+  select * into ord from orders where id = ref.order_id for update;
+  if ref.applied_at is not null then
+    return ord.status;
+  end if;
+
+  for item in select * from jsonb_array_elements(ref.items)
+  loop
+    select id, song_id, sku, quantity, refunded_quantity, backordered into line
+    from order_items
+    where id = (item ->> 'order_item_id')::uuid and order_id = ord.id
+    for update;
+
+    if not found then
+      continue;
+    end if;
+
+    qty := least((item ->> 'quantity')::integer, line.quantity - line.refunded_quantity);
+    if qty is null or qty <= 0 then
+      continue;
+    end if;
+
+    update order_items set refunded_quantity = refunded_quantity + qty where id = line.id;
+
+    if line.song_id is not null and line.refunded_quantity + qty >= line.quantity then
+      -- whoever holds it through this order: the buyer, or the gift's recipient
+      delete from user_purchases where order_id = ord.id and song_id = line.song_id;
+      delete from song_gifts where order_item_id = line.id;
+    elsif line.sku is not null and ref.restock and ord.stock_applied_at is not null and not line.backordered then
+      update product_variants
+      set stock_qty = stock_qty + qty
+      where sku = line.sku and stock_qty is not null;
+    end if;
+  end loop;
+
+  new_status := case
+    when ord.refunded_cents + ref.amount_cents >= ord.total_cents then 'refunded'
+    else 'partially_refunded'
+  end;
+
+  update orders
+  set refunded_cents = least(refunded_cents + ref.amount_cents, total_cents), status = new_status
+  where id = ord.id;
+
+  update order_refunds set status = 'succeeded', applied_at = now() where id = ref.id;
+
+  insert into order_status_history (order_id, status, note, amount_cents, created_by)
+  values (ord.id, new_status, ref.reason, ref.amount_cents, ref.created_by);
+
+  return new_status;
+end;
+$$;
+
+revoke all on function public.apply_order_refund(uuid) from public, anon, authenticated;
+grant execute on function public.apply_order_refund(uuid) to service_role;
+
+-- Start every existing order's history from where it is now
+insert into public.order_status_history (order_id, status, created_at)
+select o.id, 'pending', o.created_at
+from public.orders o
+where not exists (select 1 from public.order_status_history h where h.order_id = o.id);
+
+insert into public.order_status_history (order_id, status, created_at)
+select o.id, o.status, coalesce(o.paid_at, o.created_at)
+from public.orders o
+where o.status <> 'pending'
+  and not exists (select 1 from public.order_status_history h where h.order_id = o.id and h.status = o.status);
@@ -0,0 +1,241 @@
+-- Native ticket sales. Each show has tiers (early bird, general, VIP...) with a
+-- capacity and an optional sale window. Tiers go through the same cart and
+-- checkout as songs and merch; when the order is paid the webhook calls
+-- issue_order_tickets(), which gives every seat its own ticket and QR code.
+
+create table if not exists public.ticket_tiers (
+  id uuid primary key default gen_random_uuid(),
+  show_id uuid not null references public.shows (id) on delete cascade,
+  name text not null,
+  description text,
+  price_cents integer not null check (price_cents > 0),
+  capacity integer not null check (capacity > 0),
+  -- null: on sale from the moment the tier is active / until the show
+  sales_start timestamptz,
+  sales_end timestamptz,
+  sort_order integer not null default 0,
+  is_active boolean not null default true,
+  created_at timestamptz not null default now(),
+  check (sales_end is null or sales_start is null or sales_end > sales_start)
+);
+
+create index if not exists ticket_tiers_show_idx on public.ticket_tiers (show_id, sort_order);
+
+alter table public.ticket_tiers enable row level security;
+
+drop policy if exists "ticket_tiers are public" on public.ticket_tiers;
+create policy "ticket_tiers are public"
+  on public.ticket_tiers for select
+  using (true);
+
+drop policy if exists "ticket_tiers admin write" on public.ticket_tiers;
+create policy "ticket_tiers admin write"
+  on public.ticket_tiers for all
+  using (exists (select 1 from public.user_roles r where r.user_id = auth.uid() and r.role = 'admin'))
+  with check (exists (select 1 from public.user_roles r where r.user_id = auth.uid() and r.role = 'admin'));
+
+-- Cart and order lines: exactly one of song, merch or ticket tier.
+alter table public.cart_items
+  add column if not exists ticket_tier_id uuid references public.ticket_tiers (id) on delete cascade;
+
+alter table public.cart_items
+  drop constraint if exists cart_items_song_or_sku;
+
+alter table public.cart_items
+  add constraint cart_items_song_or_sku
+  check (num_nonnulls(song_id, sku, ticket_tier_id) = 1);
+
+-- A tier that has sold can't be deleted, only switched off (is_active)
+alter table public.order_items
+  add column if not exists ticket_tier_id uuid references public.ticket_tiers (id);
+
+alter table public.order_items
+  drop constraint if exists order_items_song_or_product;
+
+alter table public.order_items
+  add constraint order_items_song_or_product
+  check (num_nonnulls(song_id, product_id, ticket_tier_id) = 1);
+
+-- One row per seat. code is what the QR encodes; status 'void' once refunded.
+create table if not exists public.tickets (
+  id uuid primary key default gen_random_uuid(),
+  order_id uuid not null references public.orders (id) on delete cascade,
+  order_item_id uuid not null references public.order_items (id) on delete cascade,
+  tier_id uuid not null references public.ticket_tiers (id),
+  show_id uuid not null references public.shows (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  code text not null unique default replace(gen_random_uuid()::text, '-', ''),
+  status text not null default 'valid' check (status in ('valid', 'void')),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists tickets_user_idx on public.tickets (user_id, created_at);
+create index if not exists tickets_order_item_idx on public.tickets (order_item_id);
+
+alter table public.tickets enable row level security;
+
+drop policy if exists "tickets own read" on public.tickets;
+create policy "tickets own read"
+  on public.tickets for select
+  using (user_id = auth.uid());
+
+drop policy if exists "tickets admin read" on public.tickets;
+create policy "tickets admin read"
+  on public.tickets for select
+  using (exists (select 1 from public.user_roles r where r.user_id = auth.uid() and r.role = 'admin'));
+
+-- Seats left per tier. Paid seats count until refunded; a pending checkout
+-- holds its seats for 30 minutes so two shoppers can't both buy the last one.
+-- Runs as the view owner so shoppers see counts without reading other orders.
+create or replace view public.ticket_tier_availability as
+select
+  t.id as tier_id,
+  t.capacity,
+  coalesce(s.taken, 0)::integer as taken,
+  greatest(t.capacity - coalesce(s.taken, 0), 0)::integer as remaining
+from public.ticket_tiers t
+left join (
+  select oi.ticket_tier_id, sum(oi.quantity - oi.refunded_quantity) as taken
+  from public.order_items oi
+  join public.orders o on o.id = oi.order_id
+  where oi.ticket_tier_id is not null
+    and (
+      o.status in ('paid', 'partially_refunded', 'refunded')
+      or (o.status = 'pending' and o.created_at > now() - interval '30 minutes')
+    )
+  group by oi.ticket_tier_id
+) s on s.ticket_tier_id = t.id;
+
+grant select on public.ticket_tier_availability to anon, authenticated;
+
+-- Issues the tickets a paid order is owed: one per unrefunded seat on each
+-- ticket line. Tops up rather than inserts, so calling it again is harmless.
+-- Returns how many tickets this call created.
+create or replace function public.issue_order_tickets(p_order_id uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  ord orders;
+  line record;
+  have integer;
+  issued integer := 0;
+begin
+  select * into ord from orders where id = p_order_id for update;
+  if not found then
+    raise exception 'Order % not found', p_order_id;
+  end if;
+  if ord.status <> 'paid' then
+    return 0;
+  end if;
+
+  for line in
+    select oi.id, oi.ticket_tier_id, oi.quantity, oi.refunded_quantity, t.show_id
+    from order_items oi
+    join ticket_tiers t on t.id = oi.ticket_tier_id
+    where oi.order_id = ord.id
+  loop
+    select count(*) into have from tickets where order_item_id = line.id;
+    if have >= line.quantity - line.refunded_quantity then
+      continue;
+    end if;
+
+    insert into tickets (order_id, order_item_id, tier_id, show_id, user_id)
+    select ord.id, line.id, line.ticket_tier_id, line.show_id, ord.user_id
+    from generate_series(1, line.quantity - line.refunded_quantity - have);
+
+    issued := issued + line.quantity - line.refunded_quantity - have;
+  end loop;
+
+  return issued;
+end;
+$$;
+
+revoke all on function public.issue_order_tickets(uuid) from public, anon, authenticated;
+grant execute on function public.issue_order_tickets(uuid) to service_role;
+
+-- Same as before, plus: refunded seats void that many of the line's tickets.
+create or replace function public.apply_order_refund(p_refund_id uuid)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  ref order_refunds;
+  ord orders;
+  item jsonb;
+  line record;
+  qty integer;
+  new_status text;
+begin
+  select * into ref from order_refunds where id = p_refund_id for update;
+  if not found then
+    raise exception 'Refund % not found', p_refund_id;
+  end if;
+
+  select * into ord from orders where id = ref.order_id for update;
+  if ref.applied_at is not null then
+    return ord.status;
+  end if;
+
+  for item in select * from jsonb_array_elements(ref.items)
+  loop
+    select id, song_id, sku, ticket_tier_id, quantity, refunded_quantity, backordered into line
+    from order_items
+    where id = (item ->> 'order_item_id')::uuid and order_id = ord.id
+    for update;
+
+    if not found then
+      continue;
+    end if;
+
+    qty := least((item ->> 'quantity')::integer, line.quantity - line.refunded_quantity);
+    if qty is null or qty <= 0 then
+      continue;
+    end if;
+
+    update order_items set refunded_quantity = refunded_quantity + qty where id = line.id;
+
+    if line.song_id is not null and line.refunded_quantity + qty >= line.quantity then
+      -- whoever holds it through this order: the buyer, or the gift's recipient
+      delete from user_purchases where order_id = ord.id and song_id = line.song_id;
+      delete from song_gifts where order_item_id = line.id;
+    elsif line.ticket_tier_id is not null then
+      update tickets
+      set status = 'void'
+      where id in (
+        select id from tickets
+        where order_item_id = line.id and status = 'valid'
+        order by created_at desc
+        limit qty
+      );
+    elsif line.sku is not null and ref.restock and ord.stock_applied_at is not null and not line.backordered then
+      update product_variants
+      set stock_qty = stock_qty + qty
+      where sku = line.sku and stock_qty is not null;
+    end if;
+  end loop;
+
+  new_status := case
+    when ord.refunded_cents + ref.amount_cents >= ord.total_cents then 'refunded'
+    else 'partially_refunded'
+  end;
+
+  update orders
+  set refunded_cents = least(refunded_cents + ref.amount_cents, total_cents), status = new_status
+  where id = ord.id;
+
+  update order_refunds set status = 'succeeded', applied_at = now() where id = ref.id;
+
+  insert into order_status_history (order_id, status, note, amount_cents, created_by)
+  values (ord.id, new_status, ref.reason, ref.amount_cents, ref.created_by);
+
+  return new_status;
+end;
+$$;
+
+revoke all on function public.apply_order_refund(uuid) from public, anon, authenticated;
+grant execute on function public.apply_order_refund(uuid) to service_role;
@@ -0,0 +1,9 @@
+-- Door check-in. netlify/functions/ticket-checkin.ts marks a ticket used the
+-- first time it is scanned; checked_in_at is when the crew scanned it (which,
+-- for scans made offline and synced later, is earlier than when it arrived).
+
+alter table public.tickets
+  add column if not exists checked_in_at timestamptz,
+  add column if not exists checked_in_by uuid references auth.users (id) on delete set null;
+
+create index if not exists tickets_show_idx on public.tickets (show_id);
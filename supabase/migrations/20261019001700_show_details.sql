@@ -0,0 +1,16 @@
+-- Show detail pages (/shows/:id): who's playing, where exactly, when the doors
+-- open and who gets in. Coordinates place the venue on the map; without them
+-- the page links out to a map search for the address instead.
+
+alter table public.shows
+  add column if not exists lineup text[] not null default '{}',
+  add column if not exists venue_address text,
+  add column if not exists latitude double precision check (latitude between -90 and 90),
+  add column if not exists longitude double precision check (longitude between -180 and 180),
+  add column if not exists doors_time time,
+  -- null = not stated, 0 = all ages
+  add column if not exists min_age integer check (min_age between 0 and 21);
+
+update public.shows
+set lineup = array['Kiefbeats', 'BliximStraat']
+where slug = 'welkom-bokkieweek-2026' and lineup = '{}';
@@ -0,0 +1,77 @@
+-- Past shows: whether a show is past is worked out from its date in its own
+-- timezone (src/lib/showTime.ts), so the manual is_past flag goes. Once a show
+-- is over it becomes an archive entry with a setlist, an attendance note and
+-- its own photos, all edited in Admin.
+
+alter table public.shows
+  add column if not exists timezone text not null default 'Africa/Johannesburg',
+  add column if not exists attendance_note text;
+
+alter table public.shows
+  drop column if exists is_past;
+
+-- One row per song played, in order. song_id links catalogue songs; covers
+-- and unreleased songs just have a title.
+create table if not exists public.show_setlist_entries (
+  id uuid primary key default gen_random_uuid(),
+  show_id uuid not null references public.shows (id) on delete cascade,
+  position integer not null check (position >= 0),
+  song_id uuid references public.songs (id) on delete set null,
+  title text not null check (length(trim(title)) > 0),
+  note text,
+  unique (show_id, position)
+);
+
+alter table public.show_setlist_entries enable row level security;
+
+drop policy if exists "show setlists are public" on public.show_setlist_entries;
+create policy "show setlists are public"
+  on public.show_setlist_entries for select using (true);
+
+drop policy if exists "show setlists admin write" on public.show_setlist_entries;
+create policy "show setlists admin write"
+  on public.show_setlist_entries for all
+  using (exists (select 1 from public.user_roles r where r.user_id = auth.uid() and r.role = 'admin'))
+  with check (exists (select 1 from public.user_roles r where r.user_id = auth.uid() and r.role = 'admin'));
+
+-- Photos live in the public "show-photos" bucket; storage_path lets Admin
+-- remove the file along with the row.
+create table if not exists public.show_photos (
+  id uuid primary key default gen_random_uuid(),
+  show_id uuid not null references public.shows (id) on delete cascade,
+  storage_path text not null,
+  image_url text not null,
+  caption text,
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists show_photos_show_idx on public.show_photos (show_id, sort_order);
+
+alter table public.show_photos enable row level security;
+
+drop policy if exists "show photos are public" on public.show_photos;
+create policy "show photos are public"
+  on public.show_photos for select using (true);
+
+drop policy if exists "show photos admin write" on public.show_photos;
+create policy "show photos admin write"
+  on public.show_photos for all
+  using (exists (select 1 from public.user_roles r where r.user_id = auth.uid() and r.role = 'admin'))
+  with check (exists (select 1 from public.user_roles r where r.user_id = auth.uid() and r.role = 'admin'));
+
+insert into storage.buckets (id, name, public)
+values ('show-photos', 'show-photos', true)
+on conflict (id) do update set public = true;
+
+drop policy if exists "show photos admin upload" on storage.objects;
+create policy "show photos admin upload"
+  on storage.objects for all
+  using (
+    bucket_id = 'show-photos'
+    and exists (select 1 from public.user_roles r where r.user_id = auth.uid() and r.role = 'admin')
+  )
+  with check (
+    bucket_id = 'show-photos'
+    and exists (select 1 from public.user_roles r where r.user_id = auth.uid() and r.role = 'admin')
+  );
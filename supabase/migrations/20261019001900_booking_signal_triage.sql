@@ -0,0 +1,29 @@
+-- Booking signals triage. The Admin Demand tab works through the pins people
+-- drop (netlify/functions/booking-signal.ts): each gets a status and private
+-- notes, and a repeat submission points at the first one through duplicate_of
+-- so it neither counts twice on the public demand map nor gets called twice.
+
+alter table public.booking_signals
+  add column if not exists status text not null default 'new'
+    check (status in ('new', 'contacted', 'booked', 'ignored')),
+  add column if not exists admin_notes text,
+  add column if not exists status_changed_at timestamptz,
+  add column if not exists duplicate_of uuid references public.booking_signals (id) on delete set null;
+
+create index if not exists booking_signals_created_idx on public.booking_signals (created_at desc);
+create index if not exists booking_signals_status_idx on public.booking_signals (status);
+
+-- Inserts and the public map go through the service role; only admins read
+-- or edit rows directly.
+alter table public.booking_signals enable row level security;
+
+drop policy if exists "booking signals admin read" on public.booking_signals;
+create policy "booking signals admin read"
+  on public.booking_signals for select
+  using (exists (select 1 from public.user_roles r where r.user_id = auth.uid() and r.role = 'admin'));
+
+drop policy if exists "booking signals admin update" on public.booking_signals;
+create policy "booking signals admin update"
+  on public.booking_signals for update
+  using (exists (select 1 from public.user_roles r where r.user_id = auth.uid() and r.role = 'admin'))
+  with check (exists (select 1 from public.user_roles r where r.user_id = auth.uid() and r.role = 'admin'));
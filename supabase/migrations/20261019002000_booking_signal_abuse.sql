@@ -0,0 +1,54 @@
+-- Abuse protection for the public booking pin. netlify/functions/booking-signal.ts
+-- hands out a proof-of-work challenge per submission, rate-limits by IP and
+-- browser fingerprint, and quarantines signals that look like spam so they stay
+-- off the demand map until an admin releases them.
+--
+-- ip_hash and fingerprint_hash hold HMAC-SHA256 digests keyed with
+-- BOOKING_SIGNAL_HASH_SECRET, never the raw values: a plain hash of an IPv4
+-- address can be reversed by hashing them all.
+
+alter table public.booking_signals
+  add column if not exists ip_hash text,
+  add column if not exists fingerprint_hash text,
+  add column if not exists quarantined boolean not null default false,
+  add column if not exists quarantine_reasons text[] not null default '{}';
+
+create index if not exists booking_signals_ip_idx on public.booking_signals (ip_hash, created_at desc);
+create index if not exists booking_signals_fingerprint_idx on public.booking_signals (fingerprint_hash, created_at desc);
+
+-- Same limits as src/lib/bookingSignals.ts. Not validated, so rows from before
+-- the checks existed are left as they are.
+alter table public.booking_signals
+  drop constraint if exists booking_signals_field_lengths;
+alter table public.booking_signals
+  add constraint booking_signals_field_lengths check (
+    char_length(coalesce(name, '')) <= 80
+    and char_length(coalesce(town, '')) <= 80
+    and char_length(coalesce(message, '')) <= 1000
+  ) not valid;
+
+alter table public.booking_signals
+  drop constraint if exists booking_signals_province_known;
+alter table public.booking_signals
+  add constraint booking_signals_province_known check (
+    province in (
+      'Gauteng', 'Western Cape', 'KwaZulu-Natal', 'Eastern Cape', 'Free State',
+      'Limpopo', 'Mpumalanga', 'North West', 'Northern Cape'
+    )
+  ) not valid;
+
+-- One row per challenge handed out; used_at makes each good for one signal.
+-- Only the service role touches this table.
+create table if not exists public.booking_signal_challenges (
+  id uuid primary key default gen_random_uuid(),
+  salt text not null,
+  difficulty integer not null check (difficulty between 1 and 32),
+  ip_hash text,
+  created_at timestamptz not null default now(),
+  used_at timestamptz
+);
+
+create index if not exists booking_signal_challenges_ip_idx
+  on public.booking_signal_challenges (ip_hash, created_at desc);
+
+alter table public.booking_signal_challenges enable row level security;
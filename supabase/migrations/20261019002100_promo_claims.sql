@@ -0,0 +1,57 @@
+-- Claims a promo code for a new order in one step, so checkouts started at the
+-- same time can't all slip under max_redemptions / per_user_limit. Paid orders
+-- count, and so do pending ones from the last p_hold_minutes (a checkout still
+-- being paid for); older pending orders were abandoned and give their use back.
+-- Returns null when the redemption was recorded, otherwise why it wasn't:
+-- 'used_up' or 'user_limit'. Called by netlify/functions/create-checkout.ts.
+create or replace function public.claim_promo_redemption(
+  p_promo_code_id uuid,
+  p_order_id uuid,
+  p_user_id uuid,
+  p_discount_cents integer,
+  p_hold_minutes integer
+)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  promo promo_codes;
+  total_uses integer;
+  user_uses integer;
+begin
+  -- the row lock queues concurrent claims for the same code
+  select * into promo from promo_codes where id = p_promo_code_id for update;
+  if not found then
+    raise exception 'Promo code % not found', p_promo_code_id;
+  end if;
+
+  select
+    count(*),
+    count(*) filter (where r.user_id = p_user_id)
+  into total_uses, user_uses
+  from promo_redemptions r
+  join orders o on o.id = r.order_id
+  where r.promo_code_id = p_promo_code_id
+    and (
+      o.status = 'paid'
+      or (o.status = 'pending' and r.created_at > now() - make_interval(mins => p_hold_minutes))
+    );
+
+  if promo.max_redemptions is not null and total_uses >= promo.max_redemptions then
+    return 'used_up';
+  end if;
+  if promo.per_user_limit is not null and user_uses >= promo.per_user_limit then
+    return 'user_limit';
+  end if;
+
+  insert into promo_redemptions (promo_code_id, order_id, user_id, discount_cents)
+  values (p_promo_code_id, p_order_id, p_user_id, p_discount_cents);
+
+  return null;
+end;
+$$;
+
+revoke all on function public.claim_promo_redemption(uuid, uuid, uuid, integer, integer) from public, anon, authenticated;
+grant execute on function public.claim_promo_redemption(uuid, uuid, uuid, integer, integer) to service_role;
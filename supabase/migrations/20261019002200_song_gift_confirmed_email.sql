@@ -0,0 +1,66 @@
+-- Gifts go to an email address, so only someone who has proved they own it may
+-- see or claim them. The JWT's email claim is set at sign-up, before the
+-- address is confirmed, so read it from auth.users with email_confirmed_at.
+
+-- The caller's email once confirmed, lower-cased; null until then. Policies run
+-- as the caller, who can't read auth.users, hence security definer.
+create or replace function public.confirmed_email()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select lower(u.email)
+  from auth.users u
+  where u.id = auth.uid() and u.email_confirmed_at is not null;
+$$;
+
+revoke all on function public.confirmed_email() from public;
+grant execute on function public.confirmed_email() to authenticated;
+
+drop policy if exists "song_gifts recipient read" on public.song_gifts;
+create policy "song_gifts recipient read"
+  on public.song_gifts for select
+  using (claimed_by = auth.uid() or recipient_email = public.confirmed_email());
+
+-- Moves every unclaimed gift sent to the caller's confirmed email into their
+-- library. Returns how many gifts were claimed by this call. Safe to call on
+-- every sign-in; claims nothing until the address is confirmed.
+create or replace function public.claim_song_gifts()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  me uuid := auth.uid();
+  my_email text;
+  claimed integer;
+begin
+  select lower(u.email) into my_email
+  from auth.users u
+  where u.id = me and u.email_confirmed_at is not null;
+
+  if me is null or coalesce(my_email, '') = '' then
+    return 0;
+  end if;
+
+  update song_gifts
+  set claimed_by = me, claimed_at = now()
+  where claimed_by is null and recipient_email = my_email;
+  get diagnostics claimed = row_count;
+
+  -- also repairs anything a previous call claimed but didn't grant
+  insert into user_purchases (user_id, song_id, order_id)
+  select me, g.song_id, g.order_id
+  from song_gifts g
+  where g.claimed_by = me
+  on conflict (user_id, song_id) do nothing;
+
+  return claimed;
+end;
+$$;
+
+revoke all on function public.claim_song_gifts() from public;
+grant execute on function public.claim_song_gifts() to authenticated;
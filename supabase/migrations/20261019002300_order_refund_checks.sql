@@ -0,0 +1,99 @@
+-- apply_order_refund checks what is left to refund itself, with the order
+-- locked, so two refunds racing each other can't both take the same units or
+-- more money than was paid. A request naming a line twice counts both.
+--
+-- The admin's reason stays on order_refunds; customers read order_status_history,
+-- so the history row gets a fixed note instead.
+--
+-- Refunding some of a line's tickets voids ones nobody has scanned in yet
+-- before any that were used at the door.
+
+create or replace function public.apply_order_refund(p_refund_id uuid)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  ref order_refunds;
+  ord orders;
+  item record;
+  line record;
+  new_status text;
+begin
+  select * into ref from order_refunds where id = p_refund_id for update;
+  if not found then
+    raise exception 'Refund % not found', p_refund_id;
+  end if;
+
+  select * into ord from orders where id = ref.order_id for update;
+  if ref.applied_at is not null then
+    return ord.status;
+  end if;
+
+  if ref.amount_cents > ord.total_cents - ord.refunded_cents then
+    raise exception 'Refund % is more than is left to refund on order %', ref.id, ord.id;
+  end if;
+
+  for item in
+    select (e ->> 'order_item_id')::uuid as order_item_id, sum((e ->> 'quantity')::integer) as quantity
+    from jsonb_array_elements(ref.items) e
+    group by 1
+  loop
+    select id, song_id, sku, ticket_tier_id, quantity, refunded_quantity, backordered into line
+    from order_items
+    where id = item.order_item_id and order_id = ord.id
+    for update;
+
+    if not found then
+      raise exception 'Refund % names item % that is not on order %', ref.id, item.order_item_id, ord.id;
+    end if;
+    if item.quantity is null or item.quantity <= 0 then
+      continue;
+    end if;
+    if item.quantity > line.quantity - line.refunded_quantity then
+      raise exception 'Refund % takes more of item % than is left', ref.id, line.id;
+    end if;
+
+    update order_items set refunded_quantity = refunded_quantity + item.quantity where id = line.id;
+
+    if line.song_id is not null and line.refunded_quantity + item.quantity >= line.quantity then
+      -- whoever holds it through this order: the buyer, or the gift's recipient
+      delete from user_purchases where order_id = ord.id and song_id = line.song_id;
+      delete from song_gifts where order_item_id = line.id;
+    elsif line.ticket_tier_id is not null then
+      update tickets
+      set status = 'void'
+      where id in (
+        select id from tickets
+        where order_item_id = line.id and status = 'valid'
+        order by (checked_in_at is not null), created_at desc
+        limit item.quantity
+      );
+    elsif line.sku is not null and ref.restock and ord.stock_applied_at is not null and not line.backordered then
+      update product_variants
+      set stock_qty = stock_qty + item.quantity
+      where sku = line.sku and stock_qty is not null;
+    end if;
+  end loop;
+
+  new_status := case
+    when ord.refunded_cents + ref.amount_cents >= ord.total_cents then 'refunded'
+    else 'partially_refunded'
+  end;
+
+  update orders
+  set refunded_cents = refunded_cents + ref.amount_cents, status = new_status
+  where id = ord.id;
+
+  update order_refunds set status = 'succeeded', applied_at = now() where id = ref.id;
+
+  insert into order_status_history (order_id, status, note, amount_cents, created_by)
+  values (ord.id, new_status, 'Refund issued', ref.amount_cents, ref.created_by);
+
+  return new_status;
+end;
+$$;
+
+revoke all on function public.apply_order_refund(uuid) from public, anon, authenticated;
+grant execute on function public.apply_order_refund(uuid) to service_role;
@@ -0,0 +1,55 @@
+-- Run with `supabase test db`. A gift is only seen and claimed by someone who
+-- has confirmed the email it was sent to.
+
+begin;
+create extension if not exists pgtap with schema extensions;
+
+select plan(4);
+
+insert into auth.users (id, email, email_confirmed_at) values
+  ('00000000-0000-4000-8000-000000000001', 'sender@example.com', now()),
+  ('00000000-0000-4000-8000-000000000002', 'friend@example.com', null);
+
+insert into public.songs (id, title, price_cents)
+values ('00000000-0000-4000-8000-0000000000a1', 'Mooiste Song', 1500);
+
+insert into public.orders (id, user_id, status, total_cents)
+values ('00000000-0000-4000-8000-0000000000b1', '00000000-0000-4000-8000-000000000001', 'paid', 1500);
+
+insert into public.order_items (id, order_id, song_id, title, quantity, price_cents)
+values (
+  '00000000-0000-4000-8000-0000000000c1',
+  '00000000-0000-4000-8000-0000000000b1',
+  '00000000-0000-4000-8000-0000000000a1',
+  'Mooiste Song', 1, 1500
+);
+
+insert into public.song_gifts (order_id, order_item_id, song_id, sender_id, recipient_email)
+values (
+  '00000000-0000-4000-8000-0000000000b1',
+  '00000000-0000-4000-8000-0000000000c1',
+  '00000000-0000-4000-8000-0000000000a1',
+  '00000000-0000-4000-8000-000000000001',
+  'friend@example.com'
+);
+
+-- Signed up as the recipient, with the email in the token, but not confirmed yet
+set local role authenticated;
+select set_config(
+  'request.jwt.claims',
+  '{"sub": "00000000-0000-4000-8000-000000000002", "email": "friend@example.com", "role": "authenticated"}',
+  true
+);
+
+is(public.claim_song_gifts(), 0, 'an unconfirmed account claims nothing');
+is_empty('select id from public.song_gifts', 'an unconfirmed account sees no gifts');
+
+reset role;
+update auth.users set email_confirmed_at = now() where id = '00000000-0000-4000-8000-000000000002';
+set local role authenticated;
+
+is(public.claim_song_gifts(), 1, 'the gift is claimed once the email is confirmed');
+isnt_empty('select id from public.song_gifts', 'and the recipient can see it');
+
+select * from finish();
+rollback;